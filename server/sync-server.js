@@ -0,0 +1,218 @@
+/**
+ * Reference Sync Server
+ *
+ * A small Node HTTP server with the same ingest/fetch semantics as
+ * supabase/functions/ingest_events.sql and fetch_events.sql, for running the
+ * DRO on a local network with no internet and for end-to-end sync tests.
+ *
+ *   POST /rpc/ingest_events  { _events: Event[] }  -> [{ id, inserted }]
+ *   POST /rpc/fetch_events   { _since_ms, _operation_id? } -> event rows
+ *   GET  /health
+ *
+ * Usage: node server/sync-server.js
+ *   SYNC_PORT       port to listen on (default 8787)
+ *   SYNC_DATA_FILE  JSON-lines file to persist events in (default: memory only)
+ *   SYNC_TOKEN      bearer token clients must send (default: none)
+ */
+
+const http = require('http');
+const fs = require('fs');
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Mirrors `nullif(x, '')::uuid`: empty means null, anything else must be a uuid
+function optionalUuid(value, field) {
+  if (value === undefined || value === null || value === '') return null;
+  if (!UUID.test(String(value))) {
+    throw new Error(`invalid input syntax for type uuid: "${value}" (${field})`);
+  }
+  return String(value).toLowerCase();
+}
+
+// Mirrors the column list and casts in ingest_events.sql
+function eventToRow(e) {
+  if (!e || typeof e !== 'object') throw new Error('event must be an object');
+
+  const id = optionalUuid(e.id, 'id');
+  if (!id) throw new Error('null value in column "id"');
+  if (!e.type) throw new Error('null value in column "type"');
+  if (!e.actorId) throw new Error('null value in column "actor_id"');
+  if (e.payload === undefined || e.payload === null) throw new Error('null value in column "payload"');
+
+  const tsMs = Number(e.timestamp);
+  if (!Number.isInteger(tsMs)) throw new Error(`invalid input syntax for type bigint: "${e.timestamp}"`);
+
+  const sequence = e.sequence === undefined || e.sequence === null || e.sequence === '' ? null : Number(e.sequence);
+  if (sequence !== null && !Number.isInteger(sequence)) {
+    throw new Error(`invalid input syntax for type integer: "${e.sequence}"`);
+  }
+
+  return {
+    id,
+    type: e.type,
+    schema_version: Number(e.schemaVersion) || 1,
+    actor_id: e.actorId,
+    device_id: e.deviceId ?? null,
+    session_id: e.sessionId ?? null,
+    operation_id: optionalUuid(e.operationId, 'operation_id'),
+    ts_ms: tsMs,
+    occurred_at: new Date(tsMs).toISOString(),
+    sequence,
+    vector_clock: e.vectorClock ?? null,
+    payload: e.payload,
+    causation_id: optionalUuid(e.causationId, 'causation_id'),
+    correlation_id: optionalUuid(e.correlationId, 'correlation_id'),
+    hash: e.hash ?? null,
+    previous_hash: e.previousHash ?? null,
+    received_at: new Date().toISOString(),
+    source: 'client',
+  };
+}
+
+class EventStore {
+  constructor(dataFile) {
+    this.rows = new Map();
+    this.dataFile = dataFile || null;
+
+    if (this.dataFile && fs.existsSync(this.dataFile)) {
+      for (const line of fs.readFileSync(this.dataFile, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        const row = JSON.parse(line);
+        this.rows.set(row.id, row);
+      }
+    }
+  }
+
+  /**
+   * Insert a batch idempotently. Like the SQL function, one invalid event
+   * fails the whole batch and nothing is written.
+   */
+  ingest(events) {
+    if (!Array.isArray(events)) throw new Error('_events must be an array');
+
+    const rows = events.map(eventToRow);
+    const results = [];
+    const inserted = [];
+
+    for (const row of rows) {
+      if (this.rows.has(row.id)) {
+        results.push({ id: row.id, inserted: false });
+        continue;
+      }
+      this.rows.set(row.id, row);
+      inserted.push(row);
+      results.push({ id: row.id, inserted: true });
+    }
+
+    if (this.dataFile && inserted.length > 0) {
+      fs.appendFileSync(this.dataFile, inserted.map(row => JSON.stringify(row)).join('\n') + '\n');
+    }
+    return results;
+  }
+
+  /**
+   * Events after `sinceMs`, optionally for one operation, oldest first
+   */
+  fetch(sinceMs, operationId) {
+    const since = Number(sinceMs) || 0;
+    const operation = optionalUuid(operationId, 'operation_id');
+
+    return Array.from(this.rows.values())
+      .filter(row => row.ts_ms > since && (!operation || row.operation_id === operation))
+      .sort((a, b) => a.ts_ms - b.ts_ms);
+  }
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : {});
+      } catch {
+        reject(new Error('request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Idempotency-Key',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+/**
+ * Create (but don't start) a sync server
+ */
+function createSyncServer(options = {}) {
+  const store = options.store || new EventStore(options.dataFile);
+  const token = options.token || null;
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const path = (req.url || '').split('?')[0];
+    if (req.method === 'GET' && path === '/health') {
+      return send(res, 200, { status: 'ok', events: store.rows.size });
+    }
+
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return send(res, 401, { message: 'Missing or invalid token' });
+    }
+
+    if (req.method !== 'POST') return send(res, 405, { message: 'Method not allowed' });
+
+    let body;
+    try {
+      body = await readBody(req);
+    } catch (error) {
+      return send(res, 400, { message: error.message });
+    }
+
+    try {
+      if (path === '/rpc/ingest_events') {
+        return send(res, 200, store.ingest(body._events));
+      }
+      if (path === '/rpc/fetch_events') {
+        return send(res, 200, store.fetch(body._since_ms, body._operation_id));
+      }
+      return send(res, 404, { message: `Unknown function ${path}` });
+    } catch (error) {
+      return send(res, 400, { message: error.message });
+    }
+  });
+
+  server.store = store;
+  return server;
+}
+
+module.exports = { createSyncServer, EventStore, eventToRow };
+
+if (require.main === module) {
+  const port = Number(process.env.SYNC_PORT) || 8787;
+  const server = createSyncServer({
+    dataFile: process.env.SYNC_DATA_FILE,
+    token: process.env.SYNC_TOKEN,
+  });
+  server.listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port} (${server.store.rows.size} events loaded)`);
+  });
+}
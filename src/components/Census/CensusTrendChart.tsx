@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { CensusTrendPoint } from '@/types';
+
+interface CensusTrendChartProps {
+  title: string;
+  points: CensusTrendPoint[];
+  capacity?: number; // Draws a capacity line when known
+}
+
+/**
+ * Bar chart of shelter population over time, one bar per trend point
+ */
+export function CensusTrendChart({ title, points, capacity = 0 }: CensusTrendChartProps) {
+  const peak = Math.max(capacity, ...points.map(point => point.population), 1);
+  const latest = points[points.length - 1]?.population || 0;
+  const first = points[0]?.population || 0;
+  const change = latest - first;
+
+  const formatTime = (at: string) =>
+    new Date(at).toLocaleString([], points.length && spanHours(points) > 24
+      ? { weekday: 'short', hour: '2-digit' }
+      : { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-md font-semibold text-gray-900">{title}</h4>
+        <span className={`text-sm font-medium ${
+          change > 0 ? 'text-red-600' : change < 0 ? 'text-green-600' : 'text-gray-500'
+        }`}>
+          {change > 0 ? '+' : ''}{change}
+        </span>
+      </div>
+
+      <div className="relative h-32 flex items-end space-x-px">
+        {capacity > 0 && (
+          <div
+            className="absolute left-0 right-0 border-t border-dashed border-red-400"
+            style={{ bottom: `${(capacity / peak) * 100}%` }}
+            title={`Capacity ${capacity}`}
+          />
+        )}
+        {points.map(point => (
+          <div
+            key={point.at}
+            className="flex-1 bg-blue-500 rounded-t"
+            style={{ height: `${(point.population / peak) * 100}%` }}
+            title={`${formatTime(point.at)}: ${point.population}`}
+          />
+        ))}
+      </div>
+
+      {points.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{formatTime(points[0].at)}</span>
+          <span>{formatTime(points[points.length - 1].at)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function spanHours(points: CensusTrendPoint[]): number {
+  return (Date.parse(points[points.length - 1].at) - Date.parse(points[0].at)) / (60 * 60 * 1000);
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useFacilities } from '@/hooks/useMasterData';
+import { useShelterCensus } from '@/hooks/useShelterCensus';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { recordOvernightHeadcount, recordShelterMovement } from '@/lib/census/ShelterCensus';
+import { censusPopulation, censusTrend } from '@/lib/census/ShelterCensusProjection';
+import { dailyPopulationReport, dailyPopulationTable } from '@/lib/census/DailyPopulationReport';
+import { toCsv } from '@/lib/export/ICSFormCsv';
+import { OccupancyIndicator } from '@/components/GapIndicator';
+import { CensusTrendChart } from './CensusTrendChart';
+
+/**
+ * Shelter census: record check-ins, check-outs and overnight headcounts per
+ * shelter, see 24 and 72 hour population trends, and pull the DOC daily
+ * population report. Only counts are recorded - never resident details.
+ */
+export function ShelterCensusPanel() {
+  const { operationId, isHistorical } = useTimeTravel();
+  const { facilities } = useFacilities(operationId || undefined, 'shelter');
+  const { census, now } = useShelterCensus();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reportDate, setReportDate] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const canEdit = Boolean(operationId) && !isHistorical;
+
+  const shelters = useMemo(() => facilities.map(f => ({
+    id: f.id,
+    name: f.name,
+    county: f.county,
+    capacity: f.capacity?.maximum || 0,
+  })).sort((a, b) => a.name.localeCompare(b.name)), [facilities]);
+
+  const date = reportDate || localDate(now);
+  const report = useMemo(() => dailyPopulationReport(census, date, shelters, new Date(now)), [census, date, shelters, now]);
+  const selected = shelters.find(s => s.id === selectedId);
+  const trendSource = selected ? census[selected.id] : census;
+  const trendCapacity = selected ? selected.capacity : report.totals.capacity;
+
+  const record = async (command: () => Promise<unknown>) => {
+    setSaving(true);
+    try {
+      await command();
+    } catch (error) {
+      console.error('Error recording census:', error);
+      alert(error instanceof Error ? error.message : 'Error recording census');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const downloadReport = () => {
+    const blob = new Blob([toCsv(dailyPopulationTable(report))], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Daily_Population_Report_${report.date}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!operationId) {
+    return (
+      <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+        Open an operation to record the shelter census.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">Shelter Census</h2>
+        <p className="text-sm text-gray-600">
+          Record how many residents check in and out, and the overnight headcount. Counts only - no names or resident details.
+        </p>
+      </div>
+
+      {/* Shelters */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Shelter</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Occupancy</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Headcount</th>
+              {canEdit && <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Record</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {shelters.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-gray-500">No shelters in this operation yet.</td>
+              </tr>
+            )}
+            {shelters.map(shelter => {
+              const headcount = census[shelter.id]?.lastHeadcount;
+              const count = counts[shelter.id] ?? 1;
+              return (
+                <tr
+                  key={shelter.id}
+                  className={`cursor-pointer ${selectedId === shelter.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  onClick={() => setSelectedId(selectedId === shelter.id ? null : shelter.id)}
+                >
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-gray-900">{shelter.name}</div>
+                    <div className="text-xs text-gray-500">{shelter.county}</div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <OccupancyIndicator population={censusPopulation(census, shelter.id)} capacity={shelter.capacity} size="sm" />
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {headcount ? `${headcount.count} at ${new Date(headcount.recordedAt).toLocaleString()}` : 'None yet'}
+                  </td>
+                  {canEdit && (
+                    <td className="px-4 py-2" onClick={e => e.stopPropagation()}>
+                      <div className="flex items-center justify-end space-x-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={count}
+                          onChange={e => setCounts({ ...counts, [shelter.id]: parseInt(e.target.value) || 0 })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                          aria-label={`Count for ${shelter.name}`}
+                        />
+                        <button
+                          onClick={() => record(() => recordShelterMovement(operationId, shelter, 'check_in', count))}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Check in
+                        </button>
+                        <button
+                          onClick={() => record(() => recordShelterMovement(operationId, shelter, 'check_out', count))}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Check out
+                        </button>
+                        <button
+                          onClick={() => record(() => recordOvernightHeadcount(operationId, shelter, count))}
+                          disabled={saving}
+                          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Headcount
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Trends */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">
+          Population Trend: {selected ? selected.name : 'All shelters'}
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <CensusTrendChart title="Last 24 hours" points={censusTrend(trendSource, now, 24)} capacity={trendCapacity} />
+          <CensusTrendChart title="Last 72 hours" points={censusTrend(trendSource, now, 72, 3)} capacity={trendCapacity} />
+        </div>
+      </div>
+
+      {/* DOC Daily Population Report */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Daily Population Report</h3>
+            <p className="text-xs text-gray-500">Built from the census log for the DOC</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={date}
+              onChange={e => setReportDate(e.target.value || null)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <button
+              onClick={downloadReport}
+              className="px-3 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900"
+            >
+              Download CSV
+            </button>
+          </div>
+        </div>
+
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase">
+              <th className="text-left py-1">Shelter</th>
+              <th className="text-right py-1">Start</th>
+              <th className="text-right py-1">In</th>
+              <th className="text-right py-1">Out</th>
+              <th className="text-right py-1">Overnight</th>
+              <th className="text-right py-1">End</th>
+              <th className="text-right py-1">Peak</th>
+              <th className="text-right py-1">Capacity</th>
+              <th className="text-right py-1">Occupancy</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.shelters.map(row => (
+              <tr key={row.facilityId} className="border-b border-gray-100">
+                <td className="py-1">{row.facilityName}</td>
+                <td className="text-right py-1">{row.startPopulation}</td>
+                <td className="text-right py-1">{row.checkIns}</td>
+                <td className="text-right py-1">{row.checkOuts}</td>
+                <td className="text-right py-1">{row.overnightHeadcount ?? '-'}</td>
+                <td className="text-right py-1">{row.endPopulation}</td>
+                <td className="text-right py-1">{row.peakPopulation}</td>
+                <td className="text-right py-1">{row.capacity || '-'}</td>
+                <td className="text-right py-1">{row.capacity ? `${row.occupancyPercent}%` : '-'}</td>
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="py-1">Total</td>
+              <td />
+              <td className="text-right py-1">{report.totals.checkIns}</td>
+              <td className="text-right py-1">{report.totals.checkOuts}</td>
+              <td />
+              <td className="text-right py-1">{report.totals.endPopulation}</td>
+              <td />
+              <td className="text-right py-1">{report.totals.capacity}</td>
+              <td className="text-right py-1">{report.totals.occupancyPercent}%</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function localDate(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import React from 'react';
+import { ComplianceAlert } from '@/types';
+import { useComplianceAlerts } from '@/hooks/useComplianceAlerts';
+
+const RULE_LABELS: Record<ComplianceAlert['rule'], string> = {
+  space: 'Space',
+  toilets: 'Toilets',
+  handwash_stations: 'Hand wash',
+  cots: 'Cots',
+  supervisors: 'Supervisors',
+  shelter_workers: 'Workers',
+  overnight_supervisor: 'Overnight supervisor',
+};
+
+/**
+ * Compact compliance alert badges for a facility card
+ */
+export function ComplianceAlertBadges({ alerts, className = '' }: { alerts: ComplianceAlert[]; className?: string }) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {alerts.map(alert => (
+        <span
+          key={alert.rule}
+          title={alert.message}
+          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+            alert.severity === 'critical'
+              ? 'bg-red-100 text-red-800 border-red-200'
+              : 'bg-yellow-100 text-yellow-800 border-yellow-200'
+          }`}
+        >
+          {alert.severity === 'critical' ? '🚨' : '⚠️'} {RULE_LABELS[alert.rule]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Dashboard list of every active compliance alert, critical first
+ */
+export function ComplianceAlertsPanel({ alerts }: { alerts: ComplianceAlert[] }) {
+  if (alerts.length === 0) return null;
+
+  const critical = alerts.filter(alert => alert.severity === 'critical').length;
+
+  return (
+    <div className="bg-white border border-red-200 rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-semibold text-gray-900">Shelter Standards Alerts</h3>
+        <span className="text-sm text-gray-600">
+          {alerts.length} active{critical > 0 ? `, ${critical} critical` : ''}
+        </span>
+      </div>
+      <ul className="divide-y divide-gray-100 max-h-48 overflow-y-auto">
+        {alerts.map(alert => (
+          <li key={`${alert.facilityId}:${alert.rule}`} className="py-2 flex items-start justify-between text-sm">
+            <div>
+              <span className="mr-2">{alert.severity === 'critical' ? '🚨' : '⚠️'}</span>
+              <span className="font-medium text-gray-900">{alert.facilityName}</span>
+              <span className="text-gray-700"> - {alert.message}</span>
+            </div>
+            <span className="text-xs text-gray-500 whitespace-nowrap ml-4">
+              since {new Date(alert.raisedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * The operation's active compliance alerts, kept current as the monitor runs
+ */
+export function ActiveComplianceAlerts() {
+  const { alerts } = useComplianceAlerts();
+  return <ComplianceAlertsPanel alerts={alerts} />;
+}
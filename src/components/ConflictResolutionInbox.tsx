@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { getConflictInbox, ConflictChoice } from '@/lib/sync/ConflictInbox';
+import type { ConflictRecord } from '@/lib/store/LocalStore';
+import type { DataChange } from '@/lib/sync/ChangeDetector';
+import { upcastEvent } from '@/lib/events/upcasters';
+
+interface ConflictResolutionInboxProps {
+  operationId?: string;
+  currentUserId?: string;
+  className?: string;
+}
+
+type FieldPick = 'local' | 'remote';
+
+/**
+ * Inbox of sync conflicts that need a person to decide.
+ * Shows the local and remote payloads side by side, field by field.
+ */
+export function ConflictResolutionInbox({ operationId, currentUserId, className = '' }: ConflictResolutionInboxProps) {
+  const inbox = getConflictInbox();
+  const [conflicts, setConflicts] = useState<ConflictRecord[]>([]);
+  const [selected, setSelected] = useState<ConflictRecord | null>(null);
+  const [picks, setPicks] = useState<{ [field: string]: FieldPick }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const open = await inbox.list(operationId);
+      setConflicts(open);
+      setSelected(prev => open.find(c => c.id === prev?.id) || open[0] || null);
+    } catch (err) {
+      console.error('Error loading conflicts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load conflicts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [inbox, operationId]);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  useEffect(() => {
+    setPicks({});
+  }, [selected?.id]);
+
+  const changes: DataChange[] = selected ? inbox.diff(selected) : [];
+
+  const buildMergedPayload = () => {
+    if (!selected) return null;
+    const merged = { ...upcastEvent(selected.local).payload };
+    changes.forEach(change => {
+      if ((picks[change.field] || 'local') === 'remote') {
+        if (change.newValue === undefined) {
+          delete merged[change.field];
+        } else {
+          merged[change.field] = change.newValue;
+        }
+      }
+    });
+    return merged;
+  };
+
+  const resolve = async (choice: ConflictChoice) => {
+    if (!selected) return;
+    setIsResolving(true);
+    setError(null);
+    try {
+      await inbox.resolve(selected.id, choice, {
+        mergedPayload: choice === 'merged' ? buildMergedPayload() : undefined,
+        resolvedBy: currentUserId,
+      });
+      await loadConflicts();
+    } catch (err) {
+      console.error('Error resolving conflict:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const formatValue = (value: any) => {
+    if (value === undefined) return <span className="italic text-gray-400">(not set)</span>;
+    if (typeof value === 'object') {
+      return <pre className="text-xs whitespace-pre-wrap break-all">{JSON.stringify(value, null, 2)}</pre>;
+    }
+    return String(value);
+  };
+
+  const hasRemotePicks = Object.values(picks).some(pick => pick === 'remote');
+
+  return (
+    <div className={`bg-white border rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Sync Conflicts</h3>
+        <div className="flex items-center space-x-3">
+          <span className={`text-sm font-medium ${conflicts.length > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+            {conflicts.length > 0 ? `⚠️ ${conflicts.length} waiting` : '✅ None waiting'}
+          </span>
+          <button
+            onClick={loadConflicts}
+            disabled={isLoading}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+          >
+            🔄 Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-800">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading conflicts...</div>
+      ) : conflicts.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No conflicts need attention. Edits from other devices merged automatically.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {/* Conflict list */}
+          <div className="md:col-span-1 border rounded divide-y max-h-[32rem] overflow-y-auto">
+            {conflicts.map(conflict => (
+              <button
+                key={conflict.id}
+                onClick={() => setSelected(conflict)}
+                className={`w-full text-left p-3 text-sm ${
+                  selected?.id === conflict.id ? 'bg-red-50 border-l-4 border-red-600' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium text-gray-900">{conflict.eventType}</div>
+                <div className="text-xs text-gray-500">
+                  {conflict.local.actorId} vs {conflict.remote.actorId}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {new Date(conflict.detectedAt).toLocaleString()}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Side-by-side diff */}
+          {selected && (
+            <div className="md:col-span-3">
+              <table className="w-full text-sm border">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="p-2 text-left w-1/5">Field</th>
+                    <th className="p-2 text-left w-2/5">
+                      This device
+                      <div className="text-xs font-normal text-gray-500">
+                        {selected.local.actorId} • {new Date(selected.local.timestamp).toLocaleString()}
+                      </div>
+                    </th>
+                    <th className="p-2 text-left w-2/5">
+                      Other device
+                      <div className="text-xs font-normal text-gray-500">
+                        {selected.remote.actorId} • {new Date(selected.remote.timestamp).toLocaleString()}
+                      </div>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="p-3 text-gray-500">Payloads are identical.</td>
+                    </tr>
+                  )}
+                  {changes.map(change => {
+                    const pick = picks[change.field] || 'local';
+                    return (
+                      <tr key={change.field} className="border-t align-top">
+                        <td className="p-2 font-medium text-gray-700">{change.field}</td>
+                        <td
+                          onClick={() => setPicks(prev => ({ ...prev, [change.field]: 'local' }))}
+                          className={`p-2 cursor-pointer ${pick === 'local' ? 'bg-blue-50 ring-1 ring-blue-300' : ''}`}
+                        >
+                          {formatValue(change.oldValue)}
+                        </td>
+                        <td
+                          onClick={() => setPicks(prev => ({ ...prev, [change.field]: 'remote' }))}
+                          className={`p-2 cursor-pointer ${pick === 'remote' ? 'bg-blue-50 ring-1 ring-blue-300' : ''}`}
+                        >
+                          {formatValue(change.newValue)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <p className="text-xs text-gray-500 mt-2">
+                Click a cell to choose that value for a hand merge.
+              </p>
+
+              <div className="flex justify-end space-x-2 mt-4">
+                <button
+                  onClick={() => resolve('local')}
+                  disabled={isResolving}
+                  className="px-4 py-2 rounded font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Keep This Device
+                </button>
+                <button
+                  onClick={() => resolve('remote')}
+                  disabled={isResolving}
+                  className="px-4 py-2 rounded font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Accept Other Device
+                </button>
+                <button
+                  onClick={() => resolve('merged')}
+                  disabled={isResolving || !hasRemotePicks}
+                  className="px-4 py-2 rounded font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  Save Merge
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ConflictResolutionInbox;
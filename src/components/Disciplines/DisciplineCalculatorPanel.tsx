@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DisciplineDefinition } from '@/lib/disciplines/DisciplineCatalog';
+import {
+  DISTRIBUTION_CALCULATOR_ITEMS,
+  DisciplineRequirements,
+  FEEDING_CALCULATOR_DEFAULTS,
+  FeedingCalculatorInput,
+  distributionRequirements,
+  feedingRequirements,
+} from '@/lib/disciplines/DisciplineCalculators';
+
+interface DisciplineCalculatorPanelProps {
+  definition: DisciplineDefinition;
+  capacity: number; // The site's capacity, used as the starting meals or households
+  onApply: (requirements: DisciplineRequirements) => void;
+}
+
+export function DisciplineCalculatorPanel({ definition, capacity, onApply }: DisciplineCalculatorPanelProps) {
+  if (definition.calculator === 'feeding') {
+    return <FeedingCalculator mealsPerDay={capacity} onApply={onApply} />;
+  }
+  if (definition.calculator === 'distribution') {
+    return <DistributionCalculator definition={definition} households={capacity} onApply={onApply} />;
+  }
+  return null;
+}
+
+function NumberField({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        value={value}
+        onChange={e => onChange(parseInt(e.target.value) || 0)}
+        className="w-full border rounded px-3 py-2"
+      />
+    </div>
+  );
+}
+
+function RequirementsSummary({ requirements, onApply }: { requirements: DisciplineRequirements; onApply: () => void }) {
+  const counts = [...Object.entries(requirements.positions), ...Object.entries(requirements.assets)];
+  return (
+    <div className="mt-3 flex justify-between items-start gap-4">
+      <div className="text-sm text-gray-600">
+        <p className="mb-1">{requirements.basis}</p>
+        <p className="font-mono text-xs">
+          {counts.filter(([, count]) => count > 0).map(([code, count]) => `${code}: ${count}`).join(' • ') || 'Nothing required'}
+        </p>
+      </div>
+      <button
+        onClick={onApply}
+        className="shrink-0 bg-red-600 text-white px-3 py-1.5 rounded text-sm hover:bg-red-700"
+      >
+        Apply to Requirements
+      </button>
+    </div>
+  );
+}
+
+function FeedingCalculator({ mealsPerDay, onApply }: { mealsPerDay: number; onApply: (requirements: DisciplineRequirements) => void }) {
+  const [input, setInput] = useState<FeedingCalculatorInput>({ ...FEEDING_CALCULATOR_DEFAULTS, mealsPerDay });
+  const requirements = feedingRequirements(input);
+
+  return (
+    <div className="border rounded p-4 mb-4 bg-red-50">
+      <h3 className="font-semibold mb-3">Feeding Calculator</h3>
+      <div className="grid grid-cols-4 gap-4">
+        <NumberField label="Meals per Day" value={input.mealsPerDay} onChange={value => setInput({ ...input, mealsPerDay: value })} />
+        <NumberField label="Delivered by ERV" value={input.mobileMealsPerDay} onChange={value => setInput({ ...input, mobileMealsPerDay: value })} />
+        <NumberField label="Meals per ERV Run" value={input.mealsPerErvRun} onChange={value => setInput({ ...input, mealsPerErvRun: value })} />
+        <NumberField label="Kitchen Meals per Day" value={input.kitchenMealsPerDay} onChange={value => setInput({ ...input, kitchenMealsPerDay: value })} />
+      </div>
+      <RequirementsSummary requirements={requirements} onApply={() => onApply(requirements)} />
+    </div>
+  );
+}
+
+function DistributionCalculator({ definition, households, onApply }: {
+  definition: DisciplineDefinition;
+  households: number;
+  onApply: (requirements: DisciplineRequirements) => void;
+}) {
+  const [householdCount, setHouseholdCount] = useState(households);
+  const [items, setItems] = useState(DISTRIBUTION_CALCULATOR_ITEMS);
+  const requirements = distributionRequirements({ households: householdCount, items });
+
+  return (
+    <div className="border rounded p-4 mb-4 bg-red-50">
+      <h3 className="font-semibold mb-3">Distribution Calculator</h3>
+      <div className="grid grid-cols-4 gap-4">
+        <NumberField label="Households" value={householdCount} onChange={setHouseholdCount} />
+        {items.map((item, idx) => (
+          <div key={item.code}>
+            <label className="block text-sm font-medium mb-1">
+              {definition.assets.find(a => a.code === item.code)?.name || item.code} per Household
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={item.unitsPerHousehold}
+              onChange={e => setItems(items.map((it, i) => i === idx ? { ...it, unitsPerHousehold: parseFloat(e.target.value) || 0 } : it))}
+              className="w-full border rounded px-3 py-2"
+            />
+          </div>
+        ))}
+      </div>
+      <RequirementsSummary requirements={requirements} onApply={() => onApply(requirements)} />
+    </div>
+  );
+}
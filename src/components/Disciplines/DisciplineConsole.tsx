@@ -0,0 +1,496 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { DisciplineAssignment, DisciplineId } from '@/types';
+import {
+  DISCIPLINES,
+  DISCIPLINE_ORDER,
+  assignmentTotals,
+  emptyAssignment,
+  setRowCount,
+} from '@/lib/disciplines/DisciplineCatalog';
+import { applyRequirements } from '@/lib/disciplines/DisciplineCalculators';
+import {
+  approveDisciplineAssignment,
+  importLocalAssignments,
+  saveDisciplineAssignment,
+  submitDisciplineAssignment,
+} from '@/lib/disciplines/DisciplineAssignments';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { DisciplineCalculatorPanel } from './DisciplineCalculatorPanel';
+
+type AssignmentForm = Pick<DisciplineAssignment, 'discipline' | 'site' | 'personnel' | 'assets'>;
+
+interface DisciplineConsoleProps {
+  discipline: DisciplineId;
+  onNavigate?: (view: string) => void;
+}
+
+/**
+ * Work assignment workspace for one discipline: sites, GAP positions and
+ * assets with required / have / gap, and a draft → submitted → approved status
+ */
+export function DisciplineConsole({ discipline, onNavigate }: DisciplineConsoleProps) {
+  const { operationId, isHistorical, asOf } = useTimeTravel();
+  const { projector, revision } = useIAPProjector(operationId, asOf);
+  const definition = DISCIPLINES[discipline];
+  const [assignments, setAssignments] = useState<DisciplineAssignment[]>([]);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<AssignmentForm>(emptyAssignment(discipline));
+  const [saving, setSaving] = useState(false);
+  const canEdit = Boolean(operationId) && !isHistorical;
+
+  const loadAssignments = useCallback(async () => {
+    if (!operationId || !projector) return;
+    try {
+      if (!isHistorical) {
+        await importLocalAssignments(operationId, discipline, actorName());
+      }
+      setAssignments(projector.getDisciplineAssignments(operationId, discipline));
+    } catch (error) {
+      console.error(`Error loading ${discipline} assignments:`, error);
+    }
+  }, [operationId, isHistorical, projector, discipline]);
+
+  useEffect(() => {
+    loadAssignments();
+    setShowCreateForm(false);
+    setEditingId(null);
+    setFormData(emptyAssignment(discipline));
+  }, [loadAssignments, discipline]);
+
+  // Picks up assignments synced from other devices
+  useEffect(() => {
+    if (!operationId || !projector) return;
+    setAssignments(projector.getDisciplineAssignments(operationId, discipline));
+  }, [operationId, projector, revision, discipline]);
+
+  const run = async (command: () => Promise<unknown>) => {
+    setSaving(true);
+    try {
+      await command();
+      await loadAssignments();
+      return true;
+    } catch (error) {
+      console.error(`Error saving ${discipline} assignment:`, error);
+      alert(error instanceof Error ? error.message : 'Error saving work assignment');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveAssignment = async () => {
+    if (!operationId) return;
+    const saved = await run(() => saveDisciplineAssignment(operationId, {
+      ...formData,
+      discipline,
+      operationalPeriod: new Date().toISOString().split('T')[0],
+    }, editingId || undefined));
+
+    if (saved) {
+      // Reset form
+      setShowCreateForm(false);
+      setEditingId(null);
+      setFormData(emptyAssignment(discipline));
+    }
+  };
+
+  const submitAssignment = (assignment: DisciplineAssignment) => {
+    if (!operationId) return;
+    run(() => submitDisciplineAssignment(operationId, assignment, actorName()));
+  };
+
+  const approveAssignment = (assignment: DisciplineAssignment) => {
+    if (!operationId) return;
+    run(() => approveDisciplineAssignment(operationId, assignment, actorName()));
+  };
+
+  const updatePosition = (index: number, field: 'required' | 'have', value: number) => {
+    const positions = [...formData.personnel.positions];
+    positions[index] = setRowCount(positions[index], field, value);
+    setFormData({ ...formData, personnel: { positions } });
+  };
+
+  const updateLead = (index: number, field: 'dayLead' | 'nightLead', value: string) => {
+    const positions = [...formData.personnel.positions];
+    positions[index] = { ...positions[index], [field]: value };
+    setFormData({ ...formData, personnel: { positions } });
+  };
+
+  const updateAsset = (index: number, field: 'required' | 'have', value: number) => {
+    const items = [...formData.assets.items];
+    items[index] = setRowCount(items[index], field, value);
+    setFormData({ ...formData, assets: { items } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-red-600 text-white p-4">
+        <div className="max-w-7xl mx-auto">
+          {onNavigate && (
+            <button
+              onClick={() => onNavigate('dashboard')}
+              className="text-white hover:text-gray-200 flex items-center mb-2"
+            >
+              ← Back to Dashboard
+            </button>
+          )}
+          <h1 className="text-2xl font-bold">{definition.name} Operations Console</h1>
+          <p className="text-red-100">Discipline: {definition.name} | Operational Period: {new Date().toLocaleDateString()}</p>
+        </div>
+      </div>
+
+      {/* Action Bar */}
+      <div className="bg-white shadow-sm border-b p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div className="flex gap-4">
+            <button
+              onClick={() => setShowCreateForm(true)}
+              disabled={!canEdit}
+              className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              Create Work Assignment
+            </button>
+          </div>
+          <div className="text-sm text-gray-600">
+            Total Sites: {assignments.length} |
+            Personnel Gap: {assignments.reduce((sum, a) => sum + assignmentTotals(a).personnelTotals.gap, 0)} |
+            Asset Issues: {assignments.reduce((sum, a) => sum + assignmentTotals(a).assetGaps, 0)}
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto p-6">
+        {showCreateForm ? (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-xl font-bold mb-4">
+              {editingId ? 'Edit' : 'Create'} {definition.name} Work Assignment
+            </h2>
+
+            {/* Site Information */}
+            <div className="border rounded p-4 mb-4">
+              <h3 className="font-semibold mb-3">Site Information</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Site Name</label>
+                  <input
+                    type="text"
+                    value={formData.site.name}
+                    onChange={e => setFormData({ ...formData, site: { ...formData.site, name: e.target.value } })}
+                    className="w-full border rounded px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Site Type</label>
+                  <select
+                    value={formData.site.type}
+                    onChange={e => setFormData({ ...formData, site: { ...formData.site, type: e.target.value } })}
+                    className="w-full border rounded px-3 py-2"
+                  >
+                    {definition.siteTypes.map(type => <option key={type}>{type}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Address</label>
+                  <input
+                    type="text"
+                    value={formData.site.address}
+                    onChange={e => setFormData({ ...formData, site: { ...formData.site, address: e.target.value } })}
+                    className="w-full border rounded px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">County</label>
+                  <input
+                    type="text"
+                    value={formData.site.county}
+                    onChange={e => setFormData({ ...formData, site: { ...formData.site, county: e.target.value } })}
+                    className="w-full border rounded px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">{definition.capacityLabel}</label>
+                  <input
+                    type="number"
+                    value={formData.site.capacity}
+                    onChange={e => setFormData({ ...formData, site: { ...formData.site, capacity: parseInt(e.target.value) || 0 } })}
+                    className="w-full border rounded px-3 py-2"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <DisciplineCalculatorPanel
+              key={`${discipline}-${formData.site.capacity}`}
+              definition={definition}
+              capacity={formData.site.capacity}
+              onApply={requirements => setFormData(applyRequirements(formData, requirements))}
+            />
+
+            {/* Personnel Requirements */}
+            <div className="border rounded p-4 mb-4">
+              <h3 className="font-semibold mb-3">Personnel Requirements (GAP Positions)</h3>
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="p-2 text-left">Position</th>
+                    <th className="p-2 text-center">Required</th>
+                    <th className="p-2 text-center">Have</th>
+                    <th className="p-2 text-center">Gap</th>
+                    <th className="p-2">Day Lead</th>
+                    <th className="p-2">Night Lead</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {formData.personnel.positions.map((pos, idx) => (
+                    <tr key={pos.code} className={idx % 2 === 0 ? 'bg-gray-50' : ''}>
+                      <td className="p-2">
+                        <span className="font-mono text-xs text-gray-500">{pos.code}</span>
+                        <span className="ml-2">{pos.title}</span>
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          value={pos.required}
+                          onChange={e => updatePosition(idx, 'required', parseInt(e.target.value) || 0)}
+                          className="w-16 border rounded px-2 py-1 text-center"
+                          min="0"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          value={pos.have}
+                          onChange={e => updatePosition(idx, 'have', parseInt(e.target.value) || 0)}
+                          className="w-16 border rounded px-2 py-1 text-center"
+                          min="0"
+                        />
+                      </td>
+                      <td className="p-2 text-center">
+                        <span className={`font-bold ${pos.gap > 0 ? 'text-red-600' : pos.gap < 0 ? 'text-yellow-600' : 'text-green-600'}`}>
+                          {pos.gap}
+                        </span>
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="text"
+                          placeholder="Name"
+                          value={pos.dayLead || ''}
+                          onChange={e => updateLead(idx, 'dayLead', e.target.value)}
+                          className="w-full border rounded px-2 py-1 text-sm"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="text"
+                          placeholder="Name"
+                          value={pos.nightLead || ''}
+                          onChange={e => updateLead(idx, 'nightLead', e.target.value)}
+                          className="w-full border rounded px-2 py-1 text-sm"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Asset Requirements */}
+            <div className="border rounded p-4 mb-4">
+              <h3 className="font-semibold mb-3">Asset Requirements</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {formData.assets.items.map((asset, idx) => (
+                  <div key={asset.code} className="flex items-center gap-2 p-2 bg-gray-50 rounded">
+                    <div className="flex-1">
+                      <span className="font-mono text-xs text-gray-500">{asset.code}</span>
+                      <span className="ml-2 text-sm">{asset.name}</span>
+                      <span className="ml-2 text-xs text-gray-500">({asset.unit})</span>
+                    </div>
+                    <div className="flex gap-2 items-center">
+                      <label className="text-xs">Req:</label>
+                      <input
+                        type="number"
+                        value={asset.required}
+                        onChange={e => updateAsset(idx, 'required', parseInt(e.target.value) || 0)}
+                        className="w-16 border rounded px-1 py-0.5 text-center text-sm"
+                        min="0"
+                      />
+                      <label className="text-xs">Have:</label>
+                      <input
+                        type="number"
+                        value={asset.have}
+                        onChange={e => updateAsset(idx, 'have', parseInt(e.target.value) || 0)}
+                        className="w-16 border rounded px-1 py-0.5 text-center text-sm"
+                        min="0"
+                      />
+                      <span className={`font-bold text-sm ${asset.gap > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        Gap: {asset.gap}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => {
+                  setShowCreateForm(false);
+                  setEditingId(null);
+                  setFormData(emptyAssignment(discipline));
+                }}
+                className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveAssignment}
+                disabled={saving || !canEdit}
+                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Work Assignment'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          /* Assignment List */
+          <div className="space-y-4">
+            {!operationId ? (
+              <div className="bg-white rounded-lg p-8 text-center">
+                <p className="text-gray-500">Open an operation to manage {definition.name.toLowerCase()} assignments.</p>
+              </div>
+            ) : assignments.length === 0 ? (
+              <div className="bg-white rounded-lg p-8 text-center">
+                <p className="text-gray-500">No {definition.name.toLowerCase()} assignments created yet.</p>
+                {canEdit && (
+                  <button
+                    onClick={() => setShowCreateForm(true)}
+                    className="mt-4 text-red-600 hover:text-red-700 font-medium"
+                  >
+                    Create your first assignment
+                  </button>
+                )}
+              </div>
+            ) : (
+              assignments.map(assignment => {
+                const { personnelTotals, assetGaps } = assignmentTotals(assignment);
+                return (
+                  <div key={assignment.id} className="bg-white rounded-lg shadow">
+                    <div className="p-4 border-b bg-gray-50">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <h3 className="font-bold text-lg">{assignment.site.name}</h3>
+                          <p className="text-sm text-gray-600">
+                            {assignment.site.type} • {assignment.site.county} County • {definition.capacityLabel}: {assignment.site.capacity}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 items-center">
+                          {canEdit && (
+                            <button
+                              onClick={() => {
+                                setFormData(assignment);
+                                setEditingId(assignment.id);
+                                setShowCreateForm(true);
+                              }}
+                              className="text-blue-600 hover:text-blue-700"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {canEdit && assignment.status === 'draft' && (
+                            <button
+                              onClick={() => submitAssignment(assignment)}
+                              disabled={saving}
+                              className="text-yellow-700 hover:text-yellow-800"
+                            >
+                              Submit
+                            </button>
+                          )}
+                          {canEdit && assignment.status === 'submitted' && (
+                            <button
+                              onClick={() => approveAssignment(assignment)}
+                              disabled={saving}
+                              className="text-green-700 hover:text-green-800"
+                            >
+                              Approve
+                            </button>
+                          )}
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${
+                            assignment.status === 'approved' ? 'bg-green-100 text-green-800' :
+                            assignment.status === 'submitted' ? 'bg-yellow-100 text-yellow-800' :
+                            'bg-gray-100 text-gray-800'
+                          }`}>
+                            {assignment.status}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="p-4">
+                      <div className="grid grid-cols-3 gap-4 text-center">
+                        <div>
+                          <p className="text-sm text-gray-600">Personnel Required</p>
+                          <p className="text-2xl font-bold">{personnelTotals.required}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Personnel Have</p>
+                          <p className="text-2xl font-bold text-green-600">{personnelTotals.have}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Personnel Gap</p>
+                          <p className={`text-2xl font-bold ${personnelTotals.gap > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {personnelTotals.gap}
+                          </p>
+                        </div>
+                      </div>
+                      {assetGaps > 0 && (
+                        <p className="mt-3 text-sm text-red-600 text-center">
+                          ⚠️ {assetGaps} asset types below requirements
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function actorName(): string {
+  return localStorage.getItem('disaster_ops_user_name') || 'current-user';
+}
+
+/**
+ * All discipline consoles behind one tab strip
+ */
+export function DisciplineConsoles() {
+  const [discipline, setDiscipline] = useState<DisciplineId>('sheltering');
+
+  return (
+    <div>
+      <div className="flex space-x-2 mb-4">
+        {DISCIPLINE_ORDER.map(id => (
+          <button
+            key={id}
+            onClick={() => setDiscipline(id)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              discipline === id ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {DISCIPLINES[id].name}
+          </button>
+        ))}
+      </div>
+      <DisciplineConsole discipline={discipline} />
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 'use client';
 
 import React, { useState, useCallback, useMemo } from 'react';
+import type { Facility } from '@/lib/services/MasterDataService';
+import {
+  ShelterFacilityProfile,
+  evaluateAccessibility,
+  evaluatePetSheltering
+} from '@/lib/standards/RedCrossShelterStandards';
 
 /**
  * Advanced Facility Filters Component - Phase 3 Implementation
@@ -65,9 +71,66 @@ interface SavedFilter {
   usageCount: number;
 }
 
+/**
+ * Accessibility and pet accommodation as recorded on a facility
+ */
+export function facilityShelterProfile(facility: Facility): ShelterFacilityProfile {
+  return {
+    accessibilityFeatures: facility.accessibility_features,
+    amenities: facility.amenities,
+    accessibleToilets: facility.accessible_toilets,
+    petCapacity: facility.pet_capacity,
+    petSpace: facility.pet_space
+  };
+}
+
+/**
+ * Whether a facility passes the ADA and pet filters, evaluated against the
+ * shelter standards for its maximum capacity
+ */
+export function matchesComplianceFilters(facility: Facility, criteria: FilterCriteria): boolean {
+  const profile = facilityShelterProfile(facility);
+  const expectedPopulation = facility.capacity?.maximum ?? 0;
+
+  if (criteria.accessibilityCompliant && !evaluateAccessibility(profile, { expectedPopulation }).compliant) {
+    return false;
+  }
+  if (criteria.petFriendly && !evaluatePetSheltering(profile).compliant) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The facilities that pass the criteria a facility record can answer:
+ * search, type, status, county, address, capacity and the compliance checks
+ */
+export function filterFacilities(facilities: Facility[], criteria: FilterCriteria): Facility[] {
+  const contains = (value: string | undefined, text: string) => (value || '').toLowerCase().includes(text.toLowerCase());
+
+  return facilities.filter(facility => {
+    const maximum = facility.capacity?.maximum ?? 0;
+    const available = facility.capacity?.available ?? maximum - (facility.capacity?.current ?? 0);
+
+    if (criteria.search && ![facility.name, facility.address, facility.county].some(value => contains(value, criteria.search || ''))) {
+      return false;
+    }
+    if (criteria.type?.length && !criteria.type.includes(facility.facility_type)) return false;
+    if (criteria.status?.length && !criteria.status.includes(facility.status)) return false;
+    if (criteria.county?.length && !criteria.county.includes(facility.county || '')) return false;
+    if (criteria.address && ![facility.address, facility.city, facility.zip_code].some(value => contains(value, criteria.address || ''))) {
+      return false;
+    }
+    if (criteria.minCapacity !== undefined && maximum < criteria.minCapacity) return false;
+    if (criteria.maxCapacity !== undefined && maximum > criteria.maxCapacity) return false;
+    if (criteria.hasAvailableCapacity && available <= 0) return false;
+    return matchesComplianceFilters(facility, criteria);
+  });
+}
+
 interface AdvancedFacilityFiltersProps {
-  onFiltersChange: (criteria: FilterCriteria) => void;
-  facilities?: any[]; // For generating filter options
+  onFiltersChange: (criteria: FilterCriteria, matching: Facility[]) => void;
+  facilities?: Facility[]; // Filtered, and used for generating filter options
   initialFilters?: FilterCriteria;
 }
 
@@ -86,26 +149,33 @@ export function AdvancedFacilityFilters({
   // Generate filter options from facility data
   const filterOptions = useMemo(() => {
     return {
-      types: [...new Set(facilities.map(f => f.type))].sort(),
+      types: [...new Set(facilities.map(f => f.facility_type))].sort(),
       statuses: [...new Set(facilities.map(f => f.status))].sort(),
-      counties: [...new Set(facilities.map(f => f.county))].filter(Boolean).sort(),
-      regions: [...new Set(facilities.map(f => f.region))].filter(Boolean).sort(),
-      resources: [...new Set(facilities.flatMap(f => f.resources?.map((r: any) => r.type) || []))].sort()
+      counties: [...new Set(facilities.flatMap(f => f.county ? [f.county] : []))].sort()
     };
   }, [facilities]);
 
-  // Update filters and notify parent
+  // Facilities passing each evaluated compliance filter
+  const complianceCounts = useMemo<Partial<Record<keyof FilterCriteria, number>>>(() => ({
+    accessibilityCompliant: facilities.filter(f => matchesComplianceFilters(f, { accessibilityCompliant: true })).length,
+    petFriendly: facilities.filter(f => matchesComplianceFilters(f, { petFriendly: true })).length
+  }), [facilities]);
+
+  // Facilities passing the current filters
+  const matching = useMemo(() => filterFacilities(facilities, filters), [facilities, filters]);
+
+  // Update filters and notify parent with the facilities that pass them
   const updateFilters = useCallback((updates: Partial<FilterCriteria>) => {
     const newFilters = { ...filters, ...updates };
     setFilters(newFilters);
-    onFiltersChange(newFilters);
-  }, [filters, onFiltersChange]);
+    onFiltersChange(newFilters, filterFacilities(facilities, newFilters));
+  }, [filters, facilities, onFiltersChange]);
 
   // Clear all filters
   const clearAllFilters = useCallback(() => {
     setFilters({});
-    onFiltersChange({});
-  }, [onFiltersChange]);
+    onFiltersChange({}, facilities);
+  }, [facilities, onFiltersChange]);
 
   // Save current filter set
   const saveCurrentFilter = useCallback(() => {
@@ -127,7 +197,7 @@ export function AdvancedFacilityFilters({
   // Load saved filter
   const loadSavedFilter = useCallback((savedFilter: SavedFilter) => {
     setFilters(savedFilter.criteria);
-    onFiltersChange(savedFilter.criteria);
+    onFiltersChange(savedFilter.criteria, filterFacilities(facilities, savedFilter.criteria));
     
     // Update usage count
     setSavedFilters(prev => prev.map(sf => 
@@ -135,7 +205,7 @@ export function AdvancedFacilityFilters({
         ? { ...sf, usageCount: sf.usageCount + 1 }
         : sf
     ));
-  }, [onFiltersChange]);
+  }, [facilities, onFiltersChange]);
 
   // Get active filter count
   const activeFilterCount = useMemo(() => {
@@ -187,6 +257,12 @@ export function AdvancedFacilityFilters({
                 {activeFilterCount} active
               </span>
             )}
+
+            {activeFilterCount > 0 && facilities.length > 0 && (
+              <span className="text-xs text-gray-500">
+                {matching.length} of {facilities.length} facilities
+              </span>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -454,7 +530,12 @@ export function AdvancedFacilityFilters({
                         })}
                         className="h-3 w-3 text-blue-600 rounded"
                       />
-                      <span className="ml-2 text-xs text-gray-700">{feature.label}</span>
+                      <span className="ml-2 text-xs text-gray-700">
+                        {feature.label}
+                        {facilities.length > 0 && complianceCounts[feature.key as keyof FilterCriteria] !== undefined && (
+                          <span className="text-gray-500"> ({complianceCounts[feature.key as keyof FilterCriteria]})</span>
+                        )}
+                      </span>
                     </label>
                   ))}
                 </div>
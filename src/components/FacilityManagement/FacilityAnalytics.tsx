@@ -1,12 +1,21 @@
 'use client';
 
 import React, { useMemo } from 'react';
+import { useShelterCensus } from '@/hooks/useShelterCensus';
+import {
+  ShelterCensusLog,
+  censusPopulation,
+  censusTrend,
+  populationTrend,
+} from '@/lib/census/ShelterCensusProjection';
+import { CensusTrendChart } from '@/components/Census/CensusTrendChart';
 
 /**
  * Facility Analytics Component - Phase 3 Implementation
  * 
  * Real-time analytics and insights for facility operations.
- * Provides KPIs, trends, and operational intelligence.
+ * Provides KPIs, trends, and operational intelligence. Occupancy and its
+ * trends come from the shelter census log.
  */
 
 interface FacilityAnalyticsProps {
@@ -49,15 +58,27 @@ interface AnalyticsData {
 }
 
 export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityAnalyticsProps) {
-  
+  const { census, now } = useShelterCensus();
+
+  // Census for just these facilities
+  const facilityCensus = useMemo(() => {
+    const log: ShelterCensusLog = {};
+    facilities.forEach(f => {
+      if (census[f.id]) log[f.id] = census[f.id];
+    });
+    return log;
+  }, [facilities, census]);
+
   // Calculate analytics data
   const analytics = useMemo(() => {
+    const occupancyOf = (facility: { id: string }) => censusPopulation(facilityCensus, facility.id);
+
     const data: AnalyticsData = {
       kpis: {
         totalFacilities: facilities.length,
         openFacilities: facilities.filter(f => f.status === 'open').length,
         totalCapacity: facilities.reduce((sum, f) => sum + (f.capacity_beds || 0), 0),
-        currentOccupancy: facilities.reduce((sum, f) => sum + (f.current_occupancy || 0), 0),
+        currentOccupancy: facilities.reduce((sum, f) => sum + occupancyOf(f), 0),
         occupancyRate: 0,
         averageCapacityUtilization: 0,
         facilitiesAtCapacity: 0,
@@ -66,7 +87,7 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
       
       trends: {
         capacityTrend: 'stable',
-        occupancyTrend: 'up',
+        occupancyTrend: populationTrend(facilityCensus, now, 24),
         newFacilitiesToday: facilities.filter(f => {
           const created = new Date(f.created_at || Date.now());
           const today = new Date();
@@ -101,14 +122,14 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
     const facilitiesWithCapacity = facilities.filter(f => (f.capacity_beds || 0) > 0);
     if (facilitiesWithCapacity.length > 0) {
       data.kpis.averageCapacityUtilization = facilitiesWithCapacity.reduce((sum, f) => {
-        const utilization = ((f.current_occupancy || 0) / (f.capacity_beds || 1)) * 100;
+        const utilization = (occupancyOf(f) / (f.capacity_beds || 1)) * 100;
         return sum + utilization;
       }, 0) / facilitiesWithCapacity.length;
     }
 
     // Count facilities at capacity
     data.kpis.facilitiesAtCapacity = facilities.filter(f => 
-      (f.current_occupancy || 0) >= (f.capacity_beds || 0)
+      occupancyOf(f) >= (f.capacity_beds || 0)
     ).length;
 
     // Build breakdowns
@@ -120,7 +141,7 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
       }
       data.breakdown.byType[type].count++;
       data.breakdown.byType[type].capacity += (facility.capacity_beds || 0);
-      data.breakdown.byType[type].occupancy += (facility.current_occupancy || 0);
+      data.breakdown.byType[type].occupancy += occupancyOf(facility);
 
       // By status
       const status = facility.status || 'unknown';
@@ -132,7 +153,7 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
 
       // By occupancy level
       const capacity = facility.capacity_beds || 0;
-      const occupancy = facility.current_occupancy || 0;
+      const occupancy = occupancyOf(facility);
       
       if (capacity === 0) {
         return; // Skip facilities with no capacity data
@@ -184,7 +205,7 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
     }
 
     const lowOccupancyFacilities = facilities.filter(f => {
-      const rate = (f.current_occupancy || 0) / (f.capacity_beds || 1);
+      const rate = occupancyOf(f) / (f.capacity_beds || 1);
       return f.status === 'open' && rate < 0.25 && (f.capacity_beds || 0) > 0;
     }).length;
 
@@ -198,7 +219,7 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
     }
 
     return data;
-  }, [facilities, timeRange]);
+  }, [facilities, timeRange, facilityCensus, now]);
 
   // Format number with suffix
   const formatNumber = (num: number): string => {
@@ -286,6 +307,24 @@ export function FacilityAnalytics({ facilities, timeRange = '7days' }: FacilityA
         </div>
       </div>
 
+      {/* Census Trends */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Shelter Population</h3>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <CensusTrendChart
+            title="Last 24 hours"
+            points={censusTrend(facilityCensus, now, 24)}
+            capacity={analytics.kpis.totalCapacity}
+          />
+          <CensusTrendChart
+            title="Last 72 hours"
+            points={censusTrend(facilityCensus, now, 72, 3)}
+            capacity={analytics.kpis.totalCapacity}
+          />
+        </div>
+      </div>
+
       {/* Alerts */}
       {analytics.alerts.length > 0 && (
         <div>
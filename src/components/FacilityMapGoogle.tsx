@@ -3,6 +3,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { V27_IAP_DATA } from '@/data/v27-iap-data';
 import { loadGoogleMapsAPI } from '@/lib/utils/googleMapsLoader';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import type { Facility } from '@/lib/services/MasterDataService';
+import { TimeTravelBar } from './TimeTravelBar';
 
 interface MapFacility {
   id: string;
@@ -29,6 +32,16 @@ const FACILITY_COORDINATES: { [key: string]: [number, number] } = {
   'County EOC Liaison': [27.9506, -82.4572], // Tampa
 };
 
+// Marker style per master data facility type
+const FACILITY_TYPE_STYLES: { [type: string]: { type: string; discipline: string; icon: string; color: string } } = {
+  shelter: { type: 'Shelter', discipline: 'Sheltering', icon: '🏠', color: 'red' },
+  feeding: { type: 'Feeding', discipline: 'Feeding', icon: '🍽️', color: 'orange' },
+  government: { type: 'EOC', discipline: 'Government Operations', icon: '🏛️', color: 'blue' },
+  distribution: { type: 'Distribution', discipline: 'Distribution', icon: '📦', color: 'green' },
+  care: { type: 'Care', discipline: 'Individual Care', icon: '❤️', color: 'purple' },
+  assessment: { type: 'Assessment', discipline: 'Damage Assessment', icon: '🔍', color: 'gray' },
+};
+
 export function FacilityMapGoogle() {
   const [facilities, setFacilities] = useState<MapFacility[]>([]);
   const [selectedFacility, setSelectedFacility] = useState<MapFacility | null>(null);
@@ -37,6 +50,7 @@ export function FacilityMapGoogle() {
   const [markers, setMarkers] = useState<any[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
+  const { projections, isHistorical } = useTimeTravel();
 
   // Load Google Maps using centralized loader
   useEffect(() => {
@@ -74,10 +88,14 @@ export function FacilityMapGoogle() {
     setMap(newMap);
   }, [isLoaded]);
 
-  // Load facilities data
+  // Load facilities data (from the event log when viewing a past moment)
   useEffect(() => {
-    loadFacilities();
-  }, []);
+    if (!isHistorical) {
+      loadFacilities();
+    } else if (projections) {
+      loadHistoricalFacilities(projections.getTable<Facility>('facilities'));
+    }
+  }, [isHistorical, projections]);
 
   // Create markers when facilities or map changes
   useEffect(() => {
@@ -232,6 +250,26 @@ export function FacilityMapGoogle() {
     setFacilities(allFacilities);
   };
 
+  const loadHistoricalFacilities = (records: Facility[]) => {
+    setFacilities(records.map(facility => {
+      const style = FACILITY_TYPE_STYLES[facility.facility_type] || FACILITY_TYPE_STYLES.shelter;
+      const coords = facility.coordinates
+        ? [facility.coordinates.lat, facility.coordinates.lng]
+        : FACILITY_COORDINATES[facility.name] || [27.9506, -82.4572];
+      return {
+        id: facility.id,
+        name: facility.name,
+        ...style,
+        address: [facility.address, facility.city, facility.state].filter(Boolean).join(', '),
+        county: facility.county || '',
+        status: facility.status,
+        capacity: facility.capacity,
+        lat: coords[0],
+        lng: coords[1]
+      };
+    }));
+  };
+
   // Filter facilities
   const filteredFacilities = filterDiscipline === 'all' 
     ? facilities 
@@ -324,6 +362,8 @@ export function FacilityMapGoogle() {
           )}
         </div>
 
+        <TimeTravelBar />
+
         {/* Facility List */}
         <div className="divide-y divide-gray-200">
           {filteredFacilities.map(facility => (
@@ -1,6 +1,7 @@
 'use client';
 
 import React from 'react';
+import { occupancyPercent } from '@/lib/census/ShelterCensusProjection';
 
 interface GapIndicatorProps {
   gap: number;
@@ -112,6 +113,66 @@ export function InlineGapIndicator({ gap, className = '' }: { gap: number; class
   );
 }
 
+/**
+ * Shelter occupancy indicator. `population` comes from the shelter census log.
+ * - Green: under 50%
+ * - Blue: 50-74%
+ * - Yellow: 75-89%
+ * - Red: 90% and over
+ */
+export function OccupancyIndicator({
+  population,
+  capacity,
+  size = 'md',
+  showLabel = true,
+  className = ''
+}: {
+  population: number;
+  capacity: number;
+  size?: 'sm' | 'md' | 'lg';
+  showLabel?: boolean;
+  className?: string;
+}) {
+  const percent = occupancyPercent(population, capacity);
+
+  const getColorClasses = () => {
+    if (percent >= 90) return 'bg-red-500 text-white border-red-600';
+    if (percent >= 75) return 'bg-yellow-500 text-white border-yellow-600';
+    if (percent >= 50) return 'bg-blue-500 text-white border-blue-600';
+    return 'bg-green-500 text-white border-green-600';
+  };
+
+  const getSizeClasses = () => {
+    switch (size) {
+      case 'sm':
+        return 'w-8 h-8 text-[10px]';
+      case 'lg':
+        return 'w-14 h-14 text-sm';
+      default: // md
+        return 'w-10 h-10 text-xs';
+    }
+  };
+
+  const label = capacity > 0
+    ? `${population} of ${capacity} beds (${percent}%)`
+    : `${population} sheltered, capacity unknown`;
+
+  return (
+    <div className={`flex items-center space-x-2 ${className}`}>
+      <div
+        className={`${getSizeClasses()} ${getColorClasses()} rounded-full border-2 flex items-center justify-center font-bold shadow-sm`}
+        title={label}
+      >
+        <span className="leading-none">{capacity > 0 ? `${percent}%` : '—'}</span>
+      </div>
+
+      {showLabel && (
+        <div className="text-sm text-gray-700">{label}</div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Gap summary component for displaying multiple gaps
  */
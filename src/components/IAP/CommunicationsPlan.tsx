@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { iapProjector } from '@/lib/projections/IAPProjector';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { getMasterDataService } from '@/lib/services/MasterDataService';
+import { CommsPlanContent, commsPlanContent, mergeCallSigns, validateCommsPlan } from '@/lib/iap/CommsPlan';
+import { updateCommsPlan } from '@/lib/iap/IAPSectionEdits';
+import { isIAPEditable } from '@/lib/iap/iapStatus';
+import { EditableTable } from './EditableTable';
+
+export function CommunicationsPlan() {
+  const { operationId, asOf, isHistorical } = useTimeTravel();
+  useIAPProjector(operationId);
+  const iap = operationId
+    ? iapProjector.getIAPForPeriod(operationId, asOf !== null ? new Date(asOf) : new Date())
+    : null;
+  const [plan, setPlan] = useState<CommsPlanContent>(() => commsPlanContent(iap?.sections.communicationsPlan));
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = Boolean(iap) && !isHistorical && isIAPEditable(iap!.status);
+
+  useEffect(() => {
+    if (!editing) setPlan(commsPlanContent(iap?.sections.communicationsPlan));
+  }, [iap?.id, iap?.version, editing]);
+
+  const update = <K extends keyof CommsPlanContent>(key: K, rows: CommsPlanContent[K]) => {
+    setPlan(prev => ({ ...prev, [key]: rows }));
+  };
+
+  const fillCallSigns = async () => {
+    const masterData = getMasterDataService();
+    if (!masterData || !operationId) return;
+    try {
+      const personnel = await masterData.getPersonnel(operationId);
+      update('callSigns', mergeCallSigns(plan.callSigns, personnel));
+    } catch (err) {
+      console.error('Error loading personnel call signs:', err);
+      setError('Could not load personnel call signs');
+    }
+  };
+
+  const save = async () => {
+    if (!iap) return;
+    const problems = validateCommsPlan(plan);
+    if (problems.length > 0) {
+      setError(problems.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const preparedBy = typeof window !== 'undefined'
+        ? localStorage.getItem('disaster_ops_user_name') || iap.sections.coverPage.preparedBy
+        : iap.sections.coverPage.preparedBy;
+      await updateCommsPlan(iap, plan, preparedBy);
+      setEditing(false);
+    } catch (err) {
+      console.error('Error saving communications plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save communications plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!iap) {
+    return <p className="text-gray-500 italic">No IAP for the current operational period.</p>;
+  }
+
+  const isEmpty = Object.values(plan).every(rows => rows.length === 0);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 no-print">
+        <p className="text-sm text-gray-600">ICS 205 - radio, phone and satellite communications for the period</p>
+        {canEdit && (
+          <div className="flex gap-2">
+            {editing && (
+              <button
+                type="button"
+                onClick={fillCallSigns}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              >
+                Fill call signs from personnel
+              </button>
+            )}
+            {editing ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => { setEditing(false); setError(null); }}
+                  className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={saving}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+              >
+                Edit
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded whitespace-pre-line">{error}</div>}
+
+      {isEmpty && !editing && (
+        <p className="text-gray-500 italic">No communications plan has been entered for this IAP.</p>
+      )}
+
+      <EditableTable
+        title="Radio Channels"
+        rows={plan.basicRadioChannel}
+        columns={[
+          { key: 'function', label: 'Function', placeholder: 'Command' },
+          { key: 'channel', label: 'Channel', placeholder: 'ARC 1' },
+          { key: 'frequency', label: 'Frequency', placeholder: '155.205' },
+          { key: 'system', label: 'System', placeholder: 'VHF' },
+          { key: 'remarks', label: 'Remarks' },
+        ]}
+        editing={editing}
+        emptyRow={{ function: '', channel: '', frequency: '', system: '' }}
+        onChange={(rows) => update('basicRadioChannel', rows)}
+      />
+      <EditableTable
+        title="Talkgroups"
+        rows={plan.talkgroups}
+        columns={[
+          { key: 'name', label: 'Talkgroup' },
+          { key: 'system', label: 'System' },
+          { key: 'assignment', label: 'Assignment' },
+          { key: 'remarks', label: 'Remarks' },
+        ]}
+        editing={editing}
+        emptyRow={{ name: '', system: '', assignment: '' }}
+        onChange={(rows) => update('talkgroups', rows)}
+      />
+      <EditableTable
+        title="Phone Bridges"
+        rows={plan.phoneBridges}
+        columns={[
+          { key: 'name', label: 'Bridge' },
+          { key: 'dialIn', label: 'Dial-in' },
+          { key: 'accessCode', label: 'Access Code' },
+          { key: 'schedule', label: 'Schedule' },
+        ]}
+        editing={editing}
+        emptyRow={{ name: '', dialIn: '' }}
+        onChange={(rows) => update('phoneBridges', rows)}
+      />
+      <EditableTable
+        title="Satellite Phones"
+        rows={plan.satellitePhones}
+        columns={[
+          { key: 'position', label: 'Position' },
+          { key: 'name', label: 'Name' },
+          { key: 'number', label: 'Number' },
+        ]}
+        editing={editing}
+        emptyRow={{ position: '', name: '', number: '' }}
+        onChange={(rows) => update('satellitePhones', rows)}
+      />
+      <EditableTable
+        title="Radio Call Signs"
+        rows={plan.callSigns}
+        columns={[
+          { key: 'callSign', label: 'Call Sign' },
+          { key: 'name', label: 'Name' },
+          { key: 'position', label: 'Position' },
+          { key: 'section', label: 'Section' },
+        ]}
+        editing={editing}
+        emptyRow={{ callSign: '', name: '' }}
+        onChange={(rows) => update('callSigns', rows)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+
+export interface EditableColumn<T> {
+  key: keyof T & string;
+  label: string;
+  placeholder?: string;
+  checkbox?: boolean; // Boolean column, shown as Yes/No when not editing
+}
+
+interface EditableTableProps<T> {
+  title: string;
+  rows: T[];
+  columns: EditableColumn<T>[];
+  editing: boolean;
+  emptyRow: T;
+  onChange: (rows: T[]) => void;
+}
+
+export function EditableTable<T extends object>({ title, rows, columns, editing, emptyRow, onChange }: EditableTableProps<T>) {
+  if (!editing && rows.length === 0) return null;
+
+  const updateCell = (index: number, key: keyof T, value: string | boolean) => {
+    onChange(rows.map((row, i) => i === index ? { ...row, [key]: value } : row));
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">{title}</h3>
+        {editing && (
+          <button
+            type="button"
+            onClick={() => onChange([...rows, { ...emptyRow }])}
+            className="text-sm text-red-600 hover:text-red-800 no-print"
+          >
+            + Add
+          </button>
+        )}
+      </div>
+      <table className="w-full border-collapse border border-gray-300 text-sm">
+        <thead>
+          <tr className="bg-gray-100">
+            {columns.map(column => (
+              <th key={column.key} className="border border-gray-300 px-2 py-1 text-left">{column.label}</th>
+            ))}
+            {editing && <th className="border border-gray-300 px-2 py-1 w-16 no-print" />}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              {columns.map(column => (
+                <td key={column.key} className="border border-gray-300 px-2 py-1">
+                  {column.checkbox ? (
+                    editing ? (
+                      <input
+                        type="checkbox"
+                        checked={Boolean(row[column.key])}
+                        onChange={(e) => updateCell(index, column.key, e.target.checked)}
+                        className="text-red-600 focus:ring-red-500"
+                      />
+                    ) : (
+                      row[column.key] ? 'Yes' : 'No'
+                    )
+                  ) : editing ? (
+                    <input
+                      type="text"
+                      value={String(row[column.key] ?? '')}
+                      placeholder={column.placeholder}
+                      onChange={(e) => updateCell(index, column.key, e.target.value)}
+                      className="w-full px-1 py-0.5 border border-gray-200 rounded"
+                    />
+                  ) : (
+                    String(row[column.key] ?? '')
+                  )}
+                </td>
+              ))}
+              {editing && (
+                <td className="border border-gray-300 px-2 py-1 text-center no-print">
+                  <button
+                    type="button"
+                    onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import React from 'react';
+import { IAPDiff, IAPDiffEntry } from '@/lib/iap/IAPDiff';
+
+interface IAPChangesPanelProps {
+  changes: IAPDiff | null;
+  loading?: boolean;
+  error?: string | null;
+}
+
+const KIND_STYLES: Record<IAPDiffEntry['kind'], string> = {
+  added: 'text-green-700',
+  removed: 'text-red-700 line-through',
+  changed: 'text-blue-700',
+};
+
+const KIND_MARKS: Record<IAPDiffEntry['kind'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+/**
+ * Changes since last period - section-by-section differences from the previous IAP
+ */
+export function IAPChangesPanel({ changes, loading, error }: IAPChangesPanelProps) {
+  if (loading) {
+    return <div className="bg-white border-b px-4 py-3 text-sm text-gray-500">Comparing with the previous IAP…</div>;
+  }
+  if (error) {
+    return <div className="bg-red-50 border-b border-red-200 px-4 py-3 text-sm text-red-700">{error}</div>;
+  }
+  if (!changes) {
+    return <div className="bg-white border-b px-4 py-3 text-sm text-gray-500">No previous IAP to compare with.</div>;
+  }
+
+  return (
+    <div className="bg-white border-b px-4 py-3 text-sm max-h-80 overflow-y-auto">
+      <h3 className="font-semibold text-gray-900 mb-2">
+        Changes since IAP #{changes.from.iapNumber}
+        <span className="ml-2 font-normal text-gray-500">
+          {changes.from.operationalPeriod.start.toLocaleDateString()} → {changes.to.operationalPeriod.start.toLocaleDateString()}
+        </span>
+      </h3>
+
+      {!changes.hasChanges && <p className="text-gray-500 italic">No changes from the previous operational period.</p>}
+
+      {changes.facilities.length > 0 && (
+        <div className="mb-3">
+          <h4 className="font-medium text-gray-700">Facilities</h4>
+          <ul className="ml-4">
+            {changes.facilities.map(facility => (
+              <li
+                key={facility.id}
+                className={facility.change === 'opened' ? 'text-green-700' : facility.change === 'closed' ? 'text-red-700' : 'text-blue-700'}
+              >
+                {facility.name} — {facility.change.replace('_', ' ')}
+                {facility.change === 'status_changed' && ` (${facility.fromStatus} → ${facility.toStatus})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {changes.sections.map(section => (
+        <div key={section.section} className="mb-3">
+          <h4 className="font-medium text-gray-700">{section.title}</h4>
+          <ul className="ml-4">
+            {section.changes.map((entry, index) => (
+              <li key={`${entry.field}-${index}`} className={KIND_STYLES[entry.kind]}>
+                <span className="font-mono mr-1">{KIND_MARKS[entry.kind]}</span>
+                {entry.label}
+                {entry.kind === 'changed' && entry.before !== undefined
+                  ? `: ${entry.before || '(none)'} → ${entry.after || '(none)'}`
+                  : (entry.after || entry.before) && `: ${entry.after || entry.before}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -17,7 +17,15 @@ import {
   IAPRole 
 } from '../../types';
 import { iapProjector } from '../../lib/projections/IAPProjector';
-import { EventType, createEvent } from '../../lib/events/types';
+import { EventType } from '../../lib/events/types';
+import { eventBus } from '../../lib/sync/EventBus';
+import { getLocalStore } from '../../lib/store/LocalStore';
+import { useIAPProjector } from '../../hooks/useIAPProjector';
+import { rolloverIAP } from '../../lib/iap/IAPRollover';
+import { isIAPEditable, IAP_STATUS_LABELS } from '../../lib/iap/iapStatus';
+import { IAPPublishWorkflow } from './IAPPublishWorkflow';
+import { PDFExport } from '../PDFExport';
+import { getMasterDataService } from '../../lib/services/MasterDataService';
 
 interface IAPDashboardProps {
   operationId: string;
@@ -34,11 +42,14 @@ export const IAPDashboard: React.FC<IAPDashboardProps> = ({
   const [facilities, setFacilities] = useState<IAPFacility[]>([]);
   const [loading, setLoading] = useState(true);
   const [canEdit, setCanEdit] = useState(false);
+  const [iapId, setIapId] = useState<string | null>(null); // Defaults to the newest IAP
+  const [rollingOver, setRollingOver] = useState(false);
+  const { revision, loading: loadingEvents } = useIAPProjector(operationId);
 
   useEffect(() => {
-    loadIAPData();
+    if (!loadingEvents) loadIAPData();
     setCanEdit(user.iapRole === 'ip_group');
-  }, [operationId, user]);
+  }, [operationId, user, iapId, revision, loadingEvents]);
 
   const loadIAPData = async () => {
     try {
@@ -47,32 +58,21 @@ export const IAPDashboard: React.FC<IAPDashboardProps> = ({
       setFacilities(facilities);
 
       // Find IAP document
-      const iapId = `${operationId}-iap-001`;
-      let iap = iapProjector.getIAPDocument(iapId);
-
-      if (!iap) {
-        // Create new IAP document
-        const createEvent = {
-          id: iapId,
-          type: EventType.IAP_CREATED,
-          operationId,
-          actorId: user.id,
-          payload: {
-            iapNumber: 1,
-            operationalPeriodStart: new Date().toISOString(),
-            operationalPeriodEnd: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-            preparedBy: user.name
-          },
-          timestamp: Date.now(),
-          schemaVersion: 1,
-          deviceId: 'web',
-          sessionId: 'session',
-          syncStatus: 'local' as const,
-          syncAttempts: 0
-        };
-
-        await iapProjector.processEvent(createEvent);
-        iap = iapProjector.getIAPDocument(iapId);
+      let iap = iapId ? iapProjector.getIAPDocument(iapId) : iapProjector.getLatestIAP(operationId);
+
+      if (!iap && !iapId) {
+        // First IAP of the operation, logged so it survives a reload and syncs
+        const firstIapId = `${operationId}-iap-001`;
+        await eventBus.emit(EventType.IAP_CREATED, {
+          iapId: firstIapId,
+          iapNumber: 1,
+          operationalPeriodStart: new Date().toISOString(),
+          operationalPeriodEnd: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          preparedBy: user.name
+        }, { operationId });
+
+        await iapProjector.loadOperation(operationId, getLocalStore());
+        iap = iapProjector.getIAPDocument(firstIapId);
       }
 
       setIapDocument(iap);
@@ -100,6 +100,35 @@ export const IAPDashboard: React.FC<IAPDashboardProps> = ({
     }
   };
 
+  const rolloverToNextPeriod = async () => {
+    if (!iapDocument) return;
+
+    setRollingOver(true);
+    try {
+      const masterData = getMasterDataService();
+      const [schedule, workAssignments, gaps] = masterData
+        ? await Promise.all([
+            masterData.getDailySchedule(operationId),
+            masterData.getWorkAssignments(operationId),
+            masterData.getGaps(operationId)
+          ])
+        : [undefined, undefined, undefined];
+
+      const draft = await rolloverIAP(iapDocument, {
+        preparedBy: user.name,
+        schedule: schedule?.length ? schedule : undefined,
+        workAssignments,
+        gaps
+      });
+      setIapId(draft.id);
+    } catch (error) {
+      console.error('Error rolling over IAP:', error);
+      alert(error instanceof Error ? error.message : 'Failed to roll over IAP');
+    } finally {
+      setRollingOver(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -136,31 +165,43 @@ export const IAPDashboard: React.FC<IAPDashboardProps> = ({
               Operational Period: {iapDocument.operationalPeriod.start.toLocaleDateString()} - {iapDocument.operationalPeriod.end.toLocaleDateString()}
             </p>
             <p className="text-sm text-gray-500">
-              Status: <span className="capitalize">{iapDocument.status}</span> • 
+              Status: <span>{IAP_STATUS_LABELS[iapDocument.status]}</span> • 
               Version: {iapDocument.version} • 
               Role: <span className="capitalize">{user.iapRole.replace('_', ' ')}</span>
             </p>
           </div>
           
-          {canEdit && (
-            <div className="flex space-x-3">
+          <div className="flex space-x-3">
+            {canEdit && iapDocument.status === 'published' && (
               <button
-                onClick={createOfficialSnapshot}
-                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors"
+                onClick={rolloverToNextPeriod}
+                disabled={rollingOver}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
               >
-                Create 6PM Snapshot
+                {rollingOver ? 'Rolling Over...' : `Start IAP #${iapDocument.iapNumber + 1}`}
               </button>
+            )}
+            {canEdit && (
               <button
-                onClick={() => onNavigate('pdf-preview')}
-                className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 transition-colors"
+                onClick={createOfficialSnapshot}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors"
               >
-                Preview PDF
+                Create 6PM Snapshot
               </button>
-            </div>
-          )}
+            )}
+            <PDFExport iap={iapDocument} />
+          </div>
         </div>
       </div>
 
+      {user.iapRole === 'ip_group' && (
+        <IAPPublishWorkflow
+          iapDocument={iapDocument}
+          userName={user.name}
+          onChange={(updated) => setIapDocument({ ...updated })}
+        />
+      )}
+
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <MetricCard
@@ -191,7 +232,7 @@ export const IAPDashboard: React.FC<IAPDashboardProps> = ({
           <IAPSectionCard
             key={section.id}
             section={section}
-            canEdit={canEdit && section.editable}
+            canEdit={canEdit && section.editable && isIAPEditable(iapDocument.status)}
             onClick={() => onNavigate(section.id)}
           />
         ))}
@@ -21,19 +21,34 @@ import { DailySchedule } from './DailySchedule';
 import { MapsGeographic } from './MapsGeographic';
 import { AppendicesReferences } from './AppendicesReferences';
 import { WorkSitesFacilities } from './WorkSitesFacilities';
+import { CommunicationsPlan } from './CommunicationsPlan';
+import { MedicalPlan } from './MedicalPlan';
+import { PlanningWorksheet } from './PlanningWorksheet';
+import { WeatherSection } from './WeatherSection';
 import { PDFExport } from '../PDFExport';
 import { ClientOnly } from '../ClientOnly';
+import { useIAPTemplate } from '@/hooks/useIAPTemplate';
+import { resolveIAPSections } from '@/lib/iap/IAPTemplates';
+import { iapProjector } from '@/lib/projections/IAPProjector';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import type { AncillaryCategory, EnhancedIAPDocument, IAPPageBreak, IAPTemplateSectionId } from '@/types';
 
 interface IAPSection {
   id: string;
+  templateId: IAPTemplateSectionId;
   title: string;
   startPage: number;
   endPage: number;
+  pageBreak?: IAPPageBreak;
   content: () => React.ReactNode;
 }
 
 export function IAPDocument() {
   const [expandedSection, setExpandedSection] = useState<string>('cover');
+  const template = useIAPTemplate();
+  const iap = useCurrentIAP();
+  const coverPage = iap?.sections.coverPage;
 
   // Listen for navigation events from cover page links
   useEffect(() => {
@@ -73,8 +88,9 @@ export function IAPDocument() {
   };
   
   const handleEmail = () => {
-    const subject = encodeURIComponent(`IAP #${V27_IAP_DATA.operation.operationalPeriod.number} - DR ${V27_IAP_DATA.operation.drNumber}`);
-    const body = encodeURIComponent(`Please find attached the Incident Action Plan for ${V27_IAP_DATA.operation.name}.\n\nOperational Period: ${V27_IAP_DATA.operation.operationalPeriod.start} to ${V27_IAP_DATA.operation.operationalPeriod.end}\n\nPrepared by: ${V27_IAP_DATA.operation.preparedBy}`);
+    if (!iap) return;
+    const subject = encodeURIComponent(`IAP #${iap.iapNumber} - DR ${iap.sections.coverPage.operationNumber}`);
+    const body = encodeURIComponent(`Please find attached the Incident Action Plan for ${iap.sections.coverPage.operationName}.\n\nOperational Period: ${formatPeriod(iap)}\n\nPrepared by: ${iap.sections.coverPage.preparedBy}`);
     window.location.href = `mailto:?subject=${subject}&body=${body}`;
   };
   
@@ -84,9 +100,10 @@ export function IAPDocument() {
   };
   
   // Define all 53 pages according to actual IAP structure
-  const sections: IAPSection[] = [
+  const allSections: IAPSection[] = [
     {
       id: 'cover',
+      templateId: 'cover',
       title: 'Cover Page & Checklist',
       startPage: 1,
       endPage: 1,
@@ -94,6 +111,7 @@ export function IAPDocument() {
     },
     {
       id: 'directors-message',
+      templateId: 'directors_message',
       title: "Director's Intent/Message",
       startPage: 2,
       endPage: 3,
@@ -101,6 +119,7 @@ export function IAPDocument() {
     },
     {
       id: 'contact-roster',
+      templateId: 'contact_roster',
       title: 'Contact Roster DRO HQ',
       startPage: 4,
       endPage: 6,
@@ -108,6 +127,7 @@ export function IAPDocument() {
     },
     {
       id: 'org-chart',
+      templateId: 'org_chart',
       title: 'Incident Organization Chart',
       startPage: 7,
       endPage: 8,
@@ -115,13 +135,23 @@ export function IAPDocument() {
     },
     {
       id: 'priorities',
+      templateId: 'priorities',
       title: 'Incident Priorities and Objectives',
       startPage: 9,
       endPage: 10,
       content: () => <PrioritiesObjectives />
     },
+    {
+      id: 'weather',
+      templateId: 'weather',
+      title: 'Weather Forecast and Alerts',
+      startPage: 11,
+      endPage: 11,
+      content: () => <WeatherSection />
+    },
     {
       id: 'sheltering-resources',
+      templateId: 'sheltering',
       title: 'DRO - Sheltering Resources',
       startPage: 11,
       endPage: 12,
@@ -129,6 +159,7 @@ export function IAPDocument() {
     },
     {
       id: 'feeding',
+      templateId: 'feeding',
       title: 'Work Assignments - Feeding',
       startPage: 13,
       endPage: 15,
@@ -136,6 +167,7 @@ export function IAPDocument() {
     },
     {
       id: 'government-ops',
+      templateId: 'government_ops',
       title: 'Work Assignments - Government Operations',
       startPage: 23,
       endPage: 25,
@@ -143,6 +175,7 @@ export function IAPDocument() {
     },
     {
       id: 'damage-assessment',
+      templateId: 'damage_assessment',
       title: 'Work Assignments - Damage Assessment',
       startPage: 26,
       endPage: 28,
@@ -150,6 +183,7 @@ export function IAPDocument() {
     },
     {
       id: 'distribution',
+      templateId: 'distribution',
       title: 'Work Assignments - Distribution',
       startPage: 29,
       endPage: 31,
@@ -157,13 +191,39 @@ export function IAPDocument() {
     },
     {
       id: 'individual-care',
+      templateId: 'individual_care',
       title: 'Work Assignments - Individual Disaster Care',
       startPage: 32,
       endPage: 38,
       content: () => <IAPWorkAssignmentsIndividualCare />
     },
+    {
+      id: 'planning-worksheet',
+      templateId: 'planning_worksheet',
+      title: 'Operational Planning Worksheet (ICS 215)',
+      startPage: 39,
+      endPage: 39,
+      content: () => <PlanningWorksheet />
+    },
+    {
+      id: 'comms-plan',
+      templateId: 'comms_plan',
+      title: 'Communications Plan (ICS 205)',
+      startPage: 39,
+      endPage: 39,
+      content: () => <CommunicationsPlan />
+    },
+    {
+      id: 'medical-plan',
+      templateId: 'medical_plan',
+      title: 'Medical Plan (ICS 206)',
+      startPage: 40,
+      endPage: 40,
+      content: () => <MedicalPlan />
+    },
     {
       id: 'work-sites',
+      templateId: 'work_sites',
       title: 'Work Sites and Facilities',
       startPage: 39,
       endPage: 44,
@@ -171,6 +231,7 @@ export function IAPDocument() {
     },
     {
       id: 'daily-schedule',
+      templateId: 'daily_schedule',
       title: 'Daily Schedule',
       startPage: 45,
       endPage: 48,
@@ -182,6 +243,7 @@ export function IAPDocument() {
     },
     {
       id: 'maps',
+      templateId: 'maps',
       title: 'Maps and Geographic Information',
       startPage: 49,
       endPage: 51,
@@ -189,6 +251,7 @@ export function IAPDocument() {
     },
     {
       id: 'appendices',
+      templateId: 'appendices',
       title: 'Appendices and References',
       startPage: 52,
       endPage: 53,
@@ -196,6 +259,28 @@ export function IAPDocument() {
     }
   ];
 
+  // Order, title and page breaks come from the operation's IAP template;
+  // page numbers are recounted so they follow the template order
+  let nextPage = 1;
+  const sections: IAPSection[] = resolveIAPSections(template).flatMap(entry => {
+    const section: IAPSection | undefined = entry.id === 'annex'
+      ? {
+          id: entry.key,
+          templateId: 'annex',
+          title: entry.title,
+          startPage: 1,
+          endPage: 1,
+          content: () => <AnnexSection category={entry.annexCategory || 'other'} />
+        }
+      : allSections.find(candidate => candidate.templateId === entry.id);
+    if (!section) return [];
+
+    const pages = section.endPage - section.startPage + 1;
+    const startPage = nextPage;
+    nextPage += pages;
+    return [{ ...section, title: entry.title, pageBreak: entry.pageBreak, startPage, endPage: startPage + pages - 1 }];
+  });
+
   const toggleSection = (sectionId: string) => {
     setExpandedSection(expandedSection === sectionId ? '' : sectionId);
   };
@@ -219,7 +304,7 @@ export function IAPDocument() {
         @media print {
           .no-print { display: none !important; }
           .print-only { display: block !important; }
-          .page-break { page-break-after: always; }
+          .page-break { page-break-before: always; }
           @page { size: letter; margin: 0.75in; }
           body { font-size: 10pt; }
           h2 { font-size: 14pt; page-break-after: avoid; }
@@ -236,12 +321,18 @@ export function IAPDocument() {
         <div className="bg-red-600 text-white p-4 rounded-t-lg">
           <div className="flex justify-between items-start">
             <div>
-              <h1 className="text-2xl font-bold">Incident Action Plan #{V27_IAP_DATA.operation.operationalPeriod.number}</h1>
-              <p>DR {V27_IAP_DATA.operation.drNumber} - {V27_IAP_DATA.operation.name}</p>
-              <p className="text-sm">Operational Period: {V27_IAP_DATA.operation.operationalPeriod.start} to {V27_IAP_DATA.operation.operationalPeriod.end}</p>
+              <h1 className="text-2xl font-bold">Incident Action Plan{iap && ` #${iap.iapNumber}`}</h1>
+              {iap && coverPage ? (
+                <>
+                  <p>DR {coverPage.operationNumber} - {coverPage.operationName}</p>
+                  <p className="text-sm">Operational Period: {formatPeriod(iap)}</p>
+                </>
+              ) : (
+                <p className="text-sm">No IAP for the current operational period</p>
+              )}
             </div>
             <div className="flex gap-2 items-center">
-              <PDFExport data={V27_IAP_DATA} />
+              <PDFExport />
               
               {/* Expand/Collapse All Buttons */}
               <div className="flex gap-1 no-print">
@@ -315,25 +406,20 @@ export function IAPDocument() {
         
         {/* Print-only content - all sections expanded */}
         <div className="print-only">
-          {sections.map((section, index) => {
-            // Calculate actual page number based on previous sections
-            let startPage = 1;
-            for (let i = 0; i < index; i++) {
-              startPage += (sections[i].endPage - sections[i].startPage + 1);
-            }
-            
-            return (
-              <div key={section.id} className="section-print page-break">
-                <h2 className="text-xl font-bold mb-4">{section.title}</h2>
-                <div className="section-content">
-                  {section.content()}
-                </div>
-                <div className="text-center text-sm mt-8">
-                  Page {startPage} of {sections.reduce((total, s) => total + (s.endPage - s.startPage + 1), 0)}
-                </div>
+          {sections.map((section, index) => (
+            <div
+              key={section.id}
+              className={`section-print ${index > 0 && section.pageBreak === 'before' ? 'page-break' : ''}`}
+            >
+              <h2 className="text-xl font-bold mb-4">{section.title}</h2>
+              <div className="section-content">
+                {section.content()}
               </div>
-            );
-          })}
+              <div className="text-center text-sm mt-8">
+                Page {section.startPage} of {nextPage - 1}
+              </div>
+            </div>
+          ))}
         </div>
 
         {/* Actions Bar */}
@@ -359,7 +445,8 @@ export function IAPDocument() {
             </button>
             <button 
               onClick={handleEmail}
-              className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 flex items-center gap-2"
+              disabled={!iap}
+              className="bg-gray-600 text-white px-4 py-2 rounded hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
@@ -379,21 +466,36 @@ export function IAPDocument() {
   );
 }
 
+// The projected IAP for the operational period being viewed
+function useCurrentIAP(): EnhancedIAPDocument | null {
+  const { operationId, asOf } = useTimeTravel();
+  useIAPProjector(operationId);
+  return operationId ? iapProjector.getIAPForPeriod(operationId, asOf !== null ? new Date(asOf) : new Date()) : null;
+}
+
+function formatPeriod(iap: EnhancedIAPDocument): string {
+  return `${iap.operationalPeriod.start.toLocaleString()} to ${iap.operationalPeriod.end.toLocaleString()}`;
+}
+
 // Cover Page Component - Now uses the enhanced component with photo upload
 function CoverPage() {
+  const iap = useCurrentIAP();
+  if (!iap) {
+    return <p className="text-gray-500 italic">No IAP has been created for the current operational period.</p>;
+  }
+
+  const coverPage = iap.sections.coverPage;
   return (
     <IAPCoverPage 
-      drNumber={V27_IAP_DATA.operation.drNumber}
-      operationName={V27_IAP_DATA.operation.name}
-      operationalPeriod={V27_IAP_DATA.operation.operationalPeriod}
-      preparedBy={{
-        name: V27_IAP_DATA.operation.preparedBy,
-        title: V27_IAP_DATA.operation.preparedByTitle
-      }}
-      approvedBy={{
-        name: V27_IAP_DATA.operation.approvedBy,
-        title: V27_IAP_DATA.operation.approvedByTitle
+      drNumber={coverPage.operationNumber}
+      operationName={coverPage.operationName}
+      operationalPeriod={{
+        number: iap.iapNumber,
+        start: iap.operationalPeriod.start.toLocaleString(),
+        end: iap.operationalPeriod.end.toLocaleString()
       }}
+      preparedBy={{ name: coverPage.preparedBy, title: '' }}
+      approvedBy={{ name: coverPage.approvedBy, title: '' }}
       onPhotoUpdate={(photo, caption) => {
         console.log('Photo updated:', photo, caption);
         // Here you would save to your data store
@@ -416,6 +518,7 @@ function DirectorsMessageSection() {
 
 // Legacy DirectorsMessage for other references
 function LegacyDirectorsMessage() {
+  const iap = useCurrentIAP();
   return (
     <div className="p-6">
       <h2 className="text-2xl font-bold mb-4">Director's Message</h2>
@@ -437,10 +540,7 @@ function LegacyDirectorsMessage() {
             <li>Ensure all staff are taking appropriate rest periods</li>
           </ul>
           <p className="mb-4">Thank you for all you do.</p>
-          <p>
-            {V27_IAP_DATA.operation.approvedBy}<br/>
-            {V27_IAP_DATA.operation.approvedByTitle}
-          </p>
+          <p>{iap?.sections.coverPage.approvedBy}</p>
         </div>
       </div>
     </div>
@@ -523,6 +623,29 @@ function FeedingAssignments() {
   );
 }
 
+// Annex: the current IAP's ancillary content of one category
+function AnnexSection({ category }: { category: AncillaryCategory }) {
+  const iap = useCurrentIAP();
+  const content = (iap?.ancillaryContent || [])
+    .filter(item => item.category === category)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+
+  if (content.length === 0) {
+    return <p className="text-gray-500 italic">Nothing has been added to this annex for the current IAP.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {content.map(item => (
+        <div key={item.id}>
+          <h3 className="font-semibold mb-1">{item.title}</h3>
+          <p className="whitespace-pre-wrap">{item.content.plainText}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // Placeholder components for other sections
 function AssessmentAssignments() {
   return (
@@ -0,0 +1,174 @@
+/**
+ * IAP Publish Workflow - Review, approval and publication controls
+ *
+ * Draft -> In Review -> Approved -> Published. Only IAP coordinators see the
+ * controls; approval is further limited to the approver named on the cover page.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { EnhancedIAPDocument, IAPStatus } from '../../types';
+import { IAPCoordinatorGate, RoleGate } from '../../lib/auth/RoleGate';
+import { IAP_STATUS_LABELS, sameName } from '../../lib/iap/iapStatus';
+import { submitForReview, returnToDraft, approveIAP, publishIAP } from '../../lib/iap/IAPPublish';
+import { iapProjector } from '../../lib/projections/IAPProjector';
+
+interface IAPPublishWorkflowProps {
+  iapDocument: EnhancedIAPDocument;
+  userName: string;
+  onChange: (iapDocument: EnhancedIAPDocument) => void;
+}
+
+const STEPS: IAPStatus[] = ['draft', 'in_review', 'approved', 'published'];
+
+export const IAPPublishWorkflow: React.FC<IAPPublishWorkflowProps> = ({
+  iapDocument,
+  userName,
+  onChange
+}) => {
+  const coverPage = iapDocument.sections.coverPage;
+  const [preparedBy, setPreparedBy] = useState(coverPage.preparedBy || userName);
+  const [approvedBy, setApprovedBy] = useState(coverPage.approvedBy);
+  const [returnReason, setReturnReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<EnhancedIAPDocument>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const { status, review, officialSnapshot } = iapDocument;
+  const isNamedApprover = !!review && sameName(userName, review.approvedBy);
+  const snapshotVerified = officialSnapshot ? iapProjector.verifySnapshot(officialSnapshot) : false;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Review & Publish</h2>
+        <ol className="flex items-center space-x-2 text-xs">
+          {STEPS.map((step, index) => (
+            <li
+              key={step}
+              className={`px-2 py-1 rounded-full ${
+                step === status
+                  ? 'bg-red-600 text-white'
+                  : STEPS.indexOf(status) > index
+                    ? 'bg-green-100 text-green-800'
+                    : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {IAP_STATUS_LABELS[step]}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {review && (
+        <div className="text-sm text-gray-600 mb-4 space-y-1">
+          <p>Prepared by <strong>{review.preparedBy}</strong> • submitted {review.submittedAt.toLocaleString()}</p>
+          <p>
+            Approver <strong>{review.approvedBy}</strong>
+            {review.approvedAt && <> • approved {review.approvedAt.toLocaleString()}</>}
+          </p>
+          {status === 'draft' && review.returnReason && (
+            <p className="text-yellow-700">
+              Returned by {review.returnedBy}: {review.returnReason}
+            </p>
+          )}
+        </div>
+      )}
+
+      {officialSnapshot && (
+        <p className={`text-xs font-mono mb-4 ${snapshotVerified ? 'text-green-700' : 'text-red-700'}`}>
+          {snapshotVerified ? 'Locked snapshot verified' : 'Locked snapshot does not match its hash'} • SHA-256 {officialSnapshot.contentHash?.slice(0, 16)}…
+        </p>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+      )}
+
+      <IAPCoordinatorGate
+        showFallback
+        fallback={<p className="text-sm text-gray-500 italic">Only IAP coordinators can move the plan through review.</p>}
+      >
+        {status === 'draft' && (
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-sm">
+              <span className="block text-gray-600">Prepared by</span>
+              <input
+                value={preparedBy}
+                onChange={(e) => setPreparedBy(e.target.value)}
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <label className="text-sm">
+              <span className="block text-gray-600">Approved by</span>
+              <input
+                value={approvedBy}
+                onChange={(e) => setApprovedBy(e.target.value)}
+                placeholder="e.g. DRO Director"
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <button
+              disabled={busy}
+              onClick={() => run(() => submitForReview(iapDocument, { preparedBy, approvedBy }))}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Send for Review
+            </button>
+          </div>
+        )}
+
+        {(status === 'in_review' || status === 'approved') && (
+          <div className="flex flex-wrap items-end gap-3">
+            {status === 'in_review' && (
+              <button
+                disabled={busy || !isNamedApprover}
+                title={isNamedApprover ? undefined : `Only ${review?.approvedBy} can approve`}
+                onClick={() => run(() => approveIAP(iapDocument, userName))}
+                className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                Approve
+              </button>
+            )}
+            {status === 'approved' && (
+              <RoleGate resource="iap" action="publish">
+                <button
+                  disabled={busy}
+                  onClick={() => run(() => publishIAP(iapDocument))}
+                  className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  Publish
+                </button>
+              </RoleGate>
+            )}
+            <input
+              value={returnReason}
+              onChange={(e) => setReturnReason(e.target.value)}
+              placeholder="Reason for changes"
+              className="border rounded px-2 py-1 text-sm"
+            />
+            <button
+              disabled={busy || !returnReason.trim()}
+              onClick={() => run(() => returnToDraft(iapDocument, userName, returnReason))}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 disabled:opacity-50"
+            >
+              Return to Draft
+            </button>
+          </div>
+        )}
+      </IAPCoordinatorGate>
+    </div>
+  );
+};
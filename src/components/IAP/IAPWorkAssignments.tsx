@@ -2,6 +2,10 @@
 
 import React, { useEffect, useState } from 'react';
 import { simpleStore } from '@/lib/simple-store';
+import { DisciplineAssignment } from '@/types';
+import { assignmentTotals } from '@/lib/disciplines/DisciplineCatalog';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
 
 interface ResourceAssignment {
   resourceId: string;
@@ -28,26 +32,47 @@ interface FacilityData {
   mealsPerDay?: number;
 }
 
-// DRO Sheltering Resources - this would come from staff shelter facilities
+/**
+ * Submitted and approved Shelter Console assignments, from the IAP projector
+ * that also builds the work sites table (as of the time-travel moment when
+ * one is picked)
+ */
+function useShelterAssignments(): DisciplineAssignment[] | null {
+  const { operationId, asOf } = useTimeTravel();
+  const { projector, revision } = useIAPProjector(operationId, asOf);
+  const [assignments, setAssignments] = useState<DisciplineAssignment[] | null>(null);
+
+  useEffect(() => {
+    if (!operationId || !projector) return;
+    setAssignments(projector.getDisciplineAssignmentsForIAP(operationId, 'sheltering'));
+  }, [operationId, projector, revision]);
+
+  return assignments;
+}
+
+// DRO Sheltering Resources - staff shelters from the Shelter Console
 export function IAPWorkAssignmentsShelteringResources() {
+  const shelterAssignments = useShelterAssignments();
   const [resources, setResources] = useState<ResourceAssignment[]>([]);
   
   useEffect(() => {
-    // Load staff shelter facilities from database
-    const facilities = simpleStore.getFacilities();
-    const staffShelters = facilities
-      .filter(f => f.type === 'Staff Shelter' || f.type === 'Responder Shelter')
-      .map(f => ({
-        resourceId: f.name,
-        leaderName: 'TBD', // This would come from personnel assignments
-        leaderContact: 'TBD',
-        nightLeaderName: 'TBD',
-        nightLeaderContact: 'TBD',
-        totalPersons: 'TBD',
-        reportingLocation: `${f.address}\n${f.county || ''} County`,
-        reportingTime: 'Day – 07:00\n\nNight – 19:00',
-        workAssignment: 'Operate responder sheltering for assigned responders at location'
-      }));
+    const staffShelters = (shelterAssignments || [])
+      .filter(a => a.site.type === 'Staff Shelter')
+      .map(a => {
+        const positions = a.personnel.positions;
+        const staffed = positions.filter(p => p.have > 0);
+        return {
+          resourceId: a.site.name,
+          leaderName: positions.find(p => p.dayLead)?.dayLead || 'TBD',
+          leaderContact: '',
+          nightLeaderName: positions.find(p => p.nightLead)?.nightLead || 'TBD',
+          nightLeaderContact: '',
+          totalPersons: staffed.length > 0 ? staffed.map(p => `${p.code} – ${p.have}`).join('\n') : 'TBD',
+          reportingLocation: `${a.site.address}\n${a.site.county || ''} County`,
+          reportingTime: 'Day – 07:00\n\nNight – 19:00',
+          workAssignment: 'Operate responder sheltering for assigned responders at location'
+        };
+      });
     
     // If no staff shelters, show example data
     if (staffShelters.length === 0) {
@@ -78,7 +103,7 @@ export function IAPWorkAssignmentsShelteringResources() {
     } else {
       setResources(staffShelters);
     }
-  }, []);
+  }, [shelterAssignments]);
 
   return (
     <div className="p-4">
@@ -143,31 +168,30 @@ export function IAPWorkAssignmentsShelteringResources() {
 }
 
 export function IAPWorkAssignmentsSheltering() {
+  const shelterAssignments = useShelterAssignments();
   const [facilities, setFacilities] = useState<FacilityData[]>([]);
   
   useEffect(() => {
-    // Load shelter facilities from database
-    const allFacilities = simpleStore.getFacilities();
-    const shelters = allFacilities
-      .filter(f => f.type === 'Shelter' || f.type === 'Evacuation Center')
-      .map(f => {
-        // Parse any stored work assignment data
-        const workAssignment = simpleStore.getWorkAssignment(f.id);
+    // Client shelters from the Shelter Console
+    const shelters = (shelterAssignments || [])
+      .filter(a => a.site.type !== 'Staff Shelter')
+      .map(a => {
+        const { personnelTotals } = assignmentTotals(a);
         return {
-          id: f.id,
-          name: f.name,
-          type: f.type,
-          county: f.county || 'Unknown',
-          address: f.address,
-          capacity: workAssignment?.capacity || 100,
-          currentOccupancy: workAssignment?.currentOccupancy || 0,
-          staffRequired: workAssignment?.staffRequired || 5,
-          staffAssigned: workAssignment?.staffAssigned || 0,
+          id: a.id,
+          name: a.site.name,
+          type: a.site.type,
+          county: a.site.county || 'Unknown',
+          address: a.site.address,
+          capacity: a.site.capacity,
+          currentOccupancy: 0,
+          staffRequired: personnelTotals.required,
+          staffAssigned: personnelTotals.have,
         };
       });
     
     setFacilities(shelters);
-  }, []);
+  }, [shelterAssignments]);
 
   // If no facilities from database, show example data
   const displayFacilities = facilities.length > 0 ? facilities : [
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { iapProjector } from '@/lib/projections/IAPProjector';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { getMasterDataService } from '@/lib/services/MasterDataService';
+import {
+  MedicalPlanContent,
+  keepHospitalContacts,
+  medicalPlanContent,
+  nearestHospitalsByFacility,
+  validateMedicalPlan
+} from '@/lib/iap/MedicalPlan';
+import { updateMedicalPlan } from '@/lib/iap/IAPSectionEdits';
+import { isIAPEditable } from '@/lib/iap/iapStatus';
+import { EditableTable } from './EditableTable';
+import type { Hospital } from '@/types';
+
+const HOSPITAL_COLUMNS = [
+  { key: 'name' as const, label: 'Hospital' },
+  { key: 'address' as const, label: 'Address' },
+  { key: 'contact' as const, label: 'Contact', placeholder: 'ED phone' },
+  { key: 'travelTime' as const, label: 'Travel Time' },
+  { key: 'traumaCenter' as const, label: 'Trauma', checkbox: true },
+  { key: 'burnCenter' as const, label: 'Burn', checkbox: true },
+  { key: 'helipad' as const, label: 'Helipad', checkbox: true },
+];
+
+const EMPTY_HOSPITAL: Hospital = {
+  name: '',
+  address: '',
+  contact: '',
+  travelTime: '',
+  traumaCenter: false,
+  burnCenter: false,
+  helipad: false
+};
+
+export function MedicalPlan() {
+  const { operationId, asOf, isHistorical } = useTimeTravel();
+  useIAPProjector(operationId);
+  const iap = operationId
+    ? iapProjector.getIAPForPeriod(operationId, asOf !== null ? new Date(asOf) : new Date())
+    : null;
+  const [plan, setPlan] = useState<MedicalPlanContent>(() => medicalPlanContent(iap?.sections.medicalPlan));
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = Boolean(iap) && !isHistorical && isIAPEditable(iap!.status);
+
+  useEffect(() => {
+    if (!editing) setPlan(medicalPlanContent(iap?.sections.medicalPlan));
+  }, [iap?.id, iap?.version, editing]);
+
+  const update = <K extends keyof MedicalPlanContent>(key: K, value: MedicalPlanContent[K]) => {
+    setPlan(prev => ({ ...prev, [key]: value }));
+  };
+
+  const findNearestHospitals = async () => {
+    const masterData = getMasterDataService();
+    if (!masterData || !operationId) return;
+    try {
+      const facilities = await masterData.getFacilities(operationId);
+      update('facilityHospitals', keepHospitalContacts(plan.facilityHospitals, nearestHospitalsByFacility(facilities)));
+    } catch (err) {
+      console.error('Error loading facilities for hospital lookup:', err);
+      setError('Could not load facilities');
+    }
+  };
+
+  const updateFacilityHospitals = (facilityId: string, hospitals: Hospital[]) => {
+    update('facilityHospitals', plan.facilityHospitals.map(facility =>
+      facility.facilityId === facilityId ? { ...facility, hospitals } : facility
+    ));
+  };
+
+  const save = async () => {
+    if (!iap) return;
+    const problems = validateMedicalPlan(plan);
+    if (problems.length > 0) {
+      setError(problems.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const preparedBy = typeof window !== 'undefined'
+        ? localStorage.getItem('disaster_ops_user_name') || iap.sections.coverPage.preparedBy
+        : iap.sections.coverPage.preparedBy;
+      await updateMedicalPlan(iap, plan, preparedBy);
+      setEditing(false);
+    } catch (err) {
+      console.error('Error saving medical plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save medical plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!iap) {
+    return <p className="text-gray-500 italic">No IAP for the current operational period.</p>;
+  }
+
+  const isEmpty = !plan.emergencyProcedures.trim() &&
+    plan.medicalAidStations.length + plan.ambulanceServices.length + plan.hospitals.length + plan.facilityHospitals.length === 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 no-print">
+        <p className="text-sm text-gray-600">ICS 206 - medical aid, ambulance and hospital information for the period</p>
+        {canEdit && (
+          <div className="flex gap-2">
+            {editing && (
+              <button
+                type="button"
+                onClick={findNearestHospitals}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              >
+                Find nearest hospitals
+              </button>
+            )}
+            {editing ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => { setEditing(false); setError(null); }}
+                  className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={saving}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+              >
+                Edit
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded whitespace-pre-line">{error}</div>}
+
+      {isEmpty && !editing && (
+        <p className="text-gray-500 italic">No medical plan has been entered for this IAP.</p>
+      )}
+
+      <EditableTable
+        title="Medical Aid Stations"
+        rows={plan.medicalAidStations}
+        columns={[
+          { key: 'name', label: 'Name' },
+          { key: 'location', label: 'Location' },
+          { key: 'contact', label: 'Contact' },
+          { key: 'paramedics', label: 'Paramedics', checkbox: true },
+        ]}
+        editing={editing}
+        emptyRow={{ name: '', location: '', contact: '', paramedics: false }}
+        onChange={(rows) => update('medicalAidStations', rows)}
+      />
+      <EditableTable
+        title="Ambulance Services"
+        rows={plan.ambulanceServices}
+        columns={[
+          { key: 'name', label: 'Name' },
+          { key: 'address', label: 'Address' },
+          { key: 'phone', label: 'Phone' },
+          { key: 'paramedics', label: 'Paramedics', checkbox: true },
+        ]}
+        editing={editing}
+        emptyRow={{ name: '', address: '', phone: '', paramedics: false }}
+        onChange={(rows) => update('ambulanceServices', rows)}
+      />
+      <EditableTable
+        title="Hospitals"
+        rows={plan.hospitals}
+        columns={HOSPITAL_COLUMNS}
+        editing={editing}
+        emptyRow={EMPTY_HOSPITAL}
+        onChange={(rows) => update('hospitals', rows)}
+      />
+
+      {plan.facilityHospitals.length > 0 && (
+        <div className="mb-6">
+          <h3 className="font-semibold mb-2">Nearest Hospitals by Facility</h3>
+          {plan.facilityHospitals.map(facility => (
+            <div key={facility.facilityId} className="ml-2">
+              {facility.hospitals.length === 0 ? (
+                <p className="text-sm text-amber-700 mb-4">
+                  {facility.facilityName}: no coordinates on file, so nearest hospitals could not be calculated
+                </p>
+              ) : (
+                <EditableTable
+                  title={facility.address ? `${facility.facilityName} - ${facility.address}` : facility.facilityName}
+                  rows={facility.hospitals}
+                  columns={[...HOSPITAL_COLUMNS.slice(0, 3), { key: 'travelTime', label: 'Travel Time' }]}
+                  editing={editing}
+                  emptyRow={EMPTY_HOSPITAL}
+                  onChange={(rows) => updateFacilityHospitals(facility.facilityId, rows)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(editing || plan.emergencyProcedures.trim()) && (
+        <div className="mb-6">
+          <h3 className="font-semibold mb-2">Medical Emergency Procedures</h3>
+          {editing ? (
+            <textarea
+              value={plan.emergencyProcedures}
+              onChange={(e) => update('emergencyProcedures', e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+              placeholder="Call 911, notify the facility manager and the DRO Health Services lead..."
+            />
+          ) : (
+            <p className="text-sm whitespace-pre-wrap">{plan.emergencyProcedures}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState } from 'react';
+import { iapProjector } from '@/lib/projections/IAPProjector';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { getMasterDataService } from '@/lib/services/MasterDataService';
+import { buildPlanningWorksheet, disciplineDeployments, syncWorksheetGaps } from '@/lib/iap/PlanningWorksheet';
+import { updatePlanningWorksheet } from '@/lib/iap/IAPSectionEdits';
+import { isIAPEditable } from '@/lib/iap/iapStatus';
+import type { ShelterStandardsInput } from '@/lib/standards/RedCrossShelterStandards';
+import type { ResourceWorksheetRow } from '@/types';
+
+const SHELTER_TYPES: { value: ShelterStandardsInput['shelterType']; label: string }[] = [
+  { value: 'emergency_evacuation', label: 'Emergency / evacuation' },
+  { value: 'standard_short_term', label: 'Standard short-term' },
+  { value: 'long_term', label: 'Long-term' },
+];
+
+export function PlanningWorksheet() {
+  const { operationId, asOf, isHistorical } = useTimeTravel();
+  useIAPProjector(operationId);
+  const iap = operationId
+    ? iapProjector.getIAPForPeriod(operationId, asOf !== null ? new Date(asOf) : new Date())
+    : null;
+  const [draft, setDraft] = useState<ResourceWorksheetRow[] | null>(null);
+  const [shelterType, setShelterType] = useState<ShelterStandardsInput['shelterType']>('emergency_evacuation');
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = Boolean(iap) && !isHistorical && isIAPEditable(iap!.status);
+  const rows = draft || iap?.sections.operationalPlanning?.resourceWorksheet || [];
+
+  const calculate = async () => {
+    const masterData = getMasterDataService();
+    if (!masterData || !operationId) return;
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const [facilities, assignments] = await Promise.all([
+        masterData.getFacilities(operationId),
+        masterData.getPersonnelAssignments(operationId),
+      ]);
+      setDraft(buildPlanningWorksheet({
+        facilities,
+        assignments,
+        assets: disciplineDeployments(iapProjector.getDisciplineAssignmentsForIAP(operationId), facilities),
+        shelterType,
+      }));
+    } catch (err) {
+      console.error('Error calculating planning worksheet:', err);
+      setError('Could not load facilities and assignments');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const save = async () => {
+    const masterData = getMasterDataService();
+    if (!iap || !draft || !masterData) return;
+    setWorking(true);
+    setError(null);
+    try {
+      const preparedBy = typeof window !== 'undefined'
+        ? localStorage.getItem('disaster_ops_user_name') || iap.sections.coverPage.preparedBy
+        : iap.sections.coverPage.preparedBy;
+      await updatePlanningWorksheet(iap, draft, preparedBy);
+      const { added, updated } = await syncWorksheetGaps(iap.operationId, draft, masterData);
+      setDraft(null);
+      setMessage(`Worksheet saved. ${added} gap${added === 1 ? '' : 's'} opened, ${updated} updated.`);
+    } catch (err) {
+      console.error('Error saving planning worksheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save planning worksheet');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!iap) {
+    return <p className="text-gray-500 italic">No IAP for the current operational period.</p>;
+  }
+
+  const facilityIds = [...new Set(rows.map(row => row.facilityId))];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 no-print">
+        <p className="text-sm text-gray-600">ICS 215 - required, have and need at each shelter and feeding site</p>
+        {canEdit && (
+          <div className="flex gap-2 items-center">
+            <select
+              value={shelterType}
+              onChange={(e) => setShelterType(e.target.value as ShelterStandardsInput['shelterType'])}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            >
+              {SHELTER_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={calculate}
+              disabled={working}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+            >
+              Calculate from standards
+            </button>
+            {draft && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => { setDraft(null); setError(null); }}
+                  className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={working}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  {working ? 'Saving...' : 'Save and open gaps'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded">{error}</div>}
+      {message && <div className="mb-4 p-3 bg-green-50 text-green-700 text-sm rounded no-print">{message}</div>}
+
+      {rows.length === 0 ? (
+        <p className="text-gray-500 italic">No planning worksheet has been calculated for this IAP.</p>
+      ) : (
+        facilityIds.map(facilityId => {
+          const facilityRows = rows.filter(row => row.facilityId === facilityId);
+          return (
+            <div key={facilityId} className="mb-6">
+              <h3 className="font-semibold">{facilityRows[0].facilityName}</h3>
+              <p className="text-xs text-gray-600 mb-2">{facilityRows[0].basis}</p>
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="border px-2 py-1 text-left">Resource</th>
+                    <th className="border px-2 py-1 text-right">Required</th>
+                    <th className="border px-2 py-1 text-right">Have</th>
+                    <th className="border px-2 py-1 text-right">Need</th>
+                    <th className="border px-2 py-1 text-left">Unit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {facilityRows.map(row => (
+                    <tr key={row.resourceKind} className={row.need > 0 ? 'bg-red-50' : ''}>
+                      <td className="border px-2 py-1">{row.resourceKind}</td>
+                      <td className="border px-2 py-1 text-right">{row.required}</td>
+                      <td className="border px-2 py-1 text-right">{row.have}</td>
+                      <td className={`border px-2 py-1 text-right ${row.need > 0 ? 'font-semibold text-red-700' : ''}`}>
+                        {row.need > 0 ? row.need : '-'}
+                      </td>
+                      <td className="border px-2 py-1">{row.unit}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
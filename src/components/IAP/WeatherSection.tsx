@@ -0,0 +1,362 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { iapProjector } from '@/lib/projections/IAPProjector';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { ProjectionManager } from '@/lib/projections/Projector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { updateWeather } from '@/lib/iap/IAPSectionEdits';
+import { isIAPEditable } from '@/lib/iap/iapStatus';
+import { ManualWeatherProvider } from '@/lib/weather/ManualWeatherProvider';
+import { NWSCapProvider } from '@/lib/weather/NWSCapProvider';
+import {
+  WeatherProvider,
+  mergeWeather,
+  severityOfEvent,
+  summarizeWeather,
+  weatherSafetyMessage
+} from '@/lib/weather/WeatherProvider';
+import { EditableTable } from './EditableTable';
+import type { County, WeatherAlert, WeatherCondition, WeatherInfo } from '@/types';
+
+// Form rows hold what was typed; numbers are parsed when the weather is built
+interface ConditionRow {
+  when: string;
+  conditions: string;
+  temperature: string;
+  humidity: string;
+  windSpeed: string;
+  windDirection: string;
+  precipitation: string;
+}
+
+interface AlertRow {
+  type: string;
+  headline: string;
+  instruction: string;
+  until: string;
+}
+
+const EMPTY_CONDITION: ConditionRow = {
+  when: '',
+  conditions: '',
+  temperature: '',
+  humidity: '',
+  windSpeed: '',
+  windDirection: '',
+  precipitation: ''
+};
+
+const CONDITION_COLUMNS = [
+  { key: 'conditions' as const, label: 'Conditions', placeholder: 'Scattered storms' },
+  { key: 'temperature' as const, label: 'Temp °F' },
+  { key: 'humidity' as const, label: 'Humidity %' },
+  { key: 'windDirection' as const, label: 'Wind Dir', placeholder: 'NE' },
+  { key: 'windSpeed' as const, label: 'Wind mph' },
+  { key: 'precipitation' as const, label: 'Precip %' },
+];
+
+function toCondition(row: ConditionRow, fallbackTime: Date): WeatherCondition {
+  return {
+    dateTime: row.when ? new Date(row.when) : fallbackTime,
+    conditions: row.conditions.trim(),
+    temperature: Number(row.temperature) || 0,
+    humidity: Number(row.humidity) || 0,
+    windSpeed: Number(row.windSpeed) || 0,
+    windDirection: row.windDirection.trim(),
+    precipitation: Number(row.precipitation) || 0
+  };
+}
+
+export function WeatherSection() {
+  const { operationId, asOf, isHistorical, projections } = useTimeTravel();
+  useIAPProjector(operationId);
+  const iap = operationId
+    ? iapProjector.getIAPForPeriod(operationId, asOf !== null ? new Date(asOf) : new Date())
+    : null;
+  const [counties, setCounties] = useState<County[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [current, setCurrent] = useState<ConditionRow>(EMPTY_CONDITION);
+  const [forecast, setForecast] = useState<ConditionRow[]>([]);
+  const [manualAlerts, setManualAlerts] = useState<AlertRow[]>([]);
+  const [source, setSource] = useState('');
+  const [alertFiles, setAlertFiles] = useState<{ name: string; xml: string }[]>([]);
+  const [preview, setPreview] = useState<WeatherInfo | null>(null);
+  const [weatherSummary, setWeatherSummary] = useState('');
+  const [safetyMessage, setSafetyMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = Boolean(iap) && !isHistorical && isIAPEditable(iap!.status);
+  const weather = iap?.sections.weatherForecast;
+
+  // Alerts are filtered to the operation's counties
+  useEffect(() => {
+    if (!operationId) return;
+    let cancelled = false;
+    const load = async () => {
+      const manager = projections || await ProjectionManager.at(operationId, Date.now());
+      return manager.getOperation()?.geography?.counties || [];
+    };
+    load()
+      .then(loaded => {
+        if (!cancelled) setCounties(loaded);
+      })
+      .catch(err => console.error('Error loading operation counties:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [operationId, projections]);
+
+  const loadAlertFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const loaded = await Promise.all(Array.from(files).map(async file => ({ name: file.name, xml: await file.text() })));
+    setAlertFiles(prev => [...prev, ...loaded]);
+  };
+
+  const buildWeather = async () => {
+    if (!iap) return;
+    setError(null);
+    try {
+      const now = new Date();
+      const hasCurrent = Object.values(current).some(value => value.trim());
+      const providers: WeatherProvider[] = [
+        new ManualWeatherProvider({
+          current: hasCurrent ? toCondition(current, now) : undefined,
+          forecast: forecast.map(row => toCondition(row, now)),
+          alerts: manualAlerts
+            .filter(row => row.type.trim())
+            .map((row): WeatherAlert => ({
+              type: row.type.trim(),
+              severity: severityOfEvent(row.type),
+              headline: row.headline.trim() || row.type.trim(),
+              description: '',
+              instruction: row.instruction.trim() || undefined,
+              startTime: now,
+              endTime: row.until ? new Date(row.until) : iap.operationalPeriod.end
+            })),
+          source
+        }, now)
+      ];
+      if (alertFiles.length > 0) {
+        providers.push(new NWSCapProvider(alertFiles.map(file => file.xml)));
+      }
+
+      const built = mergeWeather(await Promise.all(providers.map(provider => provider.getWeather({ counties }))));
+      setPreview(built);
+      setWeatherSummary(summarizeWeather(built));
+      setSafetyMessage(weatherSafetyMessage(built));
+    } catch (err) {
+      console.error('Error building weather:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the weather');
+    }
+  };
+
+  const save = async () => {
+    if (!iap || !preview) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await updateWeather(iap, preview, { weatherSummary, safetyMessage });
+      setEditing(false);
+      setPreview(null);
+    } catch (err) {
+      console.error('Error saving weather:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save weather');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!iap) {
+    return <p className="text-gray-500 italic">No IAP for the current operational period.</p>;
+  }
+
+  const shown = preview || weather;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4 no-print">
+        {counties.length > 0 ? (
+          <p className="text-sm text-gray-600">
+            Alerts for {counties.map(county => `${county.name}, ${county.state}`).join('; ')}
+          </p>
+        ) : (
+          <p className="text-sm text-amber-700">
+            No counties are set for this operation, so NWS alerts cannot be matched to it.
+          </p>
+        )}
+        {canEdit && !editing && (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            Update Weather
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded whitespace-pre-line">{error}</div>}
+
+      {editing && (
+        <div className="mb-6 p-4 border rounded-md bg-white no-print">
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Forecast source</label>
+            <input
+              type="text"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder="e.g. NWS Tampa Bay briefing, 0600"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          <EditableTable
+            title="Current Conditions"
+            rows={[current]}
+            columns={CONDITION_COLUMNS}
+            editing
+            emptyRow={EMPTY_CONDITION}
+            onChange={(rows) => setCurrent(rows[0] || EMPTY_CONDITION)}
+          />
+          <EditableTable
+            title="Forecast"
+            rows={forecast}
+            columns={[{ key: 'when', label: 'When', placeholder: '2025-10-09 18:00' }, ...CONDITION_COLUMNS]}
+            editing
+            emptyRow={EMPTY_CONDITION}
+            onChange={setForecast}
+          />
+          <EditableTable
+            title="Alerts from Briefings"
+            rows={manualAlerts}
+            columns={[
+              { key: 'type', label: 'Alert', placeholder: 'Tropical Storm Warning' },
+              { key: 'headline', label: 'Headline' },
+              { key: 'instruction', label: 'Protective Action' },
+              { key: 'until', label: 'Until', placeholder: '2025-10-10 08:00' },
+            ]}
+            editing
+            emptyRow={{ type: '', headline: '', instruction: '', until: '' }}
+            onChange={setManualAlerts}
+          />
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">NWS alert files (CAP or ATOM XML)</label>
+            <input
+              type="file"
+              multiple
+              accept=".xml,.atom,.cap,application/xml,application/atom+xml"
+              onChange={(e) => loadAlertFiles(e.target.files)}
+              disabled={counties.length === 0}
+              className="text-sm"
+            />
+            {alertFiles.length > 0 && (
+              <p className="text-xs text-gray-600 mt-1">
+                {alertFiles.map(file => file.name).join(', ')}
+                <button type="button" onClick={() => setAlertFiles([])} className="ml-2 text-red-600">Clear</button>
+              </p>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={buildWeather}
+            className="px-3 py-1 text-sm bg-gray-700 text-white rounded hover:bg-gray-800"
+          >
+            Build Weather Summary
+          </button>
+
+          {preview && (
+            <div className="mt-4 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Weather summary (ICS 202)</label>
+                <textarea
+                  value={weatherSummary}
+                  onChange={(e) => setWeatherSummary(e.target.value)}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Safety message (ICS 202)</label>
+                <textarea
+                  value={safetyMessage}
+                  onChange={(e) => setSafetyMessage(e.target.value)}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              type="button"
+              onClick={() => { setEditing(false); setPreview(null); setError(null); }}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!preview || saving}
+              className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save to IAP'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!shown ? (
+        <p className="text-gray-500 italic">No weather has been loaded for this IAP.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {shown.source}, updated {new Date(shown.updatedAt).toLocaleString()}
+            {preview && ' (preview, not saved)'}
+          </p>
+          {(shown.alerts || []).length === 0 ? (
+            <p className="text-sm">No watches, warnings or advisories for the operation area.</p>
+          ) : (
+            <div className="space-y-2">
+              {(shown.alerts || []).map((alert, index) => (
+                <div
+                  key={`${alert.type}-${index}`}
+                  className={`p-3 rounded border-l-4 ${
+                    alert.severity === 'warning' ? 'border-red-600 bg-red-50' :
+                    alert.severity === 'watch' ? 'border-orange-500 bg-orange-50' : 'border-yellow-400 bg-yellow-50'
+                  }`}
+                >
+                  <div className="font-semibold">{alert.type}</div>
+                  <div className="text-sm">{alert.headline}</div>
+                  {alert.areas && alert.areas.length > 0 && (
+                    <div className="text-xs text-gray-600">{alert.areas.join('; ')}</div>
+                  )}
+                  <div className="text-xs text-gray-600">
+                    {new Date(alert.startTime).toLocaleString()} to {new Date(alert.endTime).toLocaleString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {!preview && iap.sections.incidentObjectives.weatherSummary && (
+            <div>
+              <h3 className="font-semibold mb-1">Weather Summary</h3>
+              <p className="text-sm whitespace-pre-wrap">{iap.sections.incidentObjectives.weatherSummary}</p>
+            </div>
+          )}
+          {!preview && iap.sections.incidentObjectives.safetyMessage && (
+            <div>
+              <h3 className="font-semibold mb-1">Safety Message</h3>
+              <p className="text-sm whitespace-pre-wrap">{iap.sections.incidentObjectives.safetyMessage}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,10 @@ import { MapsGeographic } from './IAP/MapsGeographic';
 import { WorkSitesFacilities } from './IAP/WorkSitesFacilities';
 import { AppendicesReferences } from './IAP/AppendicesReferences';
 import { PDFExport } from './PDFExport';
+import { TimeTravelBar } from './TimeTravelBar';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { useIAPChanges } from '@/hooks/useIAPChanges';
+import { IAPChangesPanel } from './IAP/IAPChangesPanel';
 
 interface IAPSection {
   id: string;
@@ -40,6 +44,21 @@ export function IAPViewer() {
   const [currentPage, setCurrentPage] = useState(1);
   const [navOpen, setNavOpen] = useState(true);
   const [zoom, setZoom] = useState(100);
+  const [showChanges, setShowChanges] = useState(false);
+  const { projections, isHistorical } = useTimeTravel();
+  const { changes, loading: changesLoading, error: changesError } = useIAPChanges(showChanges);
+
+  // When viewing a past moment, the operation and IAP come from the event log
+  const historicalOperation = projections?.getOperation();
+  const historicalIAP = projections?.getIAP();
+  const operationName = historicalOperation?.operationName || V27_IAP_DATA.operation.name;
+  const operationalPeriod = historicalIAP
+    ? {
+        number: historicalIAP.iapNumber,
+        start: new Date(historicalIAP.operationalPeriod.start).toLocaleString(),
+        end: new Date(historicalIAP.operationalPeriod.end).toLocaleString()
+      }
+    : V27_IAP_DATA.operation.operationalPeriod;
 
   // Define all sections with their page ranges
   const sections: IAPSection[] = [
@@ -52,8 +71,8 @@ export function IAPViewer() {
         pageNumber: 1,
         component: <IAPCoverPage 
           drNumber={V27_IAP_DATA.operation.drNumber}
-          operationName={V27_IAP_DATA.operation.name}
-          operationalPeriod={V27_IAP_DATA.operation.operationalPeriod}
+          operationName={operationName}
+          operationalPeriod={operationalPeriod}
           preparedBy={{
             name: V27_IAP_DATA.operation.preparedBy,
             title: V27_IAP_DATA.operation.preparedByTitle
@@ -428,11 +447,28 @@ export function IAPViewer() {
               >
                 🖨️ Print
               </button>
-              <PDFExport data={V27_IAP_DATA} />
+              <button
+                onClick={() => setShowChanges(!showChanges)}
+                className={`px-4 py-2 rounded ${showChanges ? 'bg-gray-800 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+                title="Changes since last period"
+              >
+                Changes
+              </button>
+              {!isHistorical && <PDFExport changes={showChanges ? changes : null} />}
             </div>
           </div>
         </div>
 
+        <TimeTravelBar />
+        {isHistorical && projections && (
+          <div className="bg-amber-50 border-b border-amber-300 px-4 py-2 text-sm text-amber-900">
+            {historicalIAP
+              ? `IAP #${historicalIAP.iapNumber} • ${historicalIAP.status} • version ${historicalIAP.version}`
+              : 'No IAP had been created yet at this time'}
+          </div>
+        )}
+        {showChanges && <IAPChangesPanel changes={changes} loading={changesLoading} error={changesError} />}
+
         {/* Page Container */}
         <div className="flex justify-center py-8 px-4">
           <div 
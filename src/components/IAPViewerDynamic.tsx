@@ -233,10 +233,7 @@ export function IAPViewerDynamic() {
         {/* PDF Export */}
         {navOpen && (
           <div className="p-4 border-t">
-            <PDFExport 
-              title="Complete IAP Document"
-              filename={`IAP_${V27_IAP_DATA.operation.drNumber}_OP${V27_IAP_DATA.operation.operationalPeriod.number}`}
-            />
+            <PDFExport />
             <div className="text-xs text-gray-500 mt-2 text-center">
               Dynamic length: {totalSections} sections
             </div>
@@ -7,12 +7,18 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { IAPDocument } from './IAP/IAPDocument';
 import { EnhancedFacilityManager } from './FacilityManagement/EnhancedFacilityManager';
 import { DatabaseViewer } from './DatabaseViewer';
 import { FacilityMapGoogle } from './FacilityMapGoogle';
 import { IAPViewerDynamic } from './IAPViewerDynamic';
+import { ConflictResolutionInbox } from './ConflictResolutionInbox';
+import { DisciplineConsoles } from './Disciplines/DisciplineConsole';
+import { ShelterCensusPanel } from './Census/ShelterCensusPanel';
+import { ActiveComplianceAlerts } from './Compliance/ComplianceAlerts';
+import { getShelterComplianceMonitor } from '../lib/compliance/ShelterComplianceMonitor';
+import { TimeTravelProvider } from '../lib/projections/TimeTravelProvider';
 import { User, Operation } from '../types';
 import { V27_IAP_DATA } from '../data/v27-iap-data';
 
@@ -21,10 +27,18 @@ interface OperationDashboardProps {
   user?: User;
 }
 
-type ViewType = 'iap' | 'iap-viewer' | 'facility-manager' | 'tables-hub' | 'facility-map';
+type ViewType = 'iap' | 'iap-viewer' | 'facility-manager' | 'disciplines' | 'census' | 'tables-hub' | 'facility-map' | 'conflicts';
 
 export function OperationDashboard({ operation, user }: OperationDashboardProps) {
   const [currentView, setCurrentView] = useState<ViewType>('iap');
+  const fullWidth = currentView === 'tables-hub' || currentView === 'facility-map' || currentView === 'iap-viewer';
+
+  // Keep open shelters checked against the shelter standards while the operation is open
+  useEffect(() => {
+    const monitor = getShelterComplianceMonitor();
+    monitor.start(operation.id);
+    return () => monitor.stop();
+  }, [operation.id]);
   
   // Mock user if not provided
   const mockUser: User = user || {
@@ -99,6 +113,26 @@ export function OperationDashboard({ operation, user }: OperationDashboardProps)
             >
               Facility Manager (Gaps & Assets)
             </button>
+            <button
+              onClick={() => setCurrentView('disciplines')}
+              className={`px-4 py-2 rounded-md font-medium ${
+                currentView === 'disciplines'
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Discipline Consoles
+            </button>
+            <button
+              onClick={() => setCurrentView('census')}
+              className={`px-4 py-2 rounded-md font-medium ${
+                currentView === 'census'
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Shelter Census
+            </button>
             <button
               onClick={() => setCurrentView('tables-hub')}
               className={`px-4 py-2 rounded-md font-medium ${
@@ -119,18 +153,36 @@ export function OperationDashboard({ operation, user }: OperationDashboardProps)
             >
               🗺️ Facility Map
             </button>
+            <button
+              onClick={() => setCurrentView('conflicts')}
+              className={`px-4 py-2 rounded-md font-medium ${
+                currentView === 'conflicts'
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              ⚠️ Sync Conflicts
+            </button>
           </div>
         </div>
       </div>
 
-      {/* Content Area */}
-      <div className={currentView === 'tables-hub' || currentView === 'facility-map' || currentView === 'iap-viewer' ? '' : 'max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6'}>
-        {currentView === 'iap' && <IAPDocument />}
-        {currentView === 'iap-viewer' && <IAPViewerDynamic />}
-        {currentView === 'facility-manager' && <EnhancedFacilityManager />}
-        {currentView === 'tables-hub' && <DatabaseViewer />}
-        {currentView === 'facility-map' && <FacilityMapGoogle />}
-      </div>
+      {/* Content Area - views that support it can show past moments */}
+      <TimeTravelProvider operationId={operation.id}>
+        <div className={fullWidth ? '' : 'max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6'}>
+          {!fullWidth && <ActiveComplianceAlerts />}
+          {currentView === 'iap' && <IAPDocument />}
+          {currentView === 'iap-viewer' && <IAPViewerDynamic />}
+          {currentView === 'facility-manager' && <EnhancedFacilityManager />}
+          {currentView === 'disciplines' && <DisciplineConsoles />}
+          {currentView === 'census' && <ShelterCensusPanel />}
+          {currentView === 'tables-hub' && <DatabaseViewer />}
+          {currentView === 'facility-map' && <FacilityMapGoogle />}
+          {currentView === 'conflicts' && (
+            <ConflictResolutionInbox operationId={operation.id} currentUserId={mockUser.id} />
+          )}
+        </div>
+      </TimeTravelProvider>
     </div>
   );
 }
\ No newline at end of file
@@ -1,63 +1,127 @@
 'use client';
 
 import React, { useState } from 'react';
-import { IAPPdfGenerator } from '@/lib/pdf/IAPPdfGenerator';
-import { V27_IAP_DATA } from '@/data/v27-iap-data';
+import { IAPPdfGenerator, validateIAPForPdf } from '@/lib/pdf/IAPPdfGenerator';
+import { iapProjector } from '@/lib/projections/IAPProjector';
+import { useIAPProjector } from '@/hooks/useIAPProjector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { useIAPTemplate } from '@/hooks/useIAPTemplate';
+import { exportIAPJson } from '@/lib/export/IAPJsonExport';
+import { DOCX_MIME_TYPE, IAPDocxGenerator } from '@/lib/export/IAPDocxGenerator';
+import { ICS_CSV_FORMS, ICSCsvForm, toCsv } from '@/lib/export/ICSFormCsv';
+import { createZip } from '@/lib/export/zip';
+import { IAPExportFormat, recordIAPExport } from '@/lib/export/IAPExportLog';
+import type { IAPDiff } from '@/lib/iap/IAPDiff';
+import type { EnhancedIAPDocument } from '@/types';
 
 interface PDFExportProps {
-  data?: any;
+  iap?: EnhancedIAPDocument | null; // Defaults to the IAP for the current operational period
+  changes?: IAPDiff | null; // Include a "Changes since last period" page
   className?: string;
 }
 
-export function PDFExport({ data = V27_IAP_DATA, className = '' }: PDFExportProps) {
+export function PDFExport({ iap, changes, className = '' }: PDFExportProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const { operationId } = useTimeTravel();
+  useIAPProjector(operationId);
+  const template = useIAPTemplate();
+
+  const iapDocument = iap !== undefined
+    ? iap
+    : operationId ? iapProjector.getIAPForPeriod(operationId) : null;
+  const issues = iapDocument ? validateIAPForPdf(iapDocument, template) : [];
+  const blockedReason = !iapDocument
+    ? 'No IAP for the current operational period'
+    : issues.length > 0
+      ? `Not ready to print:\n${issues.map(issue => `${issue.section}: ${issue.message}`).join('\n')}`
+      : undefined;
+  const baseName = iapDocument
+    ? `IAP_${iapDocument.sections.coverPage.operationNumber}_Period_${iapDocument.iapNumber}`
+    : 'IAP';
+  const filename = `${baseName}.pdf`;
+
+  const exportedBy = () => (typeof window !== 'undefined' && localStorage.getItem('disaster_ops_user_name')) || 'Unknown';
+
+  const download = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Who exported what; a failure to log never blocks the download
+  const logExport = (format: IAPExportFormat, files: string[]) => {
+    if (!iapDocument) return;
+    recordIAPExport(iapDocument, format, files, exportedBy())
+      .catch(error => console.error('Error recording IAP export:', error));
+  };
+
+  const exportOther = (format: Exclude<IAPExportFormat, 'pdf'>) => {
+    if (!iapDocument) return;
+    try {
+      if (format === 'json') {
+        download(new Blob([exportIAPJson(iapDocument, exportedBy())], { type: 'application/json' }), `${baseName}.json`);
+        logExport('json', [`${baseName}.json`]);
+      } else if (format === 'docx') {
+        const docx = new IAPDocxGenerator({ template }).generate(iapDocument);
+        download(new Blob([docx], { type: DOCX_MIME_TYPE }), `${baseName}.docx`);
+        logExport('docx', [`${baseName}.docx`]);
+      } else {
+        const files = (Object.keys(ICS_CSV_FORMS) as ICSCsvForm[]).map(form => ({
+          path: `${baseName}_${form.toUpperCase()}.csv`,
+          content: toCsv(ICS_CSV_FORMS[form].table(iapDocument)),
+        }));
+        download(new Blob([createZip(files)], { type: 'application/zip' }), `${baseName}_ICS_CSV.zip`);
+        logExport('csv', files.map(file => file.path));
+      }
+    } catch (error) {
+      console.error(`Error exporting IAP as ${format}:`, error);
+      alert(error instanceof Error ? error.message : 'Error exporting IAP. Please try again.');
+    }
+  };
 
   const generatePDF = async () => {
+    if (!iapDocument) return;
     setIsGenerating(true);
     try {
       const generator = new IAPPdfGenerator({
         includePageNumbers: true,
         includeHeaders: true,
-        includeFooters: true
+        includeFooters: true,
+        changes: changes || undefined,
+        template
       });
 
-      const blob = await generator.generateCompleteIAP(data);
-      
-      // Create URL for download
-      const url = URL.createObjectURL(blob);
-      
-      // Create download link
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `IAP_${data.operation.drNumber}_Period_${data.operation.operationalPeriod.number}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      // Clean up
-      URL.revokeObjectURL(url);
+      const blob = await generator.generateCompleteIAP(iapDocument);
+      download(blob, filename);
+      logExport('pdf', [filename]);
       
       // Success message
       alert('PDF generated successfully!');
     } catch (error) {
       console.error('Error generating PDF:', error);
-      alert('Error generating PDF. Please try again.');
+      alert(error instanceof Error ? error.message : 'Error generating PDF. Please try again.');
     } finally {
       setIsGenerating(false);
     }
   };
 
   const generatePreview = async () => {
+    if (!iapDocument) return;
     setIsGenerating(true);
     try {
-      const generator = new IAPPdfGenerator();
-      const blob = await generator.generateCompleteIAP(data);
+      const generator = new IAPPdfGenerator({ changes: changes || undefined, template });
+      const blob = await generator.generateCompleteIAP(iapDocument);
       const url = URL.createObjectURL(blob);
       setPreviewUrl(url);
     } catch (error) {
       console.error('Error generating preview:', error);
-      alert('Error generating preview. Please try again.');
+      alert(error instanceof Error ? error.message : 'Error generating preview. Please try again.');
     } finally {
       setIsGenerating(false);
     }
@@ -75,10 +139,11 @@ export function PDFExport({ data = V27_IAP_DATA, className = '' }: PDFExportProp
       <div className={`flex gap-2 ${className}`}>
         <button
           onClick={generatePDF}
-          disabled={isGenerating}
+          disabled={isGenerating || !!blockedReason}
+          title={blockedReason}
           className={`
             px-4 py-2 rounded-md font-medium
-            ${isGenerating 
+            ${isGenerating || blockedReason
               ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
               : 'bg-blue-600 text-white hover:bg-blue-700'
             }
@@ -104,10 +169,11 @@ export function PDFExport({ data = V27_IAP_DATA, className = '' }: PDFExportProp
 
         <button
           onClick={generatePreview}
-          disabled={isGenerating}
+          disabled={isGenerating || !!blockedReason}
+          title={blockedReason}
           className={`
             px-4 py-2 rounded-md font-medium
-            ${isGenerating 
+            ${isGenerating || blockedReason
               ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
               : 'bg-blue-600 text-white hover:bg-blue-700'
             }
@@ -121,6 +187,19 @@ export function PDFExport({ data = V27_IAP_DATA, className = '' }: PDFExportProp
             Preview PDF
           </span>
         </button>
+
+        <select
+          value=""
+          onChange={(e) => exportOther(e.target.value as Exclude<IAPExportFormat, 'pdf'>)}
+          disabled={!iapDocument}
+          title="Editable formats for partners"
+          className="px-3 py-2 rounded-md border border-gray-300 text-sm disabled:opacity-50"
+        >
+          <option value="" disabled>Other formats...</option>
+          <option value="docx">Word (.docx)</option>
+          <option value="json">JSON</option>
+          <option value="csv">ICS 203/204/205 CSV</option>
+        </select>
       </div>
 
       {/* PDF Preview Modal */}
@@ -156,8 +235,9 @@ export function PDFExport({ data = V27_IAP_DATA, className = '' }: PDFExportProp
                 onClick={() => {
                   const link = document.createElement('a');
                   link.href = previewUrl;
-                  link.download = `IAP_${data.operation.drNumber}_Period_${data.operation.operationalPeriod.number}.pdf`;
+                  link.download = filename;
                   link.click();
+                  logExport('pdf', [filename]);
                 }}
                 className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
               >
@@ -5,9 +5,11 @@ import { StepBasics } from './StepBasics';
 import { StepGeography } from './StepGeography';
 import { StepStaffing } from './StepStaffing';
 import { StepResources } from './StepResources';
+import { StepIAP } from './StepIAP';
 import { StepReview } from './StepReview';
 import { eventBus } from '@/lib/sync/EventBus';
 import { EventType } from '@/lib/events/types';
+import { getIAPTemplate, validateIAPTemplate } from '@/lib/iap/IAPTemplates';
 import type { SetupWizardState, Operation } from '@/types';
 
 interface SetupWizardProps {
@@ -19,13 +21,14 @@ const WIZARD_STEPS = [
   { id: 2, name: 'Geographic Scope', description: 'Affected regions and counties' },
   { id: 3, name: 'Initial Staffing', description: 'Command structure and key positions' },
   { id: 4, name: 'Resource Requirements', description: 'Service lines and initial needs' },
-  { id: 5, name: 'Review & Launch', description: 'Confirm and create operation' },
+  { id: 5, name: 'IAP Configuration', description: 'IAP template and section order' },
+  { id: 6, name: 'Review & Launch', description: 'Confirm and create operation' },
 ];
 
 export function SetupWizard({ onComplete }: SetupWizardProps) {
   const [state, setState] = useState<SetupWizardState>({
     currentStep: 1,
-    totalSteps: 5,
+    totalSteps: 6,
     completedSteps: [],
     data: {},
     validation: {},
@@ -109,6 +112,13 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
         notes: state.data.basics?.notes,
       }, { operationId });
       
+      if (state.data.iapTemplate) {
+        validateIAPTemplate(state.data.iapTemplate);
+        await eventBus.emit(EventType.IAP_TEMPLATE_SELECTED, {
+          template: state.data.iapTemplate
+        }, { operationId });
+      }
+
       await eventBus.emit(EventType.SETUP_COMPLETED, { operationId }, { operationId });
 
       console.log('Operation created successfully');
@@ -158,6 +168,20 @@ export function SetupWizard({ onComplete }: SetupWizardProps) {
           />
         );
       case 5:
+        return (
+          <StepIAP
+            initialData={{
+              enableIAP: Boolean(state.data.iapTemplate) || !state.completedSteps.includes(5),
+              iapPreferences: { iapTemplate: getIAPTemplate(state.data.iapTemplate) }
+            }}
+            onNext={(data) => {
+              updateData({ iapTemplate: data.enableIAP ? data.iapPreferences.iapTemplate : undefined });
+              nextStep();
+            }}
+            onBack={prevStep}
+          />
+        );
+      case 6:
         return (
           <StepReview
             data={state.data}
@@ -12,14 +12,23 @@ import {
   IAPRole, 
   FacilityType, 
   ServiceLine,
+  IAPTemplate,
+  IAPTemplateSection,
   User
 } from '../../types';
+import {
+  ANNEX_TITLES,
+  IAP_SECTION_TITLES,
+  IAP_TEMPLATES,
+  getIAPTemplate,
+  moveIAPTemplateSection
+} from '../../lib/iap/IAPTemplates';
 
 interface StepIAPProps {
   onNext: (data: IAPSetupData) => void;
   onBack: () => void;
-  initialData?: Partial<IAPSetupData>;
-  user: User;
+  initialData?: Partial<Omit<IAPSetupData, 'iapPreferences'>> & { iapPreferences?: Partial<IAPPreferences> };
+  user?: User;
 }
 
 export interface IAPSetupData {
@@ -39,7 +48,8 @@ interface InitialFacility {
   estimatedPersonnel: number;
 }
 
-interface IAPPreferences {
+export interface IAPPreferences {
+  iapTemplate: IAPTemplate; // Sections, order, headers and page breaks for the viewer and PDF
   includePhotos: boolean;
   includeDirectorsMessage: boolean;
   includeAncillaryContent: boolean;
@@ -50,8 +60,7 @@ interface IAPPreferences {
 export const StepIAP: React.FC<StepIAPProps> = ({
   onNext,
   onBack,
-  initialData = {},
-  user
+  initialData = {}
 }) => {
   const [data, setData] = useState<IAPSetupData>({
     enableIAP: initialData.enableIAP ?? true,
@@ -61,6 +70,7 @@ export const StepIAP: React.FC<StepIAPProps> = ({
     sixPMSnapshots: initialData.sixPMSnapshots ?? true,
     distributionList: initialData.distributionList ?? [],
     iapPreferences: {
+      iapTemplate: getIAPTemplate(),
       includePhotos: true,
       includeDirectorsMessage: true,
       includeAncillaryContent: true,
@@ -163,6 +173,32 @@ export const StepIAP: React.FC<StepIAPProps> = ({
     }
   };
 
+  const setTemplate = (iapTemplate: IAPTemplate) => {
+    setData(prev => ({ ...prev, iapPreferences: { ...prev.iapPreferences, iapTemplate } }));
+  };
+
+  // Any change to a built-in template makes it a custom one
+  const customize = (template: IAPTemplate): IAPTemplate => ({
+    ...template,
+    id: 'custom',
+    name: 'Custom',
+    description: `Based on ${data.iapPreferences.iapTemplate.name}`
+  });
+
+  const updateTemplateSection = (index: number, changes: Partial<IAPTemplateSection>) => {
+    const template = data.iapPreferences.iapTemplate;
+    setTemplate(customize({
+      ...template,
+      sections: template.sections.map((section, i) => i === index ? { ...section, ...changes } : section)
+    }));
+  };
+
+  const moveTemplateSection = (index: number, offset: -1 | 1) => {
+    const template = data.iapPreferences.iapTemplate;
+    const moved = moveIAPTemplateSection(template, index, offset);
+    if (moved !== template) setTemplate(customize(moved));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onNext(data);
@@ -377,6 +413,92 @@ export const StepIAP: React.FC<StepIAPProps> = ({
               )}
             </div>
 
+            {/* IAP Template */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">IAP Template</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+                {Object.values(IAP_TEMPLATES).map(template => (
+                  <label
+                    key={template.id}
+                    className={`p-3 border rounded-md cursor-pointer ${
+                      data.iapPreferences.iapTemplate.id === template.id ? 'border-red-600 bg-red-50' : 'border-gray-300'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="iapTemplate"
+                      value={template.id}
+                      checked={data.iapPreferences.iapTemplate.id === template.id}
+                      onChange={() => setTemplate(template)}
+                      className="sr-only"
+                    />
+                    <div className="font-medium text-gray-900">{template.name}</div>
+                    <div className="text-sm text-gray-600">{template.description}</div>
+                  </label>
+                ))}
+              </div>
+              {data.iapPreferences.iapTemplate.id === 'custom' && (
+                <p className="text-sm text-gray-600 mb-3">{data.iapPreferences.iapTemplate.description}, customized</p>
+              )}
+
+              <div className="divide-y border rounded-md">
+                {data.iapPreferences.iapTemplate.sections.map((section, index) => {
+                  const defaultTitle = section.id === 'annex'
+                    ? `Annex - ${ANNEX_TITLES[section.annexCategory || 'other']}`
+                    : IAP_SECTION_TITLES[section.id];
+                  const isCover = section.id === 'cover';
+                  return (
+                    <div key={`${section.id}-${section.annexCategory || index}`} className="flex items-center gap-3 p-2">
+                      <input
+                        type="checkbox"
+                        checked={section.enabled}
+                        disabled={isCover}
+                        onChange={(e) => updateTemplateSection(index, { enabled: e.target.checked })}
+                        className="text-red-600 focus:ring-red-500"
+                        title={isCover ? 'Every IAP has a cover page' : 'Include this section'}
+                      />
+                      <input
+                        type="text"
+                        value={section.header ?? ''}
+                        placeholder={defaultTitle}
+                        onChange={(e) => updateTemplateSection(index, { header: e.target.value || undefined })}
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                      />
+                      <select
+                        value={section.pageBreak || 'before'}
+                        disabled={isCover}
+                        onChange={(e) => updateTemplateSection(index, { pageBreak: e.target.value as IAPTemplateSection['pageBreak'] })}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="before">New page</option>
+                        <option value="none">Same page</option>
+                      </select>
+                      <div className="flex gap-1">
+                        <button
+                          type="button"
+                          onClick={() => moveTemplateSection(index, -1)}
+                          disabled={isCover || index <= 1}
+                          className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          ▲
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveTemplateSection(index, 1)}
+                          disabled={isCover || index === data.iapPreferences.iapTemplate.sections.length - 1}
+                          className="px-2 py-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          ▼
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
             {/* IAP Generation Settings */}
             <div className="bg-white rounded-lg shadow p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Generation Settings</h3>
@@ -3,6 +3,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useDailySchedule, useFacilities, usePersonnel, useGaps, useWorkAssignments } from '@/hooks/useMasterData';
 import { initializeMasterDataService } from '@/lib/services/MasterDataService';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { TimeTravelBar } from './TimeTravelBar';
 
 type TableCategory = 
   | 'facilities' 
@@ -32,6 +34,7 @@ export function TablesHub() {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentOperationId, setCurrentOperationId] = useState<string>('op-current');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { isHistorical } = useTimeTravel();
   
   // Initialize master data service
   useEffect(() => {
@@ -571,6 +574,8 @@ export function TablesHub() {
       
       {/* Main Content Area */}
       <div className="flex-1 flex flex-col">
+        <TimeTravelBar />
+        
         {/* Header */}
         <div className="bg-white shadow-sm border-b px-6 py-4">
           <div className="flex items-center justify-between">
@@ -581,7 +586,7 @@ export function TablesHub() {
               <p className="text-gray-600 text-sm mt-1">{selectedTableConfig?.description}</p>
             </div>
             <div className="flex space-x-3">
-              {selectedTableConfig?.hasImport && (
+              {selectedTableConfig?.hasImport && !isHistorical && (
                 <button
                   onClick={() => fileInputRef.current?.click()}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
@@ -597,7 +602,7 @@ export function TablesHub() {
                   📤 Export CSV
                 </button>
               )}
-              {selectedTableConfig?.hasEdit && (
+              {selectedTableConfig?.hasEdit && !isHistorical && (
                 <button
                   onClick={() => setEditMode(!editMode)}
                   className={`px-4 py-2 rounded-lg transition-colors text-sm ${
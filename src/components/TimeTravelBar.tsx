@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+
+interface TimeTravelBarProps {
+  className?: string;
+}
+
+// datetime-local wants local time without a zone
+function toInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(timestamp - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Date/time picker that switches the surrounding views between the live
+ * operation and the state it was in at a past moment
+ */
+export function TimeTravelBar({ className = '' }: TimeTravelBarProps) {
+  const { operationId, asOf, isHistorical, loading, error, travelTo, returnToLive } = useTimeTravel();
+  const [value, setValue] = useState(() => toInputValue(asOf ?? Date.now()));
+
+  useEffect(() => {
+    if (asOf !== null) setValue(toInputValue(asOf));
+  }, [asOf]);
+
+  // Nothing to travel through without an operation's event log
+  if (!operationId) return null;
+
+  const handleView = () => {
+    const timestamp = new Date(value).getTime();
+    if (!isNaN(timestamp)) travelTo(timestamp);
+  };
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-2 px-4 py-2 text-sm border-b ${
+        isHistorical ? 'bg-amber-50 border-amber-300' : 'bg-white'
+      } ${className}`}
+    >
+      <span className="font-medium text-gray-700">🕒 View as of</span>
+      <input
+        type="datetime-local"
+        value={value}
+        max={toInputValue(Date.now())}
+        onChange={e => setValue(e.target.value)}
+        className="px-2 py-1 border rounded"
+      />
+      <button
+        onClick={handleView}
+        disabled={loading || !value}
+        className="px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+      >
+        {loading ? 'Loading...' : 'View'}
+      </button>
+
+      {isHistorical && (
+        <>
+          <span className="text-amber-800">
+            Read-only view of {new Date(asOf!).toLocaleString()}
+          </span>
+          <button
+            onClick={returnToLive}
+            className="px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+          >
+            Back to Live
+          </button>
+        </>
+      )}
+
+      {error && <span className="text-red-700">{error}</span>}
+    </div>
+  );
+}
+
+export default TimeTravelBar;
@@ -0,0 +1,43 @@
+/**
+ * Advanced Facility Filters Tests
+ *
+ * Validates that the filter criteria, including the evaluated ADA and pet
+ * checks, narrow the facility list
+ */
+
+import { filterFacilities } from '../FacilityManagement/AdvancedFacilityFilters';
+import type { Facility } from '@/lib/services/MasterDataService';
+
+function facility(id: string, overrides: Partial<Facility> = {}): Facility {
+  return {
+    id,
+    operation_id: 'op-1',
+    facility_type: 'shelter',
+    name: `Shelter ${id}`,
+    county: 'Hillsborough',
+    status: 'open',
+    capacity: { maximum: 100, current: 40 },
+    ...overrides,
+  };
+}
+
+const facilities = [
+  facility('a', { accessibility_features: ['Ramp', 'ADA restroom'], pet_capacity: 20 }),
+  facility('b', { accessibility_features: ['Ramp'], capacity: { maximum: 100, current: 100 } }),
+  facility('c', { facility_type: 'feeding', county: 'Pinellas', amenities: ['Pet friendly'] }),
+];
+const ids = (list: Facility[]) => list.map(f => f.id);
+
+describe('filterFacilities', () => {
+  it('keeps only facilities that pass the ADA and pet evaluations', () => {
+    expect(ids(filterFacilities(facilities, { accessibilityCompliant: true }))).toEqual(['a']);
+    expect(ids(filterFacilities(facilities, { petFriendly: true }))).toEqual(['a', 'c']);
+  });
+
+  it('combines the compliance checks with the other criteria', () => {
+    expect(ids(filterFacilities(facilities, {}))).toEqual(['a', 'b', 'c']);
+    expect(ids(filterFacilities(facilities, { type: ['shelter'], hasAvailableCapacity: true }))).toEqual(['a']);
+    expect(ids(filterFacilities(facilities, { county: ['Pinellas'], petFriendly: true }))).toEqual(['c']);
+    expect(ids(filterFacilities(facilities, { search: 'shelter b', accessibilityCompliant: true }))).toEqual([]);
+  });
+});
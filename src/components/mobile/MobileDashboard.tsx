@@ -3,6 +3,9 @@
 import React, { useState, useEffect } from 'react';
 import { MobileFacilityCard } from './MobileFacilityCard';
 import { useAuth } from '../../lib/auth/AuthProvider';
+import { censusPopulation } from '../../lib/census/ShelterCensusProjection';
+import { useShelterCensus } from '../../hooks/useShelterCensus';
+import { useComplianceAlerts } from '../../hooks/useComplianceAlerts';
 
 /**
  * Mobile Dashboard Component - Phase 3 Implementation
@@ -23,12 +26,17 @@ export function MobileDashboard({
   onRefresh
 }: MobileDashboardProps) {
   const { profile } = useAuth();
+  const { census } = useShelterCensus();
+  const { alertsFor } = useComplianceAlerts();
   const [filter, setFilter] = useState<'all' | 'my_assignments' | 'needs_attention' | 'high_occupancy'>('all');
   const [sortBy, setSortBy] = useState<'name' | 'occupancy' | 'updated' | 'distance'>('occupancy');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [showQuickActions, setShowQuickActions] = useState(false);
 
+  // Occupancy comes from the shelter census log
+  const occupancyOf = (facility: { id: string }) => censusPopulation(census, facility.id);
+
   // Filter and sort facilities
   const filteredFacilities = facilities
     .filter(facility => {
@@ -51,9 +59,10 @@ export function MobileDashboard({
         case 'needs_attention':
           return facility.status === 'full' || 
                  !facility.has_manager || 
-                 (facility.current_occupancy || 0) > (facility.capacity_beds || 0) * 0.9;
+                 alertsFor(facility.id).length > 0 || 
+                 occupancyOf(facility) > (facility.capacity_beds || 0) * 0.9;
         case 'high_occupancy':
-          return ((facility.current_occupancy || 0) / (facility.capacity_beds || 1)) > 0.75;
+          return (occupancyOf(facility) / (facility.capacity_beds || 1)) > 0.75;
         default:
           return true;
       }
@@ -63,8 +72,8 @@ export function MobileDashboard({
         case 'name':
           return a.name.localeCompare(b.name);
         case 'occupancy':
-          const aPercent = ((a.current_occupancy || 0) / (a.capacity_beds || 1)) * 100;
-          const bPercent = ((b.current_occupancy || 0) / (b.capacity_beds || 1)) * 100;
+          const aPercent = (occupancyOf(a) / (a.capacity_beds || 1)) * 100;
+          const bPercent = (occupancyOf(b) / (b.capacity_beds || 1)) * 100;
           return bPercent - aPercent;
         case 'updated':
           return new Date(b.updated_at || 0).getTime() - new Date(a.updated_at || 0).getTime();
@@ -96,10 +105,10 @@ export function MobileDashboard({
     open: facilities.filter(f => f.status === 'open').length,
     full: facilities.filter(f => f.status === 'full').length,
     needsAttention: facilities.filter(f => 
-      f.status === 'full' || !f.has_manager || 
-      (f.current_occupancy || 0) > (f.capacity_beds || 0) * 0.9
+      f.status === 'full' || !f.has_manager || alertsFor(f.id).length > 0 ||
+      occupancyOf(f) > (f.capacity_beds || 0) * 0.9
     ).length,
-    totalOccupancy: facilities.reduce((sum, f) => sum + (f.current_occupancy || 0), 0),
+    totalOccupancy: facilities.reduce((sum, f) => sum + occupancyOf(f), 0),
     totalCapacity: facilities.reduce((sum, f) => sum + (f.capacity_beds || 0), 0)
   };
 
@@ -231,7 +240,7 @@ export function MobileDashboard({
             ).length },
             { key: 'needs_attention', label: 'Alerts', count: stats.needsAttention },
             { key: 'high_occupancy', label: 'High Occ.', count: facilities.filter(f => 
-              ((f.current_occupancy || 0) / (f.capacity_beds || 1)) > 0.75
+              (occupancyOf(f) / (f.capacity_beds || 1)) > 0.75
             ).length }
           ].map(tab => (
             <button
@@ -309,6 +318,8 @@ export function MobileDashboard({
           <MobileFacilityCard
             key={facility.id}
             facility={facility}
+            population={occupancyOf(facility)}
+            alerts={alertsFor(facility.id)}
             onUpdate={onFacilityUpdate}
             showActions={true}
           />
@@ -4,6 +4,12 @@ import React, { useState } from 'react';
 import { ClickablePhone } from '../shared/GooglePlacesAutocomplete';
 import { useAuth } from '../../lib/auth/AuthProvider';
 import { FacilityGate } from '../../lib/auth/RoleGate';
+import { recordShelterMovement } from '../../lib/census/ShelterCensus';
+import { occupancyPercent as percentOf } from '../../lib/census/ShelterCensusProjection';
+import { useTimeTravel } from '../../lib/projections/TimeTravelProvider';
+import { OccupancyIndicator } from '../GapIndicator';
+import { ComplianceAlertBadges } from '../Compliance/ComplianceAlerts';
+import { ComplianceAlert } from '../../types';
 
 /**
  * Mobile Facility Card Component - Phase 3 Implementation
@@ -14,6 +20,8 @@ import { FacilityGate } from '../../lib/auth/RoleGate';
 
 interface MobileFacilityCardProps {
   facility: any;
+  population: number; // From the shelter census log
+  alerts?: ComplianceAlert[]; // Active shelter standards alerts
   onUpdate?: (facilityId: string, updates: any) => Promise<void>;
   onSelect?: (facilityId: string) => void;
   isSelected?: boolean;
@@ -22,20 +30,22 @@ interface MobileFacilityCardProps {
 
 export function MobileFacilityCard({
   facility,
+  population,
+  alerts = [],
   onUpdate,
   onSelect,
   isSelected = false,
   showActions = true
 }: MobileFacilityCardProps) {
   const { profile } = useAuth();
+  const { operationId, isHistorical } = useTimeTravel();
   const [isExpanded, setIsExpanded] = useState(false);
   const [quickUpdate, setQuickUpdate] = useState<any>({});
   const [isUpdating, setIsUpdating] = useState(false);
 
   // Calculate occupancy percentage
-  const occupancyPercent = facility.capacity_beds > 0 
-    ? Math.round((facility.current_occupancy || 0) / facility.capacity_beds * 100)
-    : 0;
+  const occupancyPercent = percentOf(population, facility.capacity_beds || 0);
+  const canRecordCensus = Boolean(operationId) && !isHistorical;
 
   // Get status color
   const getStatusColor = (status: string) => {
@@ -70,20 +80,15 @@ export function MobileFacilityCard({
     }
   };
 
-  // Handle quick occupancy update
-  const handleOccupancyUpdate = async (increment: number) => {
-    if (!onUpdate) return;
-    
-    const newOccupancy = Math.max(0, Math.min(
-      facility.capacity_beds || 0,
-      (facility.current_occupancy || 0) + increment
-    ));
+  // Record a check-in or check-out in the shelter census
+  const handleOccupancyUpdate = async (direction: 'check_in' | 'check_out') => {
+    if (!operationId) return;
     
     setIsUpdating(true);
     try {
-      await onUpdate(facility.id, { current_occupancy: newOccupancy });
+      await recordShelterMovement(operationId, { id: facility.id, name: facility.name }, direction, 1);
     } catch (error) {
-      console.error('Failed to update occupancy:', error);
+      console.error('Failed to record census:', error);
     } finally {
       setIsUpdating(false);
     }
@@ -119,6 +124,9 @@ export function MobileFacilityCard({
         <div className="mt-2 text-sm text-gray-700">
           📍 {facility.address}
         </div>
+
+        {/* Compliance Alerts */}
+        <ComplianceAlertBadges alerts={alerts} className="mt-2" />
       </div>
 
       {/* Key Metrics */}
@@ -128,7 +136,7 @@ export function MobileFacilityCard({
           {/* Occupancy */}
           <div className="text-center">
             <div className="text-xl font-bold text-gray-900">
-              {facility.current_occupancy || 0}
+              {population}
             </div>
             <div className="text-xs text-gray-600">
               / {facility.capacity_beds || 0}
@@ -215,40 +223,41 @@ export function MobileFacilityCard({
               </div>
             </div>
 
-            {/* Occupancy Controls */}
-            <div className="mb-3">
-              <div className="text-xs font-medium text-gray-700 mb-2">Occupancy:</div>
-              <div className="flex items-center justify-between">
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleOccupancyUpdate(-1);
-                  }}
-                  disabled={isUpdating || (facility.current_occupancy || 0) <= 0}
-                  className="w-10 h-10 bg-red-100 text-red-600 rounded-full border border-red-200 text-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  −
-                </button>
+            {/* Census Check-in / Check-out */}
+            {canRecordCensus && (
+              <div className="mb-3">
+                <div className="text-xs font-medium text-gray-700 mb-2">Check out / Check in:</div>
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleOccupancyUpdate('check_out');
+                    }}
+                    disabled={isUpdating || population <= 0}
+                    className="w-10 h-10 bg-red-100 text-red-600 rounded-full border border-red-200 text-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    −
+                  </button>
                 
-                <div className="text-center">
-                  <div className="text-sm font-bold">
-                    {facility.current_occupancy || 0} / {facility.capacity_beds || 0}
-                  </div>
-                  <div className="text-xs text-gray-500">{occupancyPercent}% full</div>
-                </div>
+                  <OccupancyIndicator
+                    population={population}
+                    capacity={facility.capacity_beds || 0}
+                    size="sm"
+                  />
                 
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleOccupancyUpdate(1);
-                  }}
-                  disabled={isUpdating || (facility.current_occupancy || 0) >= (facility.capacity_beds || 0)}
-                  className="w-10 h-10 bg-green-100 text-green-600 rounded-full border border-green-200 text-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  +
-                </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleOccupancyUpdate('check_in');
+                    }}
+                    disabled={isUpdating}
+                    className="w-10 h-10 bg-green-100 text-green-600 rounded-full border border-green-200 text-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    +
+                  </button>
+                </div>
               </div>
-            </div>
+            )}
           </FacilityGate>
 
           {/* Expand/Collapse */}
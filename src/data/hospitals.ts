@@ -0,0 +1,196 @@
+/**
+ * Hospitals - bundled reference list for ICS 206 medical plans
+ * Acute care hospitals with emergency departments across the Tampa Bay and
+ * Southwest Florida region. Coordinates are approximate (building centroid).
+ * Phone numbers are left to the medical unit to confirm for each plan.
+ */
+
+export interface BundledHospital {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  county: string;
+  state: string;
+  coordinates: { lat: number; lng: number };
+  traumaLevel?: 1 | 2; // Florida verified trauma center level
+  burnCenter: boolean;
+  helipad: boolean;
+}
+
+export const HOSPITALS: BundledHospital[] = [
+  // Hillsborough County
+  {
+    id: 'tampa-general',
+    name: 'Tampa General Hospital',
+    address: '1 Tampa General Cir',
+    city: 'Tampa',
+    county: 'Hillsborough',
+    state: 'FL',
+    coordinates: { lat: 27.9373, lng: -82.4590 },
+    traumaLevel: 1,
+    burnCenter: true,
+    helipad: true
+  },
+  {
+    id: 'st-josephs-tampa',
+    name: "St. Joseph's Hospital",
+    address: '3001 W Dr Martin Luther King Jr Blvd',
+    city: 'Tampa',
+    county: 'Hillsborough',
+    state: 'FL',
+    coordinates: { lat: 27.9812, lng: -82.4907 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+  {
+    id: 'adventhealth-tampa',
+    name: 'AdventHealth Tampa',
+    address: '3100 E Fletcher Ave',
+    city: 'Tampa',
+    county: 'Hillsborough',
+    state: 'FL',
+    coordinates: { lat: 28.0686, lng: -82.4257 },
+    burnCenter: false,
+    helipad: true
+  },
+  {
+    id: 'brandon-regional',
+    name: 'HCA Florida Brandon Hospital',
+    address: '119 Oakfield Dr',
+    city: 'Brandon',
+    county: 'Hillsborough',
+    state: 'FL',
+    coordinates: { lat: 27.9369, lng: -82.2909 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+  {
+    id: 'south-bay-sun-city',
+    name: 'HCA Florida South Shore Hospital',
+    address: '4016 Sun City Center Blvd',
+    city: 'Sun City Center',
+    county: 'Hillsborough',
+    state: 'FL',
+    coordinates: { lat: 27.7136, lng: -82.3846 },
+    burnCenter: false,
+    helipad: true
+  },
+
+  // Pinellas County
+  {
+    id: 'bayfront-st-pete',
+    name: 'Bayfront Health St. Petersburg',
+    address: '701 6th St S',
+    city: 'St. Petersburg',
+    county: 'Pinellas',
+    state: 'FL',
+    coordinates: { lat: 27.7640, lng: -82.6400 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+  {
+    id: 'morton-plant',
+    name: 'Morton Plant Hospital',
+    address: '300 Pinellas St',
+    city: 'Clearwater',
+    county: 'Pinellas',
+    state: 'FL',
+    coordinates: { lat: 27.9524, lng: -82.8027 },
+    burnCenter: false,
+    helipad: true
+  },
+
+  // Pasco County
+  {
+    id: 'bayonet-point',
+    name: 'HCA Florida Bayonet Point Hospital',
+    address: '14000 Fivay Rd',
+    city: 'Hudson',
+    county: 'Pasco',
+    state: 'FL',
+    coordinates: { lat: 28.3580, lng: -82.6870 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+  {
+    id: 'adventhealth-dade-city',
+    name: 'AdventHealth Dade City',
+    address: '13100 Fort King Rd',
+    city: 'Dade City',
+    county: 'Pasco',
+    state: 'FL',
+    coordinates: { lat: 28.3447, lng: -82.1848 },
+    burnCenter: false,
+    helipad: false
+  },
+  {
+    id: 'adventhealth-wesley-chapel',
+    name: 'AdventHealth Wesley Chapel',
+    address: '2600 Bruce B Downs Blvd',
+    city: 'Wesley Chapel',
+    county: 'Pasco',
+    state: 'FL',
+    coordinates: { lat: 28.1878, lng: -82.3522 },
+    burnCenter: false,
+    helipad: true
+  },
+
+  // Polk County
+  {
+    id: 'lakeland-regional',
+    name: 'Lakeland Regional Health Medical Center',
+    address: '1324 Lakeland Hills Blvd',
+    city: 'Lakeland',
+    county: 'Polk',
+    state: 'FL',
+    coordinates: { lat: 28.0613, lng: -81.9530 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+
+  // Manatee and Sarasota Counties
+  {
+    id: 'blake-bradenton',
+    name: 'HCA Florida Blake Hospital',
+    address: '2020 59th St W',
+    city: 'Bradenton',
+    county: 'Manatee',
+    state: 'FL',
+    coordinates: { lat: 27.4897, lng: -82.6181 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+  {
+    id: 'sarasota-memorial',
+    name: 'Sarasota Memorial Hospital',
+    address: '1700 S Tamiami Trl',
+    city: 'Sarasota',
+    county: 'Sarasota',
+    state: 'FL',
+    coordinates: { lat: 27.3185, lng: -82.5306 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  },
+
+  // Lee County
+  {
+    id: 'lee-memorial',
+    name: 'Lee Memorial Hospital',
+    address: '2776 Cleveland Ave',
+    city: 'Fort Myers',
+    county: 'Lee',
+    state: 'FL',
+    coordinates: { lat: 26.6221, lng: -81.8717 },
+    traumaLevel: 2,
+    burnCenter: false,
+    helipad: true
+  }
+];
@@ -0,0 +1,55 @@
+/**
+ * COMPLIANCE ALERTS HOOK
+ *
+ * Active shelter standards compliance alerts for the current operation.
+ * Follows time travel; the live view reads the live projections and updates
+ * as the compliance monitor raises and clears alerts.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { projectionManager } from '@/lib/projections/Projector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { ComplianceAlerts, activeAlerts } from '@/lib/compliance/ComplianceAlertProjection';
+
+export function useComplianceAlerts() {
+  const { operationId, projections, isHistorical } = useTimeTravel();
+  const [byKey, setByKey] = useState<ComplianceAlerts>({});
+
+  const refresh = useCallback(async () => {
+    if (!operationId) {
+      setByKey({});
+      return;
+    }
+    if (isHistorical) {
+      // The provider is rebuilding the past view; it arrives as `projections`
+      if (projections) setByKey(projections.getComplianceAlerts());
+      return;
+    }
+
+    try {
+      await projectionManager.open(operationId);
+      setByKey(projectionManager.getComplianceAlerts());
+    } catch (error) {
+      console.error('Error loading compliance alerts:', error);
+    }
+  }, [operationId, projections, isHistorical]);
+
+  useEffect(() => {
+    refresh();
+    if (isHistorical || !operationId) return;
+    return projectionManager.subscribe(() => {
+      if (projectionManager.getOperationId() === operationId) {
+        setByKey(projectionManager.getComplianceAlerts());
+      }
+    });
+  }, [refresh, isHistorical, operationId]);
+
+  const alerts = useMemo(() => activeAlerts(byKey), [byKey]);
+
+  const alertsFor = useCallback(
+    (facilityId: string) => alerts.filter(alert => alert.facilityId === facilityId),
+    [alerts]
+  );
+
+  return { alerts, alertsFor, refresh };
+}
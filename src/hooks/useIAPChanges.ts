@@ -0,0 +1,71 @@
+/**
+ * IAP CHANGES HOOK
+ *
+ * Diffs the IAP being viewed against the one it was rolled over from (its
+ * official snapshot when published), with facilities as they stood just
+ * before the current IAP was created. IAPs are rebuilt from the event log, so
+ * carry-forward and section edits show up. Follows time travel, so a
+ * historical view shows what changed going into that period.
+ */
+
+import { useEffect, useState } from 'react';
+import { ProjectionManager } from '@/lib/projections/Projector';
+import { IAPProjector } from '@/lib/projections/IAPProjector';
+import { getLocalStore } from '@/lib/store/LocalStore';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { diffIAP, IAPDiff } from '@/lib/iap/IAPDiff';
+import type { Facility } from '@/lib/services/MasterDataService';
+
+export function useIAPChanges(enabled = true) {
+  const { operationId, asOf, projections } = useTimeTravel();
+  const [changes, setChanges] = useState<IAPDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !operationId) {
+      setChanges(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const load = async () => {
+      const at = asOf ?? Date.now();
+      const iaps = await IAPProjector.at(operationId, getLocalStore(), at);
+
+      const currentIAP = iaps.getIAPForPeriod(operationId, new Date(at)) || iaps.getLatestIAP(operationId);
+      if (!currentIAP) return null;
+      const previousIAP = iaps.getPreviousIAP(currentIAP);
+      if (!previousIAP) return null;
+
+      const current = projections || await ProjectionManager.at(operationId, at);
+      const previous = await ProjectionManager.at(operationId, new Date(currentIAP.createdAt).getTime() - 1);
+
+      return diffIAP(
+        { iap: previousIAP.officialSnapshot || previousIAP, facilities: previous.getTable<Facility>('facilities') },
+        { iap: currentIAP, facilities: current.getTable<Facility>('facilities') }
+      );
+    };
+
+    load()
+      .then(diff => {
+        if (!cancelled) setChanges(diff);
+      })
+      .catch(err => {
+        console.error('Error diffing IAP versions:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare IAPs');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, operationId, asOf, projections]);
+
+  return { changes, loading, error };
+}
@@ -0,0 +1,62 @@
+/**
+ * IAP PROJECTOR HOOK
+ *
+ * Keeps the IAP projector caught up with an operation's event log: logged
+ * events are replayed on mount and newly recorded ones applied as they
+ * happen, so IAP status, sections and snapshots survive a reload. Returns a
+ * revision that changes whenever the projector does, for components that
+ * read it while rendering. Given a time-travel moment, `projector` is a
+ * read-only one built from the log up to then.
+ */
+
+import { useEffect, useState } from 'react';
+import { IAPProjector, iapProjector } from '@/lib/projections/IAPProjector';
+import { eventBus } from '@/lib/sync/EventBus';
+import { getLocalStore } from '@/lib/store/LocalStore';
+
+export function useIAPProjector(operationId: string | null | undefined, asOf: number | null = null) {
+  const [revision, setRevision] = useState(0);
+  const [loading, setLoading] = useState(Boolean(operationId));
+  const [historical, setHistorical] = useState<IAPProjector | null>(null);
+
+  useEffect(() => {
+    if (!operationId) return;
+    let active = true;
+    const changed = () => {
+      if (active) setRevision(value => value + 1);
+    };
+
+    setLoading(true);
+    iapProjector.loadOperation(operationId, getLocalStore())
+      .then(changed)
+      .catch(error => console.error('Error loading IAP events:', error))
+      .finally(() => active && setLoading(false));
+
+    const unsubscribe = eventBus.onAll(event => {
+      if (event.operationId !== operationId) return;
+      iapProjector.processEvent(event)
+        .then(changed)
+        .catch(error => console.error('Error applying IAP event:', error));
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [operationId]);
+
+  useEffect(() => {
+    setHistorical(null);
+    if (!operationId || asOf === null) return;
+    let active = true;
+    IAPProjector.at(operationId, getLocalStore(), asOf)
+      .then(projector => active && setHistorical(projector))
+      .catch(error => console.error('Error rebuilding historical IAP events:', error));
+    return () => {
+      active = false;
+    };
+  }, [operationId, asOf]);
+
+  const projector = asOf === null ? iapProjector : historical;
+  return { projector, revision, loading: loading || (asOf !== null && !historical) };
+}
@@ -0,0 +1,42 @@
+/**
+ * IAP TEMPLATE HOOK
+ *
+ * The IAP template chosen for the current operation at setup, as of the
+ * moment being viewed. Falls back to the standard template.
+ */
+
+import { useEffect, useState } from 'react';
+import { ProjectionManager } from '@/lib/projections/Projector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { getIAPTemplate } from '@/lib/iap/IAPTemplates';
+import type { IAPTemplate } from '@/types';
+
+export function useIAPTemplate(): IAPTemplate {
+  const { operationId, projections } = useTimeTravel();
+  const [template, setTemplate] = useState<IAPTemplate>(() => getIAPTemplate());
+
+  useEffect(() => {
+    if (!operationId) {
+      setTemplate(getIAPTemplate());
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const manager = projections || await ProjectionManager.at(operationId, Date.now());
+      return getIAPTemplate(manager.getOperation()?.metadata?.iapTemplate);
+    };
+
+    load()
+      .then(selected => {
+        if (!cancelled) setTemplate(selected);
+      })
+      .catch(err => console.error('Error loading IAP template:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [operationId, projections]);
+
+  return template;
+}
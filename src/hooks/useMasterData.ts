@@ -10,6 +10,7 @@
  * - Error handling
  * - Optimistic updates
  * - Automatic cleanup
+ * - Read-only historical data inside a TimeTravelProvider
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -23,6 +24,9 @@ import {
   Gap,
   Operation
 } from '../lib/services/MasterDataService';
+import { useTimeTravel } from '../lib/projections/TimeTravelProvider';
+
+const HISTORICAL_READ_ONLY = 'Historical data is read-only. Return to the live view to make changes.';
 
 // Generic hook for any table data
 export function useMasterData<T>(tableName: string, operationId?: string) {
@@ -31,9 +35,22 @@ export function useMasterData<T>(tableName: string, operationId?: string) {
   const [error, setError] = useState<Error | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const unsubscribeRef = useRef<(() => void) | null>(null);
+  const { projections, isHistorical } = useTimeTravel();
 
   // Load initial data
   const loadData = useCallback(async () => {
+    // Past state comes from the event log, not the live tables
+    if (isHistorical) {
+      setError(null);
+      setLoading(!projections); // Still rebuilding until projections arrive
+      if (projections) {
+        const rows = projections.getTable<T & { operation_id?: string }>(tableName);
+        setData(operationId ? rows.filter(row => !row.operation_id || row.operation_id === operationId) : rows);
+        setLastUpdate(new Date(projections.getAsOf()!));
+      }
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -77,13 +94,16 @@ export function useMasterData<T>(tableName: string, operationId?: string) {
     } finally {
       setLoading(false);
     }
-  }, [tableName, operationId]);
+  }, [tableName, operationId, isHistorical, projections]);
 
   // Set up real-time subscription
   useEffect(() => {
     // Load initial data
     loadData();
 
+    // History doesn't change
+    if (isHistorical) return;
+
     // Subscribe to changes
     const masterDataService = getMasterDataService();
     const unsubscribe = masterDataService.subscribeToTable(tableName, (newData: T[]) => {
@@ -102,12 +122,13 @@ export function useMasterData<T>(tableName: string, operationId?: string) {
         unsubscribeRef.current = null;
       }
     };
-  }, [tableName, operationId, loadData]);
+  }, [tableName, operationId, isHistorical, loadData]);
 
   // Generic update function
   const updateRecord = useCallback(async (record: Partial<T> & { id: string }) => {
     try {
       setError(null);
+      if (isHistorical) throw new Error(HISTORICAL_READ_ONLY);
       const masterDataService = getMasterDataService();
 
       // Route to appropriate update method
@@ -138,12 +159,13 @@ export function useMasterData<T>(tableName: string, operationId?: string) {
       setError(err as Error);
       throw err; // Re-throw so component can handle it
     }
-  }, [tableName]);
+  }, [tableName, isHistorical]);
 
   // Generic add function
   const addRecord = useCallback(async (record: Omit<T, 'id'>) => {
     try {
       setError(null);
+      if (isHistorical) throw new Error(HISTORICAL_READ_ONLY);
       const masterDataService = getMasterDataService();
 
       let newId: string;
@@ -173,7 +195,7 @@ export function useMasterData<T>(tableName: string, operationId?: string) {
       setError(err as Error);
       throw err;
     }
-  }, [tableName]);
+  }, [tableName, isHistorical]);
 
   // Manual refresh function
   const refresh = useCallback(() => {
@@ -185,6 +207,7 @@ export function useMasterData<T>(tableName: string, operationId?: string) {
     loading,
     error,
     lastUpdate,
+    isHistorical,
     updateRecord,
     addRecord,
     refresh
@@ -208,10 +231,12 @@ export function useDailySchedule(operationId?: string) {
     addRecord: addEntry,
     refresh
   } = useMasterData<DailyScheduleEntry>('daily_schedule', operationId);
+  const { isHistorical } = useTimeTravel();
 
   // Specialized functions for daily schedule
   const deleteEntry = useCallback(async (entryId: string) => {
     try {
+      if (isHistorical) throw new Error(HISTORICAL_READ_ONLY);
       const masterDataService = getMasterDataService();
       await masterDataService.deleteDailyScheduleEntry(entryId);
       console.log('[useDailySchedule] Deleted entry:', entryId);
@@ -219,7 +244,7 @@ export function useDailySchedule(operationId?: string) {
       console.error('Error deleting schedule entry:', err);
       throw err;
     }
-  }, []);
+  }, [isHistorical]);
 
   // Sort schedule by time for display
   const sortedSchedule = schedule.sort((a, b) => a.time.localeCompare(b.time));
@@ -0,0 +1,57 @@
+/**
+ * SHELTER CENSUS HOOK
+ *
+ * The shelter census log for the current operation. Follows time travel; the
+ * live view reads the live projections and updates as they change. `now` is
+ * the moment the log reflects, for trends and occupancy.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { projectionManager } from '@/lib/projections/Projector';
+import { useTimeTravel } from '@/lib/projections/TimeTravelProvider';
+import { ShelterCensusLog } from '@/lib/census/ShelterCensusProjection';
+
+export function useShelterCensus() {
+  const { operationId, asOf, projections, isHistorical } = useTimeTravel();
+  const [census, setCensus] = useState<ShelterCensusLog>({});
+  const [now, setNow] = useState(() => asOf ?? Date.now());
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!operationId) {
+      setCensus({});
+      return;
+    }
+    if (isHistorical) {
+      // The provider is rebuilding the past view; it arrives as `projections`
+      if (projections && asOf !== null) {
+        setCensus(projections.getShelterCensus());
+        setNow(asOf);
+      }
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await projectionManager.open(operationId);
+      setCensus(projectionManager.getShelterCensus());
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error loading shelter census:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [operationId, asOf, projections, isHistorical]);
+
+  useEffect(() => {
+    refresh();
+    if (isHistorical || !operationId) return;
+    return projectionManager.subscribe(() => {
+      if (projectionManager.getOperationId() !== operationId) return;
+      setCensus(projectionManager.getShelterCensus());
+      setNow(Date.now());
+    });
+  }, [refresh, isHistorical, operationId]);
+
+  return { census, now, loading, refresh };
+}
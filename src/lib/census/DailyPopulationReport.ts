@@ -0,0 +1,123 @@
+/**
+ * Daily Population Report
+ *
+ * The shelter population report the DOC expects each day, built entirely
+ * from the census log: population at the start and end of the day, check-ins,
+ * check-outs, the overnight headcount and occupancy against capacity.
+ */
+
+import { DailyPopulationReport, DailyPopulationRow } from '../../types';
+import { CsvTable } from '../export/ICSFormCsv';
+import { ShelterCensusLog, occupancyPercent, populationAt } from './ShelterCensusProjection';
+
+export interface ReportShelter {
+  id: string;
+  name: string;
+  county?: string;
+  capacity: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Report for one local day (YYYY-MM-DD). Every listed shelter gets a row;
+ * shelters with a census but no listing are added with unknown capacity.
+ */
+export function dailyPopulationReport(
+  log: ShelterCensusLog,
+  date: string,
+  shelters: ReportShelter[],
+  generatedAt: Date = new Date()
+): DailyPopulationReport {
+  const start = new Date(`${date}T00:00:00`).getTime();
+  if (isNaN(start)) {
+    throw new Error(`Invalid report date: ${date}`);
+  }
+  const end = start + DAY;
+
+  const listed = new Set(shelters.map(shelter => shelter.id));
+  const unlisted: ReportShelter[] = Object.values(log)
+    .filter(census => !listed.has(census.facilityId))
+    .map(census => ({ id: census.facilityId, name: census.facilityName, capacity: 0 }));
+
+  const rows = [...shelters, ...unlisted].map(shelter => reportRow(log, shelter, start, end))
+    .sort((a, b) => a.facilityName.localeCompare(b.facilityName));
+
+  const capacity = rows.reduce((sum, row) => sum + row.capacity, 0);
+  const endPopulation = rows.reduce((sum, row) => sum + row.endPopulation, 0);
+
+  return {
+    date,
+    generatedAt: generatedAt.toISOString(),
+    shelters: rows,
+    totals: {
+      capacity,
+      checkIns: rows.reduce((sum, row) => sum + row.checkIns, 0),
+      checkOuts: rows.reduce((sum, row) => sum + row.checkOuts, 0),
+      endPopulation,
+      occupancyPercent: occupancyPercent(endPopulation, capacity),
+    },
+  };
+}
+
+/**
+ * The report as a CSV table, one row per shelter and a totals row
+ */
+export function dailyPopulationTable(report: DailyPopulationReport): CsvTable {
+  return [
+    ['Shelter', 'County', 'Capacity', 'Start Population', 'Check-ins', 'Check-outs', 'Overnight Headcount', 'End Population', 'Peak Population', 'Occupancy %'],
+    ...report.shelters.map(row => [
+      row.facilityName,
+      row.county,
+      String(row.capacity),
+      String(row.startPopulation),
+      String(row.checkIns),
+      String(row.checkOuts),
+      row.overnightHeadcount === undefined ? '' : String(row.overnightHeadcount),
+      String(row.endPopulation),
+      String(row.peakPopulation),
+      String(row.occupancyPercent),
+    ]),
+    [
+      'Total',
+      '',
+      String(report.totals.capacity),
+      '',
+      String(report.totals.checkIns),
+      String(report.totals.checkOuts),
+      '',
+      String(report.totals.endPopulation),
+      '',
+      String(report.totals.occupancyPercent),
+    ],
+  ];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function reportRow(log: ShelterCensusLog, shelter: ReportShelter, start: number, end: number): DailyPopulationRow {
+  const census = log[shelter.id];
+  const entries = (census?.entries || []).filter(entry => {
+    const at = Date.parse(entry.recordedAt);
+    return at >= start && at < end;
+  });
+  const startPopulation = populationAt(census, start - 1);
+  const endPopulation = populationAt(census, end - 1);
+  const headcounts = entries.filter(entry => entry.kind === 'headcount');
+
+  return {
+    facilityId: shelter.id,
+    facilityName: shelter.name,
+    county: shelter.county || '',
+    capacity: shelter.capacity,
+    startPopulation,
+    checkIns: entries.filter(entry => entry.kind === 'check_in').reduce((sum, entry) => sum + entry.count, 0),
+    checkOuts: entries.filter(entry => entry.kind === 'check_out').reduce((sum, entry) => sum + entry.count, 0),
+    overnightHeadcount: headcounts[headcounts.length - 1]?.count,
+    endPopulation,
+    peakPopulation: Math.max(startPopulation, ...entries.map(entry => populationAt(census, Date.parse(entry.recordedAt)))),
+    occupancyPercent: occupancyPercent(endPopulation, shelter.capacity),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Shelter Census Commands
+ *
+ * Record resident check-ins, check-outs and overnight headcounts for a
+ * shelter. Only counts are recorded - never names or other resident details.
+ */
+
+import { EventType } from '../events/types';
+import { eventBus } from '../sync/EventBus';
+
+export interface CensusShelter {
+  id: string;
+  name: string;
+}
+
+/**
+ * Record residents arriving at or leaving a shelter. Returns the event id.
+ */
+export async function recordShelterMovement(
+  operationId: string,
+  shelter: CensusShelter,
+  direction: 'check_in' | 'check_out',
+  count: number
+): Promise<string> {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('Enter a whole number of residents');
+  }
+
+  const type = direction === 'check_in' ? EventType.SHELTER_CHECKED_IN : EventType.SHELTER_CHECKED_OUT;
+  return await eventBus.emit(type, {
+    facilityId: shelter.id,
+    facilityName: shelter.name,
+    count,
+  }, { operationId });
+}
+
+/**
+ * Record an overnight headcount. It replaces the running population from
+ * this point on. Returns the event id.
+ */
+export async function recordOvernightHeadcount(
+  operationId: string,
+  shelter: CensusShelter,
+  count: number
+): Promise<string> {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error('Headcount must be a whole number');
+  }
+
+  return await eventBus.emit(EventType.SHELTER_HEADCOUNT_TAKEN, {
+    facilityId: shelter.id,
+    facilityName: shelter.name,
+    count,
+  }, { operationId });
+}
@@ -0,0 +1,143 @@
+/**
+ * Shelter Census Projection
+ *
+ * Folds check-in, check-out and overnight headcount events into a census log
+ * per shelter. A headcount is authoritative: the population is the latest
+ * headcount plus the check-ins and minus the check-outs recorded after it.
+ */
+
+import { Event, EventType } from '../events/types';
+import { CensusTrendPoint, ShelterCensus, ShelterCensusEntry, ShelterCensusEntryKind } from '../../types';
+
+export type ShelterCensusLog = { [facilityId: string]: ShelterCensus };
+
+export const SHELTER_CENSUS_EVENTS = [
+  EventType.SHELTER_CHECKED_IN,
+  EventType.SHELTER_CHECKED_OUT,
+  EventType.SHELTER_HEADCOUNT_TAKEN,
+];
+
+const ENTRY_KINDS: Partial<Record<EventType, ShelterCensusEntryKind>> = {
+  [EventType.SHELTER_CHECKED_IN]: 'check_in',
+  [EventType.SHELTER_CHECKED_OUT]: 'check_out',
+  [EventType.SHELTER_HEADCOUNT_TAKEN]: 'headcount',
+};
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Apply one census event. Entries are kept in time order, so events that
+ * sync in late still land where they happened.
+ */
+export function applyShelterCensusEvent(state: ShelterCensusLog, event: Event): ShelterCensusLog {
+  const kind = ENTRY_KINDS[event.type as EventType];
+  const payload = event.payload || {};
+  if (!kind || !payload.facilityId) return state;
+
+  const existing = state[payload.facilityId];
+  if (existing?.entries.some(entry => entry.id === event.id)) return state;
+
+  const entry: ShelterCensusEntry = {
+    id: event.id,
+    kind,
+    count: payload.count,
+    recordedAt: new Date(event.timestamp).toISOString(),
+    recordedBy: event.actorId,
+  };
+  const entries = [...(existing?.entries || []), entry]
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  const headcounts = entries.filter(e => e.kind === 'headcount');
+
+  return {
+    ...state,
+    [payload.facilityId]: {
+      facilityId: payload.facilityId,
+      facilityName: payload.facilityName || existing?.facilityName || '',
+      population: populationOf(entries, Infinity),
+      entries,
+      lastHeadcount: headcounts[headcounts.length - 1],
+      updatedAt: entries[entries.length - 1].recordedAt,
+    },
+  };
+}
+
+/**
+ * Population of a shelter at a point in time (0 before its first entry)
+ */
+export function populationAt(census: ShelterCensus | undefined, time: number): number {
+  return census ? populationOf(census.entries, time) : 0;
+}
+
+/**
+ * Population across every shelter in the log at a point in time
+ */
+export function totalPopulationAt(log: ShelterCensusLog, time: number): number {
+  return Object.values(log).reduce((sum, census) => sum + populationAt(census, time), 0);
+}
+
+/**
+ * Current population of a shelter, 0 if it has no census yet
+ */
+export function censusPopulation(log: ShelterCensusLog, facilityId: string): number {
+  return log[facilityId]?.population || 0;
+}
+
+/**
+ * Occupancy as a whole percentage of capacity (0 when capacity is unknown)
+ */
+export function occupancyPercent(population: number, capacity: number): number {
+  return capacity > 0 ? Math.round((population / capacity) * 100) : 0;
+}
+
+/**
+ * Population sampled at the end of each bucket over the `hours` before `end`,
+ * oldest first. Pass one shelter's census or the whole log.
+ */
+export function censusTrend(
+  source: ShelterCensus | ShelterCensusLog | undefined,
+  end: number,
+  hours: number,
+  bucketHours: number = 1
+): CensusTrendPoint[] {
+  const points: CensusTrendPoint[] = [];
+  for (let at = end - hours * HOUR + bucketHours * HOUR; at <= end; at += bucketHours * HOUR) {
+    points.push({ at: new Date(at).toISOString(), population: sample(source, at) });
+  }
+  return points;
+}
+
+/**
+ * Whether the population rose, fell or held over the `hours` before `end`
+ */
+export function populationTrend(
+  source: ShelterCensus | ShelterCensusLog | undefined,
+  end: number,
+  hours: number = 24
+): 'up' | 'down' | 'stable' {
+  const change = sample(source, end) - sample(source, end - hours * HOUR);
+  return change > 0 ? 'up' : change < 0 ? 'down' : 'stable';
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function populationOf(entries: ShelterCensusEntry[], time: number): number {
+  let population = 0;
+  for (const entry of entries) {
+    if (Date.parse(entry.recordedAt) > time) break;
+    if (entry.kind === 'headcount') population = entry.count;
+    else if (entry.kind === 'check_in') population += entry.count;
+    else population = Math.max(0, population - entry.count);
+  }
+  return population;
+}
+
+function isCensus(source: ShelterCensus | ShelterCensusLog): source is ShelterCensus {
+  return Array.isArray((source as ShelterCensus).entries);
+}
+
+function sample(source: ShelterCensus | ShelterCensusLog | undefined, time: number): number {
+  if (!source) return 0;
+  return isCensus(source) ? populationAt(source, time) : totalPopulationAt(source, time);
+}
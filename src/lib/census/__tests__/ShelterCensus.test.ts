@@ -0,0 +1,114 @@
+/**
+ * Shelter Census Tests
+ *
+ * Validates population from check-ins, check-outs and overnight headcounts,
+ * the trend samples and the DOC daily population report
+ */
+
+import {
+  ShelterCensusLog,
+  applyShelterCensusEvent,
+  censusTrend,
+  populationAt,
+  populationTrend,
+} from '../ShelterCensusProjection';
+import { dailyPopulationReport, dailyPopulationTable } from '../DailyPopulationReport';
+import { Event, EventType } from '../../events/types';
+
+const HOUR = 60 * 60 * 1000;
+const day1 = (hour: number) => new Date(2025, 8, 1, hour).getTime();
+
+let sequence = 0;
+
+function event(type: EventType, facilityId: string, count: number, timestamp: number): Event {
+  sequence++;
+  return {
+    id: `event-${sequence}`,
+    type,
+    schemaVersion: 1,
+    actorId: 'shelter-manager',
+    deviceId: 'tablet-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp,
+    payload: { facilityId, facilityName: facilityId === 'f-1' ? 'Central High School' : 'First Baptist Church', count },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+function replay(events: Event[]): ShelterCensusLog {
+  return events.reduce(applyShelterCensusEvent, {});
+}
+
+describe('Shelter census', () => {
+  it('resets the running population at each overnight headcount', () => {
+    const log = replay([
+      event(EventType.SHELTER_CHECKED_IN, 'f-1', 40, day1(10)),
+      event(EventType.SHELTER_CHECKED_OUT, 'f-1', 5, day1(14)),
+      event(EventType.SHELTER_HEADCOUNT_TAKEN, 'f-1', 38, day1(23)),
+      event(EventType.SHELTER_CHECKED_IN, 'f-1', 2, day1(23) + HOUR),
+    ]);
+
+    expect(populationAt(log['f-1'], day1(15))).toBe(35);
+    expect(log['f-1'].population).toBe(40);
+    expect(log['f-1'].lastHeadcount?.count).toBe(38);
+  });
+
+  it('places late-synced entries in time order and ignores duplicates', () => {
+    const checkIn = event(EventType.SHELTER_CHECKED_IN, 'f-1', 10, day1(9));
+    const log = replay([
+      event(EventType.SHELTER_HEADCOUNT_TAKEN, 'f-1', 20, day1(12)),
+      checkIn,
+      checkIn,
+    ]);
+
+    expect(log['f-1'].entries.map(e => e.kind)).toEqual(['check_in', 'headcount']);
+    expect(log['f-1'].population).toBe(20);
+  });
+
+  it('samples trends across shelters', () => {
+    const log = replay([
+      event(EventType.SHELTER_CHECKED_IN, 'f-1', 30, day1(8)),
+      event(EventType.SHELTER_CHECKED_IN, 'f-2', 10, day1(12)),
+    ]);
+
+    const points = censusTrend(log, day1(12), 6, 3);
+    expect(points.map(p => p.population)).toEqual([30, 40]);
+    expect(populationTrend(log, day1(12), 24)).toBe('up');
+    expect(populationTrend(log['f-2'], day1(7), 24)).toBe('stable');
+  });
+});
+
+describe('Daily population report', () => {
+  it('reports the day from the census log', () => {
+    const log = replay([
+      event(EventType.SHELTER_CHECKED_IN, 'f-1', 50, day1(-2)),
+      event(EventType.SHELTER_CHECKED_IN, 'f-1', 30, day1(9)),
+      event(EventType.SHELTER_CHECKED_OUT, 'f-1', 20, day1(15)),
+      event(EventType.SHELTER_HEADCOUNT_TAKEN, 'f-1', 58, day1(22)),
+      event(EventType.SHELTER_CHECKED_IN, 'f-1', 99, day1(24) + HOUR),
+      event(EventType.SHELTER_CHECKED_IN, 'f-2', 12, day1(18)),
+    ]);
+
+    const report = dailyPopulationReport(log, '2025-09-01', [
+      { id: 'f-1', name: 'Central High School', county: 'Pasco', capacity: 100 },
+      { id: 'f-3', name: 'Adventure Island', county: 'Hillsborough', capacity: 200 },
+    ]);
+
+    expect(report.shelters.map(row => [row.facilityName, row.startPopulation, row.checkIns, row.checkOuts, row.overnightHeadcount, row.endPopulation, row.peakPopulation, row.occupancyPercent])).toEqual([
+      ['Adventure Island', 0, 0, 0, undefined, 0, 0, 0],
+      ['Central High School', 50, 30, 20, 58, 58, 80, 58],
+      ['First Baptist Church', 0, 12, 0, undefined, 12, 12, 0],
+    ]);
+    expect(report.totals).toEqual({ capacity: 300, checkIns: 42, checkOuts: 20, endPopulation: 70, occupancyPercent: 23 });
+
+    const table = dailyPopulationTable(report);
+    expect(table[0][0]).toBe('Shelter');
+    expect(table[table.length - 1]).toEqual(['Total', '', '300', '', '42', '20', '', '70', '', '23']);
+  });
+
+  it('rejects an invalid date', () => {
+    expect(() => dailyPopulationReport({}, 'yesterday', [])).toThrow('Invalid report date');
+  });
+});
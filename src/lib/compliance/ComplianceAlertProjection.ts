@@ -0,0 +1,77 @@
+/**
+ * Compliance Alert Projection
+ *
+ * Active shelter compliance alerts, one per shelter and rule. Raising an
+ * alert that is already active updates its figures but keeps when it was
+ * first raised, so how long a shortfall has lasted survives re-evaluation.
+ */
+
+import { Event, EventType } from '../events/types';
+import { ComplianceAlert, ComplianceRule } from '../../types';
+
+export type ComplianceAlerts = { [key: string]: ComplianceAlert };
+
+export const COMPLIANCE_ALERT_EVENTS = [
+  EventType.COMPLIANCE_ALERT_RAISED,
+  EventType.COMPLIANCE_ALERT_CLEARED,
+];
+
+export function alertKey(facilityId: string, rule: ComplianceRule): string {
+  return `${facilityId}:${rule}`;
+}
+
+/**
+ * Apply one raise or clear event
+ */
+export function applyComplianceAlertEvent(state: ComplianceAlerts, event: Event): ComplianceAlerts {
+  const payload = event.payload || {};
+  if (!payload.facilityId || !payload.rule) return state;
+
+  const key = alertKey(payload.facilityId, payload.rule);
+  const existing = state[key];
+  const at = new Date(event.timestamp).toISOString();
+
+  switch (event.type) {
+    case EventType.COMPLIANCE_ALERT_RAISED:
+      return {
+        ...state,
+        [key]: {
+          id: existing?.id || payload.alertId,
+          facilityId: payload.facilityId,
+          facilityName: payload.facilityName,
+          rule: payload.rule,
+          severity: payload.severity,
+          message: payload.message,
+          required: payload.required,
+          have: payload.have,
+          gapType: payload.gapType,
+          gapCategory: payload.gapCategory,
+          raisedAt: existing && existing.raisedAt < at ? existing.raisedAt : at,
+          updatedAt: at,
+        },
+      };
+
+    case EventType.COMPLIANCE_ALERT_CLEARED: {
+      if (!existing) return state;
+      const next = { ...state };
+      delete next[key];
+      return next;
+    }
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Active alerts, optionally for one shelter; critical first, then by shelter
+ */
+export function activeAlerts(state: ComplianceAlerts, facilityId?: string): ComplianceAlert[] {
+  return Object.values(state)
+    .filter(alert => !facilityId || alert.facilityId === facilityId)
+    .sort((a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1) ||
+      a.facilityName.localeCompare(b.facilityName) ||
+      a.rule.localeCompare(b.rule)
+    );
+}
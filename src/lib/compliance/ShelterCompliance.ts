@@ -0,0 +1,239 @@
+/**
+ * Shelter Standards Compliance
+ *
+ * Holds an open shelter's census population, staffing and deployed assets up
+ * against the Red Cross shelter standards. Each shortfall is a finding; the
+ * compliance monitor raises and clears alerts from them and turns alerts
+ * that persist into gaps.
+ */
+
+import type { Facility, Gap, PersonnelAssignment } from '../services/MasterDataService';
+import { DeployedAsset, SHELTER_POSITION, SUPERVISOR_POSITION, WORKER_POSITION } from '../iap/PlanningWorksheet';
+import { SHELTER_RATIOS, ShelterStandardsInput, calculateShelterStandards } from '../standards/RedCrossShelterStandards';
+import { ComplianceAlert, ComplianceFinding } from '../../types';
+import { ComplianceAlerts, alertKey } from './ComplianceAlertProjection';
+
+// Gaps the monitor opened carry this so they can be closed when the alert clears
+export const COMPLIANCE_GAP_SOURCE = 'compliance-monitor';
+
+// How long a shortfall has to last before it becomes a gap
+export const DEFAULT_GAP_THRESHOLD_MS = 2 * 60 * 60 * 1000;
+
+const TOILET_ASSETS = ['Portable Toilets', 'ADA Portable Toilets'];
+const COT_ASSETS = ['Cots', 'ADA Cots'];
+const HANDWASH_ASSETS = ['Hand Wash Stations'];
+
+export interface ShelterComplianceInput {
+  facility: Facility;
+  population: number; // From the shelter census
+  assignments?: PersonnelAssignment[]; // Omitted when the operation does not track staffing
+  assets?: DeployedAsset[]; // Omitted when no console assignment covers the shelter
+  shelterType?: ShelterStandardsInput['shelterType'];
+}
+
+/**
+ * Findings for one shelter. An empty shelter has none. A rule whose data is
+ * missing is skipped rather than reported as a shortfall: staffing without
+ * assignments, cots and hand wash stations without deployed assets, toilets
+ * until the facility's fixed toilets are recorded or portable toilets are
+ * deployed there.
+ */
+export function evaluateShelterCompliance(input: ShelterComplianceInput): ComplianceFinding[] {
+  const { facility, population } = input;
+  if (population <= 0) return [];
+
+  const capacity = facility.capacity?.maximum || 0;
+  const standards = calculateShelterStandards({
+    expectedPopulation: population,
+    shelterType: input.shelterType || 'emergency_evacuation',
+    facilitySize: (capacity || population) * SHELTER_RATIOS.SPACE_PER_PERSON,
+  });
+
+  const staff = (input.assignments || []).filter(assignment =>
+    assignment.facility_id === facility.id && assignment.status !== 'completed' && assignment.status !== 'cancelled' &&
+    SHELTER_POSITION(assignment.position)
+  );
+  const supervisors = staff.filter(assignment => SUPERVISOR_POSITION(assignment.position));
+  const workers = staff.filter(assignment => WORKER_POSITION(assignment.position));
+  const deployed = (types: string[]) => (input.assets || [])
+    .filter(asset => asset.facilityId === facility.id && types.includes(asset.type))
+    .reduce((sum, asset) => sum + asset.quantity, 0);
+
+  const findings: ComplianceFinding[] = [];
+  const finding = (fields: Omit<ComplianceFinding, 'facilityId' | 'facilityName'>) =>
+    findings.push({ facilityId: facility.id, facilityName: facility.name, ...fields });
+
+  if (capacity > 0 && !standards.capacity.isWithinStandards) {
+    finding({
+      rule: 'space',
+      severity: 'critical',
+      message: `${population} residents for ${standards.capacity.maxOccupancy} spaces at ${SHELTER_RATIOS.SPACE_PER_PERSON} sq ft each`,
+      required: standards.capacity.maxOccupancy,
+      have: population,
+      gapType: 'space',
+      gapCategory: 'Shelter Space',
+    });
+  }
+
+  if (input.assignments && !supervisors.some(assignment => assignment.shift_type === 'night')) {
+    finding({
+      rule: 'overnight_supervisor',
+      severity: 'critical',
+      message: 'No overnight shelter supervisor assigned',
+      required: 1,
+      have: 0,
+      gapType: 'personnel',
+      gapCategory: 'Overnight Shelter Supervisor',
+    });
+  }
+
+  if (input.assignments && supervisors.length < standards.personnel.supervisors) {
+    finding({
+      rule: 'supervisors',
+      severity: 'warning',
+      message: `${supervisors.length} of ${standards.personnel.supervisors} shelter supervisors assigned`,
+      required: standards.personnel.supervisors,
+      have: supervisors.length,
+      gapType: 'personnel',
+      gapCategory: 'Shelter Supervisors',
+    });
+  }
+
+  const workersRequired = standards.personnel.shelterSupport + standards.personnel.eventBasedVolunteers;
+  if (input.assignments && workers.length < workersRequired) {
+    finding({
+      rule: 'shelter_workers',
+      severity: 'warning',
+      message: `${workers.length} of ${workersRequired} shelter workers assigned`,
+      required: workersRequired,
+      have: workers.length,
+      gapType: 'personnel',
+      gapCategory: 'Shelter Workers',
+    });
+  }
+
+  const toilets = (facility.toilets || 0) + deployed(TOILET_ASSETS);
+  if ((facility.toilets !== undefined || toilets > 0) && toilets < standards.sanitation.toilets) {
+    finding({
+      rule: 'toilets',
+      severity: 'warning',
+      message: `${toilets} of ${standards.sanitation.toilets} toilets for ${population} residents`,
+      required: standards.sanitation.toilets,
+      have: toilets,
+      gapType: 'equipment',
+      gapCategory: 'Portable Toilets',
+    });
+  }
+
+  const handwash = deployed(HANDWASH_ASSETS);
+  if (input.assets && handwash < standards.sanitation.handwashStations) {
+    finding({
+      rule: 'handwash_stations',
+      severity: 'warning',
+      message: `${handwash} of ${standards.sanitation.handwashStations} hand wash stations on site`,
+      required: standards.sanitation.handwashStations,
+      have: handwash,
+      gapType: 'equipment',
+      gapCategory: 'Hand Wash Stations',
+    });
+  }
+
+  const cots = deployed(COT_ASSETS);
+  if (input.assets && cots < standards.amenities.cots) {
+    finding({
+      rule: 'cots',
+      severity: 'warning',
+      message: `${cots} of ${standards.amenities.cots} cots on site`,
+      required: standards.amenities.cots,
+      have: cots,
+      gapType: 'supplies',
+      gapCategory: 'Cots',
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Alerts to raise (new, or whose figures changed) and active alerts to clear
+ * because their finding went away
+ */
+export function complianceAlertChanges(
+  findings: ComplianceFinding[],
+  alerts: ComplianceAlerts
+): { raise: ComplianceFinding[]; clear: ComplianceAlert[] } {
+  const found = new Set(findings.map(f => alertKey(f.facilityId, f.rule)));
+
+  return {
+    raise: findings.filter(f => {
+      const alert = alerts[alertKey(f.facilityId, f.rule)];
+      return !alert || alert.message !== f.message || alert.severity !== f.severity;
+    }),
+    clear: Object.values(alerts).filter(alert => !found.has(alertKey(alert.facilityId, alert.rule))),
+  };
+}
+
+/**
+ * Id of the monitor gap for one shelter and rule. Every device derives the
+ * same id, so two devices opening the gap write one record.
+ */
+export function complianceGapId(operationId: string, facilityId: string, rule: ComplianceAlert['rule']): string {
+  return `compliance-${operationId}-${facilityId}-${rule}`;
+}
+
+/**
+ * Gaps to open for alerts active past the threshold, and monitor gaps to
+ * update or mark filled. A need that already has an open gap, from the
+ * planning worksheet or by hand, is not opened twice; a monitor gap that was
+ * filled or cancelled is reopened under its own id.
+ */
+export function complianceGapChanges(
+  operationId: string,
+  alerts: ComplianceAlert[],
+  existing: Gap[],
+  now: number,
+  thresholdMs: number = DEFAULT_GAP_THRESHOLD_MS
+): { add: Gap[]; update: Gap[] } {
+  const add: Gap[] = [];
+  const update: Gap[] = [];
+  const open = existing.filter(gap => gap.status === 'open' || gap.status === 'requested');
+  const ours = (gap: Gap) => gap.requirements?.source === COMPLIANCE_GAP_SOURCE;
+  const matches = (gap: Gap, alert: ComplianceAlert) =>
+    gap.facility_id === alert.facilityId && gap.gap_category === alert.gapCategory;
+
+  const persisting = alerts.filter(alert => now - Date.parse(alert.raisedAt) >= thresholdMs);
+
+  persisting.forEach(alert => {
+    const fields = {
+      quantity_needed: Math.max(alert.rule === 'space' ? alert.have - alert.required : alert.required - alert.have, 1),
+      quantity_available: alert.rule === 'space' ? alert.required : alert.have,
+      priority: (alert.severity === 'critical' ? 'critical' : 'high') as Gap['priority'],
+      description: `${alert.facilityName}: ${alert.message}`,
+    };
+    const gap = open.find(candidate => matches(candidate, alert));
+    const id = complianceGapId(operationId, alert.facilityId, alert.rule);
+    const closed = existing.find(candidate => candidate.id === id);
+    if (!gap && closed) {
+      update.push({ ...closed, ...fields, status: 'open', filled_date: undefined });
+    } else if (!gap) {
+      add.push({
+        id,
+        operation_id: operationId,
+        facility_id: alert.facilityId,
+        gap_type: alert.gapType,
+        gap_category: alert.gapCategory,
+        status: 'open',
+        requirements: { source: COMPLIANCE_GAP_SOURCE, rule: alert.rule, alertId: alert.id },
+        ...fields,
+      });
+    } else if (ours(gap) && (gap.quantity_needed !== fields.quantity_needed || gap.quantity_available !== fields.quantity_available)) {
+      update.push({ ...gap, ...fields });
+    }
+  });
+
+  open
+    .filter(gap => ours(gap) && !alerts.some(alert => matches(gap, alert)))
+    .forEach(gap => update.push({ ...gap, quantity_needed: 0, status: 'filled', filled_date: new Date(now) }));
+
+  return { add, update };
+}
@@ -0,0 +1,211 @@
+/**
+ * Shelter Compliance Monitor
+ *
+ * Runs in the background while an operation is open. Whenever a census,
+ * staffing or asset event arrives it re-evaluates every open shelter against
+ * the shelter standards, raises and clears compliance alerts, and opens a gap
+ * for any shortfall that has lasted past the threshold. Assets come from the
+ * sheltering console's submitted and approved assignments.
+ */
+
+import { EventType } from '../events/types';
+import { eventBus, Unsubscribe } from '../sync/EventBus';
+import { projectionManager } from '../projections/Projector';
+import { MasterDataService, getMasterDataService } from '../services/MasterDataService';
+import { iapProjector } from '../projections/IAPProjector';
+import { getLocalStore } from '../store/LocalStore';
+import { disciplineDeployments, disciplineSiteIds } from '../iap/PlanningWorksheet';
+import { ShelterStandardsInput } from '../standards/RedCrossShelterStandards';
+import { SHELTER_CENSUS_EVENTS, censusPopulation } from '../census/ShelterCensusProjection';
+import { alertKey } from './ComplianceAlertProjection';
+import {
+  DEFAULT_GAP_THRESHOLD_MS,
+  complianceAlertChanges,
+  complianceGapChanges,
+  evaluateShelterCompliance,
+} from './ShelterCompliance';
+
+type MonitorMasterData = Pick<MasterDataService, 'getFacilities' | 'getPersonnelAssignments' | 'getGaps' | 'addGap' | 'updateGap'>;
+
+export interface ComplianceMonitorConfig {
+  gapThresholdMs: number;
+  debounceMs: number; // Bursts of events trigger one evaluation
+  checkIntervalMs: number; // Re-check so persisting alerts become gaps without new events
+  shelterType: ShelterStandardsInput['shelterType'];
+}
+
+export interface ComplianceEvaluation {
+  raised: number;
+  cleared: number;
+  gapsAdded: number;
+  gapsUpdated: number;
+}
+
+// Master data tables whose changes affect compliance
+const MONITORED_TABLES = ['facilities', 'personnel_assignments', 'assets', 'resources'];
+
+const TRIGGER_EVENTS = [
+  ...SHELTER_CENSUS_EVENTS,
+  EventType.FACILITY_UPDATED,
+  EventType.FACILITY_PERSONNEL_ASSIGNED,
+  EventType.FACILITY_RESOURCE_ADDED,
+  EventType.PERSON_ASSIGNED,
+  EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED,
+  EventType.DISCIPLINE_ASSIGNMENT_APPROVED,
+  EventType.DATA_IMPORTED,
+];
+
+export class ShelterComplianceMonitor {
+  private config: ComplianceMonitorConfig;
+  private operationId: string | null = null;
+  private unsubscribe: Unsubscribe | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private pending: ReturnType<typeof setTimeout> | null = null;
+  private evaluating: Promise<ComplianceEvaluation | null> | null = null;
+  private rerun = false;
+
+  constructor(config: Partial<ComplianceMonitorConfig> = {}) {
+    this.config = {
+      gapThresholdMs: DEFAULT_GAP_THRESHOLD_MS,
+      debounceMs: 2000,
+      checkIntervalMs: 5 * 60 * 1000,
+      shelterType: 'emergency_evacuation',
+      ...config,
+    };
+  }
+
+  /**
+   * Start watching an operation, replacing any operation already watched
+   */
+  start(operationId: string): void {
+    if (this.operationId === operationId) return;
+    this.stop();
+    this.operationId = operationId;
+
+    this.unsubscribe = eventBus.onMany(TRIGGER_EVENTS, event => {
+      if (event.operationId && event.operationId !== this.operationId) return;
+      if (event.type === EventType.DATA_IMPORTED && !MONITORED_TABLES.includes(event.payload?.table)) return;
+      this.schedule();
+    });
+    this.interval = setInterval(() => this.schedule(), this.config.checkIntervalMs);
+    this.schedule();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    if (this.pending) clearTimeout(this.pending);
+    this.pending = null;
+    this.operationId = null;
+  }
+
+  isRunning(): boolean {
+    return this.operationId !== null;
+  }
+
+  /**
+   * Evaluate every open shelter now. Returns null when there is no operation
+   * or master data is unavailable (server side).
+   */
+  async evaluate(): Promise<ComplianceEvaluation | null> {
+    if (this.evaluating) {
+      this.rerun = true;
+      return this.evaluating;
+    }
+
+    this.evaluating = this.runEvaluation().finally(() => {
+      this.evaluating = null;
+      if (this.rerun) {
+        this.rerun = false;
+        this.schedule();
+      }
+    });
+    return this.evaluating;
+  }
+
+  private schedule(): void {
+    if (this.pending) clearTimeout(this.pending);
+    this.pending = setTimeout(() => {
+      this.pending = null;
+      this.evaluate().catch(error => console.error('[ComplianceMonitor] Evaluation failed:', error));
+    }, this.config.debounceMs);
+  }
+
+  private async runEvaluation(): Promise<ComplianceEvaluation | null> {
+    const operationId = this.operationId;
+    const masterData: MonitorMasterData | null = getMasterDataService();
+    if (!operationId || !masterData) return null;
+
+    // The live projections, caught up with the log tail
+    const now = Date.now();
+    const [facilities, assignments] = await Promise.all([
+      masterData.getFacilities(operationId),
+      masterData.getPersonnelAssignments(operationId),
+      projectionManager.open(operationId),
+      iapProjector.loadOperation(operationId, getLocalStore()),
+    ]);
+    const census = projectionManager.getShelterCensus();
+    const alerts = projectionManager.getComplianceAlerts();
+
+    // Staffing is only judged once the operation records assignments, and
+    // assets only at shelters the sheltering console has submitted
+    const shelters = facilities.filter(facility => facility.facility_type === 'shelter' && facility.status === 'open');
+    const consoleAssignments = iapProjector.getDisciplineAssignmentsForIAP(operationId, 'sheltering');
+    const assets = disciplineDeployments(consoleAssignments, shelters);
+    const covered = disciplineSiteIds(consoleAssignments, shelters);
+    const findings = shelters.flatMap(facility => evaluateShelterCompliance({
+      facility,
+      population: censusPopulation(census, facility.id),
+      assignments: assignments.length > 0 ? assignments : undefined,
+      assets: covered.has(facility.id) ? assets : undefined,
+      shelterType: this.config.shelterType,
+    }));
+
+    const { raise, clear } = complianceAlertChanges(findings, alerts);
+    for (const finding of raise) {
+      await eventBus.emit(EventType.COMPLIANCE_ALERT_RAISED, {
+        alertId: crypto.randomUUID(),
+        ...finding,
+      }, { operationId });
+    }
+    for (const alert of clear) {
+      await eventBus.emit(EventType.COMPLIANCE_ALERT_CLEARED, {
+        alertId: alert.id,
+        facilityId: alert.facilityId,
+        rule: alert.rule,
+      }, { operationId });
+    }
+
+    // Alerts still active after this pass, with today's figures
+    const active = findings.flatMap(finding => {
+      const alert = alerts[alertKey(finding.facilityId, finding.rule)];
+      return alert ? [{ ...alert, ...finding }] : [];
+    });
+    const { add, update } = complianceGapChanges(
+      operationId,
+      active,
+      await masterData.getGaps(operationId),
+      now,
+      this.config.gapThresholdMs
+    );
+    for (const gap of add) {
+      await masterData.addGap(gap);
+    }
+    for (const gap of update) {
+      await masterData.updateGap(gap);
+    }
+
+    return { raised: raise.length, cleared: clear.length, gapsAdded: add.length, gapsUpdated: update.length };
+  }
+}
+
+let monitor: ShelterComplianceMonitor | null = null;
+
+export function getShelterComplianceMonitor(): ShelterComplianceMonitor {
+  if (!monitor) {
+    monitor = new ShelterComplianceMonitor();
+  }
+  return monitor;
+}
@@ -0,0 +1,175 @@
+/**
+ * Shelter Compliance Tests
+ *
+ * Validates findings against the shelter standards, raising and clearing
+ * alerts, and turning persisting alerts into gaps
+ */
+
+import {
+  COMPLIANCE_GAP_SOURCE,
+  complianceAlertChanges,
+  complianceGapId,
+  complianceGapChanges,
+  evaluateShelterCompliance,
+} from '../ShelterCompliance';
+import { ComplianceAlerts, activeAlerts, applyComplianceAlertEvent } from '../ComplianceAlertProjection';
+import type { Facility, Gap, PersonnelAssignment } from '../../services/MasterDataService';
+import type { DeployedAsset } from '../../iap/PlanningWorksheet';
+import { Event, EventType } from '../../events/types';
+
+const HOUR = 60 * 60 * 1000;
+
+const shelter: Facility = {
+  id: 'f-1',
+  operation_id: 'op-1',
+  facility_type: 'shelter',
+  name: 'Central High School',
+  status: 'open',
+  capacity: { maximum: 200 },
+  toilets: 4,
+};
+
+function assignment(position: string, shift_type: PersonnelAssignment['shift_type'] = 'day'): PersonnelAssignment {
+  return {
+    id: `${position}-${shift_type}`,
+    operation_id: 'op-1',
+    person_id: 'p-1',
+    facility_id: 'f-1',
+    position,
+    shift_type,
+    start_date: new Date('2025-09-01'),
+    status: 'active',
+  };
+}
+
+function deployed(type: string, quantity: number): DeployedAsset {
+  return { facilityId: 'f-1', type, quantity };
+}
+
+let sequence = 0;
+
+function event(type: EventType, payload: any, timestamp: number): Event {
+  sequence++;
+  return {
+    id: `event-${sequence}`,
+    type,
+    schemaVersion: 1,
+    actorId: 'compliance-monitor',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp,
+    payload,
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+const fullyStaffed = [
+  assignment('Shelter Supervisor'),
+  assignment('Shelter Supervisor', 'night'),
+  ...Array.from({ length: 9 }, (_, i) => assignment(`Shelter Worker ${i}`)),
+];
+const fullyEquipped = [deployed('Cots', 20), deployed('Hand Wash Stations', 10)];
+
+describe('evaluateShelterCompliance', () => {
+  it('has no findings for an empty or fully resourced shelter', () => {
+    expect(evaluateShelterCompliance({ facility: shelter, population: 0, assignments: [], assets: [] })).toEqual([]);
+    expect(evaluateShelterCompliance({ facility: shelter, population: 150, assignments: fullyStaffed, assets: fullyEquipped })).toEqual([]);
+  });
+
+  it('flags toilets below ratio, no overnight supervisor and overcrowding', () => {
+    const findings = evaluateShelterCompliance({
+      facility: { ...shelter, toilets: 2 },
+      population: 220,
+      assignments: fullyStaffed.filter(a => a.shift_type !== 'night').concat(assignment('Shelter Manager')),
+      assets: [...fullyEquipped, deployed('Cots', 10)],
+    });
+
+    expect(findings.map(f => [f.rule, f.severity, f.required, f.have])).toEqual([
+      ['space', 'critical', 200, 220],
+      ['overnight_supervisor', 'critical', 1, 0],
+      ['toilets', 'warning', 6, 2],
+      ['handwash_stations', 'warning', 11, 10],
+    ]);
+  });
+
+  it('skips the rules it has no data for', () => {
+    const findings = evaluateShelterCompliance({ facility: { ...shelter, toilets: undefined }, population: 150 });
+    expect(findings).toEqual([]);
+
+    const unstaffed = evaluateShelterCompliance({ facility: shelter, population: 150, assignments: [], assets: fullyEquipped });
+    expect(unstaffed.map(f => f.rule)).toEqual(['overnight_supervisor', 'supervisors', 'shelter_workers']);
+  });
+
+  it('only counts shelter positions as shelter staff', () => {
+    const findings = evaluateShelterCompliance({
+      facility: shelter,
+      population: 150,
+      assignments: [...fullyStaffed.filter(a => a.shift_type !== 'night'), assignment('Feeding Supervisor', 'night')],
+      assets: fullyEquipped,
+    });
+    expect(findings.map(f => f.rule)).toEqual(['overnight_supervisor', 'supervisors']);
+  });
+});
+
+describe('compliance alerts', () => {
+  const findings = evaluateShelterCompliance({ facility: { ...shelter, toilets: 2 }, population: 150, assignments: fullyStaffed, assets: fullyEquipped });
+
+  it('raises new alerts, keeps when they were first raised and clears resolved ones', () => {
+    let alerts: ComplianceAlerts = {};
+    const { raise } = complianceAlertChanges(findings, alerts);
+    expect(raise.map(f => f.rule)).toEqual(['toilets']);
+
+    alerts = applyComplianceAlertEvent(alerts, event(EventType.COMPLIANCE_ALERT_RAISED, { alertId: 'a-1', ...raise[0] }, 1000));
+    alerts = applyComplianceAlertEvent(alerts, event(EventType.COMPLIANCE_ALERT_RAISED, { alertId: 'a-2', ...raise[0], have: 3 }, 2000));
+    expect(activeAlerts(alerts)).toMatchObject([{ id: 'a-1', have: 3, raisedAt: new Date(1000).toISOString() }]);
+    expect(complianceAlertChanges(findings, alerts)).toEqual({ raise: [], clear: [] });
+
+    const { clear } = complianceAlertChanges([], alerts);
+    expect(clear.map(a => a.id)).toEqual(['a-1']);
+    alerts = applyComplianceAlertEvent(alerts, event(EventType.COMPLIANCE_ALERT_CLEARED, { alertId: 'a-1', facilityId: 'f-1', rule: 'toilets' }, 3000));
+    expect(activeAlerts(alerts)).toEqual([]);
+  });
+
+  it('opens a gap once an alert persists past the threshold and fills it when the alert clears', () => {
+    const raisedAt = Date.parse('2025-09-01T00:00:00.000Z');
+    const alert = { ...findings[0], id: 'a-1', raisedAt: new Date(raisedAt).toISOString(), updatedAt: new Date(raisedAt).toISOString() };
+
+    expect(complianceGapChanges('op-1', [alert], [], raisedAt + HOUR, 2 * HOUR).add).toEqual([]);
+
+    const { add } = complianceGapChanges('op-1', [alert], [], raisedAt + 3 * HOUR, 2 * HOUR);
+    expect(add).toEqual([expect.objectContaining({
+      facility_id: 'f-1',
+      gap_type: 'equipment',
+      gap_category: 'Portable Toilets',
+      quantity_needed: 2,
+      priority: 'high',
+      requirements: { source: COMPLIANCE_GAP_SOURCE, rule: 'toilets', alertId: 'a-1' },
+    })]);
+
+    const gap = { ...add[0], id: 'g-1' } as Gap;
+    const worksheetGap = { ...gap, id: 'g-2', requirements: { source: 'ics215' } } as Gap;
+    expect(complianceGapChanges('op-1', [alert], [worksheetGap], raisedAt + 3 * HOUR, 2 * HOUR)).toEqual({ add: [], update: [] });
+    expect(complianceGapChanges('op-1', [], [gap], raisedAt + 4 * HOUR).update).toEqual([
+      expect.objectContaining({ id: 'g-1', status: 'filled', quantity_needed: 0 }),
+    ]);
+  });
+
+  it('gives every device the same gap id and reopens a filled gap under it', () => {
+    const raisedAt = Date.parse('2025-09-01T00:00:00.000Z');
+    const alert = { ...findings[0], id: 'a-1', raisedAt: new Date(raisedAt).toISOString(), updatedAt: new Date(raisedAt).toISOString() };
+    const now = raisedAt + 3 * HOUR;
+
+    const laptop = complianceGapChanges('op-1', [alert], [], now, 2 * HOUR).add;
+    const tablet = complianceGapChanges('op-1', [alert], [], now, 2 * HOUR).add;
+    expect(laptop.map(gap => gap.id)).toEqual([complianceGapId('op-1', 'f-1', 'toilets')]);
+    expect(tablet.map(gap => gap.id)).toEqual(laptop.map(gap => gap.id));
+
+    const filled: Gap = { ...laptop[0], status: 'filled', quantity_needed: 0, filled_date: new Date(now) };
+    expect(complianceGapChanges('op-1', [alert], [filled], now + HOUR, 2 * HOUR)).toEqual({
+      add: [],
+      update: [expect.objectContaining({ id: laptop[0].id, status: 'open', quantity_needed: 2, filled_date: undefined })],
+    });
+  });
+});
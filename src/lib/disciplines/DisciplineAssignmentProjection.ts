@@ -0,0 +1,113 @@
+/**
+ * Discipline Assignment Projection
+ *
+ * Folds the discipline console lifecycle events into work assignments keyed
+ * by id. Saving puts an assignment back into draft; it is then submitted and
+ * approved, and only submitted or approved assignments reach the IAP.
+ */
+
+import { Event, EventType } from '../events/types';
+import { DisciplineAssignment, DisciplineId, FacilityStatus, FacilityType, WorkSite } from '../../types';
+import { assignmentTotals } from './DisciplineCatalog';
+
+export type DisciplineAssignments = { [assignmentId: string]: DisciplineAssignment };
+
+export const DISCIPLINE_ASSIGNMENT_EVENTS = [
+  EventType.DISCIPLINE_ASSIGNMENT_SAVED,
+  EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED,
+  EventType.DISCIPLINE_ASSIGNMENT_APPROVED,
+];
+
+// Statuses that put an assignment in the IAP
+export const IAP_ASSIGNMENT_STATUSES: DisciplineAssignment['status'][] = ['submitted', 'approved'];
+
+const WORK_SITE_TYPES: Record<DisciplineId, FacilityType> = {
+  sheltering: 'shelter',
+  feeding: 'feeding',
+  bulk_distribution: 'distribution',
+  disaster_health: 'other',
+  mental_health: 'other',
+  individual_care: 'other',
+};
+
+/**
+ * Apply one lifecycle event. Out-of-order transitions (approving a draft,
+ * submitting an approved assignment) leave the state unchanged.
+ */
+export function applyDisciplineAssignmentEvent(state: DisciplineAssignments, event: Event): DisciplineAssignments {
+  const payload = event.payload || {};
+  const existing: DisciplineAssignment | undefined = state[payload.assignmentId];
+  const updatedAt = new Date(event.timestamp).toISOString();
+
+  switch (event.type) {
+    case EventType.DISCIPLINE_ASSIGNMENT_SAVED:
+      return {
+        ...state,
+        [payload.assignmentId]: {
+          id: payload.assignmentId,
+          discipline: payload.discipline,
+          operationalPeriod: payload.operationalPeriod,
+          site: payload.site,
+          personnel: { positions: payload.positions },
+          assets: { items: payload.assets },
+          status: 'draft',
+          createdBy: existing?.createdBy || event.actorId,
+          updatedAt,
+        },
+      };
+
+    case EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED:
+      if (existing?.status !== 'draft') return state;
+      return {
+        ...state,
+        [existing.id]: { ...existing, status: 'submitted', submittedBy: payload.submittedBy, updatedAt },
+      };
+
+    case EventType.DISCIPLINE_ASSIGNMENT_APPROVED:
+      if (existing?.status !== 'submitted') return state;
+      return {
+        ...state,
+        [existing.id]: { ...existing, status: 'approved', approvedBy: payload.approvedBy, updatedAt },
+      };
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Assignments for the IAP, optionally for one discipline
+ */
+export function assignmentsForIAP(state: DisciplineAssignments, discipline?: DisciplineId): DisciplineAssignment[] {
+  return Object.values(state)
+    .filter(a => IAP_ASSIGNMENT_STATUSES.includes(a.status))
+    .filter(a => !discipline || a.discipline === discipline)
+    .sort((a, b) => a.site.name.localeCompare(b.site.name));
+}
+
+/**
+ * Work sites table rows for assignments at sites that are not facilities
+ */
+export function assignmentWorkSites(assignments: DisciplineAssignment[], facilityNames: string[]): WorkSite[] {
+  const known = new Set(facilityNames.map(name => name.trim().toLowerCase()));
+
+  return assignments
+    .filter(a => !known.has(a.site.name.trim().toLowerCase()))
+    .map(a => {
+      const lead = a.personnel.positions.find(p => p.dayLead)?.dayLead || '';
+      const status: FacilityStatus = a.status === 'approved' ? 'operational' : 'planning';
+      return {
+        id: a.id,
+        county: a.site.county,
+        type: WORK_SITE_TYPES[a.discipline],
+        facilityName: a.site.name,
+        address: a.site.address,
+        contact: lead,
+        phone: '',
+        status,
+        personnel: assignmentTotals(a).personnelTotals.have,
+        // Only a shelter's capacity counts people; other disciplines count meals or households
+        capacity: a.discipline === 'sheltering' ? a.site.capacity : undefined,
+      };
+    });
+}
@@ -0,0 +1,111 @@
+/**
+ * Discipline Assignment Commands
+ *
+ * Save, submit and approve discipline console work assignments. Each command
+ * records one event, so assignments sync, are audited and reach the IAP
+ * through IAPProjector, the one projection the console, the sheltering pages
+ * and the work sites table all read.
+ */
+
+import { EventType } from '../events/types';
+import { IAPProjector, iapProjector } from '../projections/IAPProjector';
+import { recordIAPEvent } from '../iap/iapEvents';
+import { DisciplineAssignment, DisciplineId } from '../../types';
+import { DISCIPLINES } from './DisciplineCatalog';
+
+type AssignmentContent = Pick<DisciplineAssignment, 'discipline' | 'operationalPeriod' | 'site' | 'personnel' | 'assets'>;
+
+/**
+ * Save an assignment's site and rows. A saved assignment is a draft again
+ * and has to be resubmitted. Returns the assignment id.
+ */
+export async function saveDisciplineAssignment(
+  operationId: string,
+  assignment: AssignmentContent,
+  assignmentId: string = crypto.randomUUID(),
+  projector: IAPProjector = iapProjector
+): Promise<string> {
+  if (!assignment.site.name.trim()) {
+    throw new Error('Site name is required');
+  }
+
+  await recordIAPEvent(projector, EventType.DISCIPLINE_ASSIGNMENT_SAVED, {
+    assignmentId,
+    discipline: assignment.discipline,
+    operationalPeriod: assignment.operationalPeriod,
+    site: assignment.site,
+    positions: assignment.personnel.positions,
+    assets: assignment.assets.items,
+  }, { operationId });
+  return assignmentId;
+}
+
+/**
+ * Submit a draft assignment for approval
+ */
+export async function submitDisciplineAssignment(
+  operationId: string,
+  assignment: DisciplineAssignment,
+  submittedBy: string,
+  projector: IAPProjector = iapProjector
+): Promise<void> {
+  if (assignment.status !== 'draft') {
+    throw new Error(`${assignment.site.name} is ${assignment.status}; only drafts can be submitted`);
+  }
+
+  await recordIAPEvent(projector, EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, {
+    assignmentId: assignment.id,
+    discipline: assignment.discipline,
+    submittedBy,
+  }, { operationId });
+}
+
+/**
+ * Approve a submitted assignment
+ */
+export async function approveDisciplineAssignment(
+  operationId: string,
+  assignment: DisciplineAssignment,
+  approvedBy: string,
+  projector: IAPProjector = iapProjector
+): Promise<void> {
+  if (assignment.status !== 'submitted') {
+    throw new Error(`${assignment.site.name} is ${assignment.status}; only submitted assignments can be approved`);
+  }
+
+  await recordIAPEvent(projector, EventType.DISCIPLINE_ASSIGNMENT_APPROVED, {
+    assignmentId: assignment.id,
+    discipline: assignment.discipline,
+    approvedBy,
+  }, { operationId });
+}
+
+/**
+ * Move assignments the console kept in localStorage into the event log,
+ * replaying their status, then drop the local copy. Returns how many moved.
+ */
+export async function importLocalAssignments(
+  operationId: string,
+  discipline: DisciplineId,
+  actor: string,
+  projector: IAPProjector = iapProjector
+): Promise<number> {
+  const key = DISCIPLINES[discipline].storageKey;
+  const stored = localStorage.getItem(key);
+  if (!stored) return 0;
+
+  const local: DisciplineAssignment[] = JSON.parse(stored);
+  for (const assignment of local) {
+    // The console used to allow saving without a site name
+    const content = { ...assignment, discipline, site: { ...assignment.site, name: assignment.site.name.trim() || 'Unnamed site' } };
+    await saveDisciplineAssignment(operationId, content, assignment.id, projector);
+    if (assignment.status !== 'draft') {
+      await submitDisciplineAssignment(operationId, { ...content, status: 'draft' }, actor, projector);
+    }
+    if (assignment.status === 'approved') {
+      await approveDisciplineAssignment(operationId, { ...content, status: 'submitted' }, actor, projector);
+    }
+  }
+  localStorage.removeItem(key);
+  return local.length;
+}
@@ -0,0 +1,129 @@
+/**
+ * Discipline Calculators
+ *
+ * Turn the feeding and distribution standards into required counts keyed by
+ * the discipline catalog codes, ready to drop into a console assignment.
+ */
+
+import { ASSETS_LIBRARY } from '../../data/permanent-databases/assets-library';
+import { DisciplineAssignment } from '../../types';
+import { calculateFeedingFleet, calculateFeedingRequirements } from '../standards/FeedingStandards';
+import { DistributionItemInput, calculateDistributionRequirements } from '../standards/DistributionStandards';
+import { setRowCount } from './DisciplineCatalog';
+
+export interface DisciplineRequirements {
+  positions: Record<string, number>; // Required by GAP code
+  assets: Record<string, number>; // Required by asset code
+  basis: string;
+}
+
+export interface FeedingCalculatorInput {
+  mealsPerDay: number;
+  mobileMealsPerDay: number;
+  mealsPerErvRun: number;
+  kitchenMealsPerDay: number;
+}
+
+export interface DistributionCalculatorInput {
+  households: number;
+  items: DistributionItemInput[];
+}
+
+/**
+ * Meals a library asset produces or carries, read from its capacity spec
+ * (e.g. "200 meals per run", "2000+ meals per day")
+ */
+export function mealCapacity(assetId: string): number {
+  const capacity = ASSETS_LIBRARY.find(a => a.id === assetId)?.specifications?.capacity;
+  const match = typeof capacity === 'string' ? capacity.replace(/,/g, '').match(/(\d+)\+?\s*meals/) : null;
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+export const FEEDING_CALCULATOR_DEFAULTS: FeedingCalculatorInput = {
+  mealsPerDay: 0,
+  mobileMealsPerDay: 0,
+  mealsPerErvRun: mealCapacity('erv-001'),
+  kitchenMealsPerDay: mealCapacity('trailer-kitchen'),
+};
+
+// Items handed out per household unless the distribution plan says otherwise
+export const DISTRIBUTION_CALCULATOR_ITEMS: DistributionItemInput[] = [
+  { code: 'comfort-kits', unitsPerHousehold: 1 },
+  { code: 'blankets-standard', unitsPerHousehold: 2 },
+  { code: 'ppe-basic', unitsPerHousehold: 1 },
+];
+
+/**
+ * Fixed-site staff and equipment for the meals served on site, plus the
+ * kitchens and ERVs to produce and deliver the rest
+ */
+export function feedingRequirements(input: FeedingCalculatorInput): DisciplineRequirements {
+  const mealsPerDay = Math.max(input.mealsPerDay, 0);
+  const mobileMeals = Math.min(Math.max(input.mobileMealsPerDay, 0), mealsPerDay);
+  const fixedMeals = mealsPerDay - mobileMeals;
+
+  const site = calculateFeedingRequirements(fixedMeals);
+  const allMeals = calculateFeedingRequirements(mealsPerDay);
+  const fleet = calculateFeedingFleet({ ...input, mealsPerDay, mobileMealsPerDay: mobileMeals });
+
+  return {
+    positions: {
+      FEEDST: fixedMeals > 0 ? 1 : 0,
+      FEEDLD: site.personnel.supervisors,
+      FEEDWK: site.personnel.feedingWorkers,
+      FEEDDR: fleet.ervs,
+      FEEDSV: fleet.ervCrew - fleet.ervs,
+    },
+    assets: {
+      'erv-001': fleet.ervs,
+      'trailer-kitchen': fleet.kitchens,
+      'cambros-insulated': allMeals.equipment.cambros, // Food leaves the kitchen in cambros either way
+      'serving-tables': site.equipment.servingTables,
+      'handwash-stations': site.equipment.handwashStations,
+    },
+    basis: `Feeding standards, ${mealsPerDay} meals/day (${mobileMeals} by ERV)`,
+  };
+}
+
+/**
+ * Units, pallets, trucks and staff for the households served
+ */
+export function distributionRequirements(input: DistributionCalculatorInput): DisciplineRequirements {
+  const result = calculateDistributionRequirements(input.households, input.items);
+
+  return {
+    positions: {
+      DISTLD: result.personnel.leads,
+      DISTWK: result.personnel.workers,
+      DISTDR: result.personnel.drivers,
+    },
+    assets: {
+      ...result.units,
+      'pallets-standard': result.pallets,
+      'box-truck-001': result.trucks,
+    },
+    basis: `Distribution standards, ${Math.max(input.households, 0)} households`,
+  };
+}
+
+/**
+ * Set required on the rows the calculator covers; other rows keep their counts
+ */
+export function applyRequirements<T extends Pick<DisciplineAssignment, 'personnel' | 'assets'>>(
+  assignment: T,
+  requirements: DisciplineRequirements
+): T {
+  return {
+    ...assignment,
+    personnel: {
+      positions: assignment.personnel.positions.map(row =>
+        row.code in requirements.positions ? setRowCount(row, 'required', requirements.positions[row.code]) : row
+      ),
+    },
+    assets: {
+      items: assignment.assets.items.map(row =>
+        row.code in requirements.assets ? setRowCount(row, 'required', requirements.assets[row.code]) : row
+      ),
+    },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Discipline Catalogs
+ *
+ * Position and asset catalogs for each discipline console. Positions come
+ * from the GAP codes and assets from the permanent assets library, so a
+ * console row always names something the operation can actually request.
+ * Sheltering keeps the catalog its console has always used.
+ */
+
+import { GAP_CODES, getGAPCodesByCategory } from '../../data/gap-codes';
+import { ASSETS_LIBRARY } from '../../data/permanent-databases/assets-library';
+import {
+  DisciplineAssetRow,
+  DisciplineAssignment,
+  DisciplineId,
+  DisciplinePositionRow,
+} from '../../types';
+
+export interface CatalogPosition {
+  code: string;
+  title: string;
+}
+
+export interface CatalogAsset {
+  code: string;
+  name: string;
+  unit: string;
+  type: string; // Assets library type, e.g. "Cots", that standards checks count
+}
+
+export interface DisciplineDefinition {
+  id: DisciplineId;
+  name: string;
+  siteTypes: string[];
+  capacityLabel: string; // What the site's capacity counts
+  positions: CatalogPosition[];
+  assets: CatalogAsset[];
+  calculator?: 'feeding' | 'distribution';
+  storageKey: string;
+}
+
+function gapPositions(codes: string[]): CatalogPosition[] {
+  return codes.map(code => {
+    const gap = GAP_CODES.find(g => g.code === code);
+    if (!gap) throw new Error(`Unknown GAP code: ${code}`);
+    return { code: gap.code, title: gap.title };
+  });
+}
+
+function libraryAssets(ids: string[]): CatalogAsset[] {
+  return ids.map(id => {
+    const asset = ASSETS_LIBRARY.find(a => a.id === id);
+    if (!asset) throw new Error(`Unknown asset: ${id}`);
+    return { code: asset.id, name: asset.name, unit: asset.unit, type: asset.type };
+  });
+}
+
+export const DISCIPLINES: Record<DisciplineId, DisciplineDefinition> = {
+  sheltering: {
+    id: 'sheltering',
+    name: 'Sheltering',
+    siteTypes: ['Managed Client Shelter', 'Partner Managed Shelter', 'Staff Shelter'],
+    capacityLabel: 'Capacity',
+    positions: [
+      { code: 'SHEL-MN', title: 'Shelter Manager' },
+      { code: 'SHEL-SV', title: 'Shelter Supervisor' },
+      { code: 'SHEL-SA', title: 'Shelter Associate' },
+      { code: 'DHS-MN', title: 'Disaster Health Manager' },
+      { code: 'DHS-SV', title: 'Disaster Health Supervisor' },
+      { code: 'DHS-SA', title: 'Disaster Health Associate' },
+      { code: 'DMH-MN', title: 'Mental Health Manager' },
+      { code: 'DMH-SA', title: 'Mental Health Associate' },
+      { code: 'DIS-MN', title: 'Disability Integration Manager' },
+    ],
+    assets: [
+      { code: 'COT-STD', name: 'Cots - Standard', unit: 'Each', type: 'Cots' },
+      { code: 'COT-ADA', name: 'Cots - ADA', unit: 'Each', type: 'ADA Cots' },
+      { code: 'BLANK', name: 'Blankets', unit: 'Each', type: 'Blankets' },
+      { code: 'COMF-KIT', name: 'Comfort Kits', unit: 'Each', type: 'Comfort Kits' },
+      { code: 'CLEAN-KIT', name: 'Cleaning Kits', unit: 'Each', type: 'Cleaning Kits' },
+      { code: 'TOWEL', name: 'Towels', unit: 'Each', type: 'Towels' },
+      { code: 'PIL', name: 'Pillows', unit: 'Each', type: 'Pillows' },
+      { code: 'HAND-SAN', name: 'Hand Sanitizer', unit: 'Bottles', type: 'Hand Sanitizer' },
+      { code: 'TOILET', name: 'Portable Toilets', unit: 'Each', type: 'Portable Toilets' },
+      { code: 'SHOW', name: 'Portable Showers', unit: 'Each', type: 'Portable Showers' },
+    ],
+    storageKey: 'shelter_assignments',
+  },
+  feeding: {
+    id: 'feeding',
+    name: 'Feeding',
+    siteTypes: ['Fixed Feeding Site', 'Mobile Feeding Route', 'Shelter Kitchen', 'Partner Kitchen'],
+    capacityLabel: 'Meals per Day',
+    positions: gapPositions(getGAPCodesByCategory('Feeding').map(g => g.code)),
+    assets: libraryAssets([
+      'erv-001',
+      'erv-002',
+      'trailer-kitchen',
+      'cambros-insulated',
+      'serving-tables',
+      'handwash-stations',
+      'coolers-transport',
+    ]),
+    calculator: 'feeding',
+    storageKey: 'feeding_assignments',
+  },
+  bulk_distribution: {
+    id: 'bulk_distribution',
+    name: 'Bulk Distribution',
+    siteTypes: ['Distribution Point', 'Mobile Distribution Route', 'Warehouse'],
+    capacityLabel: 'Households',
+    positions: gapPositions(getGAPCodesByCategory('Distribution').map(g => g.code)),
+    assets: libraryAssets([
+      'box-truck-001',
+      'trailer-supply',
+      'pallets-standard',
+      'forklift-warehouse',
+      'comfort-kits',
+      'blankets-standard',
+      'ppe-basic',
+    ]),
+    calculator: 'distribution',
+    storageKey: 'bulk_distribution_assignments',
+  },
+  disaster_health: {
+    id: 'disaster_health',
+    name: 'Disaster Health',
+    siteTypes: ['Shelter Health Station', 'Service Center', 'Mobile Health Team'],
+    capacityLabel: 'Clients',
+    positions: gapPositions(['HLTHLD', 'HLTHNR', 'HLTHPR', 'SHLTNR']),
+    assets: libraryAssets(['first-aid-kit-comprehensive', 'ppe-basic', 'handwash-stations', 'client-forms']),
+    storageKey: 'disaster_health_assignments',
+  },
+  mental_health: {
+    id: 'mental_health',
+    name: 'Mental Health',
+    siteTypes: ['Shelter', 'Service Center', 'Outreach Team'],
+    capacityLabel: 'Clients',
+    positions: gapPositions(['HLTHLD', 'HLTHMD', 'HLTHSP']),
+    assets: libraryAssets(['client-forms', 'tablets-field']),
+    storageKey: 'mental_health_assignments',
+  },
+  individual_care: {
+    id: 'individual_care',
+    name: 'Individual Care',
+    siteTypes: ['Shelter', 'Disaster Recovery Center', 'Family Assistance Center', 'Outreach Team'],
+    capacityLabel: 'Clients',
+    positions: gapPositions(['HLTHLD', 'HLTHNR', 'HLTHMD', 'HLTHSP', 'HLTHPR']),
+    assets: libraryAssets(['client-forms', 'tablets-field', 'first-aid-kit-comprehensive']),
+    storageKey: 'individual_care_assignments',
+  },
+};
+
+export const DISCIPLINE_ORDER: DisciplineId[] = [
+  'sheltering',
+  'feeding',
+  'bulk_distribution',
+  'disaster_health',
+  'mental_health',
+  'individual_care',
+];
+
+/**
+ * Assets library type of a console asset row, by its catalog code
+ */
+export function catalogAssetType(code: string): string | undefined {
+  return DISCIPLINE_ORDER
+    .flatMap(discipline => DISCIPLINES[discipline].assets)
+    .find(asset => asset.code === code)?.type;
+}
+
+/**
+ * A blank work assignment for the discipline, one row per catalog entry
+ */
+export function emptyAssignment(discipline: DisciplineId): Pick<DisciplineAssignment, 'discipline' | 'site' | 'personnel' | 'assets'> {
+  const definition = DISCIPLINES[discipline];
+  return {
+    discipline,
+    site: {
+      name: '',
+      type: definition.siteTypes[0],
+      address: '',
+      county: '',
+      capacity: 100,
+    },
+    personnel: {
+      positions: definition.positions.map(p => ({ code: p.code, title: p.title, required: 0, have: 0, gap: 0 })),
+    },
+    assets: {
+      items: definition.assets.map(a => ({ code: a.code, name: a.name, unit: a.unit, required: 0, have: 0, gap: 0 })),
+    },
+  };
+}
+
+/**
+ * Set required or have on a row; gap is always required minus have
+ */
+export function setRowCount<T extends DisciplinePositionRow | DisciplineAssetRow>(
+  row: T,
+  field: 'required' | 'have',
+  value: number
+): T {
+  const updated = { ...row, [field]: value };
+  return { ...updated, gap: updated.required - updated.have };
+}
+
+export function assignmentTotals(assignment: Pick<DisciplineAssignment, 'personnel' | 'assets'>) {
+  const personnelTotals = assignment.personnel.positions.reduce((acc, p) => ({
+    required: acc.required + p.required,
+    have: acc.have + p.have,
+    gap: acc.gap + p.gap,
+  }), { required: 0, have: 0, gap: 0 });
+
+  const assetGaps = assignment.assets.items.filter(a => a.gap > 0).length;
+
+  return { personnelTotals, assetGaps };
+}
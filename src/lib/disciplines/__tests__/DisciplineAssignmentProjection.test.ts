@@ -0,0 +1,137 @@
+/**
+ * Discipline Assignment Projection Tests
+ *
+ * Validates the draft → submitted → approved lifecycle and that submitted
+ * and approved shelter assignments reach the IAP work sites table
+ */
+
+import { applyDisciplineAssignmentEvent, assignmentsForIAP, DisciplineAssignments } from '../DisciplineAssignmentProjection';
+import { emptyAssignment, setRowCount } from '../DisciplineCatalog';
+import { IAPProjector } from '../../projections/IAPProjector';
+import { Event, EventType } from '../../events/types';
+
+let sequence = 0;
+
+function event(type: EventType, payload: any, actorId = 'shelter-lead'): Event {
+  sequence++;
+  return {
+    id: `event-${sequence}`,
+    type,
+    schemaVersion: 1,
+    actorId,
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.parse('2025-09-01T12:00:00.000Z') + sequence,
+    payload,
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+function saved(assignmentId: string, name: string, type = 'Managed Client Shelter'): Event {
+  const form = emptyAssignment('sheltering');
+  const positions = form.personnel.positions.map(p =>
+    p.code === 'SHEL-MN' ? { ...setRowCount(setRowCount(p, 'required', 1), 'have', 1), dayLead: 'Ana Ruiz' } :
+    p.code === 'SHEL-SA' ? setRowCount(setRowCount(p, 'required', 6), 'have', 4) : p
+  );
+  return event(EventType.DISCIPLINE_ASSIGNMENT_SAVED, {
+    assignmentId,
+    discipline: 'sheltering',
+    operationalPeriod: '2025-09-01',
+    site: { name, type, address: '1 School Rd', county: 'Pasco', capacity: 250 },
+    positions,
+    assets: form.assets.items,
+  });
+}
+
+function replay(events: Event[]): DisciplineAssignments {
+  return events.reduce(applyDisciplineAssignmentEvent, {});
+}
+
+describe('Discipline assignment lifecycle', () => {
+  it('moves from draft to submitted to approved', () => {
+    const state = replay([
+      saved('a-1', 'Central High School'),
+      event(EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, { assignmentId: 'a-1', discipline: 'sheltering', submittedBy: 'Ana Ruiz' }),
+      event(EventType.DISCIPLINE_ASSIGNMENT_APPROVED, { assignmentId: 'a-1', discipline: 'sheltering', approvedBy: 'Lee Chen' }, 'mass-care-chief'),
+    ]);
+
+    expect(state['a-1']).toMatchObject({
+      discipline: 'sheltering',
+      status: 'approved',
+      createdBy: 'shelter-lead',
+      submittedBy: 'Ana Ruiz',
+      approvedBy: 'Lee Chen',
+    });
+  });
+
+  it('ignores approving a draft and returns a saved assignment to draft', () => {
+    const approvedEarly = replay([
+      saved('a-1', 'Central High School'),
+      event(EventType.DISCIPLINE_ASSIGNMENT_APPROVED, { assignmentId: 'a-1', discipline: 'sheltering', approvedBy: 'Lee Chen' }),
+    ]);
+    expect(approvedEarly['a-1'].status).toBe('draft');
+
+    const resaved = replay([
+      saved('a-1', 'Central High School'),
+      event(EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, { assignmentId: 'a-1', discipline: 'sheltering', submittedBy: 'Ana Ruiz' }),
+      saved('a-1', 'Central High School Gym'),
+    ]);
+    expect(resaved['a-1']).toMatchObject({ status: 'draft', site: { name: 'Central High School Gym' } });
+    expect(assignmentsForIAP(resaved)).toEqual([]);
+  });
+});
+
+describe('IAPProjector work sites', () => {
+  it('lists submitted and approved shelters that are not already facilities', async () => {
+    const projector = new IAPProjector();
+    const events = [
+      event(EventType.IAP_CREATED, {
+        iapNumber: 3,
+        operationalPeriodStart: '2025-09-01T06:00:00.000Z',
+        operationalPeriodEnd: '2025-09-02T06:00:00.000Z',
+        preparedBy: 'Gary Pelletier',
+      }),
+      saved('a-1', 'Central High School'),
+      event(EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, { assignmentId: 'a-1', discipline: 'sheltering', submittedBy: 'Ana Ruiz' }),
+      saved('a-2', 'Draft Church Shelter'),
+      saved('a-3', 'Adventure Island Base Camp', 'Staff Shelter'),
+      event(EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, { assignmentId: 'a-3', discipline: 'sheltering', submittedBy: 'Ana Ruiz' }),
+      event(EventType.DISCIPLINE_ASSIGNMENT_APPROVED, { assignmentId: 'a-3', discipline: 'sheltering', approvedBy: 'Lee Chen' }),
+    ];
+    for (const e of events) {
+      await projector.processEvent(e);
+    }
+
+    const table = projector.getIAPDocument(events[0].id)!.workSitesTable!;
+    expect(table.sites.map(site => [site.facilityName, site.status, site.personnel, site.capacity, site.contact])).toEqual([
+      ['Adventure Island Base Camp', 'operational', 5, 250, 'Ana Ruiz'],
+      ['Central High School', 'planning', 5, 250, 'Ana Ruiz'],
+    ]);
+    expect(table.sitesByType).toEqual({ shelter: 2 });
+    expect(table.sitesByCounty).toEqual({ Pasco: 2 });
+  });
+
+  it('serves the console and the work sites from the same log, as of any moment', async () => {
+    const events = [
+      saved('a-1', 'Central High School'),
+      event(EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, { assignmentId: 'a-1', discipline: 'sheltering', submittedBy: 'Ana Ruiz' }),
+      saved('a-2', 'Draft Church Shelter'),
+    ];
+    const localStore = {
+      getEvents: async (_operationId: string, _since?: number, until = Infinity) =>
+        events.filter(e => e.timestamp <= until),
+    };
+
+    const live = await IAPProjector.at('op-1', localStore, Infinity);
+    const beforeSubmit = await IAPProjector.at('op-1', localStore, events[0].timestamp);
+
+    expect(live.getDisciplineAssignments('op-1', 'sheltering').map(a => [a.site.name, a.status])).toEqual([
+      ['Central High School', 'submitted'],
+      ['Draft Church Shelter', 'draft'],
+    ]);
+    expect(live.getDisciplineAssignmentsForIAP('op-1').map(a => a.id)).toEqual(['a-1']);
+    expect(beforeSubmit.getDisciplineAssignmentsForIAP('op-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Discipline Console Tests
+ *
+ * Validates the catalogs drawn from GAP codes and the assets library, the
+ * gap math, and the feeding and distribution calculators
+ */
+
+import { DISCIPLINES, assignmentTotals, emptyAssignment, setRowCount } from '../DisciplineCatalog';
+import {
+  DISTRIBUTION_CALCULATOR_ITEMS,
+  FEEDING_CALCULATOR_DEFAULTS,
+  applyRequirements,
+  distributionRequirements,
+  feedingRequirements,
+} from '../DisciplineCalculators';
+import { getGAPCodesByCategory } from '../../../data/gap-codes';
+
+describe('Discipline catalogs', () => {
+  it('draws positions from the GAP codes and assets from the library', () => {
+    expect(DISCIPLINES.feeding.positions.map(p => p.code)).toEqual(getGAPCodesByCategory('Feeding').map(g => g.code));
+    expect(DISCIPLINES.bulk_distribution.assets).toContainEqual({ code: 'box-truck-001', name: 'Distribution Box Truck - 24ft', unit: 'vehicle', type: 'Box Truck' });
+    expect(DISCIPLINES.mental_health.positions).toContainEqual({ code: 'HLTHMD', title: 'Mental Health Worker' });
+  });
+
+  it('keeps gap as required minus have', () => {
+    const form = emptyAssignment('disaster_health');
+    const nurse = setRowCount(setRowCount(form.personnel.positions[1], 'required', 4), 'have', 1);
+    expect(nurse).toMatchObject({ code: 'HLTHNR', required: 4, have: 1, gap: 3 });
+
+    const totals = assignmentTotals({
+      personnel: { positions: [nurse, setRowCount(form.personnel.positions[0], 'have', 2)] },
+      assets: { items: [setRowCount(form.assets.items[0], 'required', 2)] },
+    });
+    expect(totals).toEqual({ personnelTotals: { required: 4, have: 3, gap: 1 }, assetGaps: 1 });
+  });
+});
+
+describe('Feeding calculator', () => {
+  it('defaults ERV and kitchen capacity from the assets library', () => {
+    expect(FEEDING_CALCULATOR_DEFAULTS.mealsPerErvRun).toBe(200);
+    expect(FEEDING_CALCULATOR_DEFAULTS.kitchenMealsPerDay).toBe(2000);
+  });
+
+  it('staffs the fixed site and sizes the kitchen and ERV fleet', () => {
+    const requirements = feedingRequirements({ ...FEEDING_CALCULATOR_DEFAULTS, mealsPerDay: 1500, mobileMealsPerDay: 600 });
+
+    expect(requirements.positions).toEqual({ FEEDST: 1, FEEDLD: 1, FEEDWK: 9, FEEDDR: 2, FEEDSV: 2 });
+    expect(requirements.assets).toEqual({
+      'erv-001': 2,
+      'trailer-kitchen': 1,
+      'cambros-insulated': 13,
+      'serving-tables': 2,
+      'handwash-stations': 1,
+    });
+  });
+
+  it('only sets the rows it calculates', () => {
+    const form = emptyAssignment('feeding');
+    form.personnel.positions[0] = setRowCount(form.personnel.positions[0], 'required', 1); // FEEDMN
+    form.personnel.positions[2] = setRowCount(form.personnel.positions[2], 'have', 3); // FEEDCK
+
+    const applied = applyRequirements(form, feedingRequirements({ ...FEEDING_CALCULATOR_DEFAULTS, mealsPerDay: 300 }));
+    const byCode = Object.fromEntries(applied.personnel.positions.map(p => [p.code, p]));
+
+    expect(byCode.FEEDMN).toMatchObject({ required: 1, gap: 1 });
+    expect(byCode.FEEDCK).toMatchObject({ required: 0, have: 3, gap: -3 });
+    expect(byCode.FEEDWK).toMatchObject({ required: 3, gap: 3 });
+  });
+});
+
+describe('Distribution calculator', () => {
+  it('turns households into units, pallets, trucks and staff', () => {
+    const requirements = distributionRequirements({ households: 230, items: DISTRIBUTION_CALCULATOR_ITEMS });
+
+    expect(requirements.assets).toEqual({
+      'comfort-kits': 230,
+      'blankets-standard': 460,
+      'ppe-basic': 230,
+      'pallets-standard': 23,
+      'box-truck-001': 2,
+    });
+    expect(requirements.positions).toEqual({ DISTLD: 1, DISTWK: 5, DISTDR: 2 });
+  });
+
+  it('requires nothing when no households are served', () => {
+    const requirements = distributionRequirements({ households: 0, items: DISTRIBUTION_CALCULATOR_ITEMS });
+    expect(Object.values(requirements.positions).every(count => count === 0)).toBe(true);
+    expect(Object.values(requirements.assets).every(count => count === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Event Hash Chain Tests
+ *
+ * Validates SHA-256 hashing, canonical serialization and chain verification
+ */
+
+import {
+  GENESIS_HASH,
+  canonicalize,
+  hmacSha256,
+  sealEvent,
+  sha256,
+  verifyDeviceChains,
+  verifyEventChain,
+} from '../hashChain';
+import { Event } from '../types';
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: 'facility.updated',
+    schemaVersion: 1,
+    actorId: 'planner-1',
+    deviceId: 'device-1',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.now(),
+    payload: { facilityId: 'f-1', name: 'Central High Shelter' },
+    syncStatus: 'local',
+    syncAttempts: 0,
+    ...overrides,
+  };
+}
+
+function buildChain(count: number, deviceId = 'device-1'): Event[] {
+  const chain: Event[] = [];
+  let previousHash = GENESIS_HASH;
+  for (let i = 0; i < count; i++) {
+    const event = sealEvent(makeEvent({ timestamp: 1000 + i, deviceId, sequence: i + 1 }), previousHash);
+    chain.push(event);
+    previousHash = event.hash!;
+  }
+  return chain;
+}
+
+describe('Event hash chain', () => {
+  describe('sha256', () => {
+    it('matches published test vectors', () => {
+      expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+      expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('hashes multi-block and non-ASCII input', () => {
+      expect(sha256('a'.repeat(1000))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+      expect(sha256('Niño')).toHaveLength(64);
+    });
+  });
+
+  describe('hmacSha256', () => {
+    it('matches RFC 4231 test vectors', () => {
+      expect(hmacSha256('Jefe', 'what do ya want for nothing?'))
+        .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+      // Key longer than the block size is hashed first
+      expect(hmacSha256('\xaa'.repeat(131), 'Test Using Larger Than Block-Size Key - Hash Key First'))
+        .not.toBe(hmacSha256('\xaa'.repeat(64), 'Test Using Larger Than Block-Size Key - Hash Key First'));
+    });
+  });
+
+  describe('canonicalize', () => {
+    it('is independent of key order', () => {
+      expect(canonicalize({ b: 1, a: { d: 2, c: 3 } }))
+        .toBe(canonicalize({ a: { c: 3, d: 2 }, b: 1 }));
+    });
+
+    it('drops undefined object fields', () => {
+      expect(canonicalize({ a: 1, b: undefined })).toBe('{"a":1}');
+    });
+  });
+
+  describe('sealEvent', () => {
+    it('links the event to the previous hash', () => {
+      const sealed = sealEvent(makeEvent(), 'abc123');
+      expect(sealed.previousHash).toBe('abc123');
+      expect(sealed.hash).toHaveLength(64);
+    });
+
+    it('ignores sync metadata and the local log position when hashing', () => {
+      const event = makeEvent();
+      const sealed = sealEvent(event);
+      const synced = sealEvent({ ...event, syncStatus: 'synced', syncAttempts: 3, logPosition: 7 });
+      expect(synced.hash).toBe(sealed.hash);
+    });
+  });
+
+  describe('verifyEventChain', () => {
+    it('accepts an intact chain in any storage order', () => {
+      const chain = buildChain(5);
+      const result = verifyEventChain('op-1', [...chain].reverse(), chain[4].hash);
+
+      expect(result.valid).toBe(true);
+      expect(result.eventsChecked).toBe(5);
+      expect(result.headHash).toBe(chain[4].hash);
+    });
+
+    it('reports a rewritten payload as a hash mismatch', () => {
+      const chain = buildChain(4);
+      chain[2] = { ...chain[2], payload: { facilityId: 'f-1', name: 'Rewritten' } };
+
+      const result = verifyEventChain('op-1', chain);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toMatchObject({ eventId: chain[2].id, position: 2, reason: 'hash_mismatch' });
+    });
+
+    it('reports a re-hashed rewrite at the next link', () => {
+      const chain = buildChain(4);
+      chain[1] = sealEvent({ ...chain[1], payload: { rewritten: true } }, chain[1].previousHash);
+
+      const result = verifyEventChain('op-1', chain);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toMatchObject({ eventId: chain[2].id, reason: 'broken_link' });
+    });
+
+    it('reports a deleted tail as truncated', () => {
+      const chain = buildChain(3);
+      const result = verifyEventChain('op-1', chain.slice(0, 2), chain[2].hash);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt?.reason).toBe('truncated');
+    });
+  });
+
+  describe('verifyDeviceChains', () => {
+    it('verifies each originating device on its own, interleaved in one log', () => {
+      const laptop = buildChain(3, 'laptop-a');
+      const tablet = buildChain(2, 'tablet-b');
+      const log = [laptop[0], tablet[0], laptop[1], tablet[1], laptop[2]];
+
+      const results = verifyDeviceChains('op-1', log, { 'laptop-a': String(laptop[2].hash) });
+
+      expect(results.map(r => [r.deviceId, r.valid, r.eventsChecked])).toEqual([
+        ['laptop-a', true, 3],
+        ['tablet-b', true, 2],
+      ]);
+    });
+
+    it('blames only the device whose chain was altered', () => {
+      const laptop = buildChain(2, 'laptop-a');
+      const tablet = buildChain(2, 'tablet-b');
+      tablet[1] = { ...tablet[1], payload: { rewritten: true } };
+
+      const results = verifyDeviceChains('op-1', [...laptop, ...tablet]);
+
+      expect(results.find(r => r.deviceId === 'laptop-a')?.valid).toBe(true);
+      expect(results.find(r => r.deviceId === 'tablet-b')?.brokenAt).toMatchObject({ eventId: tablet[1].id, reason: 'hash_mismatch' });
+    });
+
+    it('reports a device with a recorded head but no events as truncated', () => {
+      const [result] = verifyDeviceChains('op-1', [], { 'laptop-a': 'abc123' });
+
+      expect(result).toMatchObject({ deviceId: 'laptop-a', valid: false, brokenAt: { reason: 'truncated' } });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Event Upcasting Tests
+ *
+ * Validates that old payloads are migrated forward before replay
+ */
+
+import { UpcasterRegistry } from '../upcasters';
+import { Event, EventSchemaVersions, EventType } from '../types';
+
+function makeOperationCreated(payload: any, schemaVersion = 1): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: EventType.OPERATION_CREATED,
+    schemaVersion,
+    actorId: 'planner-1',
+    deviceId: 'device-1',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.now(),
+    payload,
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+const legacyPayload = {
+  operationNumber: 'DR-123-24',
+  name: 'Hurricane Test',
+  disasterType: 'hurricane',
+  activationLevel: 'level_2',
+};
+
+describe('UpcasterRegistry', () => {
+  let registry: UpcasterRegistry;
+
+  beforeEach(() => {
+    registry = new UpcasterRegistry();
+    EventSchemaVersions[EventType.OPERATION_CREATED] = 3;
+  });
+
+  afterEach(() => {
+    delete EventSchemaVersions[EventType.OPERATION_CREATED];
+  });
+
+  it('chains upcasters one version at a time', () => {
+    registry.register(EventType.OPERATION_CREATED, 1, payload => {
+      const { name, ...rest } = payload;
+      return { ...rest, operationName: name };
+    });
+    registry.register(EventType.OPERATION_CREATED, 2, payload => ({
+      ...payload,
+      drNumber: payload.operationNumber,
+    }));
+
+    const upcast = registry.upcast(makeOperationCreated(legacyPayload));
+
+    expect(upcast.schemaVersion).toBe(3);
+    expect(upcast.migratedFrom).toBe(1);
+    expect(upcast.payload).toEqual({
+      operationNumber: 'DR-123-24',
+      operationName: 'Hurricane Test',
+      disasterType: 'hurricane',
+      activationLevel: 'level_2',
+      drNumber: 'DR-123-24',
+    });
+  });
+
+  it('leaves current events untouched', () => {
+    const event = makeOperationCreated({ ...legacyPayload }, 3);
+    expect(registry.upcast(event)).toBe(event);
+  });
+
+  it('fails loudly when a version step is missing', () => {
+    registry.register(EventType.OPERATION_CREATED, 1, payload => payload);
+
+    expect(() => registry.upcast(makeOperationCreated(legacyPayload)))
+      .toThrow(/No upcaster registered for operation.created v2 -> v3/);
+  });
+
+  it('validates the upcast payload against the current schema', () => {
+    registry.register(EventType.OPERATION_CREATED, 1, payload => payload);
+    registry.register(EventType.OPERATION_CREATED, 2, payload => payload);
+
+    expect(() => registry.upcast(makeOperationCreated(legacyPayload)))
+      .toThrow(/failed validation/);
+  });
+
+  it('rejects duplicate registrations', () => {
+    registry.register(EventType.OPERATION_CREATED, 1, payload => payload);
+    expect(() => registry.register(EventType.OPERATION_CREATED, 1, payload => payload)).toThrow();
+  });
+});
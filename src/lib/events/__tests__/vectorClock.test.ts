@@ -0,0 +1,64 @@
+/**
+ * Vector Clock Tests
+ *
+ * Validates causal comparison independent of device wall clocks
+ */
+
+import { compareClocks, compareCausally, incrementClock, mergeClocks } from '../vectorClock';
+import { Event } from '../types';
+
+function makeEvent(deviceId: string, vectorClock: Event['vectorClock'], timestamp: number): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: 'iap.section_updated',
+    schemaVersion: 1,
+    actorId: 'planner-1',
+    deviceId,
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp,
+    vectorClock,
+    payload: {},
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+describe('Vector clocks', () => {
+  it('orders an event after one it has seen', () => {
+    const first = incrementClock({}, 'laptop-a');
+    const seenOnB = incrementClock(mergeClocks({}, first), 'laptop-b');
+
+    expect(compareClocks(first, seenOnB)).toBe('before');
+    expect(compareClocks(seenOnB, first)).toBe('after');
+  });
+
+  it('detects concurrent edits', () => {
+    const base = { 'laptop-a': 2, 'laptop-b': 1 };
+    const onA = incrementClock(base, 'laptop-a');
+    const onB = incrementClock(base, 'laptop-b');
+
+    expect(compareClocks(onA, onB)).toBe('concurrent');
+    expect(compareClocks(mergeClocks(onA, onB), onA)).toBe('after');
+  });
+
+  it('treats identical clocks as equal', () => {
+    expect(compareClocks({ a: 1 }, { a: 1, b: 0 })).toBe('equal');
+  });
+
+  it('sorts causally even when wall clocks drift', () => {
+    // laptop-b's clock runs an hour slow, but it saw laptop-a's event
+    const cause = makeEvent('laptop-a', { 'laptop-a': 1 }, 10_000_000);
+    const effect = makeEvent('laptop-b', { 'laptop-a': 1, 'laptop-b': 1 }, 10_000_000 - 3_600_000);
+
+    expect([effect, cause].sort(compareCausally)).toEqual([cause, effect]);
+  });
+
+  it('breaks ties between concurrent events the same way everywhere', () => {
+    const onA = makeEvent('laptop-a', { 'laptop-a': 1 }, 5000);
+    const onB = makeEvent('laptop-b', { 'laptop-b': 1 }, 5000);
+
+    expect(compareCausally(onA, onB)).toBeLessThan(0);
+    expect(compareCausally(onB, onA)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Event Hash Chain
+ *
+ * Tamper evidence for the event log. Every event is hashed (SHA-256) over a
+ * canonical representation that includes the hash of the event its device
+ * created before it for the same operation, so rewriting any historical event
+ * breaks every link after it. Each device keeps its own chain; events received
+ * from other devices keep the links their originator sealed.
+ */
+
+import type { Event } from './types';
+
+// previousHash of the first event in an operation's chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Fields that change after an event is written and are excluded from the hash
+// (logPosition differs on every device that stores the event)
+const UNHASHED_FIELDS = ['hash', 'logPosition', 'syncStatus', 'syncAttempts', 'syncError'];
+
+export type ChainBreakReason =
+  | 'missing_hash'      // Event was stored without a hash
+  | 'hash_mismatch'     // Stored hash does not match the event contents
+  | 'broken_link'       // previousHash does not point at the prior event
+  | 'fork'              // Two events claim the same predecessor
+  | 'truncated';        // Chain ends before the recorded head
+
+export interface ChainBreak {
+  eventId: string;
+  position: number; // Zero-based position in the chain
+  reason: ChainBreakReason;
+  expected?: string;
+  actual?: string;
+}
+
+export interface ChainVerificationResult {
+  operationId: string;
+  deviceId?: string; // Originating device whose chain was checked
+  valid: boolean;
+  eventsChecked: number;
+  headHash: string;
+  brokenAt?: ChainBreak;
+}
+
+/**
+ * Serialize a value with sorted object keys so the same event always
+ * produces the same string regardless of property insertion order
+ */
+export function canonicalize(value: any): string {
+  if (value === undefined) return 'null';
+  if (value !== null && typeof value.toJSON === 'function') {
+    return canonicalize(value.toJSON());
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item)).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Canonical representation of an event used for hashing
+ */
+export function canonicalEvent(event: Event): string {
+  const hashed: Record<string, any> = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (!UNHASHED_FIELDS.includes(key)) {
+      hashed[key] = value;
+    }
+  }
+  return canonicalize(hashed);
+}
+
+/**
+ * Compute the chain hash of an event (its previousHash is part of the input)
+ */
+export function computeEventHash(event: Event): string {
+  return sha256(canonicalEvent(event));
+}
+
+/**
+ * Link an event to the current chain head and compute its hash
+ */
+export function sealEvent(event: Event, previousHash: string = GENESIS_HASH): Event {
+  const sealed: Event = { ...event, previousHash };
+  sealed.hash = computeEventHash(sealed);
+  return sealed;
+}
+
+/**
+ * Verify an operation's chain, walking links from the genesis event.
+ * Reports the first broken link found.
+ */
+export function verifyEventChain(
+  operationId: string,
+  events: Event[],
+  expectedHead?: string
+): ChainVerificationResult {
+  const byPrevious = new Map<string, Event[]>();
+  for (const event of events) {
+    const key = event.previousHash || '';
+    if (!byPrevious.has(key)) {
+      byPrevious.set(key, []);
+    }
+    byPrevious.get(key)!.push(event);
+  }
+
+  const result = (eventsChecked: number, headHash: string, brokenAt?: ChainBreak): ChainVerificationResult => ({
+    operationId,
+    valid: !brokenAt,
+    eventsChecked,
+    headHash,
+    brokenAt,
+  });
+
+  let previousHash = GENESIS_HASH;
+  let position = 0;
+  const visited = new Set<string>();
+
+  while (position < events.length) {
+    const next = byPrevious.get(previousHash) || [];
+    if (next.length === 0) break;
+
+    if (next.length > 1) {
+      const [, forked] = [...next].sort((a, b) => a.timestamp - b.timestamp);
+      return result(position, previousHash, {
+        eventId: forked.id,
+        position,
+        reason: 'fork',
+        expected: previousHash,
+        actual: forked.previousHash,
+      });
+    }
+
+    const event = next[0];
+    if (!event.hash) {
+      return result(position, previousHash, {
+        eventId: event.id,
+        position,
+        reason: 'missing_hash',
+      });
+    }
+
+    const recomputed = computeEventHash(event);
+    if (recomputed !== event.hash) {
+      return result(position, previousHash, {
+        eventId: event.id,
+        position,
+        reason: 'hash_mismatch',
+        expected: recomputed,
+        actual: event.hash,
+      });
+    }
+
+    visited.add(event.id);
+    previousHash = event.hash;
+    position++;
+  }
+
+  // Anything not reachable from genesis has a link that points nowhere
+  if (visited.size < events.length) {
+    const orphan = events
+      .filter(event => !visited.has(event.id))
+      .sort((a, b) => a.timestamp - b.timestamp)[0];
+    return result(position, previousHash, {
+      eventId: orphan.id,
+      position,
+      reason: orphan.hash ? 'broken_link' : 'missing_hash',
+      expected: previousHash,
+      actual: orphan.previousHash,
+    });
+  }
+
+  if (expectedHead && expectedHead !== previousHash) {
+    return result(position, previousHash, {
+      eventId: '',
+      position,
+      reason: 'truncated',
+      expected: expectedHead,
+      actual: previousHash,
+    });
+  }
+
+  return result(position, previousHash);
+}
+
+/**
+ * Verify every device's chain in an operation. `expectedHeads` holds the
+ * recorded head per device where one is known (this device's own chain).
+ */
+export function verifyDeviceChains(
+  operationId: string,
+  events: Event[],
+  expectedHeads: { [deviceId: string]: string } = {}
+): ChainVerificationResult[] {
+  const byDevice = new Map<string, Event[]>();
+  Object.keys(expectedHeads).forEach(deviceId => byDevice.set(deviceId, []));
+  for (const event of events) {
+    byDevice.set(event.deviceId, [...(byDevice.get(event.deviceId) || []), event]);
+  }
+
+  return Array.from(byDevice.entries()).map(([deviceId, deviceEvents]) => ({
+    ...verifyEventChain(operationId, deviceEvents, expectedHeads[deviceId]),
+    deviceId,
+  }));
+}
+
+// ============================================
+// SHA-256
+// ============================================
+
+// Synchronous so events can be sealed inside an IndexedDB transaction
+// (awaiting crypto.subtle there lets the transaction auto-commit)
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function utf8Bytes(input: string): Uint8Array {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(input);
+  }
+  const encoded = unescape(encodeURIComponent(input));
+  const bytes = new Uint8Array(encoded.length);
+  for (let i = 0; i < encoded.length; i++) {
+    bytes[i] = encoded.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * SHA-256 of a UTF-8 string, as lowercase hex
+ */
+export function sha256(input: string): string {
+  return toHex(sha256Bytes(utf8Bytes(input)));
+}
+
+/**
+ * HMAC-SHA256 of a UTF-8 message under a UTF-8 key, as lowercase hex
+ */
+export function hmacSha256(key: string, message: string): string {
+  const BLOCK_SIZE = 64;
+  let keyBytes = utf8Bytes(key);
+  if (keyBytes.length > BLOCK_SIZE) {
+    keyBytes = sha256Bytes(keyBytes);
+  }
+
+  const inner = new Uint8Array(BLOCK_SIZE);
+  const outer = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = (keyBytes[i] || 0) ^ 0x36;
+    outer[i] = (keyBytes[i] || 0) ^ 0x5c;
+  }
+
+  const innerHash = sha256Bytes(concatBytes(inner, utf8Bytes(message)));
+  return toHex(sha256Bytes(concatBytes(outer, innerHash)));
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function sha256Bytes(bytes: Uint8Array): Uint8Array {
+  const bitLength = bytes.length * 8;
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const data = new Uint8Array(paddedLength);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + S1 + ch + K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
@@ -5,6 +5,8 @@
  */
 
 import { z } from 'zod';
+import { computeEventHash } from './hashChain';
+import { tickDeviceClock } from './vectorClock';
 
 // Base event schema with all required fields for proper event sourcing
 export const EventSchema = z.object({
@@ -21,7 +23,9 @@ export const EventSchema = z.object({
   
   // Time & Order
   timestamp: z.number(), // Unix timestamp
-  sequence: z.number().optional(), // For ordering within same timestamp
+  sequence: z.number().optional(), // Position in the originating device's chain for the operation (set by LocalStore)
+  logPosition: z.number().optional(), // Position in this device's local operation log (not hashed)
+  vectorClock: z.record(z.string(), z.number()).optional(), // Per-device logical clock (causal order)
   
   // Payload
   payload: z.any(),
@@ -68,11 +72,15 @@ export enum EventType {
   // IAP events
   IAP_CREATED = 'iap.created',
   IAP_SECTION_UPDATED = 'iap.section_updated',
+  IAP_SUBMITTED_FOR_REVIEW = 'iap.submitted_for_review',
+  IAP_RETURNED_TO_DRAFT = 'iap.returned_to_draft',
+  IAP_APPROVED = 'iap.approved',
   IAP_PUBLISHED = 'iap.published',
   IAP_ARCHIVED = 'iap.archived',
   IAP_VERSION_CREATED = 'iap.version_created',
   IAP_SNAPSHOT_CREATED = 'iap.snapshot_created',
   IAP_OFFICIAL_SNAPSHOT = 'iap.official_snapshot',
+  IAP_TEMPLATE_SELECTED = 'iap.template_selected',
   
   // Facility events
   FACILITY_CREATED = 'facility.created',
@@ -89,10 +97,19 @@ export enum EventType {
   WORK_ASSIGNMENT_COMPLETED = 'work_assignment.completed',
   WORK_ASSIGNMENT_CANCELLED = 'work_assignment.cancelled',
   
+  // Discipline console work assignments (draft → submitted → approved)
+  DISCIPLINE_ASSIGNMENT_SAVED = 'discipline_assignment.saved',
+  DISCIPLINE_ASSIGNMENT_SUBMITTED = 'discipline_assignment.submitted',
+  DISCIPLINE_ASSIGNMENT_APPROVED = 'discipline_assignment.approved',
+  
   // IAP content events
   DIRECTORS_MESSAGE_UPDATED = 'iap.directors_message_updated',
   CONTACT_ROSTER_UPDATED = 'iap.contact_roster_updated',
   ORG_CHART_UPDATED = 'iap.org_chart_updated',
+  COMMUNICATIONS_PLAN_UPDATED = 'iap.communications_plan_updated',
+  MEDICAL_PLAN_UPDATED = 'iap.medical_plan_updated',
+  WEATHER_UPDATED = 'iap.weather_updated',
+  PLANNING_WORKSHEET_UPDATED = 'iap.planning_worksheet_updated',
   DAILY_SCHEDULE_UPDATED = 'iap.daily_schedule_updated',
   PRIORITIES_UPDATED = 'iap.priorities_updated',
   PHOTO_ATTACHED = 'iap.photo_attached',
@@ -103,6 +120,15 @@ export enum EventType {
   SHELTERED_COUNT_SET = 'metrics.sheltered_count.set',
   SUPPLIES_DISTRIBUTED_ADD = 'metrics.supplies_distributed.add',
   
+  // Shelter census (counts only, no resident details)
+  SHELTER_CHECKED_IN = 'census.checked_in',
+  SHELTER_CHECKED_OUT = 'census.checked_out',
+  SHELTER_HEADCOUNT_TAKEN = 'census.headcount_taken',
+  
+  // Shelter standards compliance alerts raised by the compliance monitor
+  COMPLIANCE_ALERT_RAISED = 'compliance.alert_raised',
+  COMPLIANCE_ALERT_CLEARED = 'compliance.alert_cleared',
+  
   // Collaboration
   USER_JOINED_OPERATION = 'collab.user_joined',
   USER_LEFT_OPERATION = 'collab.user_left',
@@ -143,6 +169,12 @@ export const CountyAddedPayload = z.object({
   state: z.string(),
   fips: z.string(),
   region: z.string(),
+  tag: z.string().optional(), // Unique OR-Set add tag (defaults to event id)
+});
+
+export const CountyRemovedPayload = z.object({
+  countyId: z.string(),
+  observedTags: z.array(z.string()).optional(), // Add tags seen by the remover
 });
 
 export const PersonAssignedPayload = z.object({
@@ -162,10 +194,19 @@ export const MealsServedIncrementPayload = z.object({
 
 // IAP Event Payloads
 export const IAPCreatedPayload = z.object({
+  iapId: z.string().optional(), // Defaults to the event id
   iapNumber: z.number(),
   operationalPeriodStart: z.string(),
   operationalPeriodEnd: z.string(),
   preparedBy: z.string(),
+  previousIapId: z.string().optional(), // Set when rolled over from the prior period
+  carryForward: z.any().optional(), // IAPCarryForward
+});
+
+export const IAPVersionCreatedPayload = z.object({
+  iapId: z.string(),
+  section: z.string().default('document'),
+  description: z.string(),
 });
 
 export const IAPSnapshotCreatedPayload = z.object({
@@ -174,6 +215,45 @@ export const IAPSnapshotCreatedPayload = z.object({
   snapshotType: z.enum(['official_6pm', 'manual', 'scheduled']),
   isLocked: z.boolean().default(false),
   distributionList: z.array(z.string()).optional(),
+  contentHash: z.string().optional(),
+});
+
+export const IAPSubmittedForReviewPayload = z.object({
+  iapId: z.string(),
+  preparedBy: z.string().min(1),
+  approvedBy: z.string().min(1),
+});
+
+export const IAPReturnedToDraftPayload = z.object({
+  iapId: z.string(),
+  returnedBy: z.string(),
+  reason: z.string(),
+});
+
+export const IAPApprovedPayload = z.object({
+  iapId: z.string(),
+  approvedBy: z.string().min(1),
+});
+
+export const IAPPublishedPayload = z.object({
+  iapId: z.string(),
+  snapshotId: z.string(),
+  contentHash: z.string(),
+});
+
+export const IAPTemplateSelectedPayload = z.object({
+  template: z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().default(''),
+    sections: z.array(z.object({
+      id: z.string(),
+      enabled: z.boolean(),
+      header: z.string().optional(),
+      pageBreak: z.enum(['before', 'none']).optional(),
+      annexCategory: z.string().optional(),
+    })).min(1),
+  }),
 });
 
 export const FacilityCreatedPayload = z.object({
@@ -218,6 +298,219 @@ export const DirectorsMessageUpdatedPayload = z.object({
   lastEditedBy: z.string(),
 });
 
+export const CommunicationsPlanUpdatedPayload = z.object({
+  iapId: z.string(),
+  basicRadioChannel: z.array(z.object({
+    function: z.string(),
+    channel: z.string(),
+    frequency: z.string(),
+    system: z.string(),
+    remarks: z.string().optional(),
+  })),
+  talkgroups: z.array(z.object({
+    name: z.string(),
+    system: z.string(),
+    assignment: z.string(),
+    remarks: z.string().optional(),
+  })),
+  phoneBridges: z.array(z.object({
+    name: z.string(),
+    dialIn: z.string(),
+    accessCode: z.string().optional(),
+    schedule: z.string().optional(),
+  })),
+  satellitePhones: z.array(z.object({
+    position: z.string(),
+    name: z.string(),
+    number: z.string(),
+  })),
+  callSigns: z.array(z.object({
+    callSign: z.string(),
+    name: z.string(),
+    position: z.string().optional(),
+    section: z.string().optional(),
+  })),
+  preparedBy: z.string(),
+});
+
+const HospitalPayload = z.object({
+  name: z.string(),
+  address: z.string(),
+  contact: z.string(),
+  travelTime: z.string(),
+  distanceMiles: z.number().optional(),
+  traumaCenter: z.boolean(),
+  burnCenter: z.boolean(),
+  helipad: z.boolean(),
+});
+
+export const MedicalPlanUpdatedPayload = z.object({
+  iapId: z.string(),
+  medicalAidStations: z.array(z.object({
+    name: z.string(),
+    location: z.string(),
+    contact: z.string(),
+    paramedics: z.boolean(),
+  })),
+  ambulanceServices: z.array(z.object({
+    name: z.string(),
+    address: z.string(),
+    phone: z.string(),
+    paramedics: z.boolean(),
+  })),
+  hospitals: z.array(HospitalPayload),
+  facilityHospitals: z.array(z.object({
+    facilityId: z.string(),
+    facilityName: z.string(),
+    address: z.string().optional(),
+    hospitals: z.array(HospitalPayload),
+  })),
+  emergencyProcedures: z.string(),
+  preparedBy: z.string(),
+});
+
+const WeatherConditionPayload = z.object({
+  dateTime: z.string(),
+  temperature: z.number(),
+  humidity: z.number(),
+  windSpeed: z.number(),
+  windDirection: z.string(),
+  precipitation: z.number(),
+  conditions: z.string(),
+});
+
+export const WeatherUpdatedPayload = z.object({
+  iapId: z.string(),
+  weather: z.object({
+    current: WeatherConditionPayload.optional(),
+    forecast: z.array(WeatherConditionPayload),
+    alerts: z.array(z.object({
+      type: z.string(),
+      severity: z.enum(['watch', 'warning', 'advisory']),
+      headline: z.string(),
+      description: z.string(),
+      instruction: z.string().optional(),
+      areas: z.array(z.string()).optional(),
+      countyFips: z.array(z.string()).optional(),
+      startTime: z.string(),
+      endTime: z.string(),
+    })),
+    source: z.string(),
+    updatedAt: z.string(),
+  }),
+  weatherSummary: z.string(),
+  safetyMessage: z.string(),
+});
+
+export const PlanningWorksheetUpdatedPayload = z.object({
+  iapId: z.string(),
+  rows: z.array(z.object({
+    facilityId: z.string(),
+    facilityName: z.string(),
+    resourceKind: z.string(),
+    category: z.enum(['personnel', 'supplies', 'equipment']),
+    unit: z.string(),
+    required: z.number(),
+    have: z.number(),
+    need: z.number(),
+    basis: z.string(),
+  })),
+  preparedBy: z.string(),
+});
+
+const DisciplineIdPayload = z.enum([
+  'sheltering',
+  'feeding',
+  'bulk_distribution',
+  'disaster_health',
+  'mental_health',
+  'individual_care',
+]);
+
+export const DisciplineAssignmentSavedPayload = z.object({
+  assignmentId: z.string(),
+  discipline: DisciplineIdPayload,
+  operationalPeriod: z.string(),
+  site: z.object({
+    name: z.string().min(1),
+    type: z.string(),
+    address: z.string(),
+    county: z.string(),
+    capacity: z.number(),
+  }),
+  positions: z.array(z.object({
+    code: z.string(),
+    title: z.string(),
+    required: z.number(),
+    have: z.number(),
+    gap: z.number(),
+    dayLead: z.string().optional(),
+    nightLead: z.string().optional(),
+  })),
+  assets: z.array(z.object({
+    code: z.string(),
+    name: z.string(),
+    unit: z.string(),
+    required: z.number(),
+    have: z.number(),
+    gap: z.number(),
+  })),
+});
+
+export const DisciplineAssignmentSubmittedPayload = z.object({
+  assignmentId: z.string(),
+  discipline: DisciplineIdPayload,
+  submittedBy: z.string().min(1),
+});
+
+export const DisciplineAssignmentApprovedPayload = z.object({
+  assignmentId: z.string(),
+  discipline: DisciplineIdPayload,
+  approvedBy: z.string().min(1),
+});
+
+// Shelter census payloads carry counts only
+export const ShelterCensusMovementPayload = z.object({
+  facilityId: z.string(),
+  facilityName: z.string().min(1),
+  count: z.number().int().positive(),
+});
+
+export const ShelterHeadcountTakenPayload = z.object({
+  facilityId: z.string(),
+  facilityName: z.string().min(1),
+  count: z.number().int().nonnegative(),
+});
+
+const ComplianceRulePayload = z.enum([
+  'space',
+  'toilets',
+  'handwash_stations',
+  'cots',
+  'supervisors',
+  'shelter_workers',
+  'overnight_supervisor',
+]);
+
+export const ComplianceAlertRaisedPayload = z.object({
+  alertId: z.string(),
+  facilityId: z.string(),
+  facilityName: z.string(),
+  rule: ComplianceRulePayload,
+  severity: z.enum(['warning', 'critical']),
+  message: z.string(),
+  required: z.number(),
+  have: z.number(),
+  gapType: z.enum(['personnel', 'equipment', 'supplies', 'space']),
+  gapCategory: z.string(),
+});
+
+export const ComplianceAlertClearedPayload = z.object({
+  alertId: z.string(),
+  facilityId: z.string(),
+  rule: ComplianceRulePayload,
+});
+
 export const ContactRosterUpdatedPayload = z.object({
   iapId: z.string(),
   section: z.enum(['command', 'operations', 'planning', 'logistics', 'finance', 'external']),
@@ -240,21 +533,59 @@ export const PhotoAttachedPayload = z.object({
   displayOrder: z.number().default(0),
 });
 
+export const DataExportedPayload = z.union([
+  z.object({
+    iapId: z.string(),
+    iapNumber: z.number(),
+    iapVersion: z.number(),
+    format: z.enum(['pdf', 'json', 'docx', 'csv']),
+    files: z.array(z.string()),
+    exportedBy: z.string(),
+    schemaVersion: z.string().optional(), // JSON exports
+  }),
+  // Full database backups from DatabaseManager.exportData
+  z.object({
+    timestamp: z.number(),
+    collections: z.number(),
+  }),
+]);
+
 // Event validation map
 export const EventPayloadValidators: Record<string, z.ZodSchema> = {
   [EventType.OPERATION_CREATED]: OperationCreatedPayload,
   [EventType.COUNTY_ADDED]: CountyAddedPayload,
+  [EventType.COUNTY_REMOVED]: CountyRemovedPayload,
   [EventType.PERSON_ASSIGNED]: PersonAssignedPayload,
   [EventType.MEALS_SERVED_INCREMENT]: MealsServedIncrementPayload,
   // IAP validators
   [EventType.IAP_CREATED]: IAPCreatedPayload,
+  [EventType.IAP_VERSION_CREATED]: IAPVersionCreatedPayload,
   [EventType.IAP_SNAPSHOT_CREATED]: IAPSnapshotCreatedPayload,
+  [EventType.IAP_OFFICIAL_SNAPSHOT]: IAPSnapshotCreatedPayload,
+  [EventType.IAP_SUBMITTED_FOR_REVIEW]: IAPSubmittedForReviewPayload,
+  [EventType.IAP_RETURNED_TO_DRAFT]: IAPReturnedToDraftPayload,
+  [EventType.IAP_APPROVED]: IAPApprovedPayload,
+  [EventType.IAP_PUBLISHED]: IAPPublishedPayload,
+  [EventType.IAP_TEMPLATE_SELECTED]: IAPTemplateSelectedPayload,
   [EventType.FACILITY_CREATED]: FacilityCreatedPayload,
   [EventType.FACILITY_PERSONNEL_ASSIGNED]: FacilityPersonnelAssignedPayload,
   [EventType.WORK_ASSIGNMENT_CREATED]: WorkAssignmentCreatedPayload,
   [EventType.DIRECTORS_MESSAGE_UPDATED]: DirectorsMessageUpdatedPayload,
   [EventType.CONTACT_ROSTER_UPDATED]: ContactRosterUpdatedPayload,
+  [EventType.COMMUNICATIONS_PLAN_UPDATED]: CommunicationsPlanUpdatedPayload,
+  [EventType.MEDICAL_PLAN_UPDATED]: MedicalPlanUpdatedPayload,
+  [EventType.WEATHER_UPDATED]: WeatherUpdatedPayload,
+  [EventType.PLANNING_WORKSHEET_UPDATED]: PlanningWorksheetUpdatedPayload,
   [EventType.PHOTO_ATTACHED]: PhotoAttachedPayload,
+  [EventType.DISCIPLINE_ASSIGNMENT_SAVED]: DisciplineAssignmentSavedPayload,
+  [EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED]: DisciplineAssignmentSubmittedPayload,
+  [EventType.DISCIPLINE_ASSIGNMENT_APPROVED]: DisciplineAssignmentApprovedPayload,
+  [EventType.SHELTER_CHECKED_IN]: ShelterCensusMovementPayload,
+  [EventType.SHELTER_CHECKED_OUT]: ShelterCensusMovementPayload,
+  [EventType.SHELTER_HEADCOUNT_TAKEN]: ShelterHeadcountTakenPayload,
+  [EventType.COMPLIANCE_ALERT_RAISED]: ComplianceAlertRaisedPayload,
+  [EventType.COMPLIANCE_ALERT_CLEARED]: ComplianceAlertClearedPayload,
+  [EventType.DATA_EXPORTED]: DataExportedPayload,
 };
 
 // Conflict resolution policies
@@ -277,6 +608,13 @@ export const DefaultConflictPolicies: ConflictPolicy[] = [
   // Counts and metrics use CRDTs
   { eventType: EventType.MEALS_SERVED_INCREMENT, resolution: ConflictResolution.CRDT_MERGE },
   { eventType: EventType.SHELTERED_COUNT_SET, resolution: ConflictResolution.LAST_WRITE_WINS },
+  { eventType: EventType.SHELTER_CHECKED_IN, resolution: ConflictResolution.CRDT_MERGE },
+  { eventType: EventType.SHELTER_CHECKED_OUT, resolution: ConflictResolution.CRDT_MERGE },
+  { eventType: EventType.SHELTER_HEADCOUNT_TAKEN, resolution: ConflictResolution.LAST_WRITE_WINS },
+  
+  // Alerts are keyed by shelter and rule, so monitors on several devices converge
+  { eventType: EventType.COMPLIANCE_ALERT_RAISED, resolution: ConflictResolution.CRDT_MERGE },
+  { eventType: EventType.COMPLIANCE_ALERT_CLEARED, resolution: ConflictResolution.CRDT_MERGE },
   
   // Roster changes need domain logic
   { eventType: EventType.PERSON_ASSIGNED, resolution: ConflictResolution.DOMAIN_SPECIFIC },
@@ -285,9 +623,16 @@ export const DefaultConflictPolicies: ConflictPolicy[] = [
   { eventType: EventType.COUNTY_ADDED, resolution: ConflictResolution.CRDT_MERGE },
   { eventType: EventType.COUNTY_REMOVED, resolution: ConflictResolution.CRDT_MERGE },
   
+  // Two devices opening the same IAP keep the first
+  { eventType: EventType.IAP_CREATED, resolution: ConflictResolution.FIRST_WRITE_WINS },
+  
   // IAP updates are last-write-wins with versioning
   { eventType: EventType.IAP_SECTION_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
   { eventType: EventType.DIRECTORS_MESSAGE_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
+  { eventType: EventType.COMMUNICATIONS_PLAN_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
+  { eventType: EventType.MEDICAL_PLAN_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
+  { eventType: EventType.WEATHER_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
+  { eventType: EventType.PLANNING_WORKSHEET_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
   { eventType: EventType.CONTACT_ROSTER_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
   { eventType: EventType.ORG_CHART_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
   
@@ -301,6 +646,13 @@ export const DefaultConflictPolicies: ConflictPolicy[] = [
   { eventType: EventType.WORK_ASSIGNMENT_CREATED, resolution: ConflictResolution.FIRST_WRITE_WINS },
   { eventType: EventType.WORK_ASSIGNMENT_UPDATED, resolution: ConflictResolution.LAST_WRITE_WINS },
   { eventType: EventType.WORK_ASSIGNMENT_COMPLETED, resolution: ConflictResolution.FIRST_WRITE_WINS },
+  { eventType: EventType.DISCIPLINE_ASSIGNMENT_SAVED, resolution: ConflictResolution.LAST_WRITE_WINS },
+  { eventType: EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED, resolution: ConflictResolution.FIRST_WRITE_WINS },
+  { eventType: EventType.DISCIPLINE_ASSIGNMENT_APPROVED, resolution: ConflictResolution.FIRST_WRITE_WINS },
+  
+  // Review decisions are not overwritten by a later concurrent one
+  { eventType: EventType.IAP_APPROVED, resolution: ConflictResolution.FIRST_WRITE_WINS },
+  { eventType: EventType.IAP_PUBLISHED, resolution: ConflictResolution.FIRST_WRITE_WINS },
   
   // Snapshots are immutable once created
   { eventType: EventType.IAP_SNAPSHOT_CREATED, resolution: ConflictResolution.FIRST_WRITE_WINS },
@@ -310,6 +662,14 @@ export const DefaultConflictPolicies: ConflictPolicy[] = [
 // Schema version for migration tracking
 export const CURRENT_SCHEMA_VERSION = 1;
 
+// Per-type payload versions. Bump an entry when a payload shape changes and
+// register an upcaster for the previous version (see ./upcasters).
+export const EventSchemaVersions: Partial<Record<EventType, number>> = {};
+
+export function getSchemaVersion(type: string): number {
+  return EventSchemaVersions[type as EventType] ?? CURRENT_SCHEMA_VERSION;
+}
+
 // UUID v4 generator for browser compatibility
 function generateUUID() {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -334,15 +694,17 @@ export function createEvent(
     correlationId?: string;
   }
 ): Event {
+  const deviceId = getDeviceId();
   const event: Event = {
     id: generateUUID(),
     type,
-    schemaVersion: CURRENT_SCHEMA_VERSION,
+    schemaVersion: getSchemaVersion(type),
     actorId: metadata.actorId,
-    deviceId: getDeviceId(),
+    deviceId,
     sessionId: getSessionId(),
     operationId: metadata.operationId,
     timestamp: Date.now(),
+    vectorClock: tickDeviceClock(deviceId),
     payload,
     causationId: metadata.causationId,
     correlationId: metadata.correlationId || generateUUID(),
@@ -362,24 +724,14 @@ export function createEvent(
   return event;
 }
 
-// Helper to generate event hash for integrity
+// Helper to generate event hash for integrity.
+// LocalStore re-seals the event with its previousHash when it is appended.
 export function generateEventHash(event: Event): string {
-  const canonical = JSON.stringify({
-    id: event.id,
-    type: event.type,
-    actorId: event.actorId,
-    timestamp: event.timestamp,
-    payload: event.payload,
-  });
-  
-  // In production, use Web Crypto API
-  // return await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
-  // For now, simple hash
-  return btoa(canonical).substring(0, 32);
+  return computeEventHash(event);
 }
 
 // Device and session helpers (move to utils later)
-function getDeviceId(): string {
+export function getDeviceId(): string {
   if (typeof window === 'undefined') return 'server';
   let deviceId = localStorage.getItem('disaster_ops_device_id');
   if (!deviceId) {
@@ -0,0 +1,120 @@
+/**
+ * Event Upcasting
+ *
+ * Stored events are immutable, so when a payload shape changes the old
+ * events stay in IndexedDB at their original schemaVersion. Upcasters
+ * translate those payloads forward one version at a time whenever events
+ * are replayed, so projections only ever see the current shape.
+ *
+ * To change a payload:
+ *   1. Bump the type's entry in EventSchemaVersions (types.ts)
+ *   2. Register an upcaster from the previous version:
+ *
+ *      upcasterRegistry.register(EventType.OPERATION_CREATED, 1, payload => ({
+ *        ...payload,
+ *        incidentType: payload.disasterType,
+ *      }));
+ */
+
+import { Event, EventType, EventPayloadValidators, getSchemaVersion } from './types';
+
+// Transforms a payload from `fromVersion` to `fromVersion + 1`
+export type UpcastFunction = (payload: any, event: Event) => any;
+
+export interface Upcaster {
+  eventType: EventType;
+  fromVersion: number;
+  upcast: UpcastFunction;
+}
+
+/**
+ * Registry of per-event-type upcasters
+ */
+export class UpcasterRegistry {
+  private upcasters: Map<string, Upcaster> = new Map();
+
+  private key(eventType: string, fromVersion: number): string {
+    return `${eventType}@${fromVersion}`;
+  }
+
+  /**
+   * Register an upcaster from one version to the next
+   */
+  register(eventType: EventType, fromVersion: number, upcast: UpcastFunction): void {
+    const key = this.key(eventType, fromVersion);
+    if (this.upcasters.has(key)) {
+      throw new Error(`Upcaster already registered for ${eventType} v${fromVersion}`);
+    }
+    this.upcasters.set(key, { eventType, fromVersion, upcast });
+  }
+
+  /**
+   * Remove an upcaster (mainly for tests)
+   */
+  unregister(eventType: EventType, fromVersion: number): void {
+    this.upcasters.delete(this.key(eventType, fromVersion));
+  }
+
+  /**
+   * Check whether an event needs upcasting
+   */
+  needsUpcast(event: Event): boolean {
+    return (event.schemaVersion || 1) < getSchemaVersion(event.type);
+  }
+
+  /**
+   * Upcast an event to the current schema version of its type.
+   * Events already at (or beyond) the current version are returned as-is.
+   */
+  upcast(event: Event): Event {
+    const originalVersion = event.schemaVersion || 1;
+    const targetVersion = getSchemaVersion(event.type);
+
+    if (originalVersion >= targetVersion) {
+      return event;
+    }
+
+    let payload = event.payload;
+    for (let version = originalVersion; version < targetVersion; version++) {
+      const upcaster = this.upcasters.get(this.key(event.type, version));
+      if (!upcaster) {
+        throw new Error(
+          `No upcaster registered for ${event.type} v${version} -> v${version + 1} (event ${event.id})`
+        );
+      }
+      payload = upcaster.upcast(payload, { ...event, payload, schemaVersion: version });
+    }
+
+    // Upcast payloads must satisfy the current validator
+    const validator = EventPayloadValidators[event.type];
+    if (validator) {
+      const result = validator.safeParse(payload);
+      if (!result.success) {
+        throw new Error(
+          `Upcast payload for ${event.type} event ${event.id} failed validation: ${result.error.message}`
+        );
+      }
+    }
+
+    return {
+      ...event,
+      payload,
+      schemaVersion: targetVersion,
+      migratedFrom: event.migratedFrom ?? originalVersion,
+    };
+  }
+
+  /**
+   * Upcast a list of events, preserving order
+   */
+  upcastAll(events: Event[]): Event[] {
+    return events.map(event => this.upcast(event));
+  }
+}
+
+// Export singleton
+export const upcasterRegistry = new UpcasterRegistry();
+
+export function upcastEvent(event: Event): Event {
+  return upcasterRegistry.upcast(event);
+}
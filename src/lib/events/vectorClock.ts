@@ -0,0 +1,133 @@
+/**
+ * Vector Clocks
+ *
+ * Each device keeps a counter per device it has heard from. A device ticks
+ * its own entry for every event it creates and folds in the clocks of remote
+ * events it applies. Comparing two clocks tells whether one event happened
+ * before the other or whether they were made concurrently, without trusting
+ * laptop wall clocks.
+ */
+
+import type { Event } from './types';
+
+export type VectorClock = { [deviceId: string]: number };
+
+export type ClockOrder = 'before' | 'after' | 'equal' | 'concurrent';
+
+// The fields that place an event in the causal order
+export type CausalPosition = Pick<Event, 'id' | 'deviceId' | 'timestamp' | 'vectorClock'>;
+
+const CLOCK_STORAGE_KEY = 'disaster_ops_vector_clock';
+
+// Fallback when localStorage is unavailable (SSR, tests)
+let memoryClock: VectorClock = {};
+
+/**
+ * Compare clock `a` to clock `b`
+ */
+export function compareClocks(a: VectorClock, b: VectorClock): ClockOrder {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const deviceId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const aCount = a[deviceId] || 0;
+    const bCount = b[deviceId] || 0;
+    if (aCount > bCount) aAhead = true;
+    if (bCount > aCount) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Pointwise maximum of two clocks
+ */
+export function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged: VectorClock = { ...a };
+  for (const [deviceId, count] of Object.entries(b)) {
+    merged[deviceId] = Math.max(merged[deviceId] || 0, count);
+  }
+  return merged;
+}
+
+/**
+ * Increment a device's entry
+ */
+export function incrementClock(clock: VectorClock, deviceId: string): VectorClock {
+  return { ...clock, [deviceId]: (clock[deviceId] || 0) + 1 };
+}
+
+/**
+ * Causal relationship between two events. Events recorded before clocks
+ * existed have no vector clock; for those the answer is unknown (null).
+ */
+export function causalOrder(a: Event, b: Event): ClockOrder | null {
+  if (!a.vectorClock || !b.vectorClock) return null;
+  return compareClocks(a.vectorClock, b.vectorClock);
+}
+
+/**
+ * Total order consistent with causality: if a happened before b then a sorts
+ * first. Concurrent events fall back to timestamp, then device and id so
+ * every device sorts them the same way.
+ */
+export function compareCausally(a: CausalPosition, b: CausalPosition): number {
+  const weight = (event: CausalPosition) =>
+    Object.values(event.vectorClock || {}).reduce((sum, count) => sum + count, 0);
+
+  return (weight(a) - weight(b))
+    || (a.timestamp - b.timestamp)
+    || a.deviceId.localeCompare(b.deviceId)
+    || a.id.localeCompare(b.id);
+}
+
+// ============================================
+// DEVICE CLOCK
+// ============================================
+
+function readDeviceClock(): VectorClock {
+  if (typeof window === 'undefined') return memoryClock;
+  try {
+    const stored = localStorage.getItem(CLOCK_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return memoryClock;
+  }
+}
+
+function writeDeviceClock(clock: VectorClock): void {
+  memoryClock = clock;
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(CLOCK_STORAGE_KEY, JSON.stringify(clock));
+  } catch {
+    // Keep the in-memory copy
+  }
+}
+
+/**
+ * This device's clock: covers every event it has created or applied
+ */
+export function currentDeviceClock(): VectorClock {
+  return { ...(readDeviceClock() || {}) };
+}
+
+/**
+ * Tick this device's clock for a new event and return the event's clock
+ */
+export function tickDeviceClock(deviceId: string): VectorClock {
+  const clock = incrementClock(readDeviceClock() || {}, deviceId);
+  writeDeviceClock(clock);
+  return clock;
+}
+
+/**
+ * Fold a remote event's clock into this device's clock
+ */
+export function observeClock(remote?: VectorClock): void {
+  if (!remote) return;
+  writeDeviceClock(mergeClocks(readDeviceClock() || {}, remote));
+}
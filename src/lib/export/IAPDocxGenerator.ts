@@ -0,0 +1,385 @@
+/**
+ * IAP DOCX Generator
+ *
+ * Writes an editable Word version of the IAP, built locally from the same
+ * projected document and template as the PDF. Sections that are images only
+ * (maps, appendices) are left to the PDF.
+ */
+
+import { medicalPlanContent } from '../iap/MedicalPlan';
+import { WORK_ASSIGNMENT_FACILITY_TYPES, getIAPTemplate, resolveIAPSections, ResolvedIAPSection } from '../iap/IAPTemplates';
+import { CsvTable, ics203Table, ics204Table, ics205Table, ics205aTable } from './ICSFormCsv';
+import { createZip } from './zip';
+import { EnhancedIAPDocument, IAPTemplate } from '../../types';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const TABLE_WIDTH = 10080; // Twentieths of a point across a letter page with 0.75" margins
+
+interface ParagraphOptions {
+  style?: 'Title' | 'Heading1' | 'Heading2';
+  bold?: boolean;
+  pageBreakBefore?: boolean;
+}
+
+export class IAPDocxGenerator {
+  private template: IAPTemplate;
+  private body: string[] = [];
+  private iap!: EnhancedIAPDocument;
+  private breakBeforeNext = false;
+
+  constructor(options: { template?: IAPTemplate } = {}) {
+    this.template = getIAPTemplate(options.template);
+  }
+
+  /**
+   * The IAP as a .docx file
+   */
+  generate(iap: EnhancedIAPDocument): Uint8Array<ArrayBuffer> {
+    this.iap = iap;
+    this.body = [];
+    resolveIAPSections(this.template).forEach((section, index) => {
+      this.breakBeforeNext = index > 0 && section.pageBreak === 'before';
+      this.addSection(section);
+    });
+
+    return createZip([
+      { path: '[Content_Types].xml', content: CONTENT_TYPES },
+      { path: '_rels/.rels', content: ROOT_RELS },
+      { path: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS },
+      { path: 'word/styles.xml', content: STYLES },
+      { path: 'word/document.xml', content: this.documentXml() },
+    ]);
+  }
+
+  private addSection(section: ResolvedIAPSection) {
+    const facilityTypes = WORK_ASSIGNMENT_FACILITY_TYPES[section.id];
+    if (facilityTypes) {
+      const facilities = this.iap.facilityData.facilities.filter(facility => facilityTypes.includes(facility.facilityType));
+      if (facilities.length === 0) return;
+      this.heading(section.title);
+      facilities.forEach(facility => {
+        this.paragraph(`${facility.name} - ${facility.address}, ${facility.city}`, { style: 'Heading2' });
+        facility.workAssignments.forEach(assignment => {
+          const assignedTo = assignment.assignedTo.length > 0 ? ` - ${assignment.assignedTo.join(', ')}` : '';
+          this.paragraph(`• ${assignment.title} [${assignment.priority}, ${assignment.status.replace('_', ' ')}]${assignedTo}`);
+        });
+      });
+      return;
+    }
+
+    switch (section.id) {
+      case 'cover':
+        return this.addCover();
+      case 'directors_message':
+        return this.addText(section, this.iap.directorsMessage?.plainText);
+      case 'contact_roster':
+        return this.addContactRoster(section);
+      case 'org_chart':
+        return this.addTable(section, ics203Table(this.iap));
+      case 'priorities':
+        return this.addObjectives(section);
+      case 'weather':
+        return this.addWeather(section);
+      case 'assignment_list':
+        return this.addTable(section, ics204Table(this.iap));
+      case 'planning_worksheet':
+        return this.addPlanningWorksheet(section);
+      case 'comms_plan':
+        return this.addCommunicationsPlan(section);
+      case 'medical_plan':
+        return this.addMedicalPlan(section);
+      case 'work_sites':
+        return this.addTable(section, [
+          ['Facility', 'Type', 'Address', 'County', 'Contact', 'Phone', 'Status'],
+          ...this.iap.workSitesTable.sites.map(site => [
+            site.facilityName, site.type, site.address, site.county, site.contact, site.phone, site.status
+          ]),
+        ]);
+      case 'daily_schedule':
+        return this.addDailySchedule(section);
+      case 'annex':
+        return this.addAnnex(section);
+    }
+  }
+
+  private addCover() {
+    const cover = this.iap.sections.coverPage;
+    this.paragraph('INCIDENT ACTION PLAN', { style: 'Title' });
+    this.paragraph(cover.operationName, { style: 'Heading1' });
+    this.paragraph(`DR ${cover.operationNumber} - IAP #${this.iap.iapNumber}`, { bold: true });
+    this.paragraph(`Operational Period: ${formatDateTime(cover.operationalPeriodStart)} to ${formatDateTime(cover.operationalPeriodEnd)}`);
+    this.paragraph(`Prepared by: ${cover.preparedBy}`);
+    if (cover.approvedBy) this.paragraph(`Approved by: ${cover.approvedBy}`);
+    this.paragraph(`Version ${this.iap.version}, ${this.iap.status.replace('_', ' ')}`);
+  }
+
+  private addText(section: ResolvedIAPSection, text: string | undefined) {
+    if (!text?.trim()) return;
+    this.heading(section.title);
+    this.paragraph(text);
+  }
+
+  private addTable(section: ResolvedIAPSection, table: CsvTable) {
+    if (table.length <= 1) return;
+    this.heading(section.title);
+    this.table(table);
+  }
+
+  private addContactRoster(section: ResolvedIAPSection) {
+    const roster = this.iap.contactRoster;
+    this.heading(section.title);
+    this.table([
+      ['Position', 'Name', 'Phone', 'Email'],
+      ...[
+        ...roster.commandStructure,
+        ...roster.operationsSection,
+        ...roster.planningSection,
+        ...roster.logisticsSection,
+        ...roster.financeSection,
+      ].map(contact => [contact.position, contact.name, contact.phone, contact.email]),
+    ]);
+    if (roster.externalRelations.length > 0) {
+      this.paragraph('External Partners', { style: 'Heading2' });
+      this.table([
+        ['Organization', 'Contact', 'Phone', 'Role'],
+        ...roster.externalRelations.map(contact => [contact.organization, contact.contact, contact.phone, contact.role]),
+      ]);
+    }
+  }
+
+  private addObjectives(section: ResolvedIAPSection) {
+    const objectives = this.iap.sections.incidentObjectives;
+    this.heading(section.title);
+    if (objectives.priorities.length > 0) {
+      this.paragraph('Priorities', { style: 'Heading2' });
+      objectives.priorities.forEach((priority, index) => this.paragraph(`${index + 1}. ${priority}`));
+    }
+    this.paragraph('Objectives', { style: 'Heading2' });
+    objectives.objectives.forEach((objective, index) => this.paragraph(`${index + 1}. ${objective}`));
+    if (objectives.weatherSummary) {
+      this.paragraph('Weather', { style: 'Heading2' });
+      this.paragraph(objectives.weatherSummary);
+    }
+    if (objectives.safetyMessage) {
+      this.paragraph('Safety Message', { style: 'Heading2' });
+      this.paragraph(objectives.safetyMessage);
+    }
+  }
+
+  private addWeather(section: ResolvedIAPSection) {
+    const weather = this.iap.sections.weatherForecast;
+    if (!weather) return;
+    this.heading(section.title);
+    this.paragraph(`Source: ${weather.source}, updated ${formatDateTime(weather.updatedAt)}`);
+    const alerts = weather.alerts || [];
+    if (alerts.length === 0) {
+      this.paragraph('No watches, warnings or advisories in effect for the operation area.');
+      return;
+    }
+    this.table([
+      ['Alert', 'From', 'Until', 'Areas', 'Headline'],
+      ...alerts.map(alert => [
+        alert.type, formatDateTime(alert.startTime), formatDateTime(alert.endTime), (alert.areas || []).join('; '), alert.headline
+      ]),
+    ]);
+  }
+
+  private addPlanningWorksheet(section: ResolvedIAPSection) {
+    const rows = this.iap.sections.operationalPlanning?.resourceWorksheet || [];
+    if (rows.length === 0) return;
+    this.heading(section.title);
+    this.table([
+      ['Work Location', 'Resource', 'Required', 'Have', 'Need', 'Unit'],
+      ...rows.map(row => [row.facilityName, row.resourceKind, String(row.required), String(row.have), String(row.need), row.unit]),
+    ]);
+  }
+
+  private addCommunicationsPlan(section: ResolvedIAPSection) {
+    const radio = ics205Table(this.iap);
+    const contacts = ics205aTable(this.iap);
+    if (radio.length <= 1 && contacts.length <= 1) return;
+    this.heading(section.title);
+    if (radio.length > 1) this.table(radio);
+    if (contacts.length > 1) {
+      this.paragraph('Communications List (ICS 205A)', { style: 'Heading2' });
+      this.table(contacts);
+    }
+  }
+
+  private addMedicalPlan(section: ResolvedIAPSection) {
+    const plan = medicalPlanContent(this.iap.sections.medicalPlan);
+    const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+    const hospitals = [
+      ...plan.hospitals.map(hospital => ({ facility: '', hospital })),
+      ...plan.facilityHospitals.flatMap(facility => facility.hospitals.map(hospital => ({ facility: facility.facilityName, hospital }))),
+    ];
+    if (plan.medicalAidStations.length + hospitals.length === 0 && !plan.emergencyProcedures.trim()) return;
+    this.heading(section.title);
+
+    if (plan.medicalAidStations.length > 0) {
+      this.paragraph('Medical Aid Stations', { style: 'Heading2' });
+      this.table([
+        ['Name', 'Location', 'Contact', 'Paramedics'],
+        ...plan.medicalAidStations.map(station => [station.name, station.location, station.contact, yesNo(station.paramedics)]),
+      ]);
+    }
+    if (hospitals.length > 0) {
+      this.paragraph('Hospitals', { style: 'Heading2' });
+      this.table([
+        ['Nearest To', 'Hospital', 'Address', 'Contact', 'Travel Time', 'Trauma', 'Burn', 'Helipad'],
+        ...hospitals.map(({ facility, hospital }) => [
+          facility,
+          hospital.name,
+          hospital.address,
+          hospital.contact,
+          hospital.travelTime,
+          yesNo(hospital.traumaCenter),
+          yesNo(hospital.burnCenter),
+          yesNo(hospital.helipad),
+        ]),
+      ]);
+    }
+    if (plan.emergencyProcedures.trim()) {
+      this.paragraph('Medical Emergency Procedures', { style: 'Heading2' });
+      this.paragraph(plan.emergencyProcedures);
+    }
+  }
+
+  private addDailySchedule(section: ResolvedIAPSection) {
+    const schedule = this.iap.dailySchedule;
+    const entries = [
+      ...schedule.meetings.map(meeting => ({ at: meeting.dateTime, activity: meeting.purpose, location: meeting.location })),
+      ...schedule.briefings.map(briefing => ({ at: briefing.dateTime, activity: briefing.title, location: briefing.location })),
+      ...schedule.specialEvents.map(event => ({ at: event.dateTime, activity: event.title, location: event.location })),
+      ...schedule.deadlines.map(deadline => ({ at: deadline.dueDateTime, activity: `Due: ${deadline.title}`, location: deadline.assignedTo }))
+    ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    this.addTable(section, [['Time', 'Activity', 'Location'], ...entries.map(entry => [formatDateTime(entry.at), entry.activity, entry.location])]);
+  }
+
+  private addAnnex(section: ResolvedIAPSection) {
+    const content = (this.iap.ancillaryContent || [])
+      .filter(item => item.category === section.annexCategory)
+      .sort((a, b) => a.displayOrder - b.displayOrder);
+    if (content.length === 0) return;
+    this.heading(section.title);
+    content.forEach(item => {
+      this.paragraph(item.title, { style: 'Heading2' });
+      this.paragraph(item.content.plainText);
+    });
+  }
+
+  // ============================================
+  // WORDPROCESSINGML
+  // ============================================
+
+  private heading(text: string) {
+    this.paragraph(text, { style: 'Heading1' });
+  }
+
+  private paragraph(text: string, options: ParagraphOptions = {}) {
+    const pageBreakBefore = options.pageBreakBefore || this.breakBeforeNext;
+    this.breakBeforeNext = false;
+    this.body.push(paragraphXml(text, { ...options, pageBreakBefore }));
+  }
+
+  private table(rows: CsvTable) {
+    const columns = Math.max(...rows.map(row => row.length));
+    const width = Math.floor(TABLE_WIDTH / columns);
+    const cell = (text: string, bold: boolean) =>
+      `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraphXml(text, { bold })}</w:tc>`;
+
+    this.body.push(
+      '<w:tbl>' +
+      '<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>' +
+      `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+      rows.map((row, index) => `<w:tr>${row.map(text => cell(text, index === 0)).join('')}</w:tr>`).join('') +
+      '</w:tbl>'
+    );
+    // Word needs a paragraph between adjacent tables
+    this.body.push('<w:p/>');
+  }
+
+  private documentXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:document xmlns:w="${W_NS}"><w:body>${this.body.join('')}` +
+      '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+      '<w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/>' +
+      '</w:sectPr></w:body></w:document>';
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function paragraphXml(text: string, options: ParagraphOptions = {}): string {
+  const properties = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+  ].join('');
+  const runProperties = options.bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  const lines = (text || '').split(/\r?\n/)
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r>${runProperties}${lines}</w:r></w:p>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+}
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '</Relationships>';
+
+const DOCUMENT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+const STYLES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  `<w:styles xmlns:w="${W_NS}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Helvetica" w:hAnsi="Helvetica"/><w:sz w:val="20"/></w:rPr></w:rPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:pPr><w:spacing w:after="80"/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:jc w:val="center"/><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:color w:val="ED1C24"/><w:sz w:val="48"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="160" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+  '<w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/>' +
+  '<w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/>' +
+  '<w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/>' +
+  '</w:tblBorders></w:tblPr></w:style>' +
+  '</w:styles>';
@@ -0,0 +1,36 @@
+/**
+ * IAP Export Log
+ *
+ * Every IAP export is recorded as a DATA_EXPORTED event so the operation
+ * keeps a trail of who handed which version of the plan to whom.
+ */
+
+import { EventType } from '../events/types';
+import { eventBus } from '../sync/EventBus';
+import { EnhancedIAPDocument } from '../../types';
+import { IAP_EXPORT_SCHEMA_VERSION } from './IAPJsonExport';
+
+export type IAPExportFormat = 'pdf' | 'json' | 'docx' | 'csv';
+
+/**
+ * Record an export of an IAP. Returns the event id.
+ */
+export async function recordIAPExport(
+  iap: EnhancedIAPDocument,
+  format: IAPExportFormat,
+  files: string[],
+  exportedBy: string
+): Promise<string> {
+  return await eventBus.emit(EventType.DATA_EXPORTED, {
+    iapId: iap.id,
+    iapNumber: iap.iapNumber,
+    iapVersion: iap.version,
+    format,
+    files,
+    exportedBy,
+    ...(format === 'json' ? { schemaVersion: IAP_EXPORT_SCHEMA_VERSION } : {}),
+  }, {
+    operationId: iap.operationId,
+    causationId: iap.id,
+  });
+}
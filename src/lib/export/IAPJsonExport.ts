@@ -0,0 +1,127 @@
+/**
+ * IAP JSON Export
+ *
+ * The IAP as a versioned JSON document for partners that load it into their
+ * own systems. IAP_EXPORT_SCHEMA describes the document; bump
+ * IAP_EXPORT_SCHEMA_VERSION whenever a field is renamed or removed.
+ * Dates are ISO 8601 strings.
+ */
+
+import { EnhancedIAPDocument } from '../../types';
+
+export const IAP_EXPORT_SCHEMA_VERSION = '1.0.0';
+
+export const IAP_EXPORT_SCHEMA_ID = `urn:disaster-ops:iap-export:${IAP_EXPORT_SCHEMA_VERSION}`;
+
+export interface IAPExportDocument {
+  $schema: string;
+  schemaVersion: string;
+  exportedAt: string;
+  exportedBy: string;
+  iap: {
+    id: string;
+    operationId: string;
+    iapNumber: number;
+    version: number;
+    status: string;
+    operationalPeriod: { start: string; end: string };
+    publishedAt?: string;
+    publishedBy?: string;
+  };
+  sections: Record<string, unknown>;
+  workSites: unknown[];
+  dailySchedule: unknown;
+  contactRoster: unknown;
+  ancillaryContent: unknown[];
+}
+
+const dateTime = { type: 'string', format: 'date-time' };
+const object = { type: 'object' };
+const array = { type: 'array', items: object };
+
+export const IAP_EXPORT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: IAP_EXPORT_SCHEMA_ID,
+  title: 'Incident Action Plan export',
+  type: 'object',
+  required: ['$schema', 'schemaVersion', 'exportedAt', 'exportedBy', 'iap', 'sections'],
+  properties: {
+    $schema: { const: IAP_EXPORT_SCHEMA_ID },
+    schemaVersion: { const: IAP_EXPORT_SCHEMA_VERSION },
+    exportedAt: dateTime,
+    exportedBy: { type: 'string' },
+    iap: {
+      type: 'object',
+      required: ['id', 'operationId', 'iapNumber', 'version', 'status', 'operationalPeriod'],
+      properties: {
+        id: { type: 'string' },
+        operationId: { type: 'string' },
+        iapNumber: { type: 'integer', minimum: 1 },
+        version: { type: 'integer', minimum: 0 },
+        status: { enum: ['draft', 'in_review', 'approved', 'published', 'archived'] },
+        operationalPeriod: {
+          type: 'object',
+          required: ['start', 'end'],
+          properties: { start: dateTime, end: dateTime },
+        },
+        publishedAt: dateTime,
+        publishedBy: { type: 'string' },
+      },
+    },
+    sections: {
+      type: 'object',
+      description: 'ICS forms, keyed as in the IAP: coverPage, incidentObjectives (202), organizationChart (203), ' +
+        'assignmentList (204), communicationsPlan (205), medicalPlan (206), operationalPlanning (215)',
+      required: ['coverPage', 'incidentObjectives', 'organizationChart', 'assignmentList', 'communicationsPlan', 'medicalPlan'],
+      properties: {
+        coverPage: object,
+        incidentObjectives: object,
+        organizationChart: object,
+        assignmentList: object,
+        communicationsPlan: object,
+        medicalPlan: object,
+        operationalPlanning: object,
+        weatherForecast: object,
+        directorsMessage: object,
+      },
+    },
+    workSites: array,
+    dailySchedule: object,
+    contactRoster: object,
+    ancillaryContent: array,
+  },
+} as const;
+
+/**
+ * The export document for an IAP
+ */
+export function buildIAPExport(iap: EnhancedIAPDocument, exportedBy: string, exportedAt: Date = new Date()): IAPExportDocument {
+  // Round-trip through JSON so dates become ISO strings and undefined fields drop out
+  const plain = (value: unknown) => JSON.parse(JSON.stringify(value ?? null));
+
+  return {
+    $schema: IAP_EXPORT_SCHEMA_ID,
+    schemaVersion: IAP_EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    exportedBy,
+    iap: plain({
+      id: iap.id,
+      operationId: iap.operationId,
+      iapNumber: iap.iapNumber,
+      version: iap.version,
+      status: iap.status,
+      operationalPeriod: iap.operationalPeriod,
+      publishedAt: iap.publishedAt,
+      publishedBy: iap.publishedBy,
+    }),
+    sections: plain(iap.sections),
+    workSites: plain(iap.workSitesTable?.sites || []),
+    dailySchedule: plain(iap.dailySchedule),
+    contactRoster: plain(iap.contactRoster),
+    ancillaryContent: plain(iap.ancillaryContent || []),
+  };
+}
+
+export function exportIAPJson(iap: EnhancedIAPDocument, exportedBy: string, exportedAt?: Date): string {
+  return JSON.stringify(buildIAPExport(iap, exportedBy, exportedAt), null, 2);
+}
@@ -0,0 +1,181 @@
+/**
+ * ICS Form CSV Export
+ *
+ * ICS 203, 204, 205 and 205A as CSV, with the columns in the order the
+ * forms lay them out, so EOC and FEMA staff can paste them into their own
+ * copies of the forms. The same tables fill the DOCX export.
+ */
+
+import { commsPlanContent } from '../iap/CommsPlan';
+import { EnhancedIAPDocument, EnhancedOrgChart, ICSForm203 } from '../../types';
+
+export type CsvTable = string[][]; // Header row first
+
+export type ICSCsvForm = 'ics203' | 'ics204' | 'ics205' | 'ics205a';
+
+export const ICS_CSV_FORMS: Record<ICSCsvForm, { title: string; table: (iap: EnhancedIAPDocument) => CsvTable }> = {
+  ics203: { title: 'ICS 203 Organization Assignment List', table: ics203Table },
+  ics204: { title: 'ICS 204 Assignment List', table: ics204Table },
+  ics205: { title: 'ICS 205 Incident Radio Communications Plan', table: ics205Table },
+  ics205a: { title: 'ICS 205A Communications List', table: ics205aTable },
+};
+
+/**
+ * ICS 203: every filled position with its section
+ */
+export function ics203Table(iap: EnhancedIAPDocument): CsvTable {
+  const chart = orgChartOf(iap);
+  const rows: CsvTable = [['Section', 'Position', 'Name']];
+  const add = (section: string, position: string, name?: string) => {
+    if (name?.trim()) rows.push([section, position, name.trim()]);
+  };
+
+  add('Command', 'Incident Commander (DRO Director)', chart?.incidentCommander);
+  add('Command', 'Deputy Incident Commander', chart?.deputyIC);
+  add('Command', 'Safety Officer', chart?.safetyOfficer);
+  add('Command', 'Public Information Officer', chart?.publicInfoOfficer);
+  add('Command', 'Liaison Officer', chart?.liaisonOfficer);
+
+  Object.entries(chart?.sections || {}).forEach(([key, section]) => {
+    const name = `${key.charAt(0).toUpperCase()}${key.slice(1)} Section`;
+    add(name, 'Chief', section?.chief);
+    add(name, 'Deputy', section?.deputy);
+    section?.branches?.forEach(branch => add(name, `${branch.name} Branch Director`, branch.director));
+  });
+
+  return rows;
+}
+
+/**
+ * ICS 204: one row per resource, listed assignment and facility work assignment
+ */
+export function ics204Table(iap: EnhancedIAPDocument): CsvTable {
+  const list = iap.sections.assignmentList;
+  const header = [
+    'Branch',
+    'Division/Group',
+    'Operations Section Chief',
+    'Resource Type',
+    'Resource Identifier',
+    'Leader',
+    '# of Persons',
+    'Contact',
+    'Work Assignment',
+    'Special Instructions',
+  ];
+  const base = [list?.branch || '', list?.division || list?.group || '', list?.operationsSectionChief || ''];
+  const instructions = list?.specialInstructions || '';
+
+  return [
+    header,
+    ...(list?.resources || []).map(resource => [
+      ...base,
+      resource.resourceType,
+      resource.identifier,
+      resource.leader,
+      String(resource.numberOfPersons),
+      resource.contact,
+      '',
+      instructions,
+    ]),
+    ...(list?.workAssignments || []).map(assignment => [...base, '', '', '', '', '', assignment, instructions]),
+    ...(iap.facilityData?.facilities || []).flatMap(facility =>
+      (facility.workAssignments || []).map(assignment => [
+        base[0],
+        facility.name,
+        base[2],
+        facility.facilityType,
+        '',
+        assignment.assignedTo.join('; '),
+        String(assignment.assignedTo.length),
+        facility.contact?.primaryPhone || '',
+        assignment.description ? `${assignment.title} - ${assignment.description}` : assignment.title,
+        assignment.notes || '',
+      ])
+    ),
+  ];
+}
+
+/**
+ * ICS 205: radio channels and talkgroups, one row per channel
+ */
+export function ics205Table(iap: EnhancedIAPDocument): CsvTable {
+  const { basicRadioChannel, talkgroups } = commsPlanContent(iap.sections.communicationsPlan);
+  return [
+    [
+      'Zone Group',
+      'Ch #',
+      'Function',
+      'Channel Name/Trunked Radio System Talkgroup',
+      'Assignment',
+      'RX Freq N or W',
+      'RX Tone/NAC',
+      'TX Freq N or W',
+      'TX Tone/NAC',
+      'Mode (A, D or M)',
+      'Remarks',
+    ],
+    ...basicRadioChannel.map(channel => [
+      channel.system,
+      channel.channel,
+      channel.function,
+      channel.channel,
+      '',
+      channel.frequency,
+      '',
+      channel.frequency,
+      '',
+      '',
+      channel.remarks || '',
+    ]),
+    ...talkgroups.map(talkgroup => [
+      talkgroup.system,
+      '',
+      '',
+      talkgroup.name,
+      talkgroup.assignment,
+      '',
+      '',
+      '',
+      '',
+      'D',
+      talkgroup.remarks || '',
+    ]),
+  ];
+}
+
+/**
+ * ICS 205A: radio call signs, satellite phones and phone bridges
+ */
+export function ics205aTable(iap: EnhancedIAPDocument): CsvTable {
+  const { callSigns, satellitePhones, phoneBridges } = commsPlanContent(iap.sections.communicationsPlan);
+  return [
+    ['Incident Assigned Position', 'Name (Alphabetized)', 'Method(s) of Contact'],
+    ...[
+      ...callSigns.map(entry => [entry.position || '', entry.name, `Radio: ${entry.callSign}`]),
+      ...satellitePhones.map(phone => [phone.position, phone.name, `Sat phone: ${phone.number}`]),
+    ].sort((a, b) => a[1].localeCompare(b[1])),
+    ...phoneBridges.map(bridge => [
+      bridge.name,
+      '',
+      [`Bridge: ${bridge.dialIn}`, bridge.accessCode && `code ${bridge.accessCode}`, bridge.schedule].filter(Boolean).join(', '),
+    ]),
+  ];
+}
+
+/**
+ * RFC 4180 CSV: fields quoted when needed, CRLF line endings. A field that
+ * starts with =, +, - or @ gets a leading ' so spreadsheets show it as text
+ * instead of running it as a formula.
+ */
+export function toCsv(table: CsvTable): string {
+  const field = (cell: string) => {
+    const value = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return table.map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
+
+function orgChartOf(iap: EnhancedIAPDocument): EnhancedOrgChart | ICSForm203 | undefined {
+  return iap.organizationChart?.incidentCommander ? iap.organizationChart : iap.sections?.organizationChart;
+}
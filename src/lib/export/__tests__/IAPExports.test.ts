@@ -0,0 +1,142 @@
+/**
+ * IAP Export Tests
+ *
+ * Validates the versioned JSON export, the ICS form CSV layouts and that the
+ * DOCX is a well-formed Word package built from the IAP
+ */
+
+import { TextDecoder, TextEncoder } from 'util';
+import { IAPProjector } from '../../projections/IAPProjector';
+import { EventType } from '../../events/types';
+import { IAP_EXPORT_SCHEMA, IAP_EXPORT_SCHEMA_VERSION, buildIAPExport } from '../IAPJsonExport';
+import { ics203Table, ics205Table, ics205aTable, toCsv } from '../ICSFormCsv';
+import { IAPDocxGenerator } from '../IAPDocxGenerator';
+import { crc32 } from '../zip';
+import { EnhancedIAPDocument } from '../../../types';
+
+// jsdom has no TextEncoder
+Object.assign(global, { TextEncoder, TextDecoder });
+
+async function exampleIAP(): Promise<EnhancedIAPDocument> {
+  const projector = new IAPProjector();
+  await projector.processEvent({
+    id: 'iap-7',
+    type: EventType.IAP_CREATED,
+    schemaVersion: 1,
+    actorId: 'planning-chief',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.parse('2025-09-01T00:00:00.000Z'),
+    payload: {
+      iapNumber: 7,
+      operationalPeriodStart: '2025-09-01T06:00:00.000Z',
+      operationalPeriodEnd: '2025-09-02T06:00:00.000Z',
+      preparedBy: 'Gary Pelletier',
+    },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  });
+  const iap = projector.getIAPDocument('iap-7')!;
+
+  iap.sections.coverPage.operationName = 'Hurricane Milton Response';
+  iap.sections.coverPage.operationNumber = '220-25';
+  iap.organizationChart.incidentCommander = 'Virginia Mewborn';
+  iap.organizationChart.sections.operations.chief = 'Lee Chen';
+  iap.sections.incidentObjectives.objectives.push('Shelter everyone displaced in Pasco County');
+  iap.sections.communicationsPlan.basicRadioChannel.push({
+    function: 'Command',
+    channel: 'ARC 1',
+    frequency: '155.205',
+    system: 'VHF',
+    remarks: 'Repeater, "Tampa" site',
+  });
+  iap.sections.communicationsPlan.callSigns = [
+    { callSign: 'SHELTER-1', name: 'Ana Ruiz', position: 'Shelter Manager' },
+    { callSign: 'DRO-1', name: 'Virginia Mewborn', position: 'DRO Director' },
+  ];
+  return iap;
+}
+
+// Read a file back out of a stored (uncompressed) ZIP
+function unzip(zip: Uint8Array): Record<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const data = zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    expect(view.getUint32(offset + 14, true)).toBe(crc32(data));
+    files[name] = new TextDecoder().decode(data);
+    offset += 30 + nameLength + size;
+  }
+  return files;
+}
+
+describe('IAP JSON export', () => {
+  it('carries the schema version and ISO dates', async () => {
+    const exported = buildIAPExport(await exampleIAP(), 'Gary Pelletier', new Date('2025-09-01T12:00:00.000Z'));
+
+    expect(exported.$schema).toBe(IAP_EXPORT_SCHEMA.$id);
+    expect(exported.schemaVersion).toBe(IAP_EXPORT_SCHEMA_VERSION);
+    expect(exported.exportedAt).toBe('2025-09-01T12:00:00.000Z');
+    expect(exported.iap).toMatchObject({
+      id: 'iap-7',
+      iapNumber: 7,
+      operationalPeriod: { start: '2025-09-01T06:00:00.000Z', end: '2025-09-02T06:00:00.000Z' },
+    });
+    IAP_EXPORT_SCHEMA.properties.sections.required.forEach(section => {
+      expect(exported.sections).toHaveProperty(section);
+    });
+  });
+});
+
+describe('ICS form CSV', () => {
+  it('lays out the 203, 205 and 205A columns', async () => {
+    const iap = await exampleIAP();
+
+    expect(ics203Table(iap)).toEqual([
+      ['Section', 'Position', 'Name'],
+      ['Command', 'Incident Commander (DRO Director)', 'Virginia Mewborn'],
+      ['Operations Section', 'Chief', 'Lee Chen'],
+    ]);
+    expect(ics205Table(iap)[1]).toEqual(['VHF', 'ARC 1', 'Command', 'ARC 1', '', '155.205', '', '155.205', '', '', 'Repeater, "Tampa" site']);
+    expect(ics205aTable(iap).slice(1).map(row => row[1])).toEqual(['Ana Ruiz', 'Virginia Mewborn']);
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv([['Remarks', 'Name'], ['Repeater, "Tampa" site', 'Line\nbreak']])).toBe(
+      'Remarks,Name\r\n"Repeater, ""Tampa"" site","Line\nbreak"\r\n'
+    );
+  });
+
+  it('keeps fields that look like formulas as text', () => {
+    expect(toCsv([['=HYPERLINK("x")', '+1 555', '-2', '@SUM(A1)', 'a=b']])).toBe(
+      `"'=HYPERLINK(""x"")",'+1 555,'-2,'@SUM(A1),a=b\r\n`
+    );
+  });
+});
+
+describe('IAPDocxGenerator', () => {
+  it('packages a Word document with the IAP content', async () => {
+    const files = unzip(new IAPDocxGenerator().generate(await exampleIAP()));
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/_rels/document.xml.rels',
+      'word/styles.xml',
+      'word/document.xml',
+    ]);
+    const document = new DOMParser().parseFromString(files['word/document.xml'], 'application/xml');
+    expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+
+    const text = files['word/document.xml'];
+    expect(text).toContain('Hurricane Milton Response');
+    expect(text).toContain('Shelter everyone displaced in Pasco County');
+    expect(text).toContain('Repeater, &quot;Tampa&quot; site');
+    expect(text).toContain('<w:pageBreakBefore/>');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Communications Plan (ICS 205)
+ *
+ * Radio channels, talkgroups, phone bridges and satellite phones for an
+ * operational period, plus a call sign roster filled from personnel records.
+ */
+
+import type { Personnel } from '../services/MasterDataService';
+import { ICSForm205, RadioCallSign } from '../../types';
+
+export type CommsPlanContent = Pick<ICSForm205, 'basicRadioChannel'> &
+  Required<Pick<ICSForm205, 'talkgroups' | 'phoneBridges' | 'satellitePhones' | 'callSigns'>>;
+
+/**
+ * The editable content of an IAP's comms plan, with missing lists empty
+ */
+export function commsPlanContent(plan: ICSForm205 | undefined): CommsPlanContent {
+  return {
+    basicRadioChannel: plan?.basicRadioChannel || [],
+    talkgroups: plan?.talkgroups || [],
+    phoneBridges: plan?.phoneBridges || [],
+    satellitePhones: plan?.satellitePhones || [],
+    callSigns: plan?.callSigns || [],
+  };
+}
+
+export function hasCommsPlan(plan: ICSForm205 | undefined): boolean {
+  return Object.values(commsPlanContent(plan)).some(list => list.length > 0);
+}
+
+/**
+ * Call sign roster for everyone with a radio call sign, ordered by call sign
+ */
+export function callSignsFromPersonnel(personnel: Personnel[]): RadioCallSign[] {
+  return personnel
+    .filter(person => person.radio_call_sign?.trim())
+    .map(person => ({
+      callSign: person.radio_call_sign!.trim(),
+      name: `${person.first_name} ${person.last_name}`.trim(),
+      position: person.primary_position,
+      section: person.section,
+    }))
+    .sort((a, b) => a.callSign.localeCompare(b.callSign, undefined, { numeric: true }));
+}
+
+/**
+ * Refresh a roster from personnel. Personnel records win for their call
+ * signs; entries added by hand (mutual aid, partner agencies) are kept.
+ */
+export function mergeCallSigns(existing: RadioCallSign[], personnel: Personnel[]): RadioCallSign[] {
+  const fromPersonnel = callSignsFromPersonnel(personnel);
+  const known = new Set(fromPersonnel.map(entry => entry.callSign.toUpperCase()));
+  return [
+    ...fromPersonnel,
+    ...existing.filter(entry => !known.has(entry.callSign.trim().toUpperCase())),
+  ].sort((a, b) => a.callSign.localeCompare(b.callSign, undefined, { numeric: true }));
+}
+
+/**
+ * Check a comms plan before it is saved. Returns one message per problem.
+ */
+export function validateCommsPlan(plan: CommsPlanContent): string[] {
+  const problems: string[] = [];
+  plan.basicRadioChannel.forEach((channel, index) => {
+    if (!channel.function.trim() || !channel.channel.trim()) {
+      problems.push(`Radio channel ${index + 1} needs a function and a channel name`);
+    }
+  });
+  plan.talkgroups.forEach((talkgroup, index) => {
+    if (!talkgroup.name.trim()) problems.push(`Talkgroup ${index + 1} needs a name`);
+  });
+  plan.phoneBridges.forEach((bridge, index) => {
+    if (!bridge.name.trim() || !bridge.dialIn.trim()) {
+      problems.push(`Phone bridge ${index + 1} needs a name and a dial-in number`);
+    }
+  });
+  plan.satellitePhones.forEach((phone, index) => {
+    if (!phone.number.trim()) problems.push(`Satellite phone ${index + 1} needs a number`);
+  });
+
+  const seen = new Set<string>();
+  plan.callSigns.forEach(entry => {
+    const callSign = entry.callSign.trim().toUpperCase();
+    if (!callSign) {
+      problems.push(`Call sign for ${entry.name || 'an unnamed person'} is blank`);
+    } else if (seen.has(callSign)) {
+      problems.push(`Call sign ${entry.callSign} is assigned more than once`);
+    }
+    seen.add(callSign);
+  });
+  return problems;
+}
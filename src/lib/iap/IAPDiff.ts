@@ -0,0 +1,484 @@
+/**
+ * IAP Diff - What changed between two IAP versions
+ *
+ * Compares two IAPs (live documents, historical projections or official
+ * snapshots) section by section, so section chiefs can see at a glance what
+ * changed since the last operational period: objectives added or dropped,
+ * org chart positions refilled, facilities opened or closed and work
+ * assignment changes.
+ */
+
+import { canonicalize } from '../events/hashChain';
+import {
+  IAPDocument,
+  EnhancedIAPDocument,
+  IAPSnapshot,
+  IAPSections,
+  ICSForm203,
+  WorkAssignment as FacilityWorkAssignment
+} from '../../types';
+
+export type IAPSectionKey = keyof IAPSections;
+
+export interface IAPDiffEntry {
+  kind: 'added' | 'removed' | 'changed';
+  field: string;
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface IAPSectionDiff {
+  section: IAPSectionKey;
+  title: string;
+  changes: IAPDiffEntry[];
+}
+
+export interface FacilityChange {
+  id: string;
+  name: string;
+  change: 'opened' | 'closed' | 'added' | 'removed' | 'status_changed';
+  fromStatus?: string;
+  toStatus?: string;
+}
+
+export interface IAPDiff {
+  from: IAPVersionRef;
+  to: IAPVersionRef;
+  sections: IAPSectionDiff[]; // Only sections with changes, in IAP order
+  facilities: FacilityChange[];
+  hasChanges: boolean;
+}
+
+export interface IAPVersionRef {
+  iapId: string;
+  iapNumber: number;
+  version: number;
+  operationalPeriod: { start: Date; end: Date };
+}
+
+// Minimal facility shape shared by IAP facilities and master-data facility rows
+export interface DiffFacility {
+  id: string;
+  name: string;
+  status: string;
+}
+
+export interface IAPDiffSide {
+  iap: IAPDocument | EnhancedIAPDocument | IAPSnapshot;
+  facilities?: DiffFacility[]; // Defaults to the IAP's own facility data
+}
+
+export const IAP_SECTION_TITLES: Record<IAPSectionKey, string> = {
+  coverPage: 'Cover Page',
+  incidentObjectives: 'Incident Objectives (ICS 202)',
+  organizationChart: 'Organization Chart (ICS 203)',
+  assignmentList: 'Work Assignments (ICS 204)',
+  communicationsPlan: 'Communications Plan (ICS 205)',
+  medicalPlan: 'Medical Plan (ICS 206)',
+  operationalPlanning: 'Operational Planning (ICS 215)',
+  directorsMessage: "Director's Message",
+  generalMessages: 'General Messages',
+  weatherForecast: 'Weather Forecast',
+  mapProducts: 'Maps',
+};
+
+const OPEN_FACILITY_STATUSES = ['open', 'operational'];
+
+/**
+ * Diff two IAPs. `from` is the older version.
+ */
+export function diffIAP(from: IAPDiffSide | IAPDiffSide['iap'], to: IAPDiffSide | IAPDiffSide['iap']): IAPDiff {
+  const before = toSide(from);
+  const after = toSide(to);
+  const a = documentOf(before.iap);
+  const b = documentOf(after.iap);
+
+  const sections = (Object.keys(IAP_SECTION_TITLES) as IAPSectionKey[])
+    .map(section => ({
+      section,
+      title: IAP_SECTION_TITLES[section],
+      changes: SECTION_DIFFERS[section](a, b),
+    }))
+    .filter(section => section.changes.length > 0);
+
+  const facilities = diffFacilities(
+    before.facilities || facilitiesOf(a),
+    after.facilities || facilitiesOf(b)
+  );
+
+  return {
+    from: versionRef(a),
+    to: versionRef(b),
+    sections,
+    facilities,
+    hasChanges: sections.length > 0 || facilities.length > 0,
+  };
+}
+
+/**
+ * One line per change, for plain-text output such as the PDF page
+ */
+export function describeDiffEntry(entry: IAPDiffEntry): string {
+  switch (entry.kind) {
+    case 'added':
+      return `+ ${entry.label}${entry.after ? `: ${entry.after}` : ''}`;
+    case 'removed':
+      return `- ${entry.label}${entry.before ? `: ${entry.before}` : ''}`;
+    default:
+      return `~ ${entry.label}: ${entry.before || '(none)'} -> ${entry.after || '(none)'}`;
+  }
+}
+
+export function describeFacilityChange(change: FacilityChange): string {
+  switch (change.change) {
+    case 'opened':
+      return `Opened: ${change.name}`;
+    case 'closed':
+      return `Closed: ${change.name}`;
+    case 'added':
+      return `Added: ${change.name} (${change.toStatus})`;
+    case 'removed':
+      return `Removed: ${change.name}`;
+    default:
+      return `${change.name}: ${change.fromStatus} -> ${change.toStatus}`;
+  }
+}
+
+// ============================================
+// SECTION DIFFS
+// ============================================
+
+type AnyIAP = IAPDocument & Partial<EnhancedIAPDocument>;
+type SectionDiffer = (a: AnyIAP, b: AnyIAP) => IAPDiffEntry[];
+
+const SECTION_DIFFERS: Record<IAPSectionKey, SectionDiffer> = {
+  coverPage: (a, b) => [
+    ...diffScalar('operationName', 'Operation name', a.sections?.coverPage?.operationName, b.sections?.coverPage?.operationName),
+    ...diffScalar('preparedBy', 'Prepared by', a.sections?.coverPage?.preparedBy, b.sections?.coverPage?.preparedBy),
+    ...diffScalar('approvedBy', 'Approved by', a.sections?.coverPage?.approvedBy, b.sections?.coverPage?.approvedBy),
+    ...diffList('distributionList', 'Distribution', a.sections?.coverPage?.distributionList, b.sections?.coverPage?.distributionList),
+  ],
+
+  incidentObjectives: (a, b) => [
+    ...diffList('objectives', 'Objective', a.sections?.incidentObjectives?.objectives, b.sections?.incidentObjectives?.objectives),
+    ...diffList('priorities', 'Priority', a.sections?.incidentObjectives?.priorities, b.sections?.incidentObjectives?.priorities),
+    ...diffScalar('weatherSummary', 'Weather summary', a.sections?.incidentObjectives?.weatherSummary, b.sections?.incidentObjectives?.weatherSummary),
+    ...diffScalar('safetyMessage', 'Safety message', a.sections?.incidentObjectives?.safetyMessage, b.sections?.incidentObjectives?.safetyMessage),
+  ],
+
+  organizationChart: (a, b) => {
+    const before = orgChartPositions(a.sections?.organizationChart);
+    const after = orgChartPositions(b.sections?.organizationChart);
+    const positions = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const entries: IAPDiffEntry[] = [];
+
+    positions.forEach(position => {
+      const was = before[position];
+      const now = after[position];
+      if (was === now) return;
+      if (!was) entries.push({ kind: 'added', field: position, label: `${position} filled`, after: now });
+      else if (!now) entries.push({ kind: 'removed', field: position, label: `${position} vacated`, before: was });
+      else entries.push({ kind: 'changed', field: position, label: position, before: was, after: now });
+    });
+    return entries;
+  },
+
+  assignmentList: (a, b) => [
+    ...diffScalar('operationsSectionChief', 'Operations Section Chief', a.sections?.assignmentList?.operationsSectionChief, b.sections?.assignmentList?.operationsSectionChief),
+    ...diffList('workAssignments', 'Work assignment', a.sections?.assignmentList?.workAssignments, b.sections?.assignmentList?.workAssignments),
+    ...diffKeyed(
+      'resources',
+      a.sections?.assignmentList?.resources,
+      b.sections?.assignmentList?.resources,
+      resource => resource.identifier,
+      resource => `${resource.resourceType} ${resource.identifier}`,
+      resource => `${resource.leader}, ${resource.numberOfPersons} persons`
+    ),
+    ...diffKeyed(
+      'facilityWorkAssignments',
+      facilityWorkAssignments(a),
+      facilityWorkAssignments(b),
+      assignment => assignment.id,
+      assignment => `Work assignment ${assignment.title}`,
+      assignment => assignment.status
+    ),
+    ...diffScalar('specialInstructions', 'Special instructions', a.sections?.assignmentList?.specialInstructions, b.sections?.assignmentList?.specialInstructions),
+  ],
+
+  communicationsPlan: (a, b) => [
+    ...diffKeyed(
+      'basicRadioChannel',
+      a.sections?.communicationsPlan?.basicRadioChannel,
+      b.sections?.communicationsPlan?.basicRadioChannel,
+      channel => channel.function,
+      channel => `Radio ${channel.function}`,
+      channel => `${channel.channel} ${channel.frequency}`.trim()
+    ),
+    ...diffKeyed(
+      'talkgroups',
+      a.sections?.communicationsPlan?.talkgroups,
+      b.sections?.communicationsPlan?.talkgroups,
+      talkgroup => talkgroup.name,
+      talkgroup => `Talkgroup ${talkgroup.name}`,
+      talkgroup => `${talkgroup.system} - ${talkgroup.assignment}`
+    ),
+    ...diffKeyed(
+      'phoneBridges',
+      a.sections?.communicationsPlan?.phoneBridges,
+      b.sections?.communicationsPlan?.phoneBridges,
+      bridge => bridge.name,
+      bridge => `Phone bridge ${bridge.name}`,
+      bridge => `${bridge.dialIn} ${bridge.accessCode || ''}`.trim()
+    ),
+    ...diffKeyed(
+      'satellitePhones',
+      a.sections?.communicationsPlan?.satellitePhones,
+      b.sections?.communicationsPlan?.satellitePhones,
+      phone => phone.position,
+      phone => `Satellite phone ${phone.position}`,
+      phone => `${phone.name} ${phone.number}`.trim()
+    ),
+    ...diffKeyed(
+      'callSigns',
+      a.sections?.communicationsPlan?.callSigns,
+      b.sections?.communicationsPlan?.callSigns,
+      entry => entry.callSign.toUpperCase(),
+      entry => `Call sign ${entry.callSign}`,
+      entry => entry.name
+    ),
+    ...diffKeyed(
+      'telephoneNumbers',
+      a.sections?.communicationsPlan?.telephoneNumbers,
+      b.sections?.communicationsPlan?.telephoneNumbers,
+      contact => contact.position,
+      contact => `Phone ${contact.position}`,
+      contact => `${contact.name} ${contact.phoneNumbers.join(', ')}`.trim()
+    ),
+  ],
+
+  medicalPlan: (a, b) => [
+    ...diffKeyed(
+      'hospitals',
+      a.sections?.medicalPlan?.hospitals,
+      b.sections?.medicalPlan?.hospitals,
+      hospital => hospital.name,
+      hospital => `Hospital ${hospital.name}`,
+      hospital => `${hospital.address} (${hospital.travelTime})`
+    ),
+    ...diffKeyed(
+      'facilityHospitals',
+      a.sections?.medicalPlan?.facilityHospitals,
+      b.sections?.medicalPlan?.facilityHospitals,
+      facility => facility.facilityId,
+      facility => `Nearest hospital to ${facility.facilityName}`,
+      facility => facility.hospitals[0]?.name || 'none found'
+    ),
+    ...diffKeyed(
+      'medicalAidStations',
+      a.sections?.medicalPlan?.medicalAidStations,
+      b.sections?.medicalPlan?.medicalAidStations,
+      station => station.name,
+      station => `Aid station ${station.name}`,
+      station => station.location
+    ),
+    ...diffKeyed(
+      'ambulanceServices',
+      a.sections?.medicalPlan?.ambulanceServices,
+      b.sections?.medicalPlan?.ambulanceServices,
+      service => service.name,
+      service => `Ambulance ${service.name}`,
+      service => service.phone
+    ),
+    ...diffScalar('emergencyProcedures', 'Emergency procedures', a.sections?.medicalPlan?.emergencyProcedures, b.sections?.medicalPlan?.emergencyProcedures),
+  ],
+
+  operationalPlanning: (a, b) => [
+    ...diffList('objectives', 'Planning objective', a.sections?.operationalPlanning?.objectives, b.sections?.operationalPlanning?.objectives),
+    ...diffList('commandEmphasis', 'Command emphasis', a.sections?.operationalPlanning?.commandEmphasis, b.sections?.operationalPlanning?.commandEmphasis),
+    ...diffScalar('generalSituationalAwareness', 'Situational awareness', a.sections?.operationalPlanning?.generalSituationalAwareness, b.sections?.operationalPlanning?.generalSituationalAwareness),
+    ...diffKeyed(
+      'resourceWorksheet',
+      a.sections?.operationalPlanning?.resourceWorksheet,
+      b.sections?.operationalPlanning?.resourceWorksheet,
+      row => `${row.facilityId}|${row.resourceKind}`,
+      row => `${row.facilityName} ${row.resourceKind}`,
+      row => `need ${row.need} (have ${row.have} of ${row.required})`
+    ),
+  ],
+
+  directorsMessage: (a, b) => diffScalar(
+    'directorsMessage',
+    "Director's message",
+    (a.directorsMessage || a.sections?.directorsMessage)?.plainText,
+    (b.directorsMessage || b.sections?.directorsMessage)?.plainText,
+    false
+  ),
+
+  generalMessages: (a, b) => diffList(
+    'generalMessages',
+    'General message',
+    (a.generalMessages || []).map(message => message.plainText),
+    (b.generalMessages || []).map(message => message.plainText)
+  ),
+
+  weatherForecast: (a, b) => diffScalar(
+    'weatherForecast',
+    'Weather forecast',
+    a.sections?.weatherForecast?.current?.conditions,
+    b.sections?.weatherForecast?.current?.conditions
+  ),
+
+  mapProducts: (a, b) => diffKeyed(
+    'mapProducts',
+    a.sections?.mapProducts,
+    b.sections?.mapProducts,
+    map => map.id,
+    map => `Map ${map.title}`,
+    map => map.url
+  ),
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toSide(value: IAPDiffSide | IAPDiffSide['iap']): IAPDiffSide {
+  return 'iap' in value ? value : { iap: value };
+}
+
+function documentOf(iap: IAPDiffSide['iap']): AnyIAP {
+  return 'data' in iap && 'snapshotTime' in iap ? iap.data : iap as AnyIAP;
+}
+
+function versionRef(iap: AnyIAP): IAPVersionRef {
+  return {
+    iapId: iap.id,
+    iapNumber: iap.iapNumber,
+    version: iap.version,
+    operationalPeriod: {
+      start: new Date(iap.operationalPeriod?.start),
+      end: new Date(iap.operationalPeriod?.end),
+    },
+  };
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function diffList(field: string, label: string, before: string[] = [], after: string[] = []): IAPDiffEntry[] {
+  const was = new Set(before.map(text).filter(Boolean));
+  const now = new Set(after.map(text).filter(Boolean));
+  return [
+    ...Array.from(was).filter(item => !now.has(item))
+      .map(item => ({ kind: 'removed' as const, field, label, before: item })),
+    ...Array.from(now).filter(item => !was.has(item))
+      .map(item => ({ kind: 'added' as const, field, label, after: item })),
+  ];
+}
+
+function diffScalar(field: string, label: string, before: unknown, after: unknown, includeValues = true): IAPDiffEntry[] {
+  const was = text(before);
+  const now = text(after);
+  if (was === now) return [];
+
+  const values = includeValues ? { before: was || undefined, after: now || undefined } : {};
+  if (!was) return [{ kind: 'added', field, label, ...values }];
+  if (!now) return [{ kind: 'removed', field, label, ...values }];
+  return [{ kind: 'changed', field, label, ...values }];
+}
+
+function diffKeyed<T>(
+  field: string,
+  before: T[] = [],
+  after: T[] = [],
+  key: (item: T) => string,
+  label: (item: T) => string,
+  summary: (item: T) => string
+): IAPDiffEntry[] {
+  const was = new Map(before.map(item => [key(item), item]));
+  const now = new Map(after.map(item => [key(item), item]));
+  const entries: IAPDiffEntry[] = [];
+
+  was.forEach((item, id) => {
+    if (!now.has(id)) {
+      entries.push({ kind: 'removed', field, label: label(item), before: summary(item) });
+    }
+  });
+  now.forEach((item, id) => {
+    const previous = was.get(id);
+    if (!previous) {
+      entries.push({ kind: 'added', field, label: label(item), after: summary(item) });
+    } else if (canonicalize(previous) !== canonicalize(item)) {
+      entries.push({ kind: 'changed', field, label: label(item), before: summary(previous), after: summary(item) });
+    }
+  });
+  return entries;
+}
+
+function orgChartPositions(chart: ICSForm203 | undefined): Record<string, string> {
+  const positions: Record<string, string> = {};
+  const fill = (position: string, name: string | undefined) => {
+    if (text(name)) positions[position] = text(name);
+  };
+  if (!chart) return positions;
+
+  fill('Incident Commander', chart.incidentCommander);
+  fill('Deputy IC', chart.deputyIC);
+  fill('Safety Officer', chart.safetyOfficer);
+  fill('Public Information Officer', chart.publicInfoOfficer);
+  fill('Liaison Officer', chart.liaisonOfficer);
+
+  Object.entries(chart.sections || {}).forEach(([name, section]) => {
+    const title = name.charAt(0).toUpperCase() + name.slice(1);
+    fill(`${title} Section Chief`, section?.chief);
+    fill(`${title} Deputy Chief`, section?.deputy);
+    section?.branches?.forEach(branch => fill(`${branch.name} Branch Director`, branch.director));
+  });
+  return positions;
+}
+
+function facilitiesOf(iap: AnyIAP): DiffFacility[] {
+  return (iap.facilityData?.facilities || []).map(facility => ({
+    id: facility.id,
+    name: facility.name,
+    status: facility.status,
+  }));
+}
+
+function facilityWorkAssignments(iap: AnyIAP): FacilityWorkAssignment[] {
+  return (iap.facilityData?.facilities || []).flatMap(facility => facility.workAssignments || []);
+}
+
+function diffFacilities(before: DiffFacility[], after: DiffFacility[]): FacilityChange[] {
+  const was = new Map(before.map(facility => [facility.id, facility]));
+  const now = new Map(after.map(facility => [facility.id, facility]));
+  const isOpen = (facility?: DiffFacility) => !!facility && OPEN_FACILITY_STATUSES.includes(facility.status);
+  const changes: FacilityChange[] = [];
+
+  now.forEach((facility, id) => {
+    const previous = was.get(id);
+    const base = { id, name: facility.name, fromStatus: previous?.status, toStatus: facility.status };
+    if (isOpen(facility) && !isOpen(previous)) {
+      changes.push({ ...base, change: 'opened' });
+    } else if (isOpen(previous) && !isOpen(facility)) {
+      changes.push({ ...base, change: 'closed' });
+    } else if (!previous) {
+      changes.push({ ...base, change: 'added' });
+    } else if (previous.status !== facility.status) {
+      changes.push({ ...base, change: 'status_changed' });
+    }
+  });
+  was.forEach((facility, id) => {
+    if (!now.has(id)) {
+      changes.push({
+        id,
+        name: facility.name,
+        change: isOpen(facility) ? 'closed' : 'removed',
+        fromStatus: facility.status,
+      });
+    }
+  });
+  return changes;
+}
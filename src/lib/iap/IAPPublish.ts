@@ -0,0 +1,127 @@
+/**
+ * IAP Publish Workflow
+ *
+ * Commands that move an IAP through review and approval to publication.
+ * The plan is prepared and approved by the people named on its cover page;
+ * publishing freezes a content-hashed official snapshot of what was approved.
+ */
+
+import { EventType } from '../events/types';
+import { IAPProjector, iapProjector } from '../projections/IAPProjector';
+import { EnhancedIAPDocument } from '../../types';
+import { assertTransition, hashIAPContent, sameName } from './iapStatus';
+import { recordIAPEvent } from './iapEvents';
+
+/**
+ * Send a draft for review. The cover page must name who prepared the plan
+ * and who will approve it, and they must be different people.
+ */
+export async function submitForReview(
+  iap: EnhancedIAPDocument,
+  signOff: { preparedBy?: string; approvedBy?: string } = {},
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertTransition(iap, 'in_review');
+
+  const preparedBy = (signOff.preparedBy ?? iap.sections.coverPage.preparedBy).trim();
+  const approvedBy = (signOff.approvedBy ?? iap.sections.coverPage.approvedBy).trim();
+  if (!preparedBy || !approvedBy) {
+    throw new Error('Name who prepared the IAP and who will approve it before sending it for review');
+  }
+  if (sameName(preparedBy, approvedBy)) {
+    throw new Error('The approver must be someone other than the preparer');
+  }
+
+  return await record(projector, iap, EventType.IAP_SUBMITTED_FOR_REVIEW, {
+    iapId: iap.id,
+    preparedBy,
+    approvedBy,
+  });
+}
+
+/**
+ * Send an IAP in review (or approved but not yet published) back to draft
+ */
+export async function returnToDraft(
+  iap: EnhancedIAPDocument,
+  returnedBy: string,
+  reason: string,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertTransition(iap, 'draft');
+  if (!reason.trim()) {
+    throw new Error('Say why the IAP is being sent back');
+  }
+
+  return await record(projector, iap, EventType.IAP_RETURNED_TO_DRAFT, {
+    iapId: iap.id,
+    returnedBy,
+    reason: reason.trim(),
+  });
+}
+
+/**
+ * Approve an IAP in review. Only the approver named at submission can.
+ */
+export async function approveIAP(
+  iap: EnhancedIAPDocument,
+  approverName: string,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertTransition(iap, 'approved');
+  if (!iap.review || !sameName(approverName, iap.review.approvedBy)) {
+    throw new Error(`IAP #${iap.iapNumber} can only be approved by ${iap.review?.approvedBy || 'its named approver'}`);
+  }
+
+  return await record(projector, iap, EventType.IAP_APPROVED, {
+    iapId: iap.id,
+    approvedBy: iap.review.approvedBy,
+  });
+}
+
+/**
+ * Publish an approved IAP. The official snapshot is taken first so the
+ * published record points at content that can no longer change.
+ */
+export async function publishIAP(
+  iap: EnhancedIAPDocument,
+  distributionList: string[] = iap.sections.coverPage.distributionList,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertTransition(iap, 'published');
+
+  const contentHash = hashIAPContent(iap);
+  const snapshotEventId = await recordIAPEvent(projector, EventType.IAP_OFFICIAL_SNAPSHOT, {
+    iapId: iap.id,
+    versionId: iap.version.toString(),
+    snapshotType: 'official_6pm',
+    isLocked: true,
+    distributionList,
+    contentHash,
+  }, { operationId: iap.operationId, causationId: iap.id });
+
+  const snapshot = projector.getSnapshot(snapshotEventId);
+  if (!snapshot || !projector.verifySnapshot(snapshot)) {
+    throw new Error(`Official snapshot of IAP #${iap.iapNumber} does not match the approved content`);
+  }
+
+  return await record(projector, iap, EventType.IAP_PUBLISHED, {
+    iapId: iap.id,
+    snapshotId: snapshot.id,
+    contentHash,
+  });
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function record(
+  projector: IAPProjector,
+  iap: EnhancedIAPDocument,
+  type: EventType,
+  payload: any
+): Promise<EnhancedIAPDocument> {
+  await recordIAPEvent(projector, type, payload, { operationId: iap.operationId, causationId: iap.id });
+  return projector.getIAPDocument(iap.id) || iap;
+}
@@ -0,0 +1,302 @@
+/**
+ * IAP Rollover - Generates the next operational period's IAP
+ *
+ * Takes the published IAP for period N and drafts period N+1: open
+ * objectives and priorities, the org chart, active work assignments, open
+ * gaps and the recurring daily schedule all carry forward so the planning
+ * section only edits what actually changed overnight.
+ */
+
+import { EventType } from '../events/types';
+import { IAPProjector, iapProjector } from '../projections/IAPProjector';
+import type { DailyScheduleEntry, WorkAssignment, Gap } from '../services/MasterDataService';
+import {
+  EnhancedIAPDocument,
+  IAPCarryForward,
+  IncidentPriorities,
+  Priority,
+  CarryForwardItem,
+  CompletedObjective,
+  DailySchedule
+} from '../../types';
+import { recordIAPEvent } from './iapEvents';
+
+export interface RolloverOptions {
+  preparedBy: string;
+  periodStart?: Date; // Defaults to the end of the prior period
+  periodEnd?: Date; // Defaults to the prior period's length after the start
+  schedule?: DailyScheduleEntry[]; // Recurring entries; defaults to the prior IAP's schedule
+  workAssignments?: WorkAssignment[]; // Defaults to the prior IAP's assignment list
+  gaps?: Gap[];
+}
+
+export interface RolloverPlan {
+  iapNumber: number;
+  operationalPeriod: {
+    start: Date;
+    end: Date;
+  };
+  carryForward: IAPCarryForward;
+}
+
+const CLOSED_PRIORITY_STATUSES: Priority['status'][] = ['completed', 'cancelled'];
+const CLOSED_ASSIGNMENT_STATUSES: WorkAssignment['status'][] = ['completed', 'cancelled'];
+const OPEN_GAP_STATUSES: Gap['status'][] = ['open', 'requested'];
+
+/**
+ * Work out what the next period's IAP inherits, without emitting anything
+ */
+export function planRollover(prior: EnhancedIAPDocument, options: RolloverOptions): RolloverPlan {
+  const priorStart = new Date(prior.operationalPeriod.start);
+  const priorEnd = new Date(prior.operationalPeriod.end);
+  const start = options.periodStart || priorEnd;
+  const end = options.periodEnd || new Date(start.getTime() + (priorEnd.getTime() - priorStart.getTime()));
+
+  if (end <= start) {
+    throw new Error('Operational period must end after it starts');
+  }
+
+  const allPriorities = Object.values(prior.incidentPriorities).flat() as Priority[];
+  const closed = new Set(
+    allPriorities
+      .filter(priority => CLOSED_PRIORITY_STATUSES.includes(priority.status))
+      .map(priority => normalize(priority.description))
+  );
+  prior.previousPeriodStatus.completedObjectives.forEach(objective => closed.add(normalize(objective.description)));
+  const isOpen = (text: string) => !closed.has(normalize(text));
+
+  const activeAssignments = options.workAssignments
+    ?.filter(assignment => !CLOSED_ASSIGNMENT_STATUSES.includes(assignment.status));
+
+  const carryForwardItems: CarryForwardItem[] = [
+    ...(activeAssignments || []).map(assignment => carryItem(
+      assignment.id,
+      assignment.title,
+      assignment.due_date,
+      'Work assignment still active',
+      assignment.priority,
+      assignment.assigned_to,
+      priorEnd,
+      end
+    )),
+    ...(options.gaps || [])
+      .filter(gap => OPEN_GAP_STATUSES.includes(gap.status || 'open'))
+      .map(gap => carryItem(
+        gap.id,
+        gap.description || describeGap(gap),
+        gap.needed_date,
+        gap.status === 'requested' ? 'Gap requested, not yet filled' : 'Gap still open',
+        gap.priority,
+        undefined,
+        priorEnd,
+        end
+      ))
+  ];
+
+  return {
+    iapNumber: prior.iapNumber + 1,
+    operationalPeriod: { start, end },
+    carryForward: {
+      previousIapId: prior.id,
+      previousIapNumber: prior.iapNumber,
+      coverPage: {
+        operationName: prior.sections.coverPage.operationName,
+        operationNumber: prior.sections.coverPage.operationNumber,
+        distributionList: [...prior.sections.coverPage.distributionList]
+      },
+      objectives: prior.sections.incidentObjectives.objectives.filter(isOpen),
+      priorities: prior.sections.incidentObjectives.priorities.filter(isOpen),
+      incidentPriorities: openPriorities(prior.incidentPriorities),
+      organizationChart: prior.organizationChart,
+      workAssignments: activeAssignments
+        ? activeAssignments.map(assignment => assignment.title)
+        : [...prior.sections.assignmentList.workAssignments],
+      resources: [...prior.sections.assignmentList.resources],
+      carryForwardItems,
+      completedObjectives: completedObjectives(allPriorities, priorEnd),
+      dailySchedule: options.schedule
+        ? scheduleFromEntries(options.schedule, start)
+        : shiftSchedule(prior.dailySchedule, start.getTime() - priorStart.getTime()),
+      communicationsPlan: prior.sections.communicationsPlan,
+      medicalPlan: prior.sections.medicalPlan
+    }
+  };
+}
+
+/**
+ * Roll a published IAP over into a draft for the next operational period.
+ * Both events point back at the prior IAP through their causationId.
+ */
+export async function rolloverIAP(
+  prior: EnhancedIAPDocument,
+  options: RolloverOptions,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  if (prior.status !== 'published') {
+    throw new Error(`IAP #${prior.iapNumber} must be published before it can be rolled over`);
+  }
+
+  const plan = planRollover(prior, options);
+  const iapId = crypto.randomUUID();
+  const metadata = {
+    operationId: prior.operationId,
+    causationId: prior.id,
+    correlationId: iapId
+  };
+
+  await recordIAPEvent(projector, EventType.IAP_CREATED, {
+    iapId,
+    iapNumber: plan.iapNumber,
+    operationalPeriodStart: plan.operationalPeriod.start.toISOString(),
+    operationalPeriodEnd: plan.operationalPeriod.end.toISOString(),
+    preparedBy: options.preparedBy,
+    previousIapId: prior.id,
+    carryForward: JSON.parse(JSON.stringify(plan.carryForward)) // Dates as ISO strings, as stored
+  }, metadata);
+
+  await recordIAPEvent(projector, EventType.IAP_VERSION_CREATED, {
+    iapId,
+    section: 'document',
+    description: `Rolled over from IAP #${prior.iapNumber}`
+  }, metadata);
+
+  const draft = projector.getIAPDocument(iapId);
+  if (!draft) {
+    throw new Error(`Rollover of IAP #${prior.iapNumber} did not produce a draft`);
+  }
+  return draft;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+function openPriorities(priorities: IncidentPriorities): IncidentPriorities {
+  const open = (list: Priority[]) => list.filter(priority => !CLOSED_PRIORITY_STATUSES.includes(priority.status));
+  return {
+    lifeSafety: open(priorities.lifeSafety),
+    incidentStabilization: open(priorities.incidentStabilization),
+    propertyConservation: open(priorities.propertyConservation),
+    customPriorities: open(priorities.customPriorities)
+  };
+}
+
+function completedObjectives(priorities: Priority[], completedAt: Date): CompletedObjective[] {
+  return priorities
+    .filter(priority => priority.status === 'completed')
+    .map(priority => ({
+      id: priority.id,
+      description: priority.description,
+      completedAt,
+      completedBy: priority.assignedTo,
+      outcome: priority.measurableOutcome,
+      resourcesUsed: []
+    }));
+}
+
+function carryItem(
+  id: string,
+  description: string,
+  dueDate: Date | string | undefined,
+  reason: string,
+  priority: 'low' | 'medium' | 'high' | 'critical' | undefined,
+  assignedTo: string | undefined,
+  priorEnd: Date,
+  end: Date
+): CarryForwardItem {
+  const originalDueDate = dueDate ? new Date(dueDate) : priorEnd;
+  return {
+    id,
+    description,
+    originalDueDate,
+    newDueDate: originalDueDate > end ? originalDueDate : end,
+    reason,
+    priority: priority === 'critical' ? 'high' : priority || 'medium',
+    assignedTo: assignedTo || ''
+  };
+}
+
+function describeGap(gap: Gap): string {
+  const short = gap.quantity_needed - (gap.quantity_available || 0);
+  return `${gap.gap_category || gap.gap_type}: ${short} short`;
+}
+
+/**
+ * Next occurrence of an HH:MM time at or after the period start
+ */
+function occurrence(time: string, start: Date): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date(start);
+  at.setHours(hours || 0, minutes || 0, 0, 0);
+  if (at < start) {
+    at.setDate(at.getDate() + 1);
+  }
+  return at;
+}
+
+function scheduleFromEntries(entries: DailyScheduleEntry[], start: Date): DailySchedule {
+  const schedule: DailySchedule = { meetings: [], briefings: [], deadlines: [], specialEvents: [] };
+
+  entries
+    .filter(entry => entry.status !== 'cancelled')
+    .forEach(entry => {
+      const dateTime = occurrence(entry.time, start);
+      switch (entry.event_type) {
+        case 'briefing':
+          schedule.briefings.push({
+            id: entry.id,
+            title: entry.event_name,
+            dateTime,
+            location: entry.location || '',
+            presenter: entry.responsible_party || '',
+            attendees: [],
+            topics: entry.notes ? [entry.notes] : []
+          });
+          break;
+        case 'deadline':
+          schedule.deadlines.push({
+            id: entry.id,
+            title: entry.event_name,
+            dueDateTime: dateTime,
+            assignedTo: entry.responsible_party || '',
+            priority: 'medium',
+            status: 'pending'
+          });
+          break;
+        default:
+          schedule.meetings.push({
+            dateTime,
+            purpose: entry.event_name,
+            location: entry.location || '',
+            attendees: entry.responsible_party ? [entry.responsible_party] : []
+          });
+      }
+    });
+
+  schedule.meetings.sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+  schedule.briefings.sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+  schedule.deadlines.sort((a, b) => a.dueDateTime.getTime() - b.dueDateTime.getTime());
+  return schedule;
+}
+
+/**
+ * Move the prior period's recurring items forward. Special events are
+ * one-offs and stay behind.
+ */
+function shiftSchedule(schedule: DailySchedule, offsetMs: number): DailySchedule {
+  const shift = (value: Date) => new Date(new Date(value).getTime() + offsetMs);
+  return {
+    meetings: schedule.meetings.map(meeting => ({ ...meeting, dateTime: shift(meeting.dateTime) })),
+    briefings: schedule.briefings.map(briefing => ({ ...briefing, dateTime: shift(briefing.dateTime) })),
+    deadlines: schedule.deadlines.map(deadline => ({
+      ...deadline,
+      dueDateTime: shift(deadline.dueDateTime),
+      status: 'pending' as const
+    })),
+    specialEvents: []
+  };
+}
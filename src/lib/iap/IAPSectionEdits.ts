@@ -0,0 +1,111 @@
+/**
+ * IAP Section Edits
+ *
+ * Commands that change the content of a draft IAP section. Each records one
+ * event and applies it to the projector, and is refused once the IAP has
+ * been approved.
+ */
+
+import { EventType } from '../events/types';
+import { IAPProjector, iapProjector } from '../projections/IAPProjector';
+import { EnhancedIAPDocument, ResourceWorksheetRow, WeatherInfo } from '../../types';
+import { assertEditable } from './iapStatus';
+import { recordIAPEvent } from './iapEvents';
+import { CommsPlanContent, validateCommsPlan } from './CommsPlan';
+import { MedicalPlanContent, validateMedicalPlan } from './MedicalPlan';
+
+/**
+ * Save an IAP's comms plan. Refused once the IAP is approved.
+ */
+export async function updateCommsPlan(
+  iap: EnhancedIAPDocument,
+  plan: CommsPlanContent,
+  preparedBy: string,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertEditable(iap);
+  const problems = validateCommsPlan(plan);
+  if (problems.length > 0) {
+    throw new Error(`Communications plan is incomplete:\n- ${problems.join('\n- ')}`);
+  }
+
+  return await record(projector, iap, EventType.COMMUNICATIONS_PLAN_UPDATED, {
+    iapId: iap.id,
+    ...plan,
+    preparedBy,
+  });
+}
+
+/**
+ * Save an IAP's medical plan. Refused once the IAP is approved.
+ */
+export async function updateMedicalPlan(
+  iap: EnhancedIAPDocument,
+  plan: MedicalPlanContent,
+  preparedBy: string,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertEditable(iap);
+  const problems = validateMedicalPlan(plan);
+  if (problems.length > 0) {
+    throw new Error(`Medical plan is incomplete:\n- ${problems.join('\n- ')}`);
+  }
+
+  return await record(projector, iap, EventType.MEDICAL_PLAN_UPDATED, {
+    iapId: iap.id,
+    ...plan,
+    preparedBy,
+  });
+}
+
+/**
+ * Save an IAP's weather with the 202 weather summary and safety message
+ * written from it. Refused once the IAP is approved.
+ */
+export async function updateWeather(
+  iap: EnhancedIAPDocument,
+  weather: WeatherInfo,
+  text: { weatherSummary: string; safetyMessage: string },
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertEditable(iap);
+
+  return await record(projector, iap, EventType.WEATHER_UPDATED, {
+    iapId: iap.id,
+    weather: JSON.parse(JSON.stringify(weather)), // Dates as ISO strings, as stored
+    weatherSummary: text.weatherSummary,
+    safetyMessage: text.safetyMessage,
+  });
+}
+
+/**
+ * Save an IAP's ICS 215 resource worksheet. Refused once the IAP is approved.
+ */
+export async function updatePlanningWorksheet(
+  iap: EnhancedIAPDocument,
+  rows: ResourceWorksheetRow[],
+  preparedBy: string,
+  projector: IAPProjector = iapProjector
+): Promise<EnhancedIAPDocument> {
+  assertEditable(iap);
+
+  return await record(projector, iap, EventType.PLANNING_WORKSHEET_UPDATED, {
+    iapId: iap.id,
+    rows,
+    preparedBy,
+  });
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function record(
+  projector: IAPProjector,
+  iap: EnhancedIAPDocument,
+  type: EventType,
+  payload: any
+): Promise<EnhancedIAPDocument> {
+  await recordIAPEvent(projector, type, payload, { operationId: iap.operationId, causationId: iap.id });
+  return projector.getIAPDocument(iap.id) || iap;
+}
@@ -0,0 +1,198 @@
+/**
+ * IAP Templates
+ *
+ * A template lists which IAP sections an operation uses, in what order,
+ * whether each starts a new page and what it is headed. The same template
+ * drives the on-screen IAP and the PDF, so both always agree.
+ */
+
+import {
+  AncillaryCategory,
+  FacilityType,
+  IAPPageBreak,
+  IAPTemplate,
+  IAPTemplateSection,
+  IAPTemplateSectionId
+} from '../../types';
+
+export const IAP_SECTION_TITLES: Record<IAPTemplateSectionId, string> = {
+  cover: 'Cover Page & Checklist',
+  directors_message: "Director's Intent/Message",
+  contact_roster: 'Contact Roster DRO HQ',
+  org_chart: 'Incident Organization Chart',
+  priorities: 'Incident Priorities and Objectives',
+  weather: 'Weather Forecast and Alerts',
+  sheltering: 'Work Assignments - Sheltering',
+  feeding: 'Work Assignments - Feeding',
+  government_ops: 'Work Assignments - Government Operations',
+  damage_assessment: 'Work Assignments - Damage Assessment',
+  distribution: 'Work Assignments - Distribution',
+  individual_care: 'Work Assignments - Individual Disaster Care',
+  assignment_list: 'Work Assignment List (ICS 204)',
+  planning_worksheet: 'Operational Planning Worksheet (ICS 215)',
+  comms_plan: 'Communications Plan (ICS 205)',
+  medical_plan: 'Medical Plan (ICS 206)',
+  work_sites: 'Work Sites and Facilities',
+  daily_schedule: 'Daily Schedule',
+  maps: 'Maps and Geographic Information',
+  appendices: 'Appendices and References',
+  annex: 'Annex',
+};
+
+export const ANNEX_TITLES: Record<AncillaryCategory, string> = {
+  parking_instructions: 'Parking Instructions',
+  checkout_procedures: 'Checkout Procedures',
+  rental_car_info: 'Rental Car Information',
+  safety_notices: 'Safety Notices',
+  policy_updates: 'Policy Updates',
+  general_announcements: 'General Announcements',
+  operational_notes: 'Operational Notes',
+  other: 'Other Information',
+};
+
+// Facilities whose work assignments each work-assignment section lists.
+// Damage assessment teams have no facility; their work is on the ICS 204 list.
+export const WORK_ASSIGNMENT_FACILITY_TYPES: Partial<Record<IAPTemplateSectionId, FacilityType[]>> = {
+  sheltering: ['shelter'],
+  feeding: ['feeding', 'kitchen', 'mobile_unit'],
+  government_ops: ['command_post', 'staging_area'],
+  damage_assessment: [],
+  distribution: ['distribution', 'warehouse'],
+  individual_care: ['reception_center'],
+};
+
+// The full IAP, in the order the DRO has always published it
+const STANDARD_ORDER: IAPTemplateSectionId[] = [
+  'cover',
+  'directors_message',
+  'contact_roster',
+  'org_chart',
+  'priorities',
+  'weather',
+  'sheltering',
+  'feeding',
+  'government_ops',
+  'damage_assessment',
+  'distribution',
+  'individual_care',
+  'assignment_list',
+  'planning_worksheet',
+  'comms_plan',
+  'medical_plan',
+  'work_sites',
+  'daily_schedule',
+  'maps',
+  'appendices',
+];
+
+const section = (id: IAPTemplateSectionId, enabled = true): IAPTemplateSection => ({ id, enabled, pageBreak: 'before' });
+
+const annex = (category: AncillaryCategory): IAPTemplateSection => ({
+  id: 'annex',
+  enabled: true,
+  header: `Annex - ${ANNEX_TITLES[category]}`,
+  pageBreak: 'before',
+  annexCategory: category,
+});
+
+export const IAP_TEMPLATES: Record<string, IAPTemplate> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Every section, in the usual DRO order',
+    sections: STANDARD_ORDER.map(id => section(id)),
+  },
+  small: {
+    id: 'small',
+    name: 'Small operation',
+    description: 'Drops government operations and damage assessment; short sections share pages',
+    sections: STANDARD_ORDER.map(id => ({
+      ...section(id, id !== 'government_ops' && id !== 'damage_assessment'),
+      // Short sections follow on rather than each taking a page
+      pageBreak: (['contact_roster', 'priorities', 'weather', 'maps'] as IAPTemplateSectionId[]).includes(id) ? 'none' : 'before',
+    })),
+  },
+  large: {
+    id: 'large',
+    name: 'Large operation',
+    description: 'Every section plus safety, policy and logistics annexes',
+    sections: [
+      ...STANDARD_ORDER.map(id => section(id)),
+      annex('safety_notices'),
+      annex('policy_updates'),
+      annex('parking_instructions'),
+      annex('rental_car_info'),
+      annex('checkout_procedures'),
+    ],
+  },
+};
+
+export const DEFAULT_IAP_TEMPLATE_ID = 'standard';
+
+export interface ResolvedIAPSection {
+  key: string; // Unique per template, since a template can hold several annexes
+  id: IAPTemplateSectionId;
+  title: string;
+  pageBreak: IAPPageBreak;
+  annexCategory?: AncillaryCategory;
+}
+
+/**
+ * The operation's template, or the standard one when none was chosen
+ */
+export function getIAPTemplate(template?: IAPTemplate | string | null): IAPTemplate {
+  if (template && typeof template === 'object') return template;
+  return IAP_TEMPLATES[template || DEFAULT_IAP_TEMPLATE_ID] || IAP_TEMPLATES[DEFAULT_IAP_TEMPLATE_ID];
+}
+
+/**
+ * Enabled sections in print order, with titles and page breaks filled in
+ */
+export function resolveIAPSections(template: IAPTemplate): ResolvedIAPSection[] {
+  return template.sections
+    .filter(entry => entry.enabled)
+    .map(entry => ({
+      key: entry.id === 'annex' ? `annex-${entry.annexCategory || 'other'}` : entry.id,
+      id: entry.id,
+      title: entry.header?.trim() ||
+        (entry.id === 'annex' ? `Annex - ${ANNEX_TITLES[entry.annexCategory || 'other']}` : IAP_SECTION_TITLES[entry.id]),
+      // The cover always has a page to itself, and whatever follows it starts fresh
+      pageBreak: entry.id === 'cover' ? 'before' : entry.pageBreak || 'before',
+      annexCategory: entry.annexCategory,
+    }));
+}
+
+/**
+ * Reject templates the viewer and PDF cannot lay out
+ */
+export function validateIAPTemplate(template: IAPTemplate): void {
+  const sections = template.sections.filter(entry => entry.enabled);
+  if (sections[0]?.id !== 'cover') {
+    throw new Error(`IAP template "${template.name}" must start with the cover page`);
+  }
+
+  const seen = new Set<string>();
+  for (const entry of sections) {
+    if (entry.id === 'annex' && !entry.annexCategory) {
+      throw new Error(`IAP template "${template.name}" has an annex without a content category`);
+    }
+    const key = entry.id === 'annex' ? `annex-${entry.annexCategory}` : entry.id;
+    if (seen.has(key)) {
+      throw new Error(`IAP template "${template.name}" lists ${IAP_SECTION_TITLES[entry.id]} more than once`);
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Copy of a template with one section moved up or down
+ */
+export function moveIAPTemplateSection(template: IAPTemplate, index: number, offset: -1 | 1): IAPTemplate {
+  const target = index + offset;
+  // The cover stays first
+  if (index === 0 || target < 1 || target >= template.sections.length) return template;
+
+  const sections = [...template.sections];
+  [sections[index], sections[target]] = [sections[target], sections[index]];
+  return { ...template, sections };
+}
@@ -0,0 +1,121 @@
+/**
+ * Medical Plan (ICS 206)
+ *
+ * Medical aid stations, ambulance services, emergency procedures and the
+ * nearest hospitals to each open facility, ranked by straight-line distance
+ * from the bundled hospital list.
+ */
+
+import { HOSPITALS, BundledHospital } from '../../data/hospitals';
+import { estimateDriveMinutes, haversineMiles } from '../intelligence/ResourceOptimizer';
+import type { Facility } from '../services/MasterDataService';
+import { FacilityHospitals, Hospital, ICSForm206 } from '../../types';
+
+export const NEAREST_HOSPITAL_COUNT = 3;
+
+export type MedicalPlanContent = Pick<
+  ICSForm206,
+  'medicalAidStations' | 'ambulanceServices' | 'hospitals' | 'emergencyProcedures'
+> & Required<Pick<ICSForm206, 'facilityHospitals'>>;
+
+/**
+ * The editable content of an IAP's medical plan, with missing lists empty
+ */
+export function medicalPlanContent(plan: ICSForm206 | undefined): MedicalPlanContent {
+  return {
+    medicalAidStations: plan?.medicalAidStations || [],
+    ambulanceServices: plan?.ambulanceServices || [],
+    hospitals: plan?.hospitals || [],
+    facilityHospitals: plan?.facilityHospitals || [],
+    emergencyProcedures: plan?.emergencyProcedures || '',
+  };
+}
+
+export function hasMedicalPlan(plan: ICSForm206 | undefined): boolean {
+  const content = medicalPlanContent(plan);
+  return Boolean(content.emergencyProcedures.trim()) ||
+    content.medicalAidStations.length + content.ambulanceServices.length + content.hospitals.length > 0 ||
+    content.facilityHospitals.some(facility => facility.hospitals.length > 0);
+}
+
+/**
+ * Hospitals nearest to a point, closest first
+ */
+export function rankNearestHospitals(
+  origin: { lat: number; lng: number },
+  hospitals: BundledHospital[] = HOSPITALS,
+  limit: number = NEAREST_HOSPITAL_COUNT
+): Hospital[] {
+  return hospitals
+    .map(hospital => ({
+      hospital,
+      distance: haversineMiles(origin.lat, origin.lng, hospital.coordinates.lat, hospital.coordinates.lng),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ hospital, distance }) => ({
+      name: hospital.name,
+      address: `${hospital.address}, ${hospital.city}, ${hospital.state}`,
+      contact: '',
+      travelTime: `${estimateDriveMinutes(distance)} min ground`,
+      distanceMiles: Math.round(distance * 10) / 10,
+      traumaCenter: hospital.traumaLevel !== undefined,
+      burnCenter: hospital.burnCenter,
+      helipad: hospital.helipad,
+    }));
+}
+
+/**
+ * Nearest hospitals for every open facility. Facilities without coordinates
+ * are still listed, with no hospitals, so the gap is visible on the plan.
+ */
+export function nearestHospitalsByFacility(
+  facilities: Facility[],
+  hospitals: BundledHospital[] = HOSPITALS,
+  limit: number = NEAREST_HOSPITAL_COUNT
+): FacilityHospitals[] {
+  return facilities
+    .filter(facility => facility.status === 'open')
+    .map(facility => ({
+      facilityId: facility.id,
+      facilityName: facility.name,
+      address: [facility.address, facility.city].filter(Boolean).join(', ') || undefined,
+      hospitals: facility.coordinates ? rankNearestHospitals(facility.coordinates, hospitals, limit) : [],
+    }))
+    .sort((a, b) => a.facilityName.localeCompare(b.facilityName));
+}
+
+/**
+ * Keep the contact numbers already entered for hospitals that are still
+ * among the nearest after a refresh
+ */
+export function keepHospitalContacts(previous: FacilityHospitals[], next: FacilityHospitals[]): FacilityHospitals[] {
+  const contacts = new Map(
+    previous.flatMap(facility => facility.hospitals).filter(hospital => hospital.contact).map(hospital => [hospital.name, hospital.contact])
+  );
+  return next.map(facility => ({
+    ...facility,
+    hospitals: facility.hospitals.map(hospital => ({ ...hospital, contact: hospital.contact || contacts.get(hospital.name) || '' })),
+  }));
+}
+
+/**
+ * Check a medical plan before it is saved. Returns one message per problem.
+ */
+export function validateMedicalPlan(plan: MedicalPlanContent): string[] {
+  const problems: string[] = [];
+  plan.medicalAidStations.forEach((station, index) => {
+    if (!station.name.trim() || !station.location.trim()) {
+      problems.push(`Medical aid station ${index + 1} needs a name and a location`);
+    }
+  });
+  plan.ambulanceServices.forEach((service, index) => {
+    if (!service.name.trim() || !service.phone.trim()) {
+      problems.push(`Ambulance service ${index + 1} needs a name and a phone number`);
+    }
+  });
+  plan.hospitals.forEach((hospital, index) => {
+    if (!hospital.name.trim()) problems.push(`Hospital ${index + 1} needs a name`);
+  });
+  return problems;
+}
@@ -0,0 +1,280 @@
+/**
+ * Operational Planning Worksheet (ICS 215)
+ *
+ * Required, have and need for each resource at each work location. Required
+ * comes from the shelter standards or feeding ratios, have from the
+ * discipline's personnel assigned to the facility and the assets its
+ * discipline console assignment has there, and every shortfall becomes an
+ * open gap so logistics can source it.
+ */
+
+import { GAPCode, getGAPCodesByCategory } from '../../data/gap-codes';
+import type { Facility, Gap, MasterDataService, PersonnelAssignment } from '../services/MasterDataService';
+import { IAP_ASSIGNMENT_STATUSES } from '../disciplines/DisciplineAssignmentProjection';
+import { catalogAssetType } from '../disciplines/DisciplineCatalog';
+import {
+  SHELTER_RATIOS,
+  ShelterStandardsInput,
+  ShelterStandardsResult,
+  calculateShelterStandards
+} from '../standards/RedCrossShelterStandards';
+import { FeedingRequirements, calculateFeedingRequirements } from '../standards/FeedingStandards';
+import { DisciplineAssignment, ResourceWorksheetRow } from '../../types';
+
+// Gaps the worksheet raised carry this so they can be closed when the need goes away
+export const WORKSHEET_GAP_SOURCE = 'ics215';
+
+export interface DeployedAsset {
+  facilityId: string;
+  type: string; // Assets library type, e.g. "Cots"
+  quantity: number;
+}
+
+export interface PlanningWorksheetInput {
+  facilities: Facility[];
+  assignments: PersonnelAssignment[];
+  assets: DeployedAsset[];
+  shelterType?: ShelterStandardsInput['shelterType'];
+}
+
+interface ResourceKind<T> {
+  kind: string;
+  category: ResourceWorksheetRow['category'];
+  unit: string;
+  required: (standards: T) => number;
+  position?: (position: string) => boolean; // Assignment positions counted as "have"
+  assetTypes?: string[]; // AssetItem types counted as "have"
+}
+
+export const SUPERVISOR_POSITION = (position: string) => /supervisor|manager|lead/i.test(position);
+export const WORKER_POSITION = (position: string) => !SUPERVISOR_POSITION(position);
+
+// A discipline's positions: its GAP codes and titles, or a title naming the discipline
+function disciplinePosition(category: GAPCode['category'], names: RegExp) {
+  const codes = getGAPCodesByCategory(category);
+  return (position: string) => names.test(position) || codes.some(gap =>
+    gap.code === position.trim().toUpperCase() || gap.title.toLowerCase() === position.trim().toLowerCase()
+  );
+}
+
+export const SHELTER_POSITION = disciplinePosition('Shelter', /shelter/i);
+export const FEEDING_POSITION = disciplinePosition('Feeding', /feeding|kitchen/i);
+
+const SHELTER_KINDS: ResourceKind<ShelterStandardsResult>[] = [
+  {
+    kind: 'Shelter Supervisors',
+    category: 'personnel',
+    unit: 'people',
+    required: s => s.personnel.supervisors,
+    position: p => SHELTER_POSITION(p) && SUPERVISOR_POSITION(p)
+  },
+  {
+    kind: 'Shelter Workers',
+    category: 'personnel',
+    unit: 'people',
+    required: s => s.personnel.shelterSupport + s.personnel.eventBasedVolunteers,
+    position: p => SHELTER_POSITION(p) && WORKER_POSITION(p)
+  },
+  { kind: 'Cots', category: 'supplies', unit: 'each', required: s => s.amenities.cots, assetTypes: ['Cots', 'ADA Cots'] },
+  { kind: 'Blankets', category: 'supplies', unit: 'each', required: s => s.amenities.blankets, assetTypes: ['Blankets'] },
+  { kind: 'Comfort Kits', category: 'supplies', unit: 'each', required: s => s.amenities.comfortKits, assetTypes: ['Comfort Kits'] },
+  {
+    kind: 'Hand Wash Stations',
+    category: 'equipment',
+    unit: 'each',
+    required: s => s.sanitation.handwashStations,
+    assetTypes: ['Hand Wash Stations']
+  },
+];
+
+const FEEDING_KINDS: ResourceKind<FeedingRequirements>[] = [
+  {
+    kind: 'Feeding Supervisors',
+    category: 'personnel',
+    unit: 'people',
+    required: f => f.personnel.supervisors,
+    position: p => FEEDING_POSITION(p) && SUPERVISOR_POSITION(p)
+  },
+  {
+    kind: 'Feeding Workers',
+    category: 'personnel',
+    unit: 'people',
+    required: f => f.personnel.feedingWorkers,
+    position: p => FEEDING_POSITION(p) && WORKER_POSITION(p)
+  },
+  { kind: 'Cambros', category: 'equipment', unit: 'each', required: f => f.equipment.cambros, assetTypes: ['Cambros'] },
+  { kind: 'Serving Tables', category: 'equipment', unit: 'each', required: f => f.equipment.servingTables, assetTypes: ['Serving Tables'] },
+  {
+    kind: 'Hand Wash Stations',
+    category: 'equipment',
+    unit: 'each',
+    required: f => f.equipment.handwashStations,
+    assetTypes: ['Hand Wash Stations']
+  },
+];
+
+/**
+ * Assets at each facility from the discipline console: the "have" of every
+ * asset row on a submitted or approved assignment whose site is the facility
+ */
+export function disciplineDeployments(assignments: DisciplineAssignment[], facilities: Facility[]): DeployedAsset[] {
+  return consoleSites(assignments, facilities).flatMap(({ assignment, facility }) =>
+    assignment.assets.items.flatMap(row => {
+      const type = catalogAssetType(row.code);
+      return type && row.have > 0 ? [{ facilityId: facility.id, type, quantity: row.have }] : [];
+    })
+  );
+}
+
+/**
+ * Ids of the facilities a submitted or approved console assignment covers.
+ * Only these have a known asset count; elsewhere no assets means no data.
+ */
+export function disciplineSiteIds(assignments: DisciplineAssignment[], facilities: Facility[]): Set<string> {
+  return new Set(consoleSites(assignments, facilities).map(({ facility }) => facility.id));
+}
+
+function consoleSites(assignments: DisciplineAssignment[], facilities: Facility[]) {
+  const byName = new Map(facilities.map(facility => [facility.name.trim().toLowerCase(), facility]));
+  return assignments.flatMap(assignment => {
+    const facility = byName.get(assignment.site.name.trim().toLowerCase());
+    return facility && IAP_ASSIGNMENT_STATUSES.includes(assignment.status) ? [{ assignment, facility }] : [];
+  });
+}
+
+/**
+ * Worksheet rows for every shelter and feeding site that is not closed
+ */
+export function buildPlanningWorksheet(input: PlanningWorksheetInput): ResourceWorksheetRow[] {
+  const shelterType = input.shelterType || 'emergency_evacuation';
+
+  return input.facilities
+    .filter(facility => facility.status !== 'closed')
+    .flatMap(facility => {
+      const population = facility.capacity?.current || facility.capacity?.maximum || 0;
+      const assignments = input.assignments.filter(assignment =>
+        assignment.facility_id === facility.id && assignment.status !== 'completed' && assignment.status !== 'cancelled'
+      );
+      const assets = input.assets.filter(deployed => deployed.facilityId === facility.id);
+
+      if (facility.facility_type === 'shelter') {
+        const standards = calculateShelterStandards({
+          expectedPopulation: population,
+          shelterType,
+          facilitySize: (facility.capacity?.maximum || population) * SHELTER_RATIOS.SPACE_PER_PERSON
+        });
+        return rowsFor(facility, SHELTER_KINDS, standards, assignments, assets, `Shelter standards, ${population} clients`);
+      }
+      if (facility.facility_type === 'feeding') {
+        const requirements = calculateFeedingRequirements(population);
+        return rowsFor(facility, FEEDING_KINDS, requirements, assignments, assets, `Feeding ratios, ${population} meals/day`);
+      }
+      return [];
+    });
+}
+
+/**
+ * Gaps to add for new shortfalls, and existing worksheet gaps to update or
+ * mark filled. Gaps raised by hand are never touched.
+ */
+export function worksheetGapChanges(
+  operationId: string,
+  rows: ResourceWorksheetRow[],
+  existing: Gap[]
+): { add: Omit<Gap, 'id'>[]; update: Gap[] } {
+  const add: Omit<Gap, 'id'>[] = [];
+  const update: Gap[] = [];
+  const open = existing.filter(gap =>
+    gap.requirements?.source === WORKSHEET_GAP_SOURCE && (gap.status === 'open' || gap.status === 'requested')
+  );
+  const matches = (gap: Gap, row: ResourceWorksheetRow) => gap.facility_id === row.facilityId && gap.gap_category === row.resourceKind;
+
+  rows.forEach(row => {
+    const gap = open.find(candidate => matches(candidate, row));
+    if (row.need > 0) {
+      const fields = {
+        quantity_needed: row.need,
+        quantity_available: row.have,
+        priority: gapPriority(row),
+        description: `${row.facilityName}: short ${row.need} ${row.resourceKind.toLowerCase()} (${row.have} of ${row.required} required)`
+      };
+      if (!gap) {
+        add.push({
+          operation_id: operationId,
+          facility_id: row.facilityId,
+          gap_type: row.category,
+          gap_category: row.resourceKind,
+          status: 'open',
+          requirements: { source: WORKSHEET_GAP_SOURCE, basis: row.basis },
+          ...fields
+        });
+      } else if (gap.quantity_needed !== row.need || gap.quantity_available !== row.have) {
+        update.push({ ...gap, ...fields });
+      }
+    } else if (gap) {
+      update.push({ ...gap, quantity_needed: 0, quantity_available: row.have, status: 'filled', filled_date: new Date() });
+    }
+  });
+
+  return { add, update };
+}
+
+/**
+ * Bring the operation's gaps in line with the worksheet
+ */
+export async function syncWorksheetGaps(
+  operationId: string,
+  rows: ResourceWorksheetRow[],
+  masterData: Pick<MasterDataService, 'getGaps' | 'addGap' | 'updateGap'>
+): Promise<{ added: number; updated: number }> {
+  const { add, update } = worksheetGapChanges(operationId, rows, await masterData.getGaps(operationId));
+  for (const gap of add) {
+    await masterData.addGap(gap);
+  }
+  for (const gap of update) {
+    await masterData.updateGap(gap);
+  }
+  return { added: add.length, updated: update.length };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function rowsFor<T>(
+  facility: Facility,
+  kinds: ResourceKind<T>[],
+  standards: T,
+  assignments: PersonnelAssignment[],
+  assets: DeployedAsset[],
+  basis: string
+): ResourceWorksheetRow[] {
+  return kinds.map(kind => {
+    const { position } = kind;
+    const required = kind.required(standards);
+    const have = position
+      ? assignments.filter(assignment => position(assignment.position)).length
+      : assets
+        .filter(deployed => kind.assetTypes?.includes(deployed.type))
+        .reduce((sum, deployed) => sum + deployed.quantity, 0);
+
+    return {
+      facilityId: facility.id,
+      facilityName: facility.name,
+      resourceKind: kind.kind,
+      category: kind.category,
+      unit: kind.unit,
+      required,
+      have,
+      need: Math.max(required - have, 0),
+      basis
+    };
+  });
+}
+
+function gapPriority(row: ResourceWorksheetRow): Gap['priority'] {
+  const shortfall = row.required > 0 ? row.need / row.required : 0;
+  if (shortfall >= 0.5) return 'critical';
+  if (shortfall >= 0.25) return 'high';
+  return 'medium';
+}
@@ -0,0 +1,65 @@
+/**
+ * Communications Plan Tests
+ *
+ * Validates the call sign roster built from personnel and the checks run
+ * before a comms plan is saved
+ */
+
+import { callSignsFromPersonnel, commsPlanContent, mergeCallSigns, validateCommsPlan } from '../CommsPlan';
+import type { Personnel } from '../../services/MasterDataService';
+
+const person = (overrides: Partial<Personnel>): Personnel => ({
+  id: overrides.id || 'p-1',
+  operation_id: 'op-1',
+  first_name: 'Lee',
+  last_name: 'Chen',
+  ...overrides,
+});
+
+describe('callSignsFromPersonnel', () => {
+  it('lists people with call signs in call sign order', () => {
+    const roster = callSignsFromPersonnel([
+      person({ id: 'p-1', radio_call_sign: 'SHELTER-10', primary_position: 'Shelter Manager', section: 'operations' }),
+      person({ id: 'p-2', first_name: 'Ana', last_name: 'Ruiz', radio_call_sign: ' SHELTER-2 ' }),
+      person({ id: 'p-3', first_name: 'No', last_name: 'Radio' }),
+    ]);
+
+    expect(roster).toEqual([
+      { callSign: 'SHELTER-2', name: 'Ana Ruiz', position: undefined, section: undefined },
+      { callSign: 'SHELTER-10', name: 'Lee Chen', position: 'Shelter Manager', section: 'operations' },
+    ]);
+  });
+
+  it('keeps hand-entered call signs when refreshing from personnel', () => {
+    const merged = mergeCallSigns(
+      [
+        { callSign: 'shelter-10', name: 'Old Name' },
+        { callSign: 'EOC-1', name: 'County EOC' },
+      ],
+      [person({ radio_call_sign: 'SHELTER-10' })]
+    );
+
+    expect(merged.map(entry => `${entry.callSign} ${entry.name}`)).toEqual(['EOC-1 County EOC', 'SHELTER-10 Lee Chen']);
+  });
+});
+
+describe('validateCommsPlan', () => {
+  it('flags incomplete rows and duplicate call signs', () => {
+    const plan = {
+      ...commsPlanContent(undefined),
+      basicRadioChannel: [{ function: 'Command', channel: '', frequency: '155.205', system: 'VHF' }],
+      phoneBridges: [{ name: 'Ops call', dialIn: '' }],
+      callSigns: [
+        { callSign: 'OPS-1', name: 'Lee Chen' },
+        { callSign: 'ops-1', name: 'Ana Ruiz' },
+      ],
+    };
+
+    expect(validateCommsPlan(plan)).toEqual([
+      'Radio channel 1 needs a function and a channel name',
+      'Phone bridge 1 needs a name and a dial-in number',
+      'Call sign ops-1 is assigned more than once',
+    ]);
+    expect(validateCommsPlan(commsPlanContent(undefined))).toEqual([]);
+  });
+});
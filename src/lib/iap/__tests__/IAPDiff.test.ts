@@ -0,0 +1,114 @@
+/**
+ * IAP Diff Tests
+ *
+ * Validates the per-section differences shown as "Changes since last period"
+ */
+
+import { diffIAP, describeDiffEntry } from '../IAPDiff';
+import { IAPDocument } from '../../../types';
+
+function iap(iapNumber: number, overrides: Record<string, any> = {}): IAPDocument {
+  return {
+    id: `iap-${iapNumber}`,
+    operationId: 'op-1',
+    iapNumber,
+    operationalPeriod: {
+      start: new Date(`2025-09-0${iapNumber}T06:00:00.000Z`),
+      end: new Date(`2025-09-0${iapNumber + 1}T06:00:00.000Z`),
+    },
+    status: 'published',
+    version: 1,
+    createdAt: new Date(`2025-09-0${iapNumber}T06:00:00.000Z`),
+    updatedAt: new Date(`2025-09-0${iapNumber}T06:00:00.000Z`),
+    sections: {
+      incidentObjectives: {
+        objectives: ['Open shelters in Pasco County', 'Feed 2,000 meals per day'],
+        priorities: ['Life safety'],
+      },
+      organizationChart: {
+        incidentCommander: 'Virginia Mewborn',
+        sections: {
+          operations: { chief: 'Gary Pelletier' },
+          planning: { chief: 'Dana Ruiz' },
+        },
+      },
+      ...overrides,
+    },
+  } as unknown as IAPDocument;
+}
+
+describe('diffIAP', () => {
+  it('reports no changes between identical plans', () => {
+    const diff = diffIAP(iap(1), iap(1));
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.sections).toEqual([]);
+  });
+
+  it('lists objectives added and removed', () => {
+    const next = iap(2, {
+      incidentObjectives: {
+        objectives: ['Feed 2,000 meals per day', 'Open distribution sites'],
+        priorities: ['Life safety'],
+      },
+    });
+
+    const diff = diffIAP(iap(1), next);
+    const objectives = diff.sections.find(section => section.section === 'incidentObjectives')!;
+
+    expect(objectives.changes).toEqual([
+      { kind: 'removed', field: 'objectives', label: 'Objective', before: 'Open shelters in Pasco County' },
+      { kind: 'added', field: 'objectives', label: 'Objective', after: 'Open distribution sites' },
+    ]);
+    expect(diff.from.iapNumber).toBe(1);
+    expect(diff.to.iapNumber).toBe(2);
+  });
+
+  it('tracks org chart positions changing hands', () => {
+    const next = iap(2, {
+      organizationChart: {
+        incidentCommander: 'Virginia Mewborn',
+        safetyOfficer: 'Lee Chen',
+        sections: {
+          operations: { chief: 'Maria Santos' },
+        },
+      },
+    });
+
+    const changes = diffIAP(iap(1), next).sections.find(section => section.section === 'organizationChart')!.changes;
+
+    expect(changes).toEqual(expect.arrayContaining([
+      { kind: 'added', field: 'Safety Officer', label: 'Safety Officer filled', after: 'Lee Chen' },
+      { kind: 'changed', field: 'Operations Section Chief', label: 'Operations Section Chief', before: 'Gary Pelletier', after: 'Maria Santos' },
+      { kind: 'removed', field: 'Planning Section Chief', label: 'Planning Section Chief vacated', before: 'Dana Ruiz' },
+    ]));
+    expect(describeDiffEntry(changes.find(entry => entry.kind === 'changed')!))
+      .toBe('~ Operations Section Chief: Gary Pelletier -> Maria Santos');
+  });
+
+  it('reports facilities opened and closed', () => {
+    const diff = diffIAP(
+      {
+        iap: iap(1),
+        facilities: [
+          { id: 'f-1', name: 'Pasco High Shelter', status: 'open' },
+          { id: 'f-2', name: 'Zephyrhills Kitchen', status: 'planned' },
+        ],
+      },
+      {
+        iap: iap(2),
+        facilities: [
+          { id: 'f-1', name: 'Pasco High Shelter', status: 'closed' },
+          { id: 'f-2', name: 'Zephyrhills Kitchen', status: 'open' },
+          { id: 'f-3', name: 'Dade City POD', status: 'standby' },
+        ],
+      }
+    );
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.facilities.map(facility => [facility.id, facility.change])).toEqual([
+      ['f-1', 'closed'],
+      ['f-2', 'opened'],
+      ['f-3', 'added'],
+    ]);
+  });
+});
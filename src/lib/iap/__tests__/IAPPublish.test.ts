@@ -0,0 +1,209 @@
+/**
+ * IAP Publish Workflow Tests
+ *
+ * Validates the review state machine, named approvers and the locked snapshot
+ */
+
+import { submitForReview, returnToDraft, approveIAP, publishIAP } from '../IAPPublish';
+import { canTransition, isIAPEditable } from '../iapStatus';
+import { IAPProjector } from '../../projections/IAPProjector';
+import { Event, EventType } from '../../events/types';
+import type { LocalStore } from '../../store/LocalStore';
+
+const mockLog: Event[] = [];
+
+jest.mock('../../store/LocalStore', () => ({
+  getLocalStore: () => ({
+    appendEvent: async (event: Event) => {
+      mockLog.push(event);
+      return event;
+    },
+    getEvent: async (eventId: string) => mockLog.find(event => event.id === eventId),
+  }),
+}));
+
+function iapCreated(): Event {
+  return {
+    id: 'iap-1',
+    type: EventType.IAP_CREATED,
+    schemaVersion: 1,
+    actorId: 'planning-chief',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.parse('2025-09-01T05:00:00.000Z'),
+    payload: {
+      iapNumber: 4,
+      operationalPeriodStart: '2025-09-01T06:00:00.000Z',
+      operationalPeriodEnd: '2025-09-02T06:00:00.000Z',
+      preparedBy: 'Gary Pelletier',
+    },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+async function draftIAP(projector: IAPProjector) {
+  await projector.processEvent(iapCreated());
+  return projector.getIAPDocument('iap-1')!;
+}
+
+function editDirectorsMessage(projector: IAPProjector, text: string) {
+  return projector.processEvent({
+    id: `edit-${text}`,
+    type: EventType.DIRECTORS_MESSAGE_UPDATED,
+    schemaVersion: 1,
+    actorId: 'planning-chief',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.now(),
+    payload: { iapId: 'iap-1', content: { html: `<p>${text}</p>`, plainText: text }, lastEditedBy: 'Gary Pelletier' },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  });
+}
+
+describe('IAP status lifecycle', () => {
+  it('only allows the documented transitions', () => {
+    expect(canTransition('draft', 'in_review')).toBe(true);
+    expect(canTransition('draft', 'published')).toBe(false);
+    expect(canTransition('in_review', 'draft')).toBe(true);
+    expect(canTransition('approved', 'published')).toBe(true);
+    expect(canTransition('published', 'draft')).toBe(false);
+  });
+
+  it('keeps sections editable only in draft and review', () => {
+    expect(isIAPEditable('draft')).toBe(true);
+    expect(isIAPEditable('in_review')).toBe(true);
+    expect(isIAPEditable('approved')).toBe(false);
+    expect(isIAPEditable('published')).toBe(false);
+  });
+});
+
+describe('IAP publish workflow', () => {
+  beforeEach(() => {
+    mockLog.length = 0;
+  });
+
+  it('requires a named approver who is not the preparer', async () => {
+    const projector = new IAPProjector();
+    const iap = await draftIAP(projector);
+
+    await expect(submitForReview(iap, {}, projector)).rejects.toThrow('Name who prepared');
+    await expect(
+      submitForReview(iap, { approvedBy: 'gary pelletier' }, projector)
+    ).rejects.toThrow('someone other than the preparer');
+  });
+
+  it('lets only the named approver approve', async () => {
+    const projector = new IAPProjector();
+    let iap = await draftIAP(projector);
+
+    iap = await submitForReview(iap, { approvedBy: 'Virginia Mewborn' }, projector);
+    expect(iap.status).toBe('in_review');
+    expect(iap.sections.coverPage.approvedBy).toBe('Virginia Mewborn');
+
+    await expect(approveIAP(iap, 'Gary Pelletier', projector)).rejects.toThrow('Virginia Mewborn');
+    iap = await approveIAP(iap, 'virginia mewborn', projector);
+    expect(iap.status).toBe('approved');
+  });
+
+  it('can send a plan back to draft with a reason', async () => {
+    const projector = new IAPProjector();
+    let iap = await draftIAP(projector);
+    iap = await submitForReview(iap, { approvedBy: 'Virginia Mewborn' }, projector);
+
+    iap = await returnToDraft(iap, 'Virginia Mewborn', 'Add the weather summary', projector);
+    expect(iap.status).toBe('draft');
+    expect(iap.review?.returnReason).toBe('Add the weather summary');
+  });
+
+  it('publishes a locked snapshot that later edits cannot change', async () => {
+    const projector = new IAPProjector();
+    let iap = await draftIAP(projector);
+    await editDirectorsMessage(projector, 'Stay safe');
+
+    iap = await submitForReview(iap, { approvedBy: 'Virginia Mewborn' }, projector);
+    iap = await approveIAP(iap, 'Virginia Mewborn', projector);
+    iap = await publishIAP(iap, ['All Section Chiefs'], projector);
+
+    expect(iap.status).toBe('published');
+    const snapshot = iap.officialSnapshot!;
+    expect(snapshot.isLocked).toBe(true);
+    expect(projector.verifySnapshot(snapshot)).toBe(true);
+
+    const published = mockLog.find(event => event.type === EventType.IAP_PUBLISHED)!;
+    expect(published.payload.contentHash).toBe(snapshot.contentHash);
+    expect(published.causationId).toBe('iap-1');
+
+    // Edits to a published plan are refused, and the snapshot cannot be written to
+    await editDirectorsMessage(projector, 'Changed after publishing');
+    expect(projector.getIAPDocument('iap-1')!.directorsMessage.plainText).toBe('Stay safe');
+    expect(() => {
+      (snapshot.data.directorsMessage as any).plainText = 'Tampered';
+    }).toThrow();
+    expect(snapshot.data.directorsMessage.plainText).toBe('Stay safe');
+  });
+
+  it('refuses to publish before approval', async () => {
+    const projector = new IAPProjector();
+    const iap = await draftIAP(projector);
+
+    await expect(publishIAP(iap, [], projector)).rejects.toThrow('cannot move from Draft to Published');
+  });
+
+  it('rebuilds review and publish state from the log after a reload', async () => {
+    const projector = new IAPProjector();
+    let iap = await draftIAP(projector);
+    iap = await submitForReview(iap, { approvedBy: 'Virginia Mewborn' }, projector);
+    iap = await approveIAP(iap, 'Virginia Mewborn', projector);
+    await publishIAP(iap, ['All Section Chiefs'], projector);
+
+    const log = [iapCreated(), ...mockLog];
+    const store = { getEvents: async () => log } as unknown as LocalStore;
+    const reloaded = new IAPProjector();
+    await reloaded.loadOperation('op-1', store);
+    // Catching up again applies nothing twice
+    await reloaded.loadOperation('op-1', store);
+
+    const restored = reloaded.getIAPDocument('iap-1');
+    expect(restored).toMatchObject({
+      status: 'published',
+      version: projector.getIAPDocument('iap-1')?.version,
+      sections: { coverPage: { approvedBy: 'Virginia Mewborn' } },
+    });
+    expect(restored?.officialSnapshot && reloaded.verifySnapshot(restored.officialSnapshot)).toBe(true);
+  });
+
+  it('reads only the log after its last catch-up', async () => {
+    const log = [{ ...iapCreated(), logPosition: 1 }];
+    const store = {
+      getEvents: jest.fn(async () => log),
+      getEventsAfter: jest.fn(async (_operationId: string, logPosition: number) =>
+        log.filter(event => (event.logPosition || 0) > logPosition)
+      ),
+    };
+    const projector = new IAPProjector();
+    await projector.loadOperation('op-1', store);
+    await projector.loadOperation('op-1', store);
+
+    expect(store.getEvents).toHaveBeenCalledTimes(1);
+    expect(store.getEventsAfter).toHaveBeenLastCalledWith('op-1', 1);
+    expect(projector.getIAPDocument('iap-1')).toBeDefined();
+  });
+
+  it('keeps the first of two devices opening the same IAP', async () => {
+    const projector = new IAPProjector();
+    await draftIAP(projector);
+
+    await projector.processEvent({
+      ...iapCreated(),
+      id: 'other-device-create',
+      deviceId: 'laptop-b',
+      payload: { ...iapCreated().payload, iapId: 'iap-1', preparedBy: 'Someone Else' },
+    });
+
+    expect(projector.getIAPDocument('iap-1')?.sections.coverPage.preparedBy).toBe('Gary Pelletier');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * IAP Rollover Tests
+ *
+ * Validates what period N+1 inherits from the published IAP for period N
+ */
+
+import { planRollover } from '../IAPRollover';
+import { IAPProjector } from '../../projections/IAPProjector';
+import { Event, EventType } from '../../events/types';
+import type { DailyScheduleEntry, Gap, WorkAssignment } from '../../services/MasterDataService';
+import { EnhancedIAPDocument } from '../../../types';
+
+jest.mock('../../store/LocalStore', () => ({
+  getLocalStore: () => ({}),
+}));
+
+const PERIOD_START = new Date(2025, 8, 1, 6, 0);
+const PERIOD_END = new Date(2025, 8, 2, 6, 0);
+
+function iapEvent(type: EventType, payload: any, timestamp = PERIOD_START.getTime()): Event {
+  return {
+    id: `${type}-${timestamp}`,
+    type,
+    schemaVersion: 1,
+    actorId: 'planning-chief',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp,
+    payload,
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+async function publishedIAP(): Promise<EnhancedIAPDocument> {
+  const projector = new IAPProjector();
+  await projector.processEvent(iapEvent(EventType.IAP_CREATED, {
+    iapId: 'iap-1',
+    iapNumber: 1,
+    operationalPeriodStart: PERIOD_START.toISOString(),
+    operationalPeriodEnd: PERIOD_END.toISOString(),
+    preparedBy: 'Planning Chief',
+  }));
+
+  const iap = projector.getIAPDocument('iap-1')!;
+  iap.status = 'published';
+  iap.sections.incidentObjectives.objectives = ['Open shelters in every county', 'Stand up feeding'];
+  iap.incidentPriorities.lifeSafety = [
+    {
+      id: 'p-1',
+      description: 'Stand up feeding',
+      status: 'completed',
+      assignedTo: 'Feeding Lead',
+      measurableOutcome: '3 kitchens serving',
+      progress: 100,
+    },
+    {
+      id: 'p-2',
+      description: 'Open shelters in every county',
+      status: 'in_progress',
+      assignedTo: 'Shelter Lead',
+      measurableOutcome: '1 shelter per county',
+      progress: 60,
+    },
+  ];
+  iap.organizationChart.incidentCommander = 'Jordan Lee';
+  iap.dailySchedule.briefings = [{
+    id: 'b-1',
+    title: 'Morning Briefing',
+    dateTime: new Date(2025, 8, 1, 7, 0),
+    location: 'HQ',
+    presenter: 'DRO Director',
+    attendees: [],
+    topics: [],
+  }];
+  iap.dailySchedule.specialEvents = [{
+    id: 's-1',
+    title: 'Governor visit',
+    dateTime: new Date(2025, 8, 1, 13, 0),
+    location: 'Shelter A',
+    description: '',
+    coordinator: 'External Relations',
+  }];
+  return iap;
+}
+
+describe('planRollover', () => {
+  it('numbers the next IAP and starts its period where the last one ended', async () => {
+    const plan = planRollover(await publishedIAP(), { preparedBy: 'Planning Chief' });
+
+    expect(plan.iapNumber).toBe(2);
+    expect(plan.operationalPeriod.start).toEqual(PERIOD_END);
+    expect(plan.operationalPeriod.end).toEqual(new Date(2025, 8, 3, 6, 0));
+    expect(plan.carryForward.previousIapId).toBe('iap-1');
+  });
+
+  it('carries forward open objectives and the org chart, not completed ones', async () => {
+    const { carryForward } = planRollover(await publishedIAP(), { preparedBy: 'Planning Chief' });
+
+    expect(carryForward.objectives).toEqual(['Open shelters in every county']);
+    expect(carryForward.incidentPriorities.lifeSafety.map(p => p.id)).toEqual(['p-2']);
+    expect(carryForward.completedObjectives.map(o => o.id)).toEqual(['p-1']);
+    expect(carryForward.organizationChart.incidentCommander).toBe('Jordan Lee');
+  });
+
+  it('carries active work assignments and open gaps', async () => {
+    const workAssignments = [
+      { id: 'wa-1', operation_id: 'op-1', assignment_type: 'shelter', title: 'Shelter A', status: 'in-progress' },
+      { id: 'wa-2', operation_id: 'op-1', assignment_type: 'feeding', title: 'Kitchen 2', status: 'completed' },
+    ] as WorkAssignment[];
+    const gaps = [
+      { id: 'g-1', operation_id: 'op-1', gap_type: 'personnel', gap_category: 'Shelter staff', quantity_needed: 6, quantity_available: 2, status: 'open' },
+      { id: 'g-2', operation_id: 'op-1', gap_type: 'supplies', quantity_needed: 100, status: 'filled' },
+    ] as Gap[];
+
+    const { carryForward } = planRollover(await publishedIAP(), {
+      preparedBy: 'Planning Chief',
+      workAssignments,
+      gaps,
+    });
+
+    expect(carryForward.workAssignments).toEqual(['Shelter A']);
+    expect(carryForward.carryForwardItems.map(item => item.id)).toEqual(['wa-1', 'g-1']);
+    expect(carryForward.carryForwardItems[1].description).toBe('Shelter staff: 4 short');
+  });
+
+  it('moves the recurring schedule to the new period and drops one-off events', async () => {
+    const { carryForward } = planRollover(await publishedIAP(), { preparedBy: 'Planning Chief' });
+
+    expect(carryForward.dailySchedule.briefings[0].dateTime).toEqual(new Date(2025, 8, 2, 7, 0));
+    expect(carryForward.dailySchedule.specialEvents).toEqual([]);
+  });
+
+  it('places daily schedule entries on the new dates', async () => {
+    const schedule = [
+      { id: '1', operation_id: 'op-1', time: '07:00', event_name: 'Morning Briefing', event_type: 'briefing' },
+      { id: '2', operation_id: 'op-1', time: '05:00', event_name: 'Night Ops Check', event_type: 'operation' },
+      { id: '3', operation_id: 'op-1', time: '16:00', event_name: 'Resource Requests', event_type: 'deadline' },
+      { id: '4', operation_id: 'op-1', time: '12:00', event_name: 'Retired Call', status: 'cancelled' },
+    ] as DailyScheduleEntry[];
+
+    const { carryForward } = planRollover(await publishedIAP(), { preparedBy: 'Planning Chief', schedule });
+
+    expect(carryForward.dailySchedule.briefings[0].dateTime).toEqual(new Date(2025, 8, 2, 7, 0));
+    expect(carryForward.dailySchedule.deadlines[0].dueDateTime).toEqual(new Date(2025, 8, 2, 16, 0));
+    // 05:00 falls before the 06:00 start, so it lands on the following morning
+    expect(carryForward.dailySchedule.meetings).toEqual([
+      expect.objectContaining({ purpose: 'Night Ops Check', dateTime: new Date(2025, 8, 3, 5, 0) }),
+    ]);
+  });
+
+  it('seeds the draft from the carry-forward when the projector sees IAP_CREATED', async () => {
+    const plan = planRollover(await publishedIAP(), { preparedBy: 'Planning Chief' });
+    const projector = new IAPProjector();
+
+    await projector.processEvent(iapEvent(EventType.IAP_CREATED, {
+      iapId: 'iap-2',
+      iapNumber: plan.iapNumber,
+      operationalPeriodStart: plan.operationalPeriod.start.toISOString(),
+      operationalPeriodEnd: plan.operationalPeriod.end.toISOString(),
+      preparedBy: 'Planning Chief',
+      previousIapId: 'iap-1',
+      carryForward: JSON.parse(JSON.stringify(plan.carryForward)),
+    }, PERIOD_END.getTime()));
+
+    const draft = projector.getIAPDocument('iap-2')!;
+    expect(draft.status).toBe('draft');
+    expect(draft.sections.incidentObjectives.objectives).toEqual(['Open shelters in every county']);
+    expect(draft.sections.organizationChart.incidentCommander).toBe('Jordan Lee');
+    expect(draft.dailySchedule.briefings[0].dateTime).toEqual(new Date(2025, 8, 2, 7, 0));
+  });
+
+  it('links the draft to the IAP it carries forward from', async () => {
+    const plan = planRollover(await publishedIAP(), { preparedBy: 'Planning Chief' });
+    const projector = new IAPProjector();
+    await projector.processEvent(iapEvent(EventType.IAP_CREATED, {
+      iapId: 'iap-1',
+      iapNumber: 1,
+      operationalPeriodStart: PERIOD_START.toISOString(),
+      operationalPeriodEnd: PERIOD_END.toISOString(),
+      preparedBy: 'Planning Chief',
+    }));
+    await projector.processEvent(iapEvent(EventType.IAP_CREATED, {
+      iapId: 'iap-2',
+      iapNumber: plan.iapNumber,
+      operationalPeriodStart: plan.operationalPeriod.start.toISOString(),
+      operationalPeriodEnd: plan.operationalPeriod.end.toISOString(),
+      preparedBy: 'Planning Chief',
+      carryForward: JSON.parse(JSON.stringify(plan.carryForward)),
+    }, PERIOD_END.getTime()));
+
+    const draft = projector.getIAPDocument('iap-2');
+    expect(draft?.previousIapId).toBe('iap-1');
+    expect(draft && projector.getPreviousIAP(draft)?.id).toBe('iap-1');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * IAP Template Tests
+ *
+ * Validates section resolution, template validation and reordering
+ */
+
+import {
+  IAP_TEMPLATES,
+  getIAPTemplate,
+  moveIAPTemplateSection,
+  resolveIAPSections,
+  validateIAPTemplate,
+} from '../IAPTemplates';
+import { IAPTemplate } from '../../../types';
+
+describe('resolveIAPSections', () => {
+  it('lists enabled sections in template order with their titles', () => {
+    const sections = resolveIAPSections(IAP_TEMPLATES.small);
+    const ids = sections.map(section => section.id);
+
+    expect(ids[0]).toBe('cover');
+    expect(ids).not.toContain('government_ops');
+    expect(ids).not.toContain('damage_assessment');
+    expect(sections.find(section => section.id === 'priorities')).toMatchObject({
+      title: 'Incident Priorities and Objectives',
+      pageBreak: 'none',
+    });
+  });
+
+  it('uses custom headers and gives each annex its own key', () => {
+    const template: IAPTemplate = {
+      ...IAP_TEMPLATES.large,
+      sections: IAP_TEMPLATES.large.sections.map(section =>
+        section.id === 'maps' ? { ...section, header: 'Maps - Pasco County' } : section
+      ),
+    };
+    const sections = resolveIAPSections(template);
+
+    expect(sections.find(section => section.id === 'maps')?.title).toBe('Maps - Pasco County');
+    expect(sections.filter(section => section.id === 'annex').map(section => section.key)).toEqual([
+      'annex-safety_notices',
+      'annex-policy_updates',
+      'annex-parking_instructions',
+      'annex-rental_car_info',
+      'annex-checkout_procedures',
+    ]);
+  });
+});
+
+describe('validateIAPTemplate', () => {
+  it('accepts the built-in templates', () => {
+    Object.values(IAP_TEMPLATES).forEach(template => expect(() => validateIAPTemplate(template)).not.toThrow());
+  });
+
+  it('rejects templates that do not start with the cover or repeat a section', () => {
+    const standard = getIAPTemplate();
+
+    expect(() => validateIAPTemplate({ ...standard, sections: standard.sections.slice(1) }))
+      .toThrow('must start with the cover page');
+    expect(() => validateIAPTemplate({ ...standard, sections: [...standard.sections, standard.sections[3]] }))
+      .toThrow('lists Incident Organization Chart more than once');
+    expect(() => validateIAPTemplate({ ...standard, sections: [...standard.sections, { id: 'annex', enabled: true }] }))
+      .toThrow('has an annex without a content category');
+  });
+});
+
+describe('moveIAPTemplateSection', () => {
+  it('swaps neighbours but keeps the cover first', () => {
+    const standard = getIAPTemplate();
+    const moved = moveIAPTemplateSection(standard, 2, -1);
+
+    expect(moved.sections.slice(0, 3).map(section => section.id)).toEqual(['cover', 'contact_roster', 'directors_message']);
+    expect(moveIAPTemplateSection(standard, 1, -1)).toBe(standard);
+    expect(moveIAPTemplateSection(standard, 0, 1)).toBe(standard);
+  });
+});
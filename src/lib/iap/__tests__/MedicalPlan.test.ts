@@ -0,0 +1,94 @@
+/**
+ * Medical Plan Tests
+ *
+ * Validates nearest-hospital ranking for open facilities and the checks run
+ * before a medical plan is saved
+ */
+
+import {
+  keepHospitalContacts,
+  medicalPlanContent,
+  nearestHospitalsByFacility,
+  rankNearestHospitals,
+  validateMedicalPlan,
+} from '../MedicalPlan';
+import type { BundledHospital } from '../../../data/hospitals';
+import type { Facility } from '../../services/MasterDataService';
+
+const hospital = (id: string, lat: number, lng: number, overrides: Partial<BundledHospital> = {}): BundledHospital => ({
+  id,
+  name: `${id} Hospital`,
+  address: '1 Main St',
+  city: 'Tampa',
+  county: 'Hillsborough',
+  state: 'FL',
+  coordinates: { lat, lng },
+  burnCenter: false,
+  helipad: false,
+  ...overrides,
+});
+
+const HOSPITALS = [
+  hospital('Far', 28.5, -82.4),
+  hospital('Near', 28.01, -82.4, { traumaLevel: 2, helipad: true }),
+  hospital('Middle', 28.1, -82.4),
+];
+
+const facility = (overrides: Partial<Facility>): Facility => ({
+  id: 'f-1',
+  operation_id: 'op-1',
+  facility_type: 'shelter',
+  name: 'Pasco High Shelter',
+  status: 'open',
+  coordinates: { lat: 28.0, lng: -82.4 },
+  ...overrides,
+});
+
+describe('rankNearestHospitals', () => {
+  it('orders hospitals by haversine distance and estimates drive time', () => {
+    const ranked = rankNearestHospitals({ lat: 28.0, lng: -82.4 }, HOSPITALS, 2);
+
+    expect(ranked.map(entry => entry.name)).toEqual(['Near Hospital', 'Middle Hospital']);
+    expect(ranked[0]).toMatchObject({
+      address: '1 Main St, Tampa, FL',
+      distanceMiles: 0.7,
+      travelTime: '2 min ground',
+      traumaCenter: true,
+      helipad: true,
+    });
+  });
+});
+
+describe('nearestHospitalsByFacility', () => {
+  it('covers open facilities only, and flags those without coordinates', () => {
+    const result = nearestHospitalsByFacility([
+      facility({}),
+      facility({ id: 'f-2', name: 'Closed Shelter', status: 'closed' }),
+      facility({ id: 'f-3', name: 'Dade City Kitchen', coordinates: undefined }),
+    ], HOSPITALS, 1);
+
+    expect(result).toEqual([
+      expect.objectContaining({ facilityId: 'f-3', hospitals: [] }),
+      expect.objectContaining({ facilityId: 'f-1', hospitals: [expect.objectContaining({ name: 'Near Hospital' })] }),
+    ]);
+  });
+
+  it('keeps contacts already entered when hospitals are refreshed', () => {
+    const before = nearestHospitalsByFacility([facility({})], HOSPITALS, 1);
+    before[0].hospitals[0].contact = '813-555-0100';
+    const after = keepHospitalContacts(before, nearestHospitalsByFacility([facility({})], HOSPITALS, 2));
+
+    expect(after[0].hospitals.map(entry => entry.contact)).toEqual(['813-555-0100', '']);
+  });
+});
+
+describe('validateMedicalPlan', () => {
+  it('requires names and phone numbers', () => {
+    const plan = {
+      ...medicalPlanContent(undefined),
+      ambulanceServices: [{ name: 'Pasco Fire Rescue', address: '', phone: '', paramedics: true }],
+    };
+
+    expect(validateMedicalPlan(plan)).toEqual(['Ambulance service 1 needs a name and a phone number']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Planning Worksheet Tests
+ *
+ * Validates the ICS 215 required / have / need math and the gaps it opens,
+ * updates and closes
+ */
+
+import { buildPlanningWorksheet, disciplineDeployments, worksheetGapChanges, WORKSHEET_GAP_SOURCE } from '../PlanningWorksheet';
+import { emptyAssignment, setRowCount } from '../../disciplines/DisciplineCatalog';
+import type { Facility, Gap, PersonnelAssignment } from '../../services/MasterDataService';
+import type { DisciplineAssignment, ResourceWorksheetRow } from '../../../types';
+
+const facility = (overrides: Partial<Facility>): Facility => ({
+  id: 'shelter-1',
+  operation_id: 'op-1',
+  facility_type: 'shelter',
+  name: 'Central High School',
+  status: 'open',
+  ...overrides,
+});
+
+const assignment = (id: string, position: string, overrides: Partial<PersonnelAssignment> = {}): PersonnelAssignment => ({
+  id,
+  operation_id: 'op-1',
+  person_id: `person-${id}`,
+  facility_id: 'shelter-1',
+  position,
+  start_date: new Date('2025-10-09'),
+  status: 'active',
+  ...overrides,
+});
+
+// A Shelter Console assignment with cots on hand at the site
+const consoleAssignment = (id: string, siteName: string, cots: number, status: DisciplineAssignment['status']): DisciplineAssignment => {
+  const form = emptyAssignment('sheltering');
+  return {
+    ...form,
+    id,
+    operationalPeriod: '2025-10-09',
+    site: { ...form.site, name: siteName },
+    assets: { items: form.assets.items.map(item => item.code === 'COT-STD' ? setRowCount(item, 'have', cots) : item) },
+    status,
+    createdBy: 'shelter-lead',
+    updatedAt: '2025-10-09T12:00:00.000Z',
+  };
+};
+
+const row = (overrides: Partial<ResourceWorksheetRow>): ResourceWorksheetRow => ({
+  facilityId: 'shelter-1',
+  facilityName: 'Central High School',
+  resourceKind: 'Cots',
+  category: 'supplies',
+  unit: 'each',
+  required: 25,
+  have: 20,
+  need: 5,
+  basis: 'Shelter standards, 250 clients',
+  ...overrides,
+});
+
+describe('buildPlanningWorksheet', () => {
+  it('takes required from the standards and have from assignments and deployed assets', () => {
+    const facilities = [
+      facility({ capacity: { maximum: 300, current: 250 } }),
+      facility({ id: 'kitchen-1', facility_type: 'feeding', name: 'Fairgrounds Kitchen', capacity: { maximum: 300 } }),
+      facility({ id: 'closed-1', name: 'Old Gym', status: 'closed', capacity: { current: 100 } }),
+    ];
+
+    const rows = buildPlanningWorksheet({
+      facilities,
+      assignments: [
+        assignment('a-1', 'Shelter Manager'),
+        assignment('a-2', 'Shelter Worker'),
+        assignment('a-3', 'SHLTWK'),
+        assignment('a-4', 'Shelter Worker', { status: 'cancelled' }),
+        assignment('a-5', 'Logistics Supervisor'),
+        assignment('a-6', 'Kitchen Worker'),
+      ],
+      assets: disciplineDeployments([
+        consoleAssignment('c-1', 'central high school', 20, 'approved'),
+        consoleAssignment('c-2', 'Central High School', 40, 'draft'),
+      ], facilities),
+    });
+
+    const shelter = Object.fromEntries(rows.filter(r => r.facilityId === 'shelter-1').map(r => [r.resourceKind, [r.required, r.have, r.need]]));
+    expect(shelter).toEqual({
+      'Shelter Supervisors': [2, 1, 1],
+      'Shelter Workers': [9, 2, 7],
+      'Cots': [25, 20, 5],
+      'Blankets': [250, 0, 250],
+      'Comfort Kits': [250, 0, 250],
+      'Hand Wash Stations': [13, 0, 13],
+    });
+
+    const kitchen = Object.fromEntries(rows.filter(r => r.facilityId === 'kitchen-1').map(r => [r.resourceKind, r.required]));
+    expect(kitchen).toEqual({
+      'Feeding Supervisors': 1,
+      'Feeding Workers': 3,
+      'Cambros': 3,
+      'Serving Tables': 1,
+      'Hand Wash Stations': 1,
+    });
+    expect(rows.some(r => r.facilityId === 'closed-1')).toBe(false);
+  });
+});
+
+describe('worksheetGapChanges', () => {
+  const gap = (overrides: Partial<Gap>): Gap => ({
+    id: 'gap-1',
+    operation_id: 'op-1',
+    facility_id: 'shelter-1',
+    gap_type: 'supplies',
+    gap_category: 'Cots',
+    quantity_needed: 10,
+    status: 'open',
+    requirements: { source: WORKSHEET_GAP_SOURCE },
+    ...overrides,
+  });
+
+  it('opens gaps for new shortfalls and updates the ones it raised before', () => {
+    const { add, update } = worksheetGapChanges('op-1', [
+      row({}),
+      row({ resourceKind: 'Shelter Supervisors', category: 'personnel', unit: 'people', required: 2, have: 0, need: 2 }),
+    ], [gap({})]);
+
+    expect(add).toHaveLength(1);
+    expect(add[0]).toMatchObject({
+      facility_id: 'shelter-1',
+      gap_type: 'personnel',
+      gap_category: 'Shelter Supervisors',
+      quantity_needed: 2,
+      priority: 'critical',
+      status: 'open',
+    });
+    expect(update).toEqual([expect.objectContaining({ id: 'gap-1', quantity_needed: 5, quantity_available: 20 })]);
+  });
+
+  it('fills worksheet gaps once the need is met and leaves hand-raised gaps alone', () => {
+    const { add, update } = worksheetGapChanges('op-1', [row({ have: 25, need: 0 })], [
+      gap({}),
+      gap({ id: 'manual', requirements: undefined }),
+    ]);
+
+    expect(add).toEqual([]);
+    expect(update).toEqual([expect.objectContaining({ id: 'gap-1', status: 'filled', quantity_needed: 0 })]);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * IAP Event Recording
+ *
+ * Commands record an event and apply it to the IAP projector straight away,
+ * so the caller reads its own write. Applying is idempotent, so the event
+ * arriving again through the bus subscription changes nothing.
+ */
+
+import { EventType } from '../events/types';
+import { eventBus } from '../sync/EventBus';
+import { getLocalStore } from '../store/LocalStore';
+import { IAPProjector } from '../projections/IAPProjector';
+
+/**
+ * Emit one event and apply it to the projector. Returns the event id.
+ */
+export async function recordIAPEvent(
+  projector: IAPProjector,
+  type: EventType,
+  payload: any,
+  metadata: { operationId: string; causationId?: string; correlationId?: string }
+): Promise<string> {
+  const eventId = await eventBus.emit(type, payload, metadata);
+  const event = await getLocalStore().getEvent(eventId);
+  if (event) {
+    await projector.processEvent(event);
+  }
+  return eventId;
+}
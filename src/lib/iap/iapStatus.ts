@@ -0,0 +1,117 @@
+/**
+ * IAP Status Lifecycle
+ *
+ * draft -> in_review -> approved -> published -> archived
+ *
+ * Review can send a plan back to draft. Sections are editable only in draft
+ * and in review; once approved the content is what gets published, and a
+ * published IAP lives on as a frozen, content-hashed snapshot.
+ */
+
+import { canonicalize, sha256 } from '../events/hashChain';
+import { EnhancedIAPDocument, IAPDocument, IAPStatus } from '../../types';
+
+export const IAP_STATUS_TRANSITIONS: Record<IAPStatus, IAPStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['draft', 'approved'],
+  approved: ['draft', 'published'],
+  published: ['archived'],
+  archived: [],
+};
+
+export const IAP_STATUS_LABELS: Record<IAPStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+export function canTransition(from: IAPStatus, to: IAPStatus): boolean {
+  return IAP_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function assertTransition(iap: Pick<IAPDocument, 'iapNumber' | 'status'>, to: IAPStatus): void {
+  if (!canTransition(iap.status, to)) {
+    throw new Error(
+      `IAP #${iap.iapNumber} cannot move from ${IAP_STATUS_LABELS[iap.status]} to ${IAP_STATUS_LABELS[to]}`
+    );
+  }
+}
+
+/**
+ * Whether section content may still change
+ */
+export function isIAPEditable(status: IAPStatus): boolean {
+  return status === 'draft' || status === 'in_review';
+}
+
+export function assertEditable(iap: Pick<IAPDocument, 'iapNumber' | 'status'>): void {
+  if (!isIAPEditable(iap.status)) {
+    throw new Error(`IAP #${iap.iapNumber} is ${IAP_STATUS_LABELS[iap.status].toLowerCase()} and can no longer be edited`);
+  }
+}
+
+/**
+ * Names must match exactly apart from case and surrounding whitespace
+ */
+export function sameName(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Workflow bookkeeping, not plan content
+const UNHASHED_IAP_FIELDS = [
+  'status',
+  'review',
+  'publishedAt',
+  'publishedBy',
+  'version',
+  'versionHistory',
+  'officialSnapshot',
+];
+
+/**
+ * SHA-256 over the plan content, ignoring workflow bookkeeping
+ */
+export function hashIAPContent(iap: EnhancedIAPDocument): string {
+  const content: Record<string, any> = {};
+  for (const [key, value] of Object.entries(iap)) {
+    if (!UNHASHED_IAP_FIELDS.includes(key)) {
+      content[key] = value;
+    }
+  }
+  return sha256(canonicalize(content));
+}
+
+/**
+ * Deep copy that later edits to the live document cannot reach
+ */
+export function lockIAPDocument<T>(value: T): T {
+  return deepFreeze(deepCopy(value));
+}
+
+function deepCopy<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => deepCopy(item)) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = deepCopy(item);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+function deepFreeze<T>(value: T): T {
+  // Dates keep their setters even when frozen, so they are copied but not frozen
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    Object.values(value).forEach(item => deepFreeze(item));
+    Object.freeze(value);
+  }
+  return value;
+}
@@ -55,9 +55,39 @@ export interface OptimizationResult {
   summary: string;
 }
 
+const EARTH_RADIUS_MILES = 3959;
+const AVERAGE_SPEED_MPH = 35; // Including traffic and stops
+
+/**
+ * Haversine distance in miles between two coordinates
+ */
+export function haversineMiles(
+  lat1: number, lng1: number,
+  lat2: number, lng2: number
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+            Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_MILES * c;
+}
+
+/**
+ * Estimated ground travel time in minutes for a straight-line distance
+ */
+export function estimateDriveMinutes(distance: number): number {
+  return Math.ceil((distance / AVERAGE_SPEED_MPH) * 60);
+}
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
 export class ResourceOptimizer {
-  private readonly EARTH_RADIUS_MILES = 3959;
-  private readonly AVERAGE_SPEED_MPH = 35; // Including traffic and stops
   private readonly COST_PER_MILE = 2.50; // Vehicle operating cost
   private readonly SETUP_TIME_MINUTES = 15; // Time to load/unload
 
@@ -68,27 +98,14 @@ export class ResourceOptimizer {
     lat1: number, lng1: number,
     lat2: number, lng2: number
   ): number {
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLng = this.toRadians(lng2 - lng1);
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
-              Math.sin(dLng / 2) * Math.sin(dLng / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return this.EARTH_RADIUS_MILES * c;
-  }
-
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+    return haversineMiles(lat1, lng1, lat2, lng2);
   }
 
   /**
    * Calculate transport time including setup
    */
   private calculateTransportTime(distance: number): number {
-    const driveTime = (distance / this.AVERAGE_SPEED_MPH) * 60; // Convert to minutes
-    return Math.ceil(driveTime + this.SETUP_TIME_MINUTES);
+    return estimateDriveMinutes(distance) + this.SETUP_TIME_MINUTES;
   }
 
   /**
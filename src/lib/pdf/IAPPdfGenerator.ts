@@ -1,13 +1,33 @@
 /**
  * IAP PDF Generator Service
- * 
- * Generates professional 53-page Incident Action Plan documents
- * for Red Cross disaster response operations.
+ *
+ * Generates professional Incident Action Plan documents for Red Cross
+ * disaster response operations from an IAP built by the IAPProjector.
+ * Every page is rendered from the document itself; an IAP missing a
+ * required section fails validation instead of printing placeholder content.
  */
 
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { V27_IAP_DATA } from '@/data/v27-iap-data';
+import { IAPDiff, describeDiffEntry, describeFacilityChange } from '@/lib/iap/IAPDiff';
+import { commsPlanContent, hasCommsPlan } from '@/lib/iap/CommsPlan';
+import { hasMedicalPlan, medicalPlanContent } from '@/lib/iap/MedicalPlan';
+import {
+  WORK_ASSIGNMENT_FACILITY_TYPES,
+  getIAPTemplate,
+  resolveIAPSections,
+  validateIAPTemplate,
+  ResolvedIAPSection
+} from '@/lib/iap/IAPTemplates';
+import {
+  AncillaryContent,
+  EnhancedIAPDocument,
+  EnhancedOrgChart,
+  ICSForm203,
+  IAPFacility,
+  IAPTemplate,
+  IAPTemplateSectionId
+} from '@/types';
 
 export interface PDFOptions {
   includePageNumbers?: boolean;
@@ -15,13 +35,78 @@ export interface PDFOptions {
   includeFooters?: boolean;
   watermark?: string;
   confidential?: boolean;
+  changes?: IAPDiff; // Adds a "Changes since last period" page after the cover, or first without one
+  template?: IAPTemplate; // Sections, order and page breaks; defaults to the standard template
+}
+
+export interface IAPPdfIssue {
+  section: string;
+  message: string;
+}
+
+const PAGE_TOP = 40;
+const PAGE_BOTTOM = 250;
+
+/**
+ * Check an IAP has everything the PDF prints. Returns one issue per gap.
+ */
+export function validateIAPForPdf(iap: EnhancedIAPDocument, template: IAPTemplate = getIAPTemplate()): IAPPdfIssue[] {
+  const issues: IAPPdfIssue[] = [];
+  // Sections the template leaves out are not checked
+  const enabled = new Set(resolveIAPSections(template).map(section => section.id));
+  const check = (section: string, ok: unknown, message: string, ...ids: IAPTemplateSectionId[]) => {
+    if (!ok && ids.some(id => enabled.has(id))) issues.push({ section, message });
+  };
+  const coverPage = iap.sections?.coverPage;
+  const orgChart = orgChartOf(iap);
+  const roster = iap.contactRoster;
+  const schedule = iap.dailySchedule;
+
+  check('Cover Page', coverPage?.operationName?.trim(), 'Operation name is missing', 'cover');
+  check('Cover Page', coverPage?.operationNumber?.trim(), 'DR number is missing', 'cover');
+  check('Cover Page', coverPage?.preparedBy?.trim(), 'Prepared by is missing', 'cover');
+  check('Cover Page', coverPage?.approvedBy?.trim(), 'Approved by is missing', 'cover');
+  check("Director's Message", iap.directorsMessage?.plainText?.trim(), "No director's message", 'directors_message');
+  check(
+    'Contact Roster',
+    roster && [
+      ...roster.commandStructure,
+      ...roster.operationsSection,
+      ...roster.planningSection,
+      ...roster.logisticsSection,
+      ...roster.financeSection
+    ].length > 0,
+    'No contacts',
+    'contact_roster'
+  );
+  check('Organization Chart', orgChart?.incidentCommander?.trim(), 'Incident commander is not named', 'org_chart');
+  check('Priorities and Objectives', iap.sections?.incidentObjectives?.objectives?.length, 'No incident objectives', 'priorities');
+  check(
+    'Work Assignments',
+    iap.facilityData?.facilities?.length || iap.sections?.assignmentList?.workAssignments?.length,
+    'No facilities or work assignments',
+    ...(Object.keys(WORK_ASSIGNMENT_FACILITY_TYPES) as IAPTemplateSectionId[]),
+    'assignment_list'
+  );
+  check('Work Sites and Facilities', iap.workSitesTable?.sites?.length, 'No work sites', 'work_sites');
+  check(
+    'Daily Schedule',
+    schedule && schedule.meetings.length + schedule.briefings.length + schedule.specialEvents.length > 0,
+    'No meetings or briefings scheduled',
+    'daily_schedule'
+  );
+
+  return issues;
 }
 
 export class IAPPdfGenerator {
   private pdf: jsPDF;
-  private currentPage = 1;
-  private totalPages = 53;
   private options: PDFOptions;
+  private template: IAPTemplate;
+  private iap!: EnhancedIAPDocument;
+  private sections: ResolvedIAPSection[] = [];
+  private yPos = PAGE_TOP;
+  private pageTitle = '';
 
   constructor(options: PDFOptions = {}) {
     this.pdf = new jsPDF({
@@ -29,7 +114,7 @@ export class IAPPdfGenerator {
       unit: 'mm',
       format: 'letter'
     });
-    
+
     this.options = {
       includePageNumbers: true,
       includeHeaders: true,
@@ -37,58 +122,41 @@ export class IAPPdfGenerator {
       ...options
     };
 
+    this.template = getIAPTemplate(options.template);
+    validateIAPTemplate(this.template);
+
     // Set up fonts
     this.pdf.setFont('helvetica');
   }
 
   /**
-   * Generate the complete 53-page IAP document
+   * Generate the complete IAP document, laid out by the template
    */
-  async generateCompleteIAP(data: any = V27_IAP_DATA): Promise<Blob> {
-    // Cover Page
-    this.addCoverPage(data);
-    
-    // Director's Message (Pages 2-3)
-    this.addDirectorsMessage(data);
-    
-    // Contact Roster (Pages 4-6)
-    this.addContactRoster(data);
-    
-    // Organization Chart (Pages 7-8)
-    await this.addOrganizationChart(data);
-    
-    // Priorities and Objectives (Pages 9-10)
-    this.addPrioritiesObjectives(data);
-    
-    // Work Assignments - Sheltering (Pages 11-12)
-    this.addShelteringWorkAssignments(data);
-    
-    // Work Assignments - Feeding (Pages 13-22)
-    this.addFeedingWorkAssignments(data);
-    
-    // Work Assignments - Government Operations (Pages 23-25)
-    this.addGovernmentOpsWorkAssignments(data);
-    
-    // Work Assignments - Damage Assessment (Pages 26-28)
-    this.addDamageAssessmentWorkAssignments(data);
-    
-    // Work Assignments - Distribution (Pages 29-31)
-    this.addDistributionWorkAssignments(data);
-    
-    // Work Assignments - Individual Care (Pages 32-38)
-    this.addIndividualCareWorkAssignments(data);
-    
-    // Work Sites and Facilities (Pages 39-44)
-    this.addWorkSitesFacilities(data);
-    
-    // Daily Schedule (Pages 45-48)
-    this.addDailySchedule(data);
-    
-    // Maps and Geographic Information (Pages 49-51)
-    await this.addMapsGeographic(data);
-    
-    // Appendices and References (Pages 52-53)
-    this.addAppendicesReferences(data);
+  async generateCompleteIAP(iap: EnhancedIAPDocument): Promise<Blob> {
+    const sections = resolveIAPSections(this.template);
+    const issues = validateIAPForPdf(iap, this.template);
+    if (issues.length > 0) {
+      throw new Error(
+        `IAP #${iap.iapNumber} is not ready to print:\n${issues.map(issue => `- ${issue.section}: ${issue.message}`).join('\n')}`
+      );
+    }
+    this.iap = iap;
+    this.sections = sections;
+
+    // Changes Since Last Period (optional) follow the cover page, or open the
+    // plan when the template leaves the cover out
+    const { changes } = this.options;
+    if (changes && !sections.some(section => section.id === 'cover')) {
+      this.addChangesSinceLastPeriod(changes);
+    }
+    sections.forEach(section => {
+      this.addSection(section);
+      if (section.id === 'cover' && changes) {
+        this.addChangesSinceLastPeriod(changes);
+      }
+    });
+
+    this.addPageFooters();
 
     // Return as blob for download or preview
     return this.pdf.output('blob');
@@ -130,646 +198,754 @@ export class IAPPdfGenerator {
     return this.pdf.output('blob');
   }
 
+  private addSection(section: ResolvedIAPSection) {
+    const facilityTypes = WORK_ASSIGNMENT_FACILITY_TYPES[section.id];
+    if (facilityTypes) {
+      const facilities = this.iap.facilityData.facilities.filter(facility => facilityTypes.includes(facility.facilityType));
+      if (facilities.length > 0) {
+        this.addFacilityWorkAssignments(section, facilities);
+      }
+      return;
+    }
+
+    switch (section.id) {
+      case 'cover':
+        return this.addCoverPage();
+      case 'directors_message':
+        return this.addDirectorsMessage(section);
+      case 'contact_roster':
+        return this.addContactRoster(section);
+      case 'org_chart':
+        return this.addOrganizationChart(section);
+      case 'priorities':
+        return this.addPrioritiesObjectives(section);
+      case 'weather':
+        return this.addWeather(section);
+      case 'assignment_list':
+        return this.addAssignmentList(section);
+      case 'planning_worksheet':
+        return this.addPlanningWorksheet(section);
+      case 'comms_plan':
+        return this.addCommunicationsPlan(section);
+      case 'medical_plan':
+        return this.addMedicalPlan(section);
+      case 'work_sites':
+        return this.addWorkSitesFacilities(section);
+      case 'daily_schedule':
+        return this.addDailySchedule(section);
+      case 'maps':
+        return this.addMapsGeographic(section);
+      case 'appendices':
+        return this.addAppendicesReferences(section);
+      case 'annex':
+        return this.addAnnex(section);
+    }
+  }
+
   /**
    * Add Cover Page (Page 1)
    */
-  private addCoverPage(data: any) {
-    const { operation } = data;
-    
+  private addCoverPage() {
+    const coverPage = this.iap.sections.coverPage;
+
     // Red Cross Header
     this.pdf.setFillColor(237, 28, 36); // Red Cross Red
     this.pdf.rect(0, 0, 216, 30, 'F');
-    
+
     // Title
     this.pdf.setTextColor(255, 255, 255);
     this.pdf.setFontSize(24);
     this.pdf.text('INCIDENT ACTION PLAN', 108, 20, { align: 'center' });
-    
+
     // Reset text color
     this.pdf.setTextColor(0, 0, 0);
-    
+
     // Operation Information Box
     this.pdf.setDrawColor(0);
     this.pdf.setLineWidth(0.5);
     this.pdf.rect(20, 50, 176, 60);
-    
+
     // Operation Details
     this.pdf.setFontSize(12);
-    this.pdf.text(`Incident Name: ${operation.name}`, 30, 65);
-    this.pdf.text(`DR Number: ${operation.drNumber}`, 30, 75);
-    this.pdf.text(`Operational Period: ${operation.operationalPeriod.start} to ${operation.operationalPeriod.end}`, 30, 85);
-    this.pdf.text(`IAP Number: #${operation.operationalPeriod.number}`, 30, 95);
-    
+    this.pdf.text(`Incident Name: ${coverPage.operationName}`, 30, 65);
+    this.pdf.text(`DR Number: ${coverPage.operationNumber}`, 30, 75);
+    this.pdf.text(
+      `Operational Period: ${formatDateTime(this.iap.operationalPeriod.start)} to ${formatDateTime(this.iap.operationalPeriod.end)}`,
+      30,
+      85
+    );
+    this.pdf.text(`IAP Number: #${this.iap.iapNumber}`, 30, 95);
+
     // Checklist Section
     this.pdf.setFontSize(14);
     this.pdf.setFont('helvetica', 'bold');
     this.pdf.text('Documents Included:', 30, 130);
-    
+
     this.pdf.setFont('helvetica', 'normal');
     this.pdf.setFontSize(11);
     const checklist = [
-      "Director's Intent/Message",
-      'Incident Priorities and Objectives',
-      'Contact Roster DRO HQ',
-      'Incident Organization Chart',
-      'Work Assignments',
-      'Work Sites and Facilities',
-      'Daily Schedule',
-      'Maps and Geographic Information'
+      ...(this.options.changes ? ['Changes Since Last Period'] : []),
+      ...this.sections.filter(section => section.id !== 'cover').map(section => section.title)
     ];
-    
+
     let yPos = 140;
     checklist.forEach(item => {
       this.pdf.text(`☑ ${item}`, 35, yPos);
-      yPos += 8;
+      yPos += 7;
     });
-    
+
     // Approval Section
-    this.pdf.rect(20, 210, 176, 40);
-    this.pdf.text('Prepared By:', 30, 225);
-    this.pdf.text(`${operation.preparedBy}`, 70, 225);
-    this.pdf.text(`${operation.preparedByTitle}`, 70, 232);
-    
-    this.pdf.text('Approved By:', 30, 245);
-    this.pdf.text(`${operation.approvedBy}`, 70, 245);
-    this.pdf.text(`${operation.approvedByTitle}`, 70, 252);
-    
-    this.addPageFooter();
+    this.pdf.rect(20, 220, 176, 30);
+    this.pdf.text('Prepared By:', 30, 232);
+    this.pdf.text(coverPage.preparedBy, 70, 232);
+    this.pdf.text('Approved By:', 30, 242);
+    this.pdf.text(coverPage.approvedBy, 70, 242);
   }
 
   /**
-   * Add Director's Message (Pages 2-3)
+   * Add Changes Since Last Period (optional, follows the cover page when there is one)
    */
-  private addDirectorsMessage(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('DIRECTOR\'S INTENT/MESSAGE');
-    
-    const message = data.directorsMessage || `
-This Incident Action Plan establishes the operational priorities and objectives for the next operational period.
-
-Key Priorities:
-1. Life Safety - Ensure the safety of all responders and affected populations
-2. Incident Stabilization - Provide essential services to disaster survivors
-3. Property/Environmental Protection - Minimize further damage and environmental impact
-
-All personnel are expected to:
-- Follow safety protocols at all times
-- Coordinate through established chain of command
-- Document all significant activities
-- Communicate resource needs promptly
-
-Remember that we are here to serve those affected by this disaster with compassion and efficiency.
-    `.trim();
-    
-    // Split message into lines that fit on page
-    const lines = this.pdf.splitTextToSize(message, 170);
-    let yPos = 60;
-    
-    lines.forEach((line: string) => {
-      if (yPos > 250) {
-        this.pdf.addPage();
-        this.addPageHeader('DIRECTOR\'S INTENT/MESSAGE (Continued)');
-        yPos = 60;
-      }
-      this.pdf.text(line, 20, yPos);
-      yPos += 7;
+  private addChangesSinceLastPeriod(changes: IAPDiff) {
+    this.startPage('CHANGES SINCE LAST PERIOD');
+    this.writeLine(`Compared with IAP #${changes.from.iapNumber} (version ${changes.from.version})`, { size: 10, step: 12 });
+
+    if (!changes.hasChanges) {
+      this.writeLine('No changes from the previous operational period.');
+    }
+    if (changes.facilities.length > 0) {
+      this.writeHeading('FACILITIES');
+      changes.facilities.forEach(change => this.writeLine(describeFacilityChange(change), { x: 25 }));
+      this.yPos += 4;
+    }
+    changes.sections.forEach(section => {
+      this.writeHeading(section.title.toUpperCase());
+      section.changes.forEach(entry => this.writeLine(describeDiffEntry(entry), { x: 25 }));
+      this.yPos += 4;
     });
-    
-    this.addPageFooter();
   }
 
   /**
-   * Add Contact Roster (Pages 4-6)
+   * Add Director's Message
    */
-  private addContactRoster(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('CONTACT ROSTER - DRO HQ');
-    
-    const roster = data.contactRoster || [];
-    
-    // Table headers
-    this.pdf.setFontSize(10);
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('Position', 20, 60);
-    this.pdf.text('Name', 70, 60);
-    this.pdf.text('Phone', 120, 60);
-    this.pdf.text('Email', 160, 60);
-    
-    // Draw header line
-    this.pdf.line(20, 62, 196, 62);
-    
-    this.pdf.setFont('helvetica', 'normal');
-    let yPos = 70;
-    let pageCount = 1;
-    
-    roster.forEach((contact: any) => {
-      if (yPos > 250) {
-        this.pdf.addPage();
-        this.addPageHeader(`CONTACT ROSTER - DRO HQ (Page ${++pageCount})`);
-        yPos = 60;
-        
-        // Repeat headers
-        this.pdf.setFont('helvetica', 'bold');
-        this.pdf.text('Position', 20, 60);
-        this.pdf.text('Name', 70, 60);
-        this.pdf.text('Phone', 120, 60);
-        this.pdf.text('Email', 160, 60);
-        this.pdf.line(20, 62, 196, 62);
-        this.pdf.setFont('helvetica', 'normal');
-        yPos = 70;
-      }
-      
-      this.pdf.setFontSize(9);
-      this.pdf.text(contact.title || '', 20, yPos);
-      this.pdf.text(contact.name || '', 70, yPos);
-      this.pdf.text(contact.phone || '', 120, yPos);
-      
-      // Truncate email if too long
-      const email = (contact.email || '').replace('@redcross.org', '');
-      this.pdf.text(email.substring(0, 20), 160, yPos);
-      
-      yPos += 7;
+  private addDirectorsMessage(section: ResolvedIAPSection) {
+    this.startSection(section);
+    this.writeLine(this.iap.directorsMessage.plainText, { size: 11, step: 7 });
+  }
+
+  /**
+   * Add Contact Roster
+   */
+  private addContactRoster(section: ResolvedIAPSection) {
+    const roster = this.iap.contactRoster;
+    this.startSection(section);
+
+    const columns = [20, 70, 120, 160];
+    this.writeRow(['Position', 'Name', 'Phone', 'Email'], columns, { bold: true });
+    [
+      ...roster.commandStructure,
+      ...roster.operationsSection,
+      ...roster.planningSection,
+      ...roster.logisticsSection,
+      ...roster.financeSection
+    ].forEach(contact => {
+      this.writeRow(
+        [contact.position, contact.name, contact.phone, contact.email.replace('@redcross.org', '')],
+        columns
+      );
     });
-    
-    this.addPageFooter();
+
+    if (roster.externalRelations.length > 0) {
+      this.yPos += 6;
+      this.writeHeading('EXTERNAL PARTNERS');
+      roster.externalRelations.forEach(contact => {
+        this.writeRow([contact.organization, contact.contact, contact.phone, contact.role], columns);
+      });
+    }
   }
 
   /**
-   * Add Organization Chart (Pages 7-8)
+   * Add Organization Chart
    */
-  private async addOrganizationChart(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('INCIDENT ORGANIZATION CHART');
-    
-    // Try to capture from DOM if available
-    const chartElement = document.querySelector('.react-flow');
-    if (chartElement) {
-      try {
-        const canvas = await html2canvas(chartElement as HTMLElement, {
-          scale: 1,
-          logging: false
+  private addOrganizationChart(section: ResolvedIAPSection) {
+    const chart = orgChartOf(this.iap);
+    this.startSection(section);
+
+    this.writeHeading('COMMAND STAFF');
+    this.writeLine(`DRO Director: ${chart.incidentCommander}`, { x: 25 });
+    [
+      ['Deputy Director', chart.deputyIC],
+      ['Safety Officer', chart.safetyOfficer],
+      ['Public Information Officer', chart.publicInfoOfficer],
+      ['Liaison Officer', chart.liaisonOfficer]
+    ].forEach(([position, name]) => {
+      if (name) this.writeLine(`${position}: ${name}`, { x: 25 });
+    });
+
+    Object.entries(chart.sections || {}).forEach(([name, section]) => {
+      if (!section?.chief && !section?.branches?.length) return;
+      this.yPos += 4;
+      this.writeHeading(`${name.toUpperCase()} SECTION`);
+      this.writeLine(`Chief: ${section.chief || 'Vacant'}`, { x: 25 });
+      if (section.deputy) this.writeLine(`Deputy: ${section.deputy}`, { x: 25 });
+      section.branches?.forEach(branch => {
+        this.writeLine(`${branch.name} Branch: ${branch.director}`, { x: 30 });
+      });
+    });
+
+    const vacant = 'vacantPositions' in chart ? chart.vacantPositions : [];
+    if (vacant.length > 0) {
+      this.yPos += 4;
+      this.writeHeading('VACANT POSITIONS');
+      vacant.forEach(position => this.writeLine(`• ${position}`, { x: 25 }));
+    }
+  }
+
+  /**
+   * Add Priorities and Objectives
+   */
+  private addPrioritiesObjectives(section: ResolvedIAPSection) {
+    const objectives = this.iap.sections.incidentObjectives;
+    const priorities = this.iap.incidentPriorities;
+    this.startSection(section);
+
+    const priorityGroups = [
+      ['Life Safety', priorities?.lifeSafety],
+      ['Incident Stabilization', priorities?.incidentStabilization],
+      ['Property/Environmental Protection', priorities?.propertyConservation],
+      ['Other', priorities?.customPriorities]
+    ] as const;
+    const statedPriorities = objectives.priorities || [];
+    if (statedPriorities.length > 0 || priorityGroups.some(([, items]) => items?.length)) {
+      this.writeHeading('INCIDENT PRIORITIES');
+      statedPriorities.forEach((priority, index) => this.writeLine(`${index + 1}. ${priority}`, { x: 25 }));
+      priorityGroups.forEach(([label, items]) => {
+        (items || []).forEach(priority => {
+          this.writeLine(`${label}: ${priority.description} (${priority.progress}%)`, { x: 25 });
         });
-        
-        const imgData = canvas.toDataURL('image/png');
-        this.pdf.addImage(imgData, 'PNG', 20, 60, 176, 120);
-      } catch (e) {
-        // Fallback to text representation
-        this.addTextOrgChart(data);
-      }
-    } else {
-      this.addTextOrgChart(data);
+      });
+      this.yPos += 6;
+    }
+
+    this.writeHeading('OPERATIONAL OBJECTIVES');
+    objectives.objectives.forEach((objective, index) => {
+      this.writeLine(`${index + 1}. ${objective}`, { x: 25, step: 8 });
+    });
+
+    if (objectives.weatherSummary) {
+      this.yPos += 6;
+      this.writeHeading('WEATHER');
+      this.writeLine(objectives.weatherSummary, { x: 25 });
+    }
+    if (objectives.safetyMessage) {
+      this.yPos += 6;
+      this.writeHeading('SAFETY MESSAGE');
+      this.writeLine(objectives.safetyMessage, { x: 25 });
     }
-    
-    this.addPageFooter();
   }
 
   /**
-   * Add text-based org chart as fallback
+   * Add Work Assignments for a group of facilities
    */
-  private addTextOrgChart(data: any) {
-    this.pdf.setFontSize(10);
-    
-    // Command Staff
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('COMMAND STAFF', 108, 70, { align: 'center' });
-    this.pdf.setFont('helvetica', 'normal');
-    this.pdf.text('DRO Director: Virginia Mewborn', 108, 80, { align: 'center' });
-    
-    // Draw connecting lines
-    this.pdf.line(108, 85, 108, 95);
-    this.pdf.line(60, 95, 156, 95);
-    
-    // Section Chiefs
-    this.pdf.text('Operations', 60, 105, { align: 'center' });
-    this.pdf.text('Patricia DAlessandro', 60, 112, { align: 'center' });
-    
-    this.pdf.text('Planning', 108, 105, { align: 'center' });
-    this.pdf.text('Janice Vannatta', 108, 112, { align: 'center' });
-    
-    this.pdf.text('Logistics', 156, 105, { align: 'center' });
-    this.pdf.text('Marvin Williams', 156, 112, { align: 'center' });
+  private addFacilityWorkAssignments(section: ResolvedIAPSection, facilities: IAPFacility[]) {
+    this.startSection(section);
+    this.addFacilityTable(facilities);
+
+    facilities
+      .filter(facility => facility.workAssignments.length > 0)
+      .forEach(facility => {
+        this.yPos += 6;
+        this.writeHeading(facility.name);
+        facility.workAssignments.forEach(assignment => {
+          const assignedTo = assignment.assignedTo.length > 0 ? ` - ${assignment.assignedTo.join(', ')}` : '';
+          this.writeLine(
+            `• ${assignment.title} [${assignment.priority}, ${assignment.status.replace('_', ' ')}]${assignedTo}`,
+            { x: 25 }
+          );
+        });
+      });
   }
 
   /**
-   * Add Priorities and Objectives (Pages 9-10)
+   * Add Work Assignment List (ICS 204), when one has been filled in
    */
-  private addPrioritiesObjectives(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('INCIDENT PRIORITIES AND OBJECTIVES');
-    
-    this.pdf.setFontSize(12);
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('INCIDENT PRIORITIES', 20, 60);
-    
-    this.pdf.setFont('helvetica', 'normal');
-    this.pdf.setFontSize(11);
-    
-    const priorities = [
-      '1. Life Safety - Ensure safety of all responders and survivors',
-      '2. Incident Stabilization - Provide essential disaster services',
-      '3. Property/Environmental Protection - Minimize additional damage'
-    ];
-    
-    let yPos = 70;
-    priorities.forEach(priority => {
-      this.pdf.text(priority, 25, yPos);
-      yPos += 10;
-    });
-    
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('OPERATIONAL OBJECTIVES', 20, yPos + 10);
-    
-    this.pdf.setFont('helvetica', 'normal');
-    yPos += 20;
-    
-    const objectives = data.objectives || [
-      'Open and maintain shelter operations for displaced residents',
-      'Provide feeding services to affected populations',
-      'Coordinate with government partners for resource allocation',
-      'Conduct damage assessments in affected areas',
-      'Establish distribution sites for emergency supplies',
-      'Provide individual disaster care services'
+  private addAssignmentList(section: ResolvedIAPSection) {
+    const assignmentList = this.iap.sections.assignmentList;
+    if (!assignmentList?.workAssignments.length && !assignmentList?.resources.length) return;
+
+    this.startSection(section);
+    if (assignmentList.operationsSectionChief) {
+      this.writeLine(`Operations Section Chief: ${assignmentList.operationsSectionChief}`);
+    }
+
+    if (assignmentList.workAssignments.length > 0) {
+      this.yPos += 4;
+      this.writeHeading('ASSIGNMENTS');
+      assignmentList.workAssignments.forEach(assignment => this.writeLine(`• ${assignment}`, { x: 25 }));
+    }
+
+    if (assignmentList.resources.length > 0) {
+      this.yPos += 4;
+      this.writeHeading('RESOURCES');
+      const columns = [20, 60, 100, 150];
+      this.writeRow(['Resource', 'Identifier', 'Leader', 'Persons'], columns, { bold: true });
+      assignmentList.resources.forEach(resource => {
+        this.writeRow(
+          [resource.resourceType, resource.identifier, resource.leader, resource.numberOfPersons.toString()],
+          columns
+        );
+      });
+    }
+
+    if (assignmentList.specialInstructions) {
+      this.yPos += 4;
+      this.writeHeading('SPECIAL INSTRUCTIONS');
+      this.writeLine(assignmentList.specialInstructions, { x: 25 });
+    }
+  }
+
+  /**
+   * Add Weather Forecast and Alerts, when weather has been loaded
+   */
+  private addWeather(section: ResolvedIAPSection) {
+    const weather = this.iap.sections.weatherForecast;
+    if (!weather) return;
+    this.startSection(section);
+
+    this.writeLine(`Source: ${weather.source}, updated ${formatDateTime(weather.updatedAt)}`, { size: 9 });
+    this.yPos += 2;
+
+    const conditions = [
+      ...(weather.current ? [{ label: 'Now', condition: weather.current }] : []),
+      ...weather.forecast.map(condition => ({ label: formatDateTime(condition.dateTime), condition }))
     ];
-    
-    objectives.forEach((objective: string, index: number) => {
-      if (yPos > 250) {
-        this.pdf.addPage();
-        this.addPageHeader('INCIDENT PRIORITIES AND OBJECTIVES (Continued)');
-        yPos = 60;
-      }
-      this.pdf.text(`${index + 1}. ${objective}`, 25, yPos);
-      yPos += 10;
+    if (conditions.length > 0) {
+      this.writeHeading('CONDITIONS AND FORECAST');
+      const columns = [20, 60, 110, 130, 165];
+      this.writeRow(['When', 'Conditions', 'Temp', 'Wind', 'Precip'], columns, { bold: true });
+      conditions.forEach(({ label, condition }) => {
+        this.writeRow([
+          label,
+          condition.conditions,
+          `${Math.round(condition.temperature)}°F`,
+          `${condition.windDirection} ${Math.round(condition.windSpeed)} mph`.trim(),
+          `${condition.precipitation}%`
+        ], columns);
+      });
+      this.yPos += 4;
+    }
+
+    this.writeHeading('WATCHES, WARNINGS AND ADVISORIES');
+    const alerts = weather.alerts || [];
+    if (alerts.length === 0) {
+      this.writeLine('None in effect for the operation area', { x: 25 });
+    }
+    alerts.forEach(alert => {
+      this.writeLine(`${alert.type} - ${formatDateTime(alert.startTime)} to ${formatDateTime(alert.endTime)}`, { bold: true, size: 9 });
+      if (alert.areas?.length) this.writeLine(alert.areas.join('; '), { x: 25, size: 9 });
+      this.writeLine(alert.headline, { x: 25, size: 9 });
+      if (alert.instruction) this.writeLine(alert.instruction, { x: 25, size: 9 });
+      this.yPos += 2;
     });
-    
-    this.addPageFooter();
   }
 
   /**
-   * Add Work Assignments sections
+   * Add Communications Plan (ICS 205), when one has been filled in
    */
-  private addShelteringWorkAssignments(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - SHELTERING');
-    
-    const facilities = data.shelteringFacilities || [];
-    this.addFacilityTable(facilities, 'Shelter');
-    
-    this.addPageFooter();
+  private addCommunicationsPlan(section: ResolvedIAPSection) {
+    const plan = this.iap.sections.communicationsPlan;
+    if (!hasCommsPlan(plan)) return;
+    const { basicRadioChannel, talkgroups, phoneBridges, satellitePhones, callSigns } = commsPlanContent(plan);
+    this.startSection(section);
+
+    if (basicRadioChannel.length > 0) {
+      this.writeHeading('RADIO CHANNELS');
+      const columns = [20, 65, 95, 130, 165];
+      this.writeRow(['Function', 'Channel', 'Frequency', 'System', 'Remarks'], columns, { bold: true });
+      basicRadioChannel.forEach(channel => {
+        this.writeRow([channel.function, channel.channel, channel.frequency, channel.system, channel.remarks || ''], columns);
+      });
+      this.yPos += 4;
+    }
+
+    if (talkgroups.length > 0) {
+      this.writeHeading('TALKGROUPS');
+      const columns = [20, 65, 110, 160];
+      this.writeRow(['Talkgroup', 'System', 'Assignment', 'Remarks'], columns, { bold: true });
+      talkgroups.forEach(talkgroup => {
+        this.writeRow([talkgroup.name, talkgroup.system, talkgroup.assignment, talkgroup.remarks || ''], columns);
+      });
+      this.yPos += 4;
+    }
+
+    if (phoneBridges.length > 0) {
+      this.writeHeading('PHONE BRIDGES');
+      const columns = [20, 75, 120, 150];
+      this.writeRow(['Bridge', 'Dial-in', 'Access Code', 'Schedule'], columns, { bold: true });
+      phoneBridges.forEach(bridge => {
+        this.writeRow([bridge.name, bridge.dialIn, bridge.accessCode || '', bridge.schedule || ''], columns);
+      });
+      this.yPos += 4;
+    }
+
+    if (satellitePhones.length > 0) {
+      this.writeHeading('SATELLITE PHONES');
+      const columns = [20, 85, 140];
+      this.writeRow(['Position', 'Name', 'Number'], columns, { bold: true });
+      satellitePhones.forEach(phone => this.writeRow([phone.position, phone.name, phone.number], columns));
+      this.yPos += 4;
+    }
+
+    if (callSigns.length > 0) {
+      this.writeHeading('RADIO CALL SIGNS');
+      const columns = [20, 55, 110, 165];
+      this.writeRow(['Call Sign', 'Name', 'Position', 'Section'], columns, { bold: true });
+      callSigns.forEach(entry => {
+        this.writeRow([entry.callSign, entry.name, entry.position || '', entry.section || ''], columns);
+      });
+    }
   }
 
-  private addFeedingWorkAssignments(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - FEEDING');
-    
-    const facilities = data.feedingFacilities || [];
-    this.addFacilityTable(facilities, 'Feeding');
-    
-    // Add ERV assignments
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - ERV OPERATIONS');
-    
-    this.pdf.setFontSize(10);
-    let yPos = 60;
-    
-    const ervs = [
-      { unit: 'ERV 11181', crew: 'Jake Gonzales, Ben Knight', location: 'Church of the Palms' },
-      { unit: 'ERV 31082', crew: 'Greg Camacho', location: 'Church of the Palms' },
-      { unit: 'ERV 34076', crew: 'Kenneth Blackshear, James Horning', location: 'Stand by' }
-    ];
-    
-    ervs.forEach(erv => {
-      this.pdf.setFont('helvetica', 'bold');
-      this.pdf.text(erv.unit, 20, yPos);
-      this.pdf.setFont('helvetica', 'normal');
-      this.pdf.text(`Crew: ${erv.crew}`, 30, yPos + 7);
-      this.pdf.text(`Location: ${erv.location}`, 30, yPos + 14);
-      yPos += 25;
+  /**
+   * Add Operational Planning Worksheet (ICS 215), when one has been calculated
+   */
+  private addPlanningWorksheet(section: ResolvedIAPSection) {
+    const rows = this.iap.sections.operationalPlanning?.resourceWorksheet || [];
+    if (rows.length === 0) return;
+    this.startSection(section);
+
+    const columns = [25, 95, 125, 150, 175];
+    [...new Set(rows.map(row => row.facilityId))].forEach(facilityId => {
+      const facilityRows = rows.filter(row => row.facilityId === facilityId);
+      this.writeLine(facilityRows[0].facilityName, { bold: true, size: 10, step: 5 });
+      this.writeLine(facilityRows[0].basis, { x: 25, size: 8, step: 6 });
+      this.writeRow(['Resource', 'Required', 'Have', 'Need', 'Unit'], columns, { bold: true });
+      facilityRows.forEach(row => {
+        this.writeRow([row.resourceKind, String(row.required), String(row.have), row.need > 0 ? String(row.need) : '-', row.unit], columns);
+      });
+      this.yPos += 4;
     });
-    
-    this.addPageFooter();
   }
 
-  private addGovernmentOpsWorkAssignments(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - GOVERNMENT OPERATIONS');
-    
-    this.pdf.setFontSize(11);
-    this.pdf.text('EOC Liaison Assignments:', 20, 60);
-    
-    const eocs = [
-      { location: 'State EOC - Tallahassee', liaison: 'Robert Johnson', shift: 'Day' },
-      { location: 'Hillsborough County EOC', liaison: 'Maria Garcia', shift: 'Day' },
-      { location: 'Pinellas County EOC', liaison: 'James Wilson', shift: 'Night' }
-    ];
-    
-    let yPos = 70;
-    eocs.forEach(eoc => {
-      this.pdf.text(`• ${eoc.location}: ${eoc.liaison} (${eoc.shift})`, 25, yPos);
-      yPos += 8;
-    });
-    
-    this.addPageFooter();
+  /**
+   * Add Medical Plan (ICS 206), when one has been filled in
+   */
+  private addMedicalPlan(section: ResolvedIAPSection) {
+    const plan = this.iap.sections.medicalPlan;
+    if (!hasMedicalPlan(plan)) return;
+    const { medicalAidStations, ambulanceServices, hospitals, facilityHospitals, emergencyProcedures } = medicalPlanContent(plan);
+    const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+    this.startSection(section);
+
+    if (medicalAidStations.length > 0) {
+      this.writeHeading('MEDICAL AID STATIONS');
+      const columns = [20, 70, 125, 175];
+      this.writeRow(['Name', 'Location', 'Contact', 'Paramedics'], columns, { bold: true });
+      medicalAidStations.forEach(station => {
+        this.writeRow([station.name, station.location, station.contact, yesNo(station.paramedics)], columns);
+      });
+      this.yPos += 4;
+    }
+
+    if (ambulanceServices.length > 0) {
+      this.writeHeading('AMBULANCE SERVICES');
+      const columns = [20, 70, 135, 175];
+      this.writeRow(['Name', 'Address', 'Phone', 'Paramedics'], columns, { bold: true });
+      ambulanceServices.forEach(service => {
+        this.writeRow([service.name, service.address, service.phone, yesNo(service.paramedics)], columns);
+      });
+      this.yPos += 4;
+    }
+
+    const hospitalColumns = [25, 85, 125, 150, 165, 180];
+    const writeHospitals = (list: typeof hospitals) => {
+      this.writeRow(['Hospital', 'Travel', 'Contact', 'Trauma', 'Burn', 'Helipad'], hospitalColumns, { bold: true });
+      list.forEach(hospital => {
+        const travel = hospital.distanceMiles !== undefined
+          ? `${hospital.distanceMiles} mi, ${hospital.travelTime}`
+          : hospital.travelTime;
+        this.writeRow(
+          [hospital.name, travel, hospital.contact, yesNo(hospital.traumaCenter), yesNo(hospital.burnCenter), yesNo(hospital.helipad)],
+          hospitalColumns
+        );
+      });
+    };
+
+    if (hospitals.length > 0) {
+      this.writeHeading('HOSPITALS');
+      writeHospitals(hospitals);
+      this.yPos += 4;
+    }
+
+    if (facilityHospitals.length > 0) {
+      this.writeHeading('NEAREST HOSPITALS BY FACILITY');
+      facilityHospitals.forEach(facility => {
+        this.writeLine(facility.address ? `${facility.facilityName} - ${facility.address}` : facility.facilityName, { bold: true, size: 9, step: 6 });
+        if (facility.hospitals.length === 0) {
+          this.writeLine('No coordinates on file - nearest hospitals not calculated', { x: 25, size: 9, step: 6 });
+        } else {
+          writeHospitals(facility.hospitals);
+        }
+        this.yPos += 2;
+      });
+      this.yPos += 2;
+    }
+
+    if (emergencyProcedures.trim()) {
+      this.writeHeading('MEDICAL EMERGENCY PROCEDURES');
+      this.writeLine(emergencyProcedures, { x: 25 });
+    }
   }
 
-  private addDamageAssessmentWorkAssignments(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - DAMAGE ASSESSMENT');
-    
-    this.pdf.setFontSize(11);
-    const teams = [
-      { team: 'DA Team 1', area: 'Hillsborough County - North', members: 4 },
-      { team: 'DA Team 2', area: 'Hillsborough County - South', members: 4 },
-      { team: 'DA Team 3', area: 'Pinellas County', members: 6 }
-    ];
-    
-    let yPos = 60;
-    teams.forEach(team => {
-      this.pdf.text(`${team.team}: ${team.area} (${team.members} members)`, 20, yPos);
-      yPos += 10;
+  /**
+   * Add Work Sites and Facilities
+   */
+  private addWorkSitesFacilities(section: ResolvedIAPSection) {
+    this.startSection(section);
+
+    this.iap.workSitesTable.sites.forEach((site, index) => {
+      this.writeLine(`${index + 1}. ${site.facilityName} (${site.status})`, { size: 9, step: 5 });
+      this.writeLine(`   ${site.address}, ${site.county} County`, { size: 9, step: 5 });
+      this.writeLine(`   ${site.contact} ${site.phone}`.trimEnd(), { size: 9, step: 7 });
     });
-    
-    this.addPageFooter();
   }
 
-  private addDistributionWorkAssignments(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - DISTRIBUTION');
-    
-    const sites = data.distributionSites || [
-      { name: 'Distribution Site 1', location: 'Tampa Fairgrounds', supplies: 'Water, MREs, Tarps' },
-      { name: 'Distribution Site 2', location: 'Clearwater Mall', supplies: 'Cleanup Kits, Water' }
-    ];
-    
-    let yPos = 60;
-    sites.forEach((site: any) => {
-      this.pdf.text(`${site.name}`, 20, yPos);
-      this.pdf.text(`Location: ${site.location}`, 30, yPos + 7);
-      this.pdf.text(`Supplies: ${site.supplies}`, 30, yPos + 14);
-      yPos += 25;
+  /**
+   * Add Daily Schedule
+   */
+  private addDailySchedule(section: ResolvedIAPSection) {
+    const schedule = this.iap.dailySchedule;
+    this.startSection(section);
+
+    const entries = [
+      ...schedule.meetings.map(meeting => ({ at: meeting.dateTime, activity: meeting.purpose, location: meeting.location })),
+      ...schedule.briefings.map(briefing => ({ at: briefing.dateTime, activity: briefing.title, location: briefing.location })),
+      ...schedule.specialEvents.map(event => ({ at: event.dateTime, activity: event.title, location: event.location })),
+      ...schedule.deadlines.map(deadline => ({ at: deadline.dueDateTime, activity: `Due: ${deadline.title}`, location: deadline.assignedTo }))
+    ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    const columns = [30, 70, 140];
+    this.writeRow(['Time', 'Activity', 'Location'], columns, { bold: true });
+    entries.forEach(entry => {
+      this.writeRow([formatTime(entry.at), entry.activity, entry.location], columns);
     });
-    
-    this.addPageFooter();
   }
 
-  private addIndividualCareWorkAssignments(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK ASSIGNMENTS - INDIVIDUAL DISASTER CARE');
-    
-    this.pdf.setFontSize(11);
-    this.pdf.text('IDC Teams deployed to:', 20, 60);
-    
-    const locations = [
-      'Shelter A - Mental Health Support',
-      'Shelter B - Client Casework',
-      'Mobile Outreach - Community Centers',
-      'FEMA DRC - Joint Operations'
-    ];
-    
-    let yPos = 70;
-    locations.forEach(loc => {
-      this.pdf.text(`• ${loc}`, 25, yPos);
-      yPos += 8;
-    });
-    
-    this.addPageFooter();
+  /**
+   * Add Maps and Geographic Information
+   */
+  private addMapsGeographic(section: ResolvedIAPSection) {
+    this.startSection(section);
+
+    this.writeHeading('Affected Counties:');
+    Object.entries(this.iap.workSitesTable.sitesByCounty)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([county, sites]) => {
+        this.writeLine(`• ${county} County - ${sites} site${sites === 1 ? '' : 's'}`, { x: 30 });
+      });
+
+    const maps = this.iap.sections.mapProducts || [];
+    if (maps.length > 0) {
+      this.yPos += 6;
+      this.writeHeading('Map Products:');
+      maps.forEach(map => this.writeLine(`• ${map.title} (${map.type}) - ${map.url}`, { x: 30 }));
+    }
   }
 
   /**
-   * Add Work Sites and Facilities (Pages 39-44)
+   * Add Appendices and References, when the IAP has any
    */
-  private addWorkSitesFacilities(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('WORK SITES AND FACILITIES');
-    
-    // Aggregate all facilities
-    const allFacilities = [
-      ...(data.shelteringFacilities || []),
-      ...(data.feedingFacilities || []),
-      ...(data.governmentFacilities || [])
-    ];
-    
-    this.pdf.setFontSize(9);
-    let yPos = 60;
-    let pageNum = 1;
-    
-    allFacilities.forEach((facility: any, index: number) => {
-      if (yPos > 250) {
-        this.pdf.addPage();
-        this.addPageHeader(`WORK SITES AND FACILITIES (Page ${++pageNum})`);
-        yPos = 60;
-      }
-      
-      this.pdf.text(`${index + 1}. ${facility.name}`, 20, yPos);
-      this.pdf.text(`   ${facility.address}, ${facility.county} County`, 20, yPos + 5);
-      yPos += 12;
-    });
-    
-    this.addPageFooter();
+  private addAppendicesReferences(section: ResolvedIAPSection) {
+    if (!this.hasAppendices()) return;
+    this.startSection(section);
+
+    this.writeAncillaryContent(this.appendixContent());
+
+    const lines = this.iap.contactRoster.twentyFourHourLines;
+    if (lines.length > 0) {
+      this.writeHeading('Emergency Contact Numbers:');
+      lines.forEach(line => {
+        this.writeLine(`• ${line.purpose}: ${line.phone} (${line.availability})`, { x: 25 });
+      });
+    }
+  }
+
+  private hasAppendices(): boolean {
+    return this.appendixContent().length > 0 || this.iap.contactRoster.twentyFourHourLines.length > 0;
+  }
+
+  // Ancillary content not already printed in its own annex
+  private appendixContent(): AncillaryContent[] {
+    const annexed = this.sections.map(section => section.annexCategory).filter(Boolean);
+    return (this.iap.ancillaryContent || []).filter(content => !annexed.includes(content.category));
   }
 
   /**
-   * Add Daily Schedule (Pages 45-48)
+   * Add an annex: the IAP's ancillary content of one category, when it has any
    */
-  private addDailySchedule(data: any) {
-    this.pdf.addPage();
-    this.addPageHeader('DAILY SCHEDULE');
-    
-    const schedule = data.dailySchedule || [
-      { time: '06:00', activity: 'Day Shift Report' },
-      { time: '07:00', activity: 'Operations Briefing' },
-      { time: '12:00', activity: 'Situation Update' },
-      { time: '18:00', activity: 'Night Shift Report' },
-      { time: '19:00', activity: 'Command Staff Meeting' }
-    ];
-    
-    // Table headers
-    this.pdf.setFontSize(10);
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('Time', 30, 60);
-    this.pdf.text('Activity', 70, 60);
-    this.pdf.text('Location', 140, 60);
-    this.pdf.line(20, 62, 196, 62);
-    
-    this.pdf.setFont('helvetica', 'normal');
-    let yPos = 70;
-    
-    schedule.forEach((item: any) => {
-      this.pdf.text(item.time, 30, yPos);
-      this.pdf.text(item.activity, 70, yPos);
-      this.pdf.text(item.location || 'HQ', 140, yPos);
-      yPos += 8;
+  private addAnnex(section: ResolvedIAPSection) {
+    const content = (this.iap.ancillaryContent || []).filter(item => item.category === section.annexCategory);
+    if (content.length === 0) return;
+    this.startSection(section);
+    this.writeAncillaryContent(content);
+  }
+
+  private writeAncillaryContent(content: AncillaryContent[]) {
+    [...content]
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .forEach(item => {
+        this.writeHeading(item.title);
+        this.writeLine(item.content.plainText, { x: 25 });
+        this.yPos += 4;
+      });
+  }
+
+  /**
+   * Helper: Add facility table
+   */
+  private addFacilityTable(facilities: IAPFacility[]) {
+    const columns = [20, 80, 120, 150, 175];
+    this.writeRow(['Facility', 'County', 'Capacity', 'Staff', 'Open'], columns, { bold: true, size: 9 });
+
+    facilities.forEach(facility => {
+      const openAssignments = facility.workAssignments
+        .filter(assignment => assignment.status === 'pending' || assignment.status === 'in_progress').length;
+      this.writeRow(
+        [
+          facility.name.substring(0, 25),
+          facility.county,
+          facility.capacity.totalCapacity?.toString() || '-',
+          facility.personnel.length.toString(),
+          openAssignments.toString()
+        ],
+        columns,
+        { size: 9 }
+      );
     });
-    
-    this.addPageFooter();
   }
 
   /**
-   * Add Maps and Geographic Information (Pages 49-51)
+   * Helper: Start a new page with a header and reset the cursor
    */
-  private async addMapsGeographic(data: any) {
+  private startPage(title: string) {
     this.pdf.addPage();
-    this.addPageHeader('MAPS AND GEOGRAPHIC INFORMATION');
-    
-    // Try to capture map if available
-    const mapElement = document.querySelector('[data-map-container]');
-    if (mapElement) {
-      try {
-        const canvas = await html2canvas(mapElement as HTMLElement);
-        const imgData = canvas.toDataURL('image/png');
-        this.pdf.addImage(imgData, 'PNG', 20, 60, 176, 120);
-      } catch (e) {
-        this.addTextMapInfo();
-      }
-    } else {
-      this.addTextMapInfo();
-    }
-    
-    this.addPageFooter();
+    this.pageTitle = title;
+    this.addPageHeader(title);
+    this.yPos = PAGE_TOP;
   }
 
-  private addTextMapInfo() {
-    this.pdf.setFontSize(11);
-    this.pdf.text('Affected Counties:', 20, 70);
-    const counties = ['Hillsborough', 'Pinellas', 'Sarasota', 'Manatee'];
-    let yPos = 80;
-    counties.forEach(county => {
-      this.pdf.text(`• ${county} County`, 30, yPos);
-      yPos += 8;
-    });
+  /**
+   * Helper: Start a template section, on a new page unless it may follow on
+   * and there is room left for more than its heading
+   */
+  private startSection(section: ResolvedIAPSection) {
+    const title = section.title.toUpperCase();
+    if (section.pageBreak === 'before' || this.yPos + 40 > PAGE_BOTTOM) {
+      this.startPage(title);
+      return;
+    }
+    this.pageTitle = title;
+    this.yPos += 6;
+    this.pdf.setFillColor(237, 28, 36);
+    this.pdf.rect(20, this.yPos - 5, 176, 7, 'F');
+    this.pdf.setTextColor(255, 255, 255);
+    this.writeLine(title, { bold: true, step: 10 });
+    this.pdf.setTextColor(0, 0, 0);
   }
 
   /**
-   * Add Appendices and References (Pages 52-53)
+   * Helper: Continue onto a new page when the next line would not fit
    */
-  private addAppendicesReferences(data: any) {
+  private ensureSpace(height: number) {
+    if (this.yPos + height <= PAGE_BOTTOM) return;
     this.pdf.addPage();
-    this.addPageHeader('APPENDICES AND REFERENCES');
-    
-    this.pdf.setFontSize(11);
-    this.pdf.text('Reference Documents:', 20, 60);
-    
-    const references = [
-      'Red Cross Disaster Operations Manual',
-      'Safety Protocols and Guidelines',
-      'Resource Request Procedures',
-      'Communication Plan',
-      'Evacuation Routes and Maps'
-    ];
-    
-    let yPos = 70;
-    references.forEach(ref => {
-      this.pdf.text(`• ${ref}`, 25, yPos);
-      yPos += 8;
-    });
-    
-    this.pdf.text('Emergency Contact Numbers:', 20, yPos + 10);
-    yPos += 20;
-    
-    const contacts = [
-      'National HQ: 1-800-RED-CROSS',
-      'State EOC: 850-815-4000',
-      'FEMA Region IV: 770-220-5200'
-    ];
-    
-    contacts.forEach(contact => {
-      this.pdf.text(`• ${contact}`, 25, yPos);
-      yPos += 8;
-    });
-    
-    this.addPageFooter();
+    this.addPageHeader(`${this.pageTitle} (Continued)`);
+    this.yPos = PAGE_TOP;
+  }
+
+  private writeHeading(text: string) {
+    this.writeLine(text, { bold: true, step: 8 });
   }
 
   /**
-   * Helper: Add facility table
+   * Helper: Write wrapped text at the cursor
    */
-  private addFacilityTable(facilities: any[], type: string) {
-    this.pdf.setFontSize(9);
-    
-    // Headers
-    this.pdf.setFont('helvetica', 'bold');
-    this.pdf.text('Facility', 20, 60);
-    this.pdf.text('County', 80, 60);
-    this.pdf.text('Capacity', 120, 60);
-    this.pdf.text('Staff', 150, 60);
-    this.pdf.text('Gap', 175, 60);
-    
-    this.pdf.line(20, 62, 196, 62);
+  private writeLine(text: string, { x = 20, size = 10, step = 6, bold = false }: { x?: number; size?: number; step?: number; bold?: boolean } = {}) {
+    this.pdf.setFontSize(size);
+    this.pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    const lines: string[] = this.pdf.splitTextToSize(text, 196 - x);
+    lines.forEach(line => {
+      this.ensureSpace(step);
+      this.pdf.text(line, x, this.yPos);
+      this.yPos += step;
+    });
     this.pdf.setFont('helvetica', 'normal');
-    
-    let yPos = 70;
-    facilities.forEach((facility: any) => {
-      this.pdf.text(facility.name.substring(0, 25), 20, yPos);
-      this.pdf.text(facility.county, 80, yPos);
-      
-      const capacity = facility.capacity?.maximum || facility.capacity || '-';
-      this.pdf.text(capacity.toString(), 120, yPos);
-      
-      const staff = facility.personnel?.have || '-';
-      const required = facility.personnel?.required || '-';
-      this.pdf.text(`${staff}/${required}`, 150, yPos);
-      
-      const gap = facility.personnel?.gap || 0;
-      if (gap > 0) {
-        this.pdf.setTextColor(255, 0, 0);
-        this.pdf.text(gap.toString(), 175, yPos);
-        this.pdf.setTextColor(0, 0, 0);
-      } else {
-        this.pdf.text('0', 175, yPos);
-      }
-      
-      yPos += 7;
+  }
+
+  /**
+   * Helper: Write one table row, each cell clipped to its column
+   */
+  private writeRow(cells: string[], columns: number[], { bold = false, size = 9 }: { bold?: boolean; size?: number } = {}) {
+    this.ensureSpace(7);
+    this.pdf.setFontSize(size);
+    this.pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, index) => {
+      const width = (columns[index + 1] ?? 196) - columns[index] - 2;
+      const [fitted] = this.pdf.splitTextToSize(cell || '', width);
+      this.pdf.text(fitted || '', columns[index], this.yPos);
     });
+    if (bold) {
+      this.pdf.line(20, this.yPos + 2, 196, this.yPos + 2);
+      this.pdf.setFont('helvetica', 'normal');
+    }
+    this.yPos += 7;
   }
 
   /**
    * Helper: Add page header
    */
   private addPageHeader(title: string) {
+    const coverPage = this.iap.sections.coverPage;
     this.pdf.setFillColor(237, 28, 36);
     this.pdf.rect(0, 0, 216, 15, 'F');
-    
+
     this.pdf.setTextColor(255, 255, 255);
     this.pdf.setFontSize(12);
     this.pdf.setFont('helvetica', 'bold');
     this.pdf.text(title, 108, 10, { align: 'center' });
-    
+
     this.pdf.setTextColor(0, 0, 0);
     this.pdf.setFont('helvetica', 'normal');
-    
+
     // Add operation info
     this.pdf.setFontSize(9);
-    this.pdf.text(`DR ${V27_IAP_DATA.operation.drNumber}`, 20, 25);
-    this.pdf.text(`${V27_IAP_DATA.operation.name}`, 108, 25, { align: 'center' });
-    this.pdf.text(`Period #${V27_IAP_DATA.operation.operationalPeriod.number}`, 196, 25, { align: 'right' });
-    
+    this.pdf.text(`DR ${coverPage.operationNumber}`, 20, 25);
+    this.pdf.text(coverPage.operationName, 108, 25, { align: 'center' });
+    this.pdf.text(`IAP #${this.iap.iapNumber}`, 196, 25, { align: 'right' });
+
     this.pdf.line(20, 30, 196, 30);
   }
 
   /**
-   * Helper: Add page footer
+   * Helper: Add page footers and numbers once the page count is known
    */
-  private addPageFooter() {
-    if (this.options.includePageNumbers) {
-      this.pdf.setFontSize(9);
-      this.pdf.text(
-        `Page ${this.currentPage} of ${this.totalPages}`,
-        196,
-        280,
-        { align: 'right' }
-      );
-    }
-    
-    if (this.options.includeFooters) {
-      this.pdf.setFontSize(8);
-      this.pdf.text(
-        'American Red Cross - Confidential',
-        108,
-        285,
-        { align: 'center' }
-      );
+  private addPageFooters() {
+    const totalPages = this.pdf.getNumberOfPages();
+    for (let page = 1; page <= totalPages; page++) {
+      this.pdf.setPage(page);
+      if (this.options.includePageNumbers) {
+        this.pdf.setFontSize(9);
+        this.pdf.text(`Page ${page} of ${totalPages}`, 196, 280, { align: 'right' });
+      }
+      if (this.options.includeFooters) {
+        this.pdf.setFontSize(8);
+        this.pdf.text(
+          'American Red Cross - Confidential',
+          108,
+          285,
+          { align: 'center' }
+        );
+      }
     }
-    
-    this.currentPage++;
   }
 
   /**
@@ -785,4 +961,24 @@ Remember that we are here to serve those affected by this disaster with compassi
   getDataUrl(): string {
     return this.pdf.output('datauristring');
   }
-}
\ No newline at end of file
+}
+
+// The enhanced org chart when it has been filled in, otherwise the ICS 203 section
+function orgChartOf(iap: EnhancedIAPDocument): EnhancedOrgChart | ICSForm203 {
+  return iap.organizationChart?.incidentCommander ? iap.organizationChart : iap.sections?.organizationChart;
+}
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+}
+
+function formatTime(value: Date | string): string {
+  return new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+}
@@ -0,0 +1,238 @@
+/**
+ * IAP PDF Generator Tests
+ *
+ * Validates that PDFs are built from the IAP document and that incomplete
+ * IAPs are refused rather than padded with demo content
+ */
+
+import { IAPPdfGenerator, validateIAPForPdf } from '../IAPPdfGenerator';
+import { IAPProjector } from '../../projections/IAPProjector';
+import { EventType } from '../../events/types';
+import { IAP_TEMPLATES } from '../../iap/IAPTemplates';
+import { diffIAP } from '../../iap/IAPDiff';
+import { EnhancedIAPDocument } from '../../../types';
+
+const mockPrinted: string[] = [];
+
+// Records the text drawn on each page instead of building a real PDF
+jest.mock('jspdf', () => jest.fn().mockImplementation(() => {
+  let pages = 1;
+  return {
+    text: (text: string) => mockPrinted.push(text),
+    splitTextToSize: (text: string) => text.split('\n'),
+    addPage: () => pages++,
+    getNumberOfPages: () => pages,
+    output: () => new Blob([mockPrinted.join('\n')]),
+    setPage: jest.fn(),
+    setFont: jest.fn(),
+    setFontSize: jest.fn(),
+    setTextColor: jest.fn(),
+    setFillColor: jest.fn(),
+    setDrawColor: jest.fn(),
+    setLineWidth: jest.fn(),
+    rect: jest.fn(),
+    line: jest.fn(),
+  };
+}));
+jest.mock('html2canvas', () => jest.fn());
+
+async function draftIAP(): Promise<EnhancedIAPDocument> {
+  const projector = new IAPProjector();
+  await projector.processEvent({
+    id: 'iap-7',
+    type: EventType.IAP_CREATED,
+    schemaVersion: 1,
+    actorId: 'planning-chief',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: Date.parse('2025-09-01T00:00:00.000Z'),
+    payload: {
+      iapNumber: 7,
+      operationalPeriodStart: '2025-09-01T06:00:00.000Z',
+      operationalPeriodEnd: '2025-09-02T06:00:00.000Z',
+      preparedBy: 'Gary Pelletier',
+    },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  });
+  return projector.getIAPDocument('iap-7')!;
+}
+
+function complete(iap: EnhancedIAPDocument): EnhancedIAPDocument {
+  iap.sections.coverPage.operationName = 'Hurricane Milton Response';
+  iap.sections.coverPage.operationNumber = '220-25';
+  iap.sections.coverPage.approvedBy = 'Virginia Mewborn';
+  iap.directorsMessage.plainText = 'Stay safe and look after each other.';
+  iap.contactRoster.commandStructure.push({
+    position: 'DRO Director',
+    name: 'Virginia Mewborn',
+    phone: '555-0100',
+    email: 'virginia.mewborn@redcross.org',
+    section: 'command',
+    isLiveLink: true,
+  });
+  iap.organizationChart.incidentCommander = 'Virginia Mewborn';
+  iap.sections.incidentObjectives.objectives.push('Shelter everyone displaced in Pasco County');
+  iap.sections.assignmentList.workAssignments.push('Open Pasco High shelter by 0800');
+  iap.workSitesTable.sites.push({
+    id: 'f-1',
+    county: 'Pasco',
+    type: 'shelter',
+    facilityName: 'Pasco High Shelter',
+    address: '36850 SR 52, Dade City, FL 33525',
+    contact: 'Lee Chen',
+    phone: '555-0101',
+    status: 'operational',
+    personnel: 12,
+    capacity: 250,
+  });
+  iap.workSitesTable.sitesByCounty = { Pasco: 1 };
+  iap.dailySchedule.briefings.push({
+    id: 'b-1',
+    title: 'Operations Briefing',
+    dateTime: new Date('2025-09-01T11:00:00.000Z'),
+    location: 'DRO HQ',
+    presenter: 'Gary Pelletier',
+    attendees: [],
+    topics: [],
+  });
+  return iap;
+}
+
+describe('validateIAPForPdf', () => {
+  it('names every missing section of a fresh draft', async () => {
+    const issues = validateIAPForPdf(await draftIAP());
+    const sections = issues.map(issue => issue.section);
+
+    expect(sections).toEqual(expect.arrayContaining([
+      'Cover Page',
+      "Director's Message",
+      'Contact Roster',
+      'Organization Chart',
+      'Priorities and Objectives',
+      'Work Assignments',
+      'Work Sites and Facilities',
+      'Daily Schedule',
+    ]));
+  });
+
+  it('accepts a complete IAP', async () => {
+    expect(validateIAPForPdf(complete(await draftIAP()))).toEqual([]);
+  });
+
+  it('only checks the sections the template prints', async () => {
+    const template = {
+      ...IAP_TEMPLATES.standard,
+      sections: IAP_TEMPLATES.standard.sections.map(section => ({ ...section, enabled: section.id === 'cover' })),
+    };
+    const sections = validateIAPForPdf(await draftIAP(), template).map(issue => issue.section);
+
+    expect(new Set(sections)).toEqual(new Set(['Cover Page']));
+  });
+});
+
+describe('IAPPdfGenerator', () => {
+  it('refuses to print an incomplete IAP', async () => {
+    await expect(new IAPPdfGenerator().generateCompleteIAP(await draftIAP()))
+      .rejects.toThrow("IAP #7 is not ready to print:\n- Cover Page: Operation name is missing");
+  });
+
+  it('prints the IAP content and numbers the pages', async () => {
+    mockPrinted.length = 0;
+    const blob = await new IAPPdfGenerator().generateCompleteIAP(complete(await draftIAP()));
+
+    expect(blob.size).toBeGreaterThan(0);
+    expect(mockPrinted).toEqual(expect.arrayContaining([
+      'Incident Name: Hurricane Milton Response',
+      'DRO Director: Virginia Mewborn',
+      '1. Shelter everyone displaced in Pasco County',
+      '1. Pasco High Shelter (operational)',
+      '• Pasco County - 1 site',
+    ]));
+    expect(mockPrinted.filter(text => /^Page 1 of \d+$/.test(text))).toHaveLength(1);
+    // Nothing from the bundled demo IAP
+    expect(mockPrinted.join('\n')).not.toMatch(/Patricia DAlessandro|ERV 11181|Tampa Fairgrounds/);
+  });
+
+  it('prints the communications plan when one has been entered', async () => {
+    mockPrinted.length = 0;
+    const iap = complete(await draftIAP());
+    iap.sections.communicationsPlan.basicRadioChannel.push({
+      function: 'Command',
+      channel: 'ARC 1',
+      frequency: '155.205',
+      system: 'VHF',
+    });
+    iap.sections.communicationsPlan.callSigns = [{ callSign: 'DRO-1', name: 'Virginia Mewborn' }];
+    await new IAPPdfGenerator().generateCompleteIAP(iap);
+
+    expect(mockPrinted).toEqual(expect.arrayContaining(['COMMUNICATIONS PLAN (ICS 205)', 'ARC 1', '155.205', 'DRO-1']));
+  });
+
+  it('prints the medical plan with the nearest hospitals to each facility', async () => {
+    mockPrinted.length = 0;
+    const iap = complete(await draftIAP());
+    iap.sections.medicalPlan.facilityHospitals = [{
+      facilityId: 'f-1',
+      facilityName: 'Pasco High Shelter',
+      hospitals: [{
+        name: 'AdventHealth Dade City',
+        address: '13100 Fort King Rd, Dade City, FL',
+        contact: '',
+        travelTime: '9 min ground',
+        distanceMiles: 4.2,
+        traumaCenter: false,
+        burnCenter: false,
+        helipad: false,
+      }],
+    }];
+    iap.sections.medicalPlan.emergencyProcedures = 'Call 911, then the shelter manager.';
+    await new IAPPdfGenerator().generateCompleteIAP(iap);
+
+    expect(mockPrinted).toEqual(expect.arrayContaining([
+      'MEDICAL PLAN (ICS 206)',
+      'Pasco High Shelter',
+      'AdventHealth Dade City',
+      '4.2 mi, 9 min ground',
+      'Call 911, then the shelter manager.',
+    ]));
+  });
+
+  it('follows the template order and custom headers', async () => {
+    mockPrinted.length = 0;
+    const standard = IAP_TEMPLATES.standard.sections;
+    const template = {
+      ...IAP_TEMPLATES.standard,
+      id: 'custom',
+      sections: [
+        standard[0],
+        { ...standard.find(section => section.id === 'daily_schedule')!, header: 'Meetings' },
+        ...standard.filter(section => section.id !== 'cover' && section.id !== 'daily_schedule'),
+      ],
+    };
+    await new IAPPdfGenerator({ template }).generateCompleteIAP(complete(await draftIAP()));
+
+    const printed = mockPrinted.join('\n');
+    expect(printed.indexOf('MEETINGS')).toBeGreaterThan(-1);
+    expect(printed.indexOf('MEETINGS')).toBeLessThan(printed.indexOf("DIRECTOR'S INTENT/MESSAGE"));
+  });
+
+  it('prints the changes page whenever there are changes since the last period', async () => {
+    mockPrinted.length = 0;
+    const previous = complete(await draftIAP());
+    const iap = complete(await draftIAP());
+    iap.sections.incidentObjectives.objectives.push('Open a second shelter in Hernando County');
+    const template = {
+      ...IAP_TEMPLATES.standard,
+      id: 'cover-only',
+      sections: IAP_TEMPLATES.standard.sections.map(section => ({ ...section, enabled: section.id === 'cover' })),
+    };
+    await new IAPPdfGenerator({ template, changes: diffIAP(previous, iap) }).generateCompleteIAP(iap);
+
+    const printed = mockPrinted.join('\n');
+    expect(printed.indexOf('Incident Name: Hurricane Milton Response')).toBeGreaterThan(-1);
+    expect(printed.indexOf('CHANGES SINCE LAST PERIOD')).toBeGreaterThan(printed.indexOf('Incident Name: Hurricane Milton Response'));
+    expect(printed).toMatch(/Open a second shelter in Hernando County/);
+  });
+});
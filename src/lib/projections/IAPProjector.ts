@@ -7,8 +7,12 @@
  */
 
 import { Event, EventType } from '../events/types';
+import { upcastEvent } from '../events/upcasters';
+import { compareCausally } from '../events/vectorClock';
+import type { LocalStore } from '../store/LocalStore';
 import { 
   EnhancedIAPDocument, 
+  IAPDocument,
   IAPFacility, 
   WorkSitesTable,
   ContactRoster,
@@ -16,23 +20,115 @@ import {
   IncidentPriorities,
   ActionTracker,
   IAPSnapshot,
+  IAPCarryForward,
   FacilityType,
-  ServiceLine
+  ServiceLine,
+  DisciplineAssignment,
+  DisciplineId
 } from '../../types';
+import { isIAPEditable, hashIAPContent, lockIAPDocument } from '../iap/iapStatus';
+import {
+  DisciplineAssignments,
+  applyDisciplineAssignmentEvent,
+  assignmentWorkSites,
+  assignmentsForIAP
+} from '../disciplines/DisciplineAssignmentProjection';
+
+// Events that change IAP content and are refused once it is approved
+const SECTION_EDIT_EVENTS = [
+  EventType.DIRECTORS_MESSAGE_UPDATED,
+  EventType.CONTACT_ROSTER_UPDATED,
+  EventType.COMMUNICATIONS_PLAN_UPDATED,
+  EventType.MEDICAL_PLAN_UPDATED,
+  EventType.WEATHER_UPDATED,
+  EventType.PLANNING_WORKSHEET_UPDATED,
+  EventType.DAILY_SCHEDULE_UPDATED,
+  EventType.PRIORITIES_UPDATED,
+  EventType.PHOTO_ATTACHED
+];
 
 export class IAPProjector {
   private facilities: Map<string, IAPFacility> = new Map();
   private iapDocuments: Map<string, EnhancedIAPDocument> = new Map();
   private snapshots: Map<string, IAPSnapshot> = new Map();
+  private disciplineAssignments: Map<string, DisciplineAssignments> = new Map(); // By operation
+  private processedEventIds: Set<string> = new Set();
+  private loadedThrough: Map<string, number> = new Map(); // Local log position each operation is caught up to
+
+  /**
+   * Build a projector from an operation's events up to and including
+   * `timestamp`, for a historical view
+   */
+  static async at(operationId: string, localStore: Pick<LocalStore, 'getEvents'>, timestamp: number): Promise<IAPProjector> {
+    const projector = new IAPProjector();
+    await projector.loadOperation(operationId, localStore, timestamp);
+    return projector;
+  }
 
   /**
-   * Process events to build IAP projections
+   * Catch up with an operation's event log: apply every logged event not yet
+   * processed, in causal order. IAP state lives only here, so this rebuilds
+   * it after a reload and picks up events synced from other devices; once
+   * loaded, only the log after the last load is read. With `until`, stops at
+   * that time to show the IAPs as they stood then.
+   */
+  async loadOperation(
+    operationId: string,
+    localStore: Pick<LocalStore, 'getEvents'> & Partial<Pick<LocalStore, 'getEventsAfter'>>,
+    until?: number
+  ): Promise<void> {
+    const loaded = until === undefined ? this.loadedThrough.get(operationId) : undefined;
+    const logged = loaded !== undefined && localStore.getEventsAfter
+      ? await localStore.getEventsAfter(operationId, loaded)
+      : await localStore.getEvents(operationId, undefined, until);
+    if (until === undefined) {
+      this.loadedThrough.set(operationId, Math.max(loaded ?? 0, ...logged.map(event => event.logPosition || 0)));
+    }
+
+    const events = logged
+      .filter(event => !this.processedEventIds.has(event.id))
+      .map(upcastEvent)
+      .sort(compareCausally);
+    for (const event of events) {
+      await this.processEvent(event);
+    }
+  }
+
+  /**
+   * Process events to build IAP projections. An event is applied once, however
+   * often it is delivered.
    */
   async processEvent(event: Event): Promise<void> {
+    if (this.processedEventIds.has(event.id)) return;
+    this.processedEventIds.add(event.id);
+
+    if (SECTION_EDIT_EVENTS.includes(event.type as EventType)) {
+      const iapDocument = this.iapDocuments.get(event.payload?.iapId);
+      if (iapDocument && !isIAPEditable(iapDocument.status)) {
+        console.warn(`[IAPProjector] Ignoring ${event.type} for ${iapDocument.status} IAP ${iapDocument.id}`);
+        return;
+      }
+    }
+
     switch (event.type) {
       case EventType.IAP_CREATED:
         await this.handleIAPCreated(event);
         break;
+      case EventType.IAP_VERSION_CREATED:
+        await this.handleIAPVersionCreated(event);
+        break;
+      case EventType.IAP_SUBMITTED_FOR_REVIEW:
+        await this.handleSubmittedForReview(event);
+        break;
+      case EventType.IAP_RETURNED_TO_DRAFT:
+        await this.handleReturnedToDraft(event);
+        break;
+      case EventType.IAP_APPROVED:
+        await this.handleApproved(event);
+        break;
+      case EventType.IAP_PUBLISHED:
+        await this.handlePublished(event);
+        break;
       case EventType.FACILITY_CREATED:
         await this.handleFacilityCreated(event);
         break;
@@ -45,12 +141,29 @@ export class IAPProjector {
       case EventType.WORK_ASSIGNMENT_CREATED:
         await this.handleWorkAssignmentCreated(event);
         break;
+      case EventType.DISCIPLINE_ASSIGNMENT_SAVED:
+      case EventType.DISCIPLINE_ASSIGNMENT_SUBMITTED:
+      case EventType.DISCIPLINE_ASSIGNMENT_APPROVED:
+        await this.handleDisciplineAssignmentEvent(event);
+        break;
       case EventType.DIRECTORS_MESSAGE_UPDATED:
         await this.handleDirectorsMessageUpdated(event);
         break;
       case EventType.CONTACT_ROSTER_UPDATED:
         await this.handleContactRosterUpdated(event);
         break;
+      case EventType.COMMUNICATIONS_PLAN_UPDATED:
+        await this.handleCommunicationsPlanUpdated(event);
+        break;
+      case EventType.MEDICAL_PLAN_UPDATED:
+        await this.handleMedicalPlanUpdated(event);
+        break;
+      case EventType.WEATHER_UPDATED:
+        await this.handleWeatherUpdated(event);
+        break;
+      case EventType.PLANNING_WORKSHEET_UPDATED:
+        await this.handlePlanningWorksheetUpdated(event);
+        break;
       case EventType.DAILY_SCHEDULE_UPDATED:
         await this.handleDailyScheduleUpdated(event);
         break;
@@ -76,6 +189,54 @@ export class IAPProjector {
     return this.iapDocuments.get(iapId) || null;
   }
 
+  /**
+   * Get the IAP covering a moment in an operation (latest IAP number wins if periods overlap)
+   */
+  getIAPForPeriod(operationId: string, at: Date = new Date()): EnhancedIAPDocument | null {
+    const time = at.getTime();
+    return Array.from(this.iapDocuments.values())
+      .filter(iap =>
+        iap.operationId === operationId &&
+        new Date(iap.operationalPeriod.start).getTime() <= time &&
+        time < new Date(iap.operationalPeriod.end).getTime()
+      )
+      .sort((a, b) => b.iapNumber - a.iapNumber)[0] || null;
+  }
+
+  /**
+   * Get an operation's newest IAP
+   */
+  getLatestIAP(operationId: string): EnhancedIAPDocument | null {
+    return Array.from(this.iapDocuments.values())
+      .filter(iap => iap.operationId === operationId)
+      .sort((a, b) => b.iapNumber - a.iapNumber)[0] || null;
+  }
+
+  /**
+   * Get the IAP an IAP was rolled over from, or the one numbered before it
+   */
+  getPreviousIAP(iap: IAPDocument): EnhancedIAPDocument | null {
+    if (iap.previousIapId) {
+      return this.getIAPDocument(iap.previousIapId);
+    }
+    return Array.from(this.iapDocuments.values())
+      .find(other => other.operationId === iap.operationId && other.iapNumber === iap.iapNumber - 1) || null;
+  }
+
+  /**
+   * Get a snapshot by id
+   */
+  getSnapshot(snapshotId: string): IAPSnapshot | null {
+    return this.snapshots.get(snapshotId) || null;
+  }
+
+  /**
+   * Check that a snapshot's content still matches the hash taken when it was frozen
+   */
+  verifySnapshot(snapshot: IAPSnapshot): boolean {
+    return !!snapshot.contentHash && hashIAPContent(snapshot.data) === snapshot.contentHash;
+  }
+
   /**
    * Get all facilities for an operation
    */
@@ -85,12 +246,29 @@ export class IAPProjector {
   }
 
   /**
-   * Generate Work Sites Table from facilities
+   * Get discipline work assignments in every status, optionally for one discipline
+   */
+  getDisciplineAssignments(operationId: string, discipline?: DisciplineId): DisciplineAssignment[] {
+    return Object.values(this.disciplineAssignments.get(operationId) || {})
+      .filter(assignment => !discipline || assignment.discipline === discipline)
+      .sort((a, b) => a.site.name.localeCompare(b.site.name));
+  }
+
+  /**
+   * Get the submitted and approved discipline assignments that feed the IAP
+   */
+  getDisciplineAssignmentsForIAP(operationId: string, discipline?: DisciplineId): DisciplineAssignment[] {
+    return assignmentsForIAP(this.disciplineAssignments.get(operationId) || {}, discipline);
+  }
+
+  /**
+   * Generate Work Sites Table from facilities and the sites of submitted or
+   * approved discipline assignments
    */
   generateWorkSitesTable(operationId: string): WorkSitesTable {
     const facilities = this.getFacilitiesForOperation(operationId);
     
-    const sites = facilities.map(facility => ({
+    const facilitySites = facilities.map(facility => ({
       id: facility.id,
       county: facility.county,
       type: facility.facilityType,
@@ -102,22 +280,26 @@ export class IAPProjector {
       personnel: facility.personnel.length,
       capacity: facility.capacity.totalCapacity
     }));
+    const sites = [
+      ...facilitySites,
+      ...assignmentWorkSites(this.getDisciplineAssignmentsForIAP(operationId), facilities.map(f => f.name))
+    ];
 
     // Count sites by type
     const sitesByType: { [key in FacilityType]?: number } = {};
-    facilities.forEach(facility => {
-      sitesByType[facility.facilityType] = (sitesByType[facility.facilityType] || 0) + 1;
+    sites.forEach(site => {
+      sitesByType[site.type] = (sitesByType[site.type] || 0) + 1;
     });
 
     // Count sites by county
     const sitesByCounty: { [county: string]: number } = {};
-    facilities.forEach(facility => {
-      sitesByCounty[facility.county] = (sitesByCounty[facility.county] || 0) + 1;
+    sites.forEach(site => {
+      sitesByCounty[site.county] = (sitesByCounty[site.county] || 0) + 1;
     });
 
     return {
       sites,
-      totalSites: facilities.length,
+      totalSites: sites.length,
       sitesByType,
       sitesByCounty
     };
@@ -216,16 +398,18 @@ export class IAPProjector {
       throw new Error(`IAP document ${iapId} not found`);
     }
 
+    const data = lockIAPDocument(iapDocument);
     const snapshot: IAPSnapshot = {
       id: crypto.randomUUID(),
       iapId,
       versionId: iapDocument.version.toString(),
       snapshotTime: new Date(),
       snapshotType: 'official_6pm',
-      data: { ...iapDocument }, // Deep copy
+      data,
       generatedBy,
       isLocked: true,
-      distributionList: []
+      distributionList: [],
+      contentHash: hashIAPContent(data)
     };
 
     this.snapshots.set(snapshot.id, snapshot);
@@ -255,7 +439,10 @@ export class IAPProjector {
   // Event handlers
   private async handleIAPCreated(event: Event): Promise<void> {
     const payload = event.payload;
-    const iapId = event.id;
+    const iapId = payload.iapId || event.id;
+
+    // Two devices opened the same IAP: the first one stands
+    if (this.iapDocuments.has(iapId)) return;
 
     const iapDocument: EnhancedIAPDocument = {
       id: iapId,
@@ -268,6 +455,7 @@ export class IAPProjector {
       status: 'draft',
       createdAt: new Date(event.timestamp),
       createdBy: event.actorId,
+      previousIapId: payload.previousIapId ?? payload.carryForward?.previousIapId,
       version: 1,
       sections: {
         coverPage: {
@@ -339,12 +527,7 @@ export class IAPProjector {
         serviceLinesSummary: [],
         geographicDistribution: []
       },
-      workSitesTable: {
-        sites: [],
-        totalSites: 0,
-        sitesByType: {},
-        sitesByCounty: {}
-      },
+      workSitesTable: this.generateWorkSitesTable(event.operationId!),
       dailySchedule: {
         meetings: [],
         briefings: [],
@@ -402,7 +585,7 @@ export class IAPProjector {
       photoAttachments: [],
       ancillaryContent: [],
       versionHistory: [{
-        id: crypto.randomUUID(),
+        id: `${event.id}-v1`,
         versionNumber: 1,
         createdAt: new Date(event.timestamp),
         createdBy: event.actorId,
@@ -415,9 +598,117 @@ export class IAPProjector {
       }]
     };
 
+    if (payload.carryForward) {
+      this.applyCarryForward(iapDocument, payload.carryForward);
+    }
+
     this.iapDocuments.set(iapId, iapDocument);
   }
 
+  private async handleIAPVersionCreated(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      this.incrementIAPVersion(iapDocument, event, payload.section || 'document', payload.description);
+    }
+  }
+
+  /**
+   * Seed a new period's IAP with what was carried forward from the last one.
+   * The carry-forward arrives as JSON, so its dates are revived here.
+   */
+  private applyCarryForward(iapDocument: EnhancedIAPDocument, carry: IAPCarryForward): void {
+    const date = (value: any) => new Date(value);
+    const sections = iapDocument.sections;
+
+    sections.coverPage.operationName = carry.coverPage.operationName;
+    sections.coverPage.operationNumber = carry.coverPage.operationNumber;
+    sections.coverPage.distributionList = [...carry.coverPage.distributionList];
+
+    sections.incidentObjectives.objectives = [...carry.objectives];
+    sections.incidentObjectives.priorities = [...carry.priorities];
+    sections.operationalPlanning.objectives = [...carry.objectives];
+
+    sections.organizationChart = {
+      incidentCommander: carry.organizationChart.incidentCommander,
+      deputyIC: carry.organizationChart.deputyIC,
+      sections: carry.organizationChart.sections,
+      safetyOfficer: carry.organizationChart.safetyOfficer,
+      publicInfoOfficer: carry.organizationChart.publicInfoOfficer,
+      liaisonOfficer: carry.organizationChart.liaisonOfficer
+    };
+    iapDocument.organizationChart = carry.organizationChart;
+
+    sections.assignmentList.workAssignments = [...carry.workAssignments];
+    sections.assignmentList.resources = [...carry.resources];
+    sections.assignmentList.operationsSectionChief = carry.organizationChart.sections.operations.chief;
+
+    // Comms and medical plans rarely change between periods
+    if (carry.communicationsPlan) {
+      sections.communicationsPlan = {
+        ...sections.communicationsPlan,
+        basicRadioChannel: carry.communicationsPlan.basicRadioChannel,
+        talkgroups: carry.communicationsPlan.talkgroups,
+        phoneBridges: carry.communicationsPlan.phoneBridges,
+        satellitePhones: carry.communicationsPlan.satellitePhones,
+        callSigns: carry.communicationsPlan.callSigns,
+        telephoneNumbers: carry.communicationsPlan.telephoneNumbers
+      };
+    }
+    if (carry.medicalPlan) {
+      sections.medicalPlan = {
+        ...sections.medicalPlan,
+        medicalAidStations: carry.medicalPlan.medicalAidStations,
+        ambulanceServices: carry.medicalPlan.ambulanceServices,
+        hospitals: carry.medicalPlan.hospitals,
+        facilityHospitals: carry.medicalPlan.facilityHospitals,
+        emergencyProcedures: carry.medicalPlan.emergencyProcedures
+      };
+    }
+
+    const revivePriorities = (priorities: IncidentPriorities[keyof IncidentPriorities]) =>
+      priorities.map(priority => ({
+        ...priority,
+        dueDate: priority.dueDate ? date(priority.dueDate) : undefined
+      }));
+    iapDocument.incidentPriorities = {
+      lifeSafety: revivePriorities(carry.incidentPriorities.lifeSafety),
+      incidentStabilization: revivePriorities(carry.incidentPriorities.incidentStabilization),
+      propertyConservation: revivePriorities(carry.incidentPriorities.propertyConservation),
+      customPriorities: revivePriorities(carry.incidentPriorities.customPriorities)
+    };
+
+    iapDocument.previousPeriodStatus = {
+      ...iapDocument.previousPeriodStatus,
+      completedObjectives: carry.completedObjectives.map(objective => ({
+        ...objective,
+        completedAt: date(objective.completedAt)
+      })),
+      carryForwardItems: carry.carryForwardItems.map(item => ({
+        ...item,
+        originalDueDate: date(item.originalDueDate),
+        newDueDate: date(item.newDueDate)
+      }))
+    };
+
+    iapDocument.dailySchedule = {
+      meetings: carry.dailySchedule.meetings.map(meeting => ({ ...meeting, dateTime: date(meeting.dateTime) })),
+      briefings: carry.dailySchedule.briefings.map(briefing => ({ ...briefing, dateTime: date(briefing.dateTime) })),
+      deadlines: carry.dailySchedule.deadlines.map(deadline => ({
+        ...deadline,
+        dueDateTime: date(deadline.dueDateTime)
+      })),
+      specialEvents: carry.dailySchedule.specialEvents.map(special => ({ ...special, dateTime: date(special.dateTime) }))
+    };
+
+    iapDocument.versionHistory[0].changes.push({
+      section: 'document',
+      changeType: 'added',
+      description: `Carried forward from IAP #${carry.previousIapNumber}`
+    });
+  }
+
   private async handleFacilityCreated(event: Event): Promise<void> {
     const payload = event.payload;
     const facilityId = event.id;
@@ -467,7 +758,7 @@ export class IAPProjector {
     
     if (facility) {
       facility.personnel.push({
-        id: crypto.randomUUID(),
+        id: event.id,
         personId: payload.personId,
         position: payload.position,
         section: payload.section,
@@ -501,21 +792,103 @@ export class IAPProjector {
     }
   }
 
+  private async handleCommunicationsPlanUpdated(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      iapDocument.sections.communicationsPlan = {
+        ...iapDocument.sections.communicationsPlan,
+        basicRadioChannel: payload.basicRadioChannel,
+        talkgroups: payload.talkgroups,
+        phoneBridges: payload.phoneBridges,
+        satellitePhones: payload.satellitePhones,
+        callSigns: payload.callSigns,
+        preparedBy: payload.preparedBy,
+        dateTime: new Date(event.timestamp)
+      };
+
+      this.incrementIAPVersion(iapDocument, event, 'communications_plan', 'Communications plan updated');
+    }
+  }
+
+  private async handleMedicalPlanUpdated(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      iapDocument.sections.medicalPlan = {
+        medicalAidStations: payload.medicalAidStations,
+        ambulanceServices: payload.ambulanceServices,
+        hospitals: payload.hospitals,
+        facilityHospitals: payload.facilityHospitals,
+        emergencyProcedures: payload.emergencyProcedures,
+        preparedBy: payload.preparedBy,
+        dateTime: new Date(event.timestamp)
+      };
+
+      this.incrementIAPVersion(iapDocument, event, 'medical_plan', 'Medical plan updated');
+    }
+  }
+
+  private async handleWeatherUpdated(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      // Dates arrive as ISO strings
+      const condition = (value: any) => ({ ...value, dateTime: new Date(value.dateTime) });
+      iapDocument.sections.weatherForecast = {
+        current: payload.weather.current ? condition(payload.weather.current) : undefined,
+        forecast: payload.weather.forecast.map(condition),
+        alerts: payload.weather.alerts.map((alert: any) => ({
+          ...alert,
+          startTime: new Date(alert.startTime),
+          endTime: new Date(alert.endTime)
+        })),
+        source: payload.weather.source,
+        updatedAt: new Date(payload.weather.updatedAt)
+      };
+      iapDocument.sections.incidentObjectives.weatherSummary = payload.weatherSummary;
+      iapDocument.sections.incidentObjectives.safetyMessage = payload.safetyMessage;
+
+      this.incrementIAPVersion(iapDocument, event, 'weather', 'Weather forecast and alerts updated');
+    }
+  }
+
+  private async handlePlanningWorksheetUpdated(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      iapDocument.sections.operationalPlanning = {
+        ...iapDocument.sections.operationalPlanning,
+        resourceWorksheet: payload.rows,
+        preparedBy: payload.preparedBy,
+        dateTime: new Date(event.timestamp)
+      };
+
+      this.incrementIAPVersion(iapDocument, event, 'planning_worksheet', 'Operational planning worksheet updated');
+    }
+  }
+
   private async handleSnapshotCreated(event: Event): Promise<void> {
     const payload = event.payload;
     const iapDocument = this.iapDocuments.get(payload.iapId);
     
     if (iapDocument) {
+      const data = lockIAPDocument(iapDocument);
       const snapshot: IAPSnapshot = {
         id: event.id,
         iapId: payload.iapId,
         versionId: payload.versionId,
         snapshotTime: new Date(event.timestamp),
         snapshotType: payload.snapshotType,
-        data: { ...iapDocument },
+        data,
         generatedBy: event.actorId,
         isLocked: payload.isLocked,
-        distributionList: payload.distributionList || []
+        distributionList: payload.distributionList || [],
+        contentHash: payload.contentHash || hashIAPContent(data)
       };
 
       this.snapshots.set(snapshot.id, snapshot);
@@ -534,6 +907,71 @@ export class IAPProjector {
     }
   }
 
+  private async handleSubmittedForReview(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      iapDocument.status = 'in_review';
+      iapDocument.sections.coverPage.preparedBy = payload.preparedBy;
+      iapDocument.sections.coverPage.approvedBy = payload.approvedBy;
+      iapDocument.review = {
+        preparedBy: payload.preparedBy,
+        approvedBy: payload.approvedBy,
+        submittedAt: new Date(event.timestamp)
+      };
+    }
+  }
+
+  private async handleReturnedToDraft(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      iapDocument.status = 'draft';
+      if (iapDocument.review) {
+        iapDocument.review = {
+          ...iapDocument.review,
+          approvedAt: undefined,
+          returnedAt: new Date(event.timestamp),
+          returnedBy: payload.returnedBy,
+          returnReason: payload.reason
+        };
+      }
+    }
+  }
+
+  private async handleApproved(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument && iapDocument.review) {
+      iapDocument.status = 'approved';
+      iapDocument.review = {
+        ...iapDocument.review,
+        approvedAt: new Date(event.timestamp)
+      };
+    }
+  }
+
+  private async handlePublished(event: Event): Promise<void> {
+    const payload = event.payload;
+    const iapDocument = this.iapDocuments.get(payload.iapId);
+
+    if (iapDocument) {
+      iapDocument.status = 'published';
+      iapDocument.publishedAt = new Date(event.timestamp);
+      iapDocument.publishedBy = event.actorId;
+      iapDocument.officialSnapshot = this.snapshots.get(payload.snapshotId) || iapDocument.officialSnapshot;
+      iapDocument.versionHistory.forEach(version => {
+        if (version.versionNumber === iapDocument.version) {
+          version.isOfficial = true;
+          version.snapshotId = payload.snapshotId;
+        }
+      });
+    }
+  }
+
   // Placeholder handlers for other events
   private async handleFacilityUpdated(event: Event): Promise<void> {
     // Implementation for facility updates
@@ -543,6 +981,15 @@ export class IAPProjector {
     // Implementation for work assignment creation
   }
 
+  private async handleDisciplineAssignmentEvent(event: Event): Promise<void> {
+    if (!event.operationId) return;
+    const assignments = this.disciplineAssignments.get(event.operationId) || {};
+    this.disciplineAssignments.set(event.operationId, applyDisciplineAssignmentEvent(assignments, event));
+
+    // Update any IAP documents for this operation
+    this.updateIAPDocumentsForOperation(event.operationId);
+  }
+
   private async handleContactRosterUpdated(event: Event): Promise<void> {
     // Implementation for contact roster updates
   }
@@ -562,7 +1009,7 @@ export class IAPProjector {
   private updateIAPDocumentsForOperation(operationId: string): void {
     // Update all IAP documents for this operation with latest facility data
     for (const [iapId, iapDocument] of this.iapDocuments) {
-      if (iapDocument.operationId === operationId) {
+      if (iapDocument.operationId === operationId && isIAPEditable(iapDocument.status)) {
         // Regenerate facility-dependent sections
         iapDocument.facilityData = {
           facilities: this.getFacilitiesForOperation(operationId),
@@ -590,7 +1037,7 @@ export class IAPProjector {
   ): void {
     iapDocument.version++;
     iapDocument.versionHistory.push({
-      id: crypto.randomUUID(),
+      id: `${event.id}-v${iapDocument.version}`,
       versionNumber: iapDocument.version,
       createdAt: new Date(event.timestamp),
       createdBy: event.actorId,
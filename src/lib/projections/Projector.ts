@@ -5,30 +5,63 @@
  */
 
 import { Event, EventType } from '../events/types';
-import { Operation, County, RosterEntry, IAPDocument } from '@/types';
-import { getLocalStore } from '../store/LocalStore';
+import { Operation, County, RosterEntry, IAPDocument, ShelterCensus, ComplianceAlert } from '@/types';
+import { getLocalStore, Snapshot } from '../store/LocalStore';
+import { eventBus, Unsubscribe } from '../sync/EventBus';
+import { upcastEvent } from '../events/upcasters';
+import { CausalPosition, compareCausally } from '../events/vectorClock';
+import { ORSet, applyCountyEvent } from '../sync/ORSet';
+import { isIAPEditable } from '../iap/iapStatus';
+import { SHELTER_CENSUS_EVENTS, ShelterCensusLog, applyShelterCensusEvent } from '../census/ShelterCensusProjection';
+import {
+  COMPLIANCE_ALERT_EVENTS,
+  ComplianceAlerts,
+  activeAlerts,
+  applyComplianceAlertEvent,
+} from '../compliance/ComplianceAlertProjection';
 
 export type ProjectionHandler<T> = (state: T, event: Event) => T;
 
 export interface Projection<T> {
   name: string;
+  version?: number; // Bump when handlers change so old snapshots are ignored
+  snapshotEvery?: number; // Events between automatic snapshots
   initialState: T;
   handlers: Map<EventType, ProjectionHandler<T>>;
 }
 
+export const DEFAULT_SNAPSHOT_INTERVAL = 500;
+
 /**
  * Base Projector class
+ * 
+ * State is checkpointed every `snapshotEvery` events. A rebuild restores the
+ * newest valid snapshot and replays only the events appended after it.
+ * State built from events applied out of causal order is never snapshotted,
+ * and a tail that orders before its snapshot falls back to a full replay.
  */
 export abstract class Projector<T> {
   protected projection: Projection<T>;
   protected state: T;
   protected localStore = getLocalStore();
+  private lastSequence = 0; // Highest local log position applied
+  private eventsSinceSnapshot = 0;
+  private causalHead: CausalPosition | null = null; // Latest applied event in causal order
+  private outOfOrder = false; // An event arrived after one it orders before
   
   constructor(projection: Projection<T>) {
     this.projection = projection;
     this.state = projection.initialState;
   }
   
+  get name(): string {
+    return this.projection.name;
+  }
+  
+  get version(): number {
+    return this.projection.version || 1;
+  }
+  
   /**
    * Apply a single event to the projection
    */
@@ -37,35 +70,89 @@ export abstract class Projector<T> {
     if (handler) {
       this.state = handler(this.state, event);
     }
+    if (event.logPosition) {
+      this.lastSequence = Math.max(this.lastSequence, event.logPosition);
+      this.eventsSinceSnapshot++;
+    }
+    if (this.causalHead && compareCausally(event, this.causalHead) < 0) {
+      this.outOfOrder = true;
+    } else {
+      const { id, deviceId, timestamp, vectorClock } = event;
+      this.causalHead = { id, deviceId, timestamp, vectorClock };
+    }
     return this.state;
   }
   
   /**
-   * Rebuild projection from events
+   * Rebuild projection from events. Without `since`, starts from the newest
+   * valid snapshot; with `since`, replays from initial state.
    */
   async rebuild(operationId: string, since?: number): Promise<T> {
-    const events = await this.localStore.getEvents(operationId, since);
+    if (since !== undefined) {
+      this.reset();
+      this.replay(await this.localStore.getEvents(operationId, since));
+      return this.state;
+    }
     
-    // Start from initial state or snapshot
-    const snapshot = await this.localStore.getLatestSnapshot(operationId);
-    if (snapshot && (!since || snapshot.timestamp > since)) {
-      this.state = snapshot.data;
-      // Only replay events after snapshot
-      const eventsAfterSnapshot = events.filter(e => e.timestamp > snapshot.timestamp);
-      for (const event of eventsAfterSnapshot) {
-        this.apply(event);
-      }
-    } else {
-      // Rebuild from scratch
-      this.state = this.projection.initialState;
-      for (const event of events) {
-        this.apply(event);
-      }
+    const restoredTo = await this.restore(operationId);
+    const tail = restoredTo > 0
+      ? await this.localStore.getEventsAfter(operationId, restoredTo)
+      : await this.localStore.getEvents(operationId);
+    this.replay(tail);
+    if (!this.isCausallyOrdered()) {
+      this.replayFromStart(await this.localStore.getEvents(operationId));
     }
+    await this.checkpoint(operationId);
     
     return this.state;
   }
   
+  /**
+   * Replay stored events in causal order
+   */
+  replay(events: Event[]): T {
+    // Stored events may predate the current payload shapes
+    const ordered = events.map(upcastEvent).sort(compareCausally);
+    for (const event of ordered) {
+      this.apply(event);
+    }
+    return this.state;
+  }
+  
+  /**
+   * Whether state matches a replay of the same events in causal order
+   */
+  isCausallyOrdered(): boolean {
+    return !this.outOfOrder;
+  }
+  
+  /**
+   * Start over from initial state and replay the given events
+   */
+  replayFromStart(events: Event[]): T {
+    this.reset();
+    return this.replay(events);
+  }
+  
+  /**
+   * Load the newest valid snapshot, falling back to initial state.
+   * Returns the log position the restored state includes (0 if none).
+   */
+  async restore(operationId: string): Promise<number> {
+    this.reset();
+    
+    const snapshots = await this.localStore.getSnapshots(operationId, this.name);
+    for (const snapshot of snapshots) {
+      if (await this.isUsable(snapshot)) {
+        this.state = this.deserialize(snapshot.data);
+        this.lastSequence = snapshot.eventSequence;
+        this.causalHead = snapshot.causalHead || null;
+        return snapshot.eventSequence;
+      }
+    }
+    return 0;
+  }
+  
   /**
    * Get current state
    */
@@ -73,18 +160,109 @@ export abstract class Projector<T> {
     return this.state;
   }
   
+  /**
+   * Highest local log position the state includes
+   */
+  getLogPosition(): number {
+    return this.lastSequence;
+  }
+  
+  /**
+   * Whether enough events have been applied to take another snapshot
+   */
+  isSnapshotDue(): boolean {
+    const interval = this.projection.snapshotEvery || DEFAULT_SNAPSHOT_INTERVAL;
+    return this.eventsSinceSnapshot >= interval;
+  }
+  
+  /**
+   * Snapshot if one is due
+   */
+  async checkpoint(operationId: string): Promise<void> {
+    if (this.isSnapshotDue()) {
+      await this.snapshot(operationId);
+    }
+  }
+  
   /**
    * Create a snapshot of current state
    */
   async snapshot(operationId: string): Promise<void> {
+    // Events logged before log positions existed can't anchor a snapshot
+    if (this.lastSequence === 0) return;
+    // A causal replay of the same events would not give this state
+    if (this.outOfOrder) return;
+    
     await this.localStore.createSnapshot(
       operationId,
       'full',
-      this.state
+      this.serialize(this.state),
+      {
+        projector: this.name,
+        projectorVersion: this.version,
+        eventSequence: this.lastSequence,
+        causalHead: this.causalHead || undefined,
+      }
     );
+    this.eventsSinceSnapshot = 0;
+  }
+  
+  /**
+   * Convert state to storable data (override for non-plain state)
+   */
+  protected serialize(state: T): any {
+    return state;
+  }
+  
+  /**
+   * Inverse of serialize
+   */
+  protected deserialize(data: any): T {
+    return data as T;
+  }
+  
+  private reset(): void {
+    this.state = this.projection.initialState;
+    this.lastSequence = 0;
+    this.eventsSinceSnapshot = 0;
+    this.causalHead = null;
+    this.outOfOrder = false;
+  }
+  
+  private async isUsable(snapshot: Snapshot): Promise<boolean> {
+    // Snapshots taken before causal heads were recorded can't be checked
+    return snapshot.projectorVersion === this.version
+      && !!snapshot.causalHead
+      && await this.localStore.isSnapshotValid(snapshot);
   }
 }
 
+/**
+ * Apply a county add/remove through the operation's OR-Set so concurrent
+ * offline edits converge regardless of the order events arrive in
+ */
+function applyGeographyEvent(state: Operation, event: Event): Operation {
+  const countySet = applyCountyEvent(ORSet.fromJSON<County>(state.geography.countySet), event);
+  const counties = countySet.values();
+  return {
+    ...state,
+    geography: {
+      ...state.geography,
+      counties,
+      states: [...new Set(counties.map(county => county.state))],
+      countySet: countySet.toJSON(),
+    },
+  };
+}
+
+/**
+ * Whether an IAP event applies to the IAP being projected; events that name
+ * no IAP apply to the current one
+ */
+function isCurrentIAP(state: IAPDocument | null, event: Event): state is IAPDocument {
+  return !!state && (!event.payload?.iapId || event.payload.iapId === state.id);
+}
+
 /**
  * Operation Projection
  */
@@ -135,44 +313,36 @@ export class OperationProjector extends Projector<Operation | null> {
           };
         }],
         
-        [EventType.REGION_SELECTED, (state, event) => {
+        [EventType.IAP_TEMPLATE_SELECTED, (state, event) => {
           if (!state) return state;
           return {
             ...state,
-            geography: {
-              ...state.geography,
-              regions: [...state.geography.regions, event.payload.regionName],
+            metadata: {
+              ...state.metadata,
+              iapTemplate: event.payload.template,
             },
           };
         }],
         
-        [EventType.COUNTY_ADDED, (state, event) => {
+        [EventType.REGION_SELECTED, (state, event) => {
           if (!state) return state;
-          const county: County = {
-            id: event.payload.countyId,
-            name: event.payload.countyName,
-            state: event.payload.state,
-            fips: event.payload.fips,
-          };
           return {
             ...state,
             geography: {
               ...state.geography,
-              counties: [...state.geography.counties, county],
-              states: [...new Set([...state.geography.states, county.state])],
+              regions: [...state.geography.regions, event.payload.regionName],
             },
           };
         }],
         
+        [EventType.COUNTY_ADDED, (state, event) => {
+          if (!state) return state;
+          return applyGeographyEvent(state, event);
+        }],
+        
         [EventType.COUNTY_REMOVED, (state, event) => {
           if (!state) return state;
-          return {
-            ...state,
-            geography: {
-              ...state.geography,
-              counties: state.geography.counties.filter(c => c.id !== event.payload.countyId),
-            },
-          };
+          return applyGeographyEvent(state, event);
         }],
       ]),
     });
@@ -240,24 +410,31 @@ export class IAPProjector extends Projector<IAPDocument | null> {
   constructor() {
     super({
       name: 'iap',
+      version: 3, // Operational period fields; one IAP at a time
       initialState: null,
       handlers: new Map([
+        // Tracks the newest IAP; events for earlier ones are ignored
         [EventType.IAP_CREATED, (state, event) => {
+          if (state && state.iapNumber >= event.payload.iapNumber) return state;
           return {
-            id: event.payload.iapId,
+            id: event.payload.iapId || event.id,
             operationId: event.operationId!,
             iapNumber: event.payload.iapNumber,
-            operationalPeriod: event.payload.operationalPeriod,
+            operationalPeriod: {
+              start: new Date(event.payload.operationalPeriodStart),
+              end: new Date(event.payload.operationalPeriodEnd),
+            },
             status: 'draft' as const,
             createdAt: new Date(event.timestamp),
             createdBy: event.actorId,
+            previousIapId: event.payload.previousIapId ?? event.payload.carryForward?.previousIapId,
             sections: event.payload.sections || {},
             version: 1,
           } as IAPDocument;
         }],
         
         [EventType.IAP_SECTION_UPDATED, (state, event) => {
-          if (!state) return state;
+          if (!isCurrentIAP(state, event) || !isIAPEditable(state.status)) return state;
           return {
             ...state,
             sections: {
@@ -267,8 +444,45 @@ export class IAPProjector extends Projector<IAPDocument | null> {
           };
         }],
         
+        [EventType.IAP_SUBMITTED_FOR_REVIEW, (state, event) => {
+          if (!isCurrentIAP(state, event)) return state;
+          return {
+            ...state,
+            status: 'in_review' as const,
+            review: {
+              preparedBy: event.payload.preparedBy,
+              approvedBy: event.payload.approvedBy,
+              submittedAt: new Date(event.timestamp),
+            },
+          };
+        }],
+        
+        [EventType.IAP_RETURNED_TO_DRAFT, (state, event) => {
+          if (!isCurrentIAP(state, event)) return state;
+          return {
+            ...state,
+            status: 'draft' as const,
+            review: state.review && {
+              ...state.review,
+              approvedAt: undefined,
+              returnedAt: new Date(event.timestamp),
+              returnedBy: event.payload.returnedBy,
+              returnReason: event.payload.reason,
+            },
+          };
+        }],
+        
+        [EventType.IAP_APPROVED, (state, event) => {
+          if (!isCurrentIAP(state, event) || !state.review) return state;
+          return {
+            ...state,
+            status: 'approved' as const,
+            review: { ...state.review, approvedAt: new Date(event.timestamp) },
+          };
+        }],
+        
         [EventType.IAP_PUBLISHED, (state, event) => {
-          if (!state) return state;
+          if (!isCurrentIAP(state, event)) return state;
           return {
             ...state,
             status: 'published' as const,
@@ -278,7 +492,7 @@ export class IAPProjector extends Projector<IAPDocument | null> {
         }],
         
         [EventType.IAP_VERSION_CREATED, (state, event) => {
-          if (!state) return state;
+          if (!isCurrentIAP(state, event)) return state;
           return {
             ...state,
             version: state.version + 1,
@@ -300,28 +514,37 @@ export class MetricsProjector extends Projector<Map<string, number>> {
       handlers: new Map([
         [EventType.MEALS_SERVED_INCREMENT, (state, event) => {
           const key = `meals-${event.payload.date}-${event.payload.location}`;
-          const current = state.get(key) || 0;
-          state.set(key, current + event.payload.count);
-          return new Map(state);
+          const next = new Map(state);
+          next.set(key, (state.get(key) || 0) + event.payload.count);
+          return next;
         }],
         
         [EventType.SHELTERED_COUNT_SET, (state, event) => {
           const key = `sheltered-${event.payload.date}-${event.payload.location}`;
           // LWW for set operations
-          state.set(key, event.payload.count);
-          return new Map(state);
+          const next = new Map(state);
+          next.set(key, event.payload.count);
+          return next;
         }],
         
         [EventType.SUPPLIES_DISTRIBUTED_ADD, (state, event) => {
           const key = `supplies-${event.payload.itemType}-${event.payload.date}`;
-          const current = state.get(key) || 0;
-          state.set(key, current + event.payload.quantity);
-          return new Map(state);
+          const next = new Map(state);
+          next.set(key, (state.get(key) || 0) + event.payload.quantity);
+          return next;
         }],
       ]),
     });
   }
   
+  protected serialize(state: Map<string, number>): [string, number][] {
+    return Array.from(state.entries());
+  }
+  
+  protected deserialize(data: [string, number][]): Map<string, number> {
+    return new Map(data);
+  }
+  
   /**
    * Get aggregated metrics
    */
@@ -336,19 +559,103 @@ export class MetricsProjector extends Projector<Map<string, number>> {
   }
 }
 
+/**
+ * Master data tables (facilities, personnel, gaps...) keyed by table, then
+ * record id
+ */
+export type MasterTables = { [table: string]: { [recordId: string]: any } };
+
+/**
+ * Master Tables Projection, built from the change events MasterDataService
+ * records for every insert, update and delete
+ */
+export class MasterTablesProjector extends Projector<MasterTables> {
+  constructor() {
+    super({
+      name: 'tables',
+      initialState: {},
+      handlers: new Map([
+        [EventType.DATA_IMPORTED, (state, event) => {
+          const { type, table, record_id: recordId, new_data: newData } = event.payload || {};
+          if (!table || !recordId) return state;
+          
+          const records = { ...state[table] };
+          if (type === 'delete') {
+            delete records[recordId];
+          } else {
+            records[recordId] = newData;
+          }
+          return { ...state, [table]: records };
+        }],
+      ]),
+    });
+  }
+  
+  /**
+   * Records of one table
+   */
+  getTable<T>(table: string): T[] {
+    return Object.values(this.state[table] || {});
+  }
+}
+
+/**
+ * Shelter Census Projection: check-ins, check-outs and overnight headcounts
+ * per shelter
+ */
+export class ShelterCensusProjector extends Projector<ShelterCensusLog> {
+  constructor() {
+    super({
+      name: 'census',
+      initialState: {},
+      handlers: new Map(SHELTER_CENSUS_EVENTS.map(type => [type, applyShelterCensusEvent])),
+    });
+  }
+  
+  /**
+   * Census for one shelter, or undefined if nothing has been recorded there
+   */
+  getCensus(facilityId: string): ShelterCensus | undefined {
+    return this.state[facilityId];
+  }
+}
+
+/**
+ * Compliance Alerts Projection: active shelter standards alerts
+ */
+export class ComplianceAlertsProjector extends Projector<ComplianceAlerts> {
+  constructor() {
+    super({
+      name: 'compliance',
+      initialState: {},
+      handlers: new Map(COMPLIANCE_ALERT_EVENTS.map(type => [type, applyComplianceAlertEvent])),
+    });
+  }
+}
+
 /**
  * Projection Manager coordinates all projections
  */
 export class ProjectionManager {
   private static instance: ProjectionManager;
   private projectors: Map<string, Projector<any>>;
+  private localStore = getLocalStore();
+  private asOf: number | null;
+  private operationId: string | null = null; // Operation the live view serves
+  private updating: Promise<void> = Promise.resolve();
+  private unsubscribe: Unsubscribe | null = null;
+  private listeners = new Set<() => void>();
   
-  private constructor() {
+  private constructor(asOf: number | null = null) {
+    this.asOf = asOf;
     this.projectors = new Map<string, any>();
     this.projectors.set('operation', new OperationProjector());
     this.projectors.set('roster', new RosterProjector());
     this.projectors.set('iap', new IAPProjector());
     this.projectors.set('metrics', new MetricsProjector());
+    this.projectors.set('tables', new MasterTablesProjector());
+    this.projectors.set('census', new ShelterCensusProjector());
+    this.projectors.set('compliance', new ComplianceAlertsProjector());
   }
   
   static getInstance(): ProjectionManager {
@@ -359,22 +666,98 @@ export class ProjectionManager {
   }
   
   /**
-   * Apply event to all projections
+   * Build a read-only view of the operation as it stood at `timestamp`,
+   * from every logged event up to and including that time
    */
-  applyEvent(event: Event): void {
+  static async at(operationId: string, timestamp: number): Promise<ProjectionManager> {
+    const manager = new ProjectionManager(timestamp);
+    const events = await manager.localStore.getEvents(operationId, undefined, timestamp);
+    for (const projector of manager.projectors.values()) {
+      projector.replay(events);
+    }
+    return manager;
+  }
+  
+  /**
+   * Point in time a historical view shows (null for the live view)
+   */
+  getAsOf(): number | null {
+    return this.asOf;
+  }
+  
+  isReadOnly(): boolean {
+    return this.asOf !== null;
+  }
+  
+  /**
+   * Apply event to all projections, snapshotting those that are due
+   */
+  async applyEvent(event: Event): Promise<void> {
+    this.assertWritable();
     for (const projector of this.projectors.values()) {
       projector.apply(event);
     }
+    if (event.operationId) {
+      const operationId = event.operationId;
+      await Promise.all(Array.from(this.projectors.values()).map(projector => projector.checkpoint(operationId)));
+    }
+  }
+  
+  /**
+   * Serve an operation live. Opening it restores every projection from its
+   * snapshot and replays the log tail; opening it again, and every event the
+   * bus announces for it, applies only what was logged since.
+   */
+  async open(operationId: string): Promise<void> {
+    this.assertWritable();
+    if (this.operationId === operationId) {
+      return await this.update(operationId, () => this.catchUp(operationId));
+    }
+    
+    this.operationId = operationId;
+    this.unsubscribe?.();
+    this.unsubscribe = eventBus.onAll(async event => {
+      if (event.operationId === operationId) {
+        await this.update(operationId, () => this.catchUp(operationId));
+      }
+    });
+    await this.update(operationId, () => this.rebuildAll(operationId));
+  }
+  
+  /**
+   * Operation the live view serves (null until one is opened)
+   */
+  getOperationId(): string | null {
+    return this.operationId;
   }
   
   /**
-   * Rebuild all projections for an operation
+   * Be told whenever the live view changes
+   */
+  subscribe(listener: () => void): Unsubscribe {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  /**
+   * Rebuild all projections for an operation: restore each from its newest
+   * valid snapshot, then replay only the events after the oldest of them
    */
   async rebuildAll(operationId: string): Promise<void> {
-    const promises = Array.from(this.projectors.values()).map(projector =>
-      projector.rebuild(operationId)
-    );
-    await Promise.all(promises);
+    this.assertWritable();
+    const projectors = Array.from(this.projectors.values());
+    const restoredTo = await Promise.all(projectors.map(projector => projector.restore(operationId)));
+    await this.replayTail(operationId, restoredTo);
+  }
+  
+  /**
+   * Apply the events logged after what each projection already includes
+   */
+  async catchUp(operationId: string): Promise<void> {
+    this.assertWritable();
+    await this.replayTail(operationId, Array.from(this.projectors.values()).map(projector => projector.getLogPosition()));
   }
   
   /**
@@ -413,16 +796,85 @@ export class ProjectionManager {
     return this.getProjection<Map<string, number>>('metrics') || new Map();
   }
   
+  /**
+   * Get master data table projection
+   */
+  getTable<T>(table: string): T[] {
+    const projector = this.projectors.get('tables') as MasterTablesProjector | undefined;
+    return projector ? projector.getTable<T>(table) : [];
+  }
+  
+  /**
+   * Get the shelter census log, keyed by facility id
+   */
+  getShelterCensus(): ShelterCensusLog {
+    return this.getProjection<ShelterCensusLog>('census') || {};
+  }
+  
+  /**
+   * Get active compliance alerts keyed by shelter and rule
+   */
+  getComplianceAlerts(): ComplianceAlerts {
+    return this.getProjection<ComplianceAlerts>('compliance') || {};
+  }
+  
+  /**
+   * Get active compliance alerts as a list, optionally for one shelter
+   */
+  getActiveComplianceAlerts(facilityId?: string): ComplianceAlert[] {
+    return activeAlerts(this.getComplianceAlerts(), facilityId);
+  }
+  
   /**
    * Create snapshots for all projections
    */
   async snapshotAll(operationId: string): Promise<void> {
+    this.assertWritable();
     const promises = Array.from(this.projectors.values()).map(projector =>
       projector.snapshot(operationId)
     );
     await Promise.all(promises);
   }
+  
+  private async replayTail(operationId: string, positions: number[]): Promise<void> {
+    const projectors = Array.from(this.projectors.values());
+    const from = Math.min(...positions);
+    const tail = from > 0
+      ? await this.localStore.getEventsAfter(operationId, from)
+      : await this.localStore.getEvents(operationId);
+    
+    projectors.forEach((projector, i) => {
+      projector.replay(tail.filter(event => (event.logPosition || 0) > positions[i]));
+    });
+    
+    // A late event ordered before a snapshot: start those over
+    const unordered = projectors.filter(projector => !projector.isCausallyOrdered());
+    if (unordered.length > 0) {
+      const events = await this.localStore.getEvents(operationId);
+      unordered.forEach(projector => projector.replayFromStart(events));
+    }
+    
+    await Promise.all(projectors.map(projector => projector.checkpoint(operationId)));
+  }
+  
+  // Updates run one at a time so a tail is never applied twice
+  private update(operationId: string, task: () => Promise<void>): Promise<void> {
+    this.updating = this.updating
+      .catch(() => undefined)
+      .then(async () => {
+        if (this.operationId !== operationId) return;
+        await task();
+        this.listeners.forEach(listener => listener());
+      });
+    return this.updating;
+  }
+  
+  private assertWritable(): void {
+    if (this.isReadOnly()) {
+      throw new Error(`Projections as of ${new Date(this.asOf!).toISOString()} are read-only`);
+    }
+  }
 }
 
 // Export singleton
-export const projectionManager = ProjectionManager.getInstance();
\ No newline at end of file
+export const projectionManager = ProjectionManager.getInstance();
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ProjectionManager, projectionManager } from './Projector';
+
+/**
+ * Time Travel Provider
+ *
+ * Lets views show the operation as it stood at a chosen moment. While a
+ * moment is picked, `projections` is a read-only ProjectionManager rebuilt
+ * from the event log up to that time; master data hooks read from it and
+ * refuse edits. The live projections are opened here for the operation, from
+ * their snapshots plus the log tail.
+ */
+
+export interface TimeTravelContextType {
+  operationId: string | null;
+  asOf: number | null; // null = live
+  projections: ProjectionManager | null;
+  loading: boolean;
+  error: string | null;
+  isHistorical: boolean;
+  travelTo: (timestamp: number) => void;
+  returnToLive: () => void;
+}
+
+const LIVE: TimeTravelContextType = {
+  operationId: null,
+  asOf: null,
+  projections: null,
+  loading: false,
+  error: null,
+  isHistorical: false,
+  travelTo: () => {},
+  returnToLive: () => {},
+};
+
+const TimeTravelContext = createContext<TimeTravelContextType>(LIVE);
+
+interface TimeTravelProviderProps {
+  operationId: string;
+  children: React.ReactNode;
+}
+
+export function TimeTravelProvider({ operationId, children }: TimeTravelProviderProps) {
+  const [asOf, setAsOf] = useState<number | null>(null);
+  const [projections, setProjections] = useState<ProjectionManager | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    projectionManager.open(operationId)
+      .catch(err => console.error('Error loading projections:', err));
+  }, [operationId]);
+
+  useEffect(() => {
+    if (asOf === null) {
+      setProjections(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    ProjectionManager.at(operationId, asOf)
+      .then(manager => {
+        if (!cancelled) setProjections(manager);
+      })
+      .catch(err => {
+        console.error('Error rebuilding historical projections:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [operationId, asOf]);
+
+  const value: TimeTravelContextType = {
+    operationId,
+    asOf,
+    projections,
+    loading,
+    error,
+    isHistorical: asOf !== null,
+    travelTo: setAsOf,
+    returnToLive: () => setAsOf(null),
+  };
+
+  return <TimeTravelContext.Provider value={value}>{children}</TimeTravelContext.Provider>;
+}
+
+/**
+ * Current time-travel state; outside a provider this is always live
+ */
+export function useTimeTravel(): TimeTravelContextType {
+  return useContext(TimeTravelContext);
+}
@@ -0,0 +1,279 @@
+/**
+ * Projection Checkpoint Tests
+ *
+ * Validates snapshot-plus-tail rebuilds against a full replay
+ */
+
+import { MetricsProjector, ProjectionManager } from '../Projector';
+import { Event, EventType } from '../../events/types';
+import type { Snapshot } from '../../store/LocalStore';
+
+const mockLog: { events: Event[] } = { events: [] };
+
+jest.mock('../../store/LocalStore', () => ({
+  getLocalStore: () => ({
+    getEvents: async (_operationId: string, _since?: number, until = Infinity) =>
+      mockLog.events.filter(event => event.timestamp <= until),
+  }),
+}));
+
+function mealsServed(sequence: number, count: number): Event {
+  return {
+    id: `event-${sequence}`,
+    type: EventType.MEALS_SERVED_INCREMENT,
+    schemaVersion: 1,
+    actorId: 'feeding-lead',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: 1000 + sequence,
+    sequence,
+    logPosition: sequence,
+    vectorClock: { 'laptop-a': sequence },
+    payload: { count, date: '2025-09-01', location: 'Site A' },
+    hash: `hash-${sequence}`,
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+// In-memory stand-in for the parts of LocalStore projectors use
+function createStore(events: Event[]) {
+  const snapshots: Snapshot[] = [];
+  const store = {
+    snapshots,
+    eventsRead: 0,
+    async getEvents() {
+      store.eventsRead += events.length;
+      return events;
+    },
+    async getEventsAfter(_operationId: string, logPosition: number) {
+      const tail = events.filter(event => (event.logPosition || 0) > logPosition);
+      store.eventsRead += tail.length;
+      return tail;
+    },
+    async getSnapshots(_operationId: string, projector?: string) {
+      return snapshots
+        .filter(snapshot => !projector || snapshot.projector === projector)
+        .sort((a, b) => b.eventSequence - a.eventSequence);
+    },
+    async isSnapshotValid(snapshot: Snapshot) {
+      return events.some(event => event.logPosition === snapshot.eventSequence && event.hash === snapshot.headHash);
+    },
+    async createSnapshot(operationId: string, type: 'full', data: any, options: any) {
+      const head = events.find(event => event.logPosition === options.eventSequence);
+      const snapshot = { id: `snap-${snapshots.length}`, operationId, type, data, hash: '', timestamp: 0, headHash: head?.hash, ...options };
+      snapshots.push(snapshot);
+      return snapshot;
+    },
+  };
+  return store;
+}
+
+function createProjector(store: ReturnType<typeof createStore>, snapshotEvery: number) {
+  const projector = new MetricsProjector();
+  (projector as any).localStore = store;
+  (projector as any).projection.snapshotEvery = snapshotEvery;
+  return projector;
+}
+
+describe('Projector checkpoints', () => {
+  const events = Array.from({ length: 12 }, (_, i) => mealsServed(i + 1, 10));
+
+  it('snapshots once enough events are applied', async () => {
+    const store = createStore(events);
+    await createProjector(store, 5).rebuild('op-1');
+
+    expect(store.snapshots).toHaveLength(1);
+    expect(store.snapshots[0].eventSequence).toBe(12);
+    expect(store.snapshots[0].projector).toBe('metrics');
+  });
+
+  it('restores from the snapshot and replays only the tail', async () => {
+    const store = createStore(events.slice(0, 10));
+    await createProjector(store, 5).rebuild('op-1');
+
+    // Two more events arrive after the snapshot
+    const grown = createStore(events);
+    grown.snapshots.push(...store.snapshots);
+    const projector = createProjector(grown, 100);
+    const state = await projector.rebuild('op-1');
+
+    expect(grown.eventsRead).toBe(2);
+    expect(state.get('meals-2025-09-01-Site A')).toBe(120);
+  });
+
+  it('ignores snapshots whose head event is gone', async () => {
+    const store = createStore(events);
+    store.snapshots.push({
+      id: 'stale', operationId: 'op-1', projector: 'metrics', projectorVersion: 1,
+      timestamp: 0, eventSequence: 8, headHash: 'rewritten', type: 'full',
+      data: [['meals-2025-09-01-Site A', 9999]], hash: '',
+    });
+
+    const state = await createProjector(store, 100).rebuild('op-1');
+
+    expect(state.get('meals-2025-09-01-Site A')).toBe(120);
+  });
+
+  // Made offline on another laptop before any of laptop-a's events, synced late
+  const lateEvent: Event = {
+    ...mealsServed(13, 5),
+    id: 'late-event',
+    deviceId: 'laptop-b',
+    timestamp: 500,
+    vectorClock: { 'laptop-b': 1 },
+  };
+
+  it('replays the whole log when a late event orders before the snapshot', async () => {
+    const store = createStore(events.slice(0, 10));
+    await createProjector(store, 5).rebuild('op-1');
+
+    const grown = createStore([...events.slice(0, 10), lateEvent]);
+    grown.snapshots.push(...store.snapshots);
+    const projector = createProjector(grown, 100);
+    const state = await projector.rebuild('op-1');
+
+    // The one-event tail, then all 11 events from the start
+    expect(grown.eventsRead).toBe(12);
+    expect(projector.isCausallyOrdered()).toBe(true);
+    expect(state.get('meals-2025-09-01-Site A')).toBe(105);
+  });
+
+  it('does not snapshot state applied out of causal order', async () => {
+    const store = createStore([...events.slice(0, 5), lateEvent]);
+    const projector = createProjector(store, 5);
+
+    [...events.slice(0, 5), lateEvent].forEach(event => projector.apply(event));
+    await projector.checkpoint('op-1');
+
+    expect(projector.isCausallyOrdered()).toBe(false);
+    expect(store.snapshots).toHaveLength(0);
+  });
+});
+
+describe('ProjectionManager live view', () => {
+  const events = Array.from({ length: 13 }, (_, i) => mealsServed(i + 1, 10));
+
+  function liveManager(store: ReturnType<typeof createStore>) {
+    const manager = ProjectionManager.getInstance();
+    const internals = manager as unknown as { localStore: unknown; projectors: Map<string, { localStore: unknown }> };
+    internals.localStore = store;
+    internals.projectors.forEach(projector => { projector.localStore = store; });
+    return manager;
+  }
+
+  async function fullReplay(log: Event[]) {
+    mockLog.events = [...log];
+    return (await ProjectionManager.at('op-1', Infinity)).getMetrics();
+  }
+
+  it('restores from snapshots plus the tail to the same state as a full replay, then follows the log', async () => {
+    const log = events.slice(0, 8);
+    const store = createStore(log);
+    const manager = liveManager(store);
+
+    await manager.open('op-1');
+    await manager.snapshotAll('op-1');
+
+    // Reopened after four more events were logged
+    log.push(...events.slice(8, 12));
+    store.eventsRead = 0;
+    await manager.rebuildAll('op-1');
+
+    expect(store.eventsRead).toBe(4);
+    expect(manager.getMetrics()).toEqual(await fullReplay(log));
+
+    // Opening the open operation again applies only what was logged since
+    log.push(events[12]);
+    store.eventsRead = 0;
+    await manager.open('op-1');
+
+    expect(store.eventsRead).toBe(1);
+    expect(manager.getMetrics()).toEqual(await fullReplay(log));
+    expect(manager.getMetrics().get('meals-2025-09-01-Site A')).toBe(130);
+  });
+});
+
+describe('ProjectionManager time travel', () => {
+  function facilityChange(timestamp: number, type: string, status: string): Event {
+    return {
+      ...mealsServed(timestamp, 0),
+      id: `change-${timestamp}`,
+      type: EventType.DATA_IMPORTED,
+      timestamp,
+      vectorClock: { 'laptop-a': timestamp },
+      payload: {
+        type,
+        table: 'facilities',
+        record_id: 'shelter-1',
+        new_data: type === 'delete' ? null : { id: 'shelter-1', operation_id: 'op-1', name: 'Central High', status },
+      },
+    };
+  }
+
+  beforeEach(() => {
+    mockLog.events = [
+      facilityChange(100, 'insert', 'planned'),
+      facilityChange(200, 'update', 'open'),
+      facilityChange(300, 'delete', ''),
+    ];
+  });
+
+  it('shows tables as they stood at the cutoff', async () => {
+    const atOpening = await ProjectionManager.at('op-1', 250);
+    const afterClosing = await ProjectionManager.at('op-1', 300);
+
+    expect(atOpening.getTable<any>('facilities')).toEqual([
+      { id: 'shelter-1', operation_id: 'op-1', name: 'Central High', status: 'open' },
+    ]);
+    expect(afterClosing.getTable('facilities')).toEqual([]);
+  });
+
+  it('refuses to change a historical view', async () => {
+    const past = await ProjectionManager.at('op-1', 150);
+
+    expect(past.isReadOnly()).toBe(true);
+    await expect(past.applyEvent(facilityChange(400, 'update', 'closed'))).rejects.toThrow('read-only');
+  });
+});
+
+describe('ProjectionManager IAP', () => {
+  function iapEvent(sequence: number, type: EventType, payload: Record<string, unknown>): Event {
+    return { ...mealsServed(sequence, 0), id: `iap-event-${sequence}`, type, payload };
+  }
+
+  beforeEach(() => {
+    mockLog.events = [
+      iapEvent(1, EventType.IAP_CREATED, {
+        iapId: 'iap-1',
+        iapNumber: 1,
+        operationalPeriodStart: '2025-09-01T06:00:00.000Z',
+        operationalPeriodEnd: '2025-09-02T06:00:00.000Z',
+      }),
+      iapEvent(2, EventType.IAP_CREATED, {
+        iapId: 'iap-2',
+        iapNumber: 2,
+        operationalPeriodStart: '2025-09-02T06:00:00.000Z',
+        operationalPeriodEnd: '2025-09-03T06:00:00.000Z',
+        previousIapId: 'iap-1',
+      }),
+      iapEvent(3, EventType.IAP_SUBMITTED_FOR_REVIEW, { iapId: 'iap-1', preparedBy: 'Planning Chief', approvedBy: 'Director' }),
+    ];
+  });
+
+  it('reads the operational period from the creation payload', async () => {
+    const iap = (await ProjectionManager.at('op-1', 2000)).getIAP();
+
+    expect(iap).toMatchObject({ id: 'iap-2', previousIapId: 'iap-1' });
+    expect(iap?.operationalPeriod.start).toEqual(new Date('2025-09-02T06:00:00.000Z'));
+    expect(iap?.operationalPeriod.end).toEqual(new Date('2025-09-03T06:00:00.000Z'));
+  });
+
+  it('ignores events for an earlier IAP', async () => {
+    const iap = (await ProjectionManager.at('op-1', 2000)).getIAP();
+
+    expect(iap?.status).toBe('draft');
+    expect(iap?.review).toBeUndefined();
+  });
+});
@@ -79,6 +79,10 @@ export interface Facility {
   special_notes?: string;
   amenities?: string[];
   accessibility_features?: string[];
+  toilets?: number; // Fixed toilets on site, for shelter standards compliance
+  accessible_toilets?: number;
+  pet_capacity?: number; // Crates in a co-located pet shelter
+  pet_space?: number; // sq ft set aside for pets
   created_at?: Date;
   updated_at?: Date;
   created_by?: string;
@@ -540,8 +544,12 @@ export class MasterDataService {
     this.notifyTableListeners('gaps');
   }
 
-  async addGap(gap: Omit<Gap, 'id'>): Promise<string> {
-    const id = this.generateId();
+  /**
+   * A gap that brings its own id is written over any record with that id,
+   * so adding it again from another device leaves one gap.
+   */
+  async addGap(gap: Omit<Gap, 'id'> & { id?: string }): Promise<string> {
+    const id = gap.id || this.generateId();
     const fullGap: Gap = {
       ...gap,
       id,
@@ -551,7 +559,7 @@ export class MasterDataService {
       created_by: this.getCurrentUserId()
     };
 
-    await this.db.write('gaps', 'add', fullGap);
+    await this.db.write('gaps', gap.id ? 'put' : 'add', fullGap);
     await this.emitChange('insert', 'gaps', id, null, fullGap);
     
     this.notifyTableListeners('gaps');
@@ -635,8 +643,13 @@ export class MasterDataService {
       sync_status: 'pending'
     });
 
-    // Emit to event bus for real-time propagation
-    await eventBus.emit(EventType.DATA_IMPORTED, changeEvent);
+    // Emit to event bus for real-time propagation. Tagging the operation
+    // keeps the change in its event log so past states can be rebuilt.
+    await eventBus.emit(EventType.DATA_IMPORTED, changeEvent, {
+      operationId: table === 'operations'
+        ? recordId
+        : newData?.operation_id || oldData?.operation_id || this.currentOperationId || undefined,
+    });
   }
 
   private notifyTableListeners(tableName: string): void {
@@ -0,0 +1,65 @@
+/**
+ * RED CROSS BULK DISTRIBUTION STANDARDS CALCULATOR
+ *
+ * Units, pallets, trucks and staff for a distribution point or route from
+ * the households served and the units of each item handed to a household.
+ */
+
+export interface DistributionItemInput {
+  code: string;
+  unitsPerHousehold: number;
+}
+
+export interface DistributionRequirements {
+  units: Record<string, number>; // By item code
+  totalUnits: number;
+  pallets: number;
+  trucks: number;
+  personnel: {
+    leads: number;
+    workers: number;
+    drivers: number;
+  };
+}
+
+export const DISTRIBUTION_RATIOS = {
+  HOUSEHOLDS_PER_WORKER: 50, // per day
+  WORKERS_PER_LEAD: 10,
+  UNITS_PER_PALLET: 40,
+  PALLETS_PER_TRUCK: 12 // 24ft box truck
+} as const;
+
+/**
+ * Calculate distribution units, transport and staff for the households served
+ */
+export function calculateDistributionRequirements(
+  households: number,
+  items: DistributionItemInput[]
+): DistributionRequirements {
+  const served = Math.max(households, 0);
+  const units: Record<string, number> = {};
+  items.forEach(item => {
+    units[item.code] = Math.ceil(served * Math.max(item.unitsPerHousehold, 0));
+  });
+  const totalUnits = Object.values(units).reduce((sum, count) => sum + count, 0);
+
+  if (served === 0) {
+    return { units, totalUnits, pallets: 0, trucks: 0, personnel: { leads: 0, workers: 0, drivers: 0 } };
+  }
+
+  const pallets = Math.ceil(totalUnits / DISTRIBUTION_RATIOS.UNITS_PER_PALLET);
+  const trucks = Math.ceil(pallets / DISTRIBUTION_RATIOS.PALLETS_PER_TRUCK);
+  const workers = Math.max(2, Math.ceil(served / DISTRIBUTION_RATIOS.HOUSEHOLDS_PER_WORKER));
+
+  return {
+    units,
+    totalUnits,
+    pallets,
+    trucks,
+    personnel: {
+      leads: Math.max(1, Math.ceil(workers / DISTRIBUTION_RATIOS.WORKERS_PER_LEAD)),
+      workers,
+      drivers: trucks
+    }
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * RED CROSS FEEDING STANDARDS CALCULATOR
+ *
+ * Staffing and equipment for a fixed feeding site from the meals it serves
+ * per day. Meals are served in three services (breakfast, lunch, dinner).
+ */
+
+export interface FeedingRequirements {
+  personnel: {
+    supervisors: number;
+    feedingWorkers: number;
+  };
+  equipment: {
+    cambros: number;
+    servingTables: number;
+    handwashStations: number;
+  };
+}
+
+export const FEEDING_RATIOS = {
+  SERVICES_PER_DAY: 3,
+  MEALS_PER_WORKER: 100, // per day
+  WORKERS_PER_SUPERVISOR: 10,
+  SERVINGS_PER_CAMBRO: 40, // per service
+  SERVINGS_PER_SERVING_TABLE: 200, // per service
+  WORKERS_PER_HANDWASH_STATION: 20,
+  ERV_RUNS_PER_DAY: 2,
+  ERV_CREW: 2 // Driver and server
+} as const;
+
+export interface FeedingFleetInput {
+  mealsPerDay: number; // All meals produced
+  mobileMealsPerDay: number; // Of those, meals delivered by ERV
+  mealsPerErvRun: number;
+  kitchenMealsPerDay: number; // Production capacity of one kitchen
+}
+
+export interface FeedingFleetRequirements {
+  kitchens: number;
+  ervs: number;
+  ervCrew: number;
+}
+
+/**
+ * Calculate feeding staff and equipment for the meals served per day
+ */
+export function calculateFeedingRequirements(mealsPerDay: number): FeedingRequirements {
+  if (mealsPerDay <= 0) {
+    return {
+      personnel: { supervisors: 0, feedingWorkers: 0 },
+      equipment: { cambros: 0, servingTables: 0, handwashStations: 0 }
+    };
+  }
+
+  const mealsPerService = Math.ceil(mealsPerDay / FEEDING_RATIOS.SERVICES_PER_DAY);
+  const feedingWorkers = Math.max(2, Math.ceil(mealsPerDay / FEEDING_RATIOS.MEALS_PER_WORKER));
+
+  return {
+    personnel: {
+      supervisors: Math.max(1, Math.ceil(feedingWorkers / FEEDING_RATIOS.WORKERS_PER_SUPERVISOR)),
+      feedingWorkers
+    },
+    equipment: {
+      cambros: Math.ceil(mealsPerService / FEEDING_RATIOS.SERVINGS_PER_CAMBRO),
+      servingTables: Math.ceil(mealsPerService / FEEDING_RATIOS.SERVINGS_PER_SERVING_TABLE),
+      handwashStations: Math.max(1, Math.ceil(feedingWorkers / FEEDING_RATIOS.WORKERS_PER_HANDWASH_STATION))
+    }
+  };
+}
+
+/**
+ * Kitchens to produce the day's meals and ERVs to deliver the mobile share
+ */
+export function calculateFeedingFleet(input: FeedingFleetInput): FeedingFleetRequirements {
+  const mobileMeals = Math.min(Math.max(input.mobileMealsPerDay, 0), Math.max(input.mealsPerDay, 0));
+  const kitchens = input.mealsPerDay > 0 && input.kitchenMealsPerDay > 0
+    ? Math.ceil(input.mealsPerDay / input.kitchenMealsPerDay)
+    : 0;
+  const ervs = mobileMeals > 0 && input.mealsPerErvRun > 0
+    ? Math.ceil(mobileMeals / (input.mealsPerErvRun * FEEDING_RATIOS.ERV_RUNS_PER_DAY))
+    : 0;
+
+  return { kitchens, ervs, ervCrew: ervs * FEEDING_RATIOS.ERV_CREW };
+}
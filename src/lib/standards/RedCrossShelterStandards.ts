@@ -5,6 +5,8 @@
  * - Shelter Standards and Short-term Measures
  * - Evacuation Shelter Workforce Minimums
  * - Basic Amenities Provided in Shelters
+ * - Special populations: household pets, access and functional needs (AFN),
+ *   medical cots, infants and unaccompanied minors
  * 
  * Based on official Red Cross operational standards
  */
@@ -13,6 +15,14 @@ export interface ShelterStandardsInput {
   expectedPopulation: number;
   shelterType: 'emergency_evacuation' | 'standard_short_term' | 'long_term';
   facilitySize: number; // square feet
+  
+  // Special populations - people are counted within expectedPopulation
+  householdPets?: number;
+  accessFunctionalNeeds?: number; // People with access and functional needs
+  medicalCots?: number; // People needing a medical cot
+  infants?: number; // Under 2
+  unaccompaniedMinors?: number;
+  minorSupervisorsAssigned?: number; // Background-checked staff on the minors' supervised area
 }
 
 export interface ShelterStandardsResult {
@@ -28,6 +38,7 @@ export interface ShelterStandardsResult {
   capacity: {
     maxOccupancy: number;
     spacePerPerson: number;
+    requiredSpace: number; // sq ft, with more space for AFN and medical cots
     isWithinStandards: boolean;
   };
   
@@ -60,6 +71,20 @@ export interface ShelterStandardsResult {
     laptopComputers: number;
   };
   
+  // Special Population Requirements
+  specialPopulations: {
+    adaCots: number;
+    medicalCots: number;
+    cribs: number;
+    infantKits: number; // per day
+    petCrates: number;
+    petSpace: number; // sq ft, co-located pet shelter
+    petCareWorkers: number;
+    disasterHealthNurses: number;
+    personalAssistanceWorkers: number;
+    minorSupervisors: number;
+  };
+  
   // Compliance Checks
   compliance: {
     isCompliant: boolean;
@@ -77,8 +102,15 @@ export function calculateShelterStandards(input: ShelterStandardsInput): Shelter
   // Personnel Requirements (from 215infographic11.png)
   const personnel = calculatePersonnelRequirements(expectedPopulation);
   
+  // Special Populations
+  const specialPopulations = calculateSpecialPopulationRequirements(input);
+  
   // Space and Capacity Requirements
-  const capacity = calculateCapacityRequirements(expectedPopulation, facilitySize);
+  const capacity = calculateCapacityRequirements(
+    expectedPopulation,
+    facilitySize,
+    (input.accessFunctionalNeeds || 0) + (input.medicalCots || 0)
+  );
   
   // Basic Amenities (from 215infographic12.png)
   const amenities = calculateAmenityRequirements(expectedPopulation, shelterType);
@@ -87,7 +119,7 @@ export function calculateShelterStandards(input: ShelterStandardsInput): Shelter
   const sanitation = calculateSanitationRequirements(expectedPopulation, shelterType);
   
   // Service Requirements (from 215infographic1.png)
-  const services = calculateServiceRequirements(expectedPopulation, capacity.maxOccupancy);
+  const services = calculateServiceRequirements(expectedPopulation, capacity.maxOccupancy, input);
   
   // Compliance Checks
   const compliance = performComplianceCheck({
@@ -98,7 +130,9 @@ export function calculateShelterStandards(input: ShelterStandardsInput): Shelter
     capacity,
     amenities,
     sanitation,
-    services
+    services,
+    specialPopulations,
+    minorSupervisorsAssigned: input.minorSupervisorsAssigned
   });
 
   return {
@@ -107,6 +141,7 @@ export function calculateShelterStandards(input: ShelterStandardsInput): Shelter
     amenities,
     sanitation,
     services,
+    specialPopulations,
     compliance
   };
 }
@@ -153,15 +188,24 @@ function calculatePersonnelRequirements(population: number): ShelterStandardsRes
 /**
  * Calculate space and capacity requirements
  */
-function calculateCapacityRequirements(population: number, facilitySize: number): ShelterStandardsResult['capacity'] {
+function calculateCapacityRequirements(
+  population: number,
+  facilitySize: number,
+  needingMoreSpace: number = 0
+): ShelterStandardsResult['capacity'] {
   // Standard space per person (40 sq ft per person is typical Red Cross standard)
-  const spacePerPerson = 40;
+  const spacePerPerson = SHELTER_RATIOS.SPACE_PER_PERSON;
   const maxOccupancy = Math.floor(facilitySize / spacePerPerson);
-  const isWithinStandards = population <= maxOccupancy;
+  
+  // People with AFN or on a medical cot need room for mobility devices and caregivers
+  const enlarged = Math.min(needingMoreSpace, population);
+  const requiredSpace = (population - enlarged) * spacePerPerson + enlarged * SHELTER_RATIOS.SPACE_PER_PERSON_AFN;
+  const isWithinStandards = requiredSpace <= facilitySize;
 
   return {
     maxOccupancy,
     spacePerPerson,
+    requiredSpace,
     isWithinStandards
   };
 }
@@ -275,18 +319,23 @@ function calculateSanitationRequirements(
  */
 function calculateServiceRequirements(
   population: number,
-  maxOccupancy: number
+  maxOccupancy: number,
+  input: Pick<ShelterStandardsInput, 'accessFunctionalNeeds' | 'medicalCots'> = {}
 ): ShelterStandardsResult['services'] {
-  // Medical staff requirements
-  const medicalStaff = population >= 200; // Required for facilities >= 200 clients
+  // Medical staff requirements - facilities >= 200 clients, or anyone on a medical cot
+  const medicalStaff = population >= 200 || (input.medicalCots || 0) > 0;
   
   // Mental health and spiritual care
   const mentalHealthStaff = population >= 100;
   const disasterSpiritualCareStaff = population >= 100;
   
-  // Accessible toilets (16.7% of total toilets must be accessible)
+  // Accessible toilets (16.7% of total toilets must be accessible, and
+  // enough for the residents with access and functional needs)
   const totalToilets = Math.ceil(population / 40);
-  const accessibleToilets = Math.ceil(totalToilets * 0.167);
+  const accessibleToilets = Math.max(
+    Math.ceil(totalToilets * SHELTER_RATIOS.ACCESSIBLE_TOILETS_PERCENTAGE),
+    Math.ceil((input.accessFunctionalNeeds || 0) / SHELTER_RATIOS.AFN_PER_ACCESSIBLE_TOILET)
+  );
   
   // Technology requirements
   const cellularPhones = Math.max(1, Math.floor(population / 100)); // Minimum 1 per facility
@@ -302,6 +351,40 @@ function calculateServiceRequirements(
   };
 }
 
+/**
+ * Calculate requirements for pets, AFN, medical cots, infants and
+ * unaccompanied minors
+ */
+function calculateSpecialPopulationRequirements(input: ShelterStandardsInput): ShelterStandardsResult['specialPopulations'] {
+  const pets = Math.max(input.householdPets || 0, 0);
+  const afn = Math.max(input.accessFunctionalNeeds || 0, 0);
+  const medical = Math.max(input.medicalCots || 0, 0);
+  const infants = Math.max(input.infants || 0, 0);
+  const minors = Math.max(input.unaccompaniedMinors || 0, 0);
+
+  // Disaster Health: one nurse per 200 residents from 200 up, one per 10
+  // medical cots, and at least one whenever infants are sheltered
+  const disasterHealthNurses = Math.max(
+    input.expectedPopulation >= 200 ? Math.ceil(input.expectedPopulation / SHELTER_RATIOS.RESIDENTS_PER_NURSE) : 0,
+    Math.ceil(medical / SHELTER_RATIOS.MEDICAL_COTS_PER_NURSE),
+    infants > 0 ? 1 : 0
+  );
+
+  return {
+    adaCots: afn,
+    medicalCots: medical,
+    cribs: infants,
+    infantKits: infants,
+    petCrates: pets,
+    petSpace: pets * SHELTER_RATIOS.PET_SPACE_PER_CRATE,
+    petCareWorkers: Math.ceil(pets / SHELTER_RATIOS.PETS_PER_CARE_WORKER),
+    disasterHealthNurses,
+    personalAssistanceWorkers: Math.ceil(afn / SHELTER_RATIOS.AFN_PER_ASSISTANCE_WORKER),
+    // Never fewer than two adults with unaccompanied minors
+    minorSupervisors: minors > 0 ? Math.max(2, Math.ceil(minors / SHELTER_RATIOS.MINORS_PER_SUPERVISOR)) : 0
+  };
+}
+
 /**
  * Perform comprehensive compliance check against Red Cross standards
  */
@@ -314,13 +397,15 @@ function performComplianceCheck(data: {
   amenities: ShelterStandardsResult['amenities'];
   sanitation: ShelterStandardsResult['sanitation'];
   services: ShelterStandardsResult['services'];
+  specialPopulations: ShelterStandardsResult['specialPopulations'];
+  minorSupervisorsAssigned?: number;
 }): ShelterStandardsResult['compliance'] {
   const violations: string[] = [];
   const recommendations: string[] = [];
 
   // Space compliance
   if (!data.capacity.isWithinStandards) {
-    violations.push(`Facility overcrowded: ${data.expectedPopulation} people in ${data.facilitySize} sq ft (${data.capacity.spacePerPerson} sq ft per person, need 40+ sq ft)`);
+    violations.push(`Facility overcrowded: ${data.expectedPopulation} people need ${data.capacity.requiredSpace} sq ft, facility has ${data.facilitySize} sq ft`);
     recommendations.push('Secure additional shelter space or reduce client load');
   }
 
@@ -354,6 +439,31 @@ function performComplianceCheck(data: {
     recommendations.push(`Need ${data.expectedPopulation - data.amenities.cots} additional cots for full capacity`);
   }
 
+  // Special populations
+  const special = data.specialPopulations;
+  if (special.adaCots > 0) {
+    recommendations.push(`Provide ${special.adaCots} ADA cots and ${special.personalAssistanceWorkers} personal assistance services workers for residents with access and functional needs`);
+  }
+  if (special.medicalCots > 0) {
+    recommendations.push(`Provide ${special.medicalCots} medical cots with ${special.disasterHealthNurses} Disaster Health nurses`);
+  }
+  if (special.cribs > 0) {
+    recommendations.push(`Provide ${special.cribs} cribs and ${special.infantKits} infant kits (formula, diapers) per day`);
+  }
+  if (special.petCrates > 0) {
+    recommendations.push(`Co-locate a pet shelter: ${special.petCrates} crates in ${special.petSpace} sq ft with ${special.petCareWorkers} pet care workers`);
+  }
+  // Supervision is only a violation once staffing is recorded and falls short
+  if (special.minorSupervisors > 0) {
+    const assigned = data.minorSupervisorsAssigned;
+    if (assigned === undefined) {
+      recommendations.push(`Set up a supervised area for unaccompanied minors with ${special.minorSupervisors} background-checked staff`);
+    } else if (assigned < special.minorSupervisors) {
+      violations.push(`Unaccompanied minors need a supervised area with ${special.minorSupervisors} background-checked staff (${assigned} assigned)`);
+    }
+    recommendations.push('Notify local child welfare and law enforcement of unaccompanied minors');
+  }
+
   const isCompliant = violations.length === 0;
 
   return {
@@ -363,6 +473,96 @@ function performComplianceCheck(data: {
   };
 }
 
+/**
+ * What is known about a facility's accessibility and pet accommodation.
+ * Counts left undefined are not checked.
+ */
+export interface ShelterFacilityProfile {
+  accessibilityFeatures?: string[];
+  amenities?: string[];
+  accessibleToilets?: number;
+  adaCots?: number;
+  petCapacity?: number; // Pet crates the co-located pet shelter holds
+  petSpace?: number; // sq ft set aside for pets
+}
+
+export interface FacilityEvaluation {
+  compliant: boolean;
+  issues: string[];
+}
+
+const STEP_FREE_FEATURES = ['ramp', 'wheelchair accessible', 'step-free', 'elevator', 'level entry'];
+const ACCESSIBLE_RESTROOM_FEATURES = ['accessible restroom', 'accessible toilet', 'ada restroom', 'ada toilet'];
+const PET_FEATURES = ['pet friendly', 'pet shelter', 'pets allowed', 'co-located pet'];
+
+function hasFeature(features: string[] | undefined, keywords: string[]): boolean {
+  return (features || []).some(feature => keywords.some(keyword => feature.toLowerCase().includes(keyword)));
+}
+
+/**
+ * Evaluate whether a facility can shelter people with access and functional
+ * needs: step-free access, accessible restrooms and, for a planned
+ * population, enough accessible toilets and ADA cots
+ */
+export function evaluateAccessibility(
+  profile: ShelterFacilityProfile,
+  input?: Partial<ShelterStandardsInput>
+): FacilityEvaluation {
+  const issues: string[] = [];
+  const features = [...(profile.accessibilityFeatures || []), ...(profile.amenities || [])];
+
+  if (!hasFeature(features, STEP_FREE_FEATURES)) {
+    issues.push('No step-free entrance recorded');
+  }
+  if (!hasFeature(features, ACCESSIBLE_RESTROOM_FEATURES) && !profile.accessibleToilets) {
+    issues.push('No accessible restrooms recorded');
+  }
+
+  const population = input?.expectedPopulation || 0;
+  if (population > 0) {
+    const toiletsRequired = calculateServiceRequirements(population, population, input || {}).accessibleToilets;
+    if (profile.accessibleToilets !== undefined && profile.accessibleToilets < toiletsRequired) {
+      issues.push(`${profile.accessibleToilets} of ${toiletsRequired} accessible toilets for ${population} residents`);
+    }
+  }
+
+  const adaCotsRequired = Math.max(input?.accessFunctionalNeeds || 0, 0);
+  if (profile.adaCots !== undefined && profile.adaCots < adaCotsRequired) {
+    issues.push(`${profile.adaCots} of ${adaCotsRequired} ADA cots`);
+  }
+
+  return { compliant: issues.length === 0, issues };
+}
+
+/**
+ * Evaluate whether a facility can take household pets: a co-located pet
+ * shelter and, for a planned number of pets, enough crates and space
+ */
+export function evaluatePetSheltering(
+  profile: ShelterFacilityProfile,
+  input?: Pick<ShelterStandardsInput, 'householdPets'>
+): FacilityEvaluation {
+  const issues: string[] = [];
+  const features = [...(profile.amenities || []), ...(profile.accessibilityFeatures || [])];
+
+  if (!profile.petCapacity && !profile.petSpace && !hasFeature(features, PET_FEATURES)) {
+    issues.push('No pet shelter recorded');
+  }
+
+  const pets = Math.max(input?.householdPets || 0, 0);
+  if (pets > 0) {
+    if (profile.petCapacity !== undefined && profile.petCapacity < pets) {
+      issues.push(`${profile.petCapacity} of ${pets} pet crates`);
+    }
+    const spaceRequired = pets * SHELTER_RATIOS.PET_SPACE_PER_CRATE;
+    if (profile.petSpace !== undefined && profile.petSpace < spaceRequired) {
+      issues.push(`${profile.petSpace} of ${spaceRequired} sq ft of pet space`);
+    }
+  }
+
+  return { compliant: issues.length === 0, issues };
+}
+
 /**
  * Helper function to get shelter type descriptions
  */
@@ -394,5 +594,15 @@ export const SHELTER_RATIOS = {
   },
   HANDWASH_STATIONS_PER_PERSON: 20,
   ACCESSIBLE_TOILETS_PERCENTAGE: 0.167, // 16.7%
-  TRASH_CONTAINERS_PER_PERSON: 10 // 1 per 10 people
+  TRASH_CONTAINERS_PER_PERSON: 10, // 1 per 10 people
+  
+  // Special populations
+  SPACE_PER_PERSON_AFN: 60, // sq ft, AFN and medical cots
+  AFN_PER_ACCESSIBLE_TOILET: 20,
+  AFN_PER_ASSISTANCE_WORKER: 10, // Personal assistance services
+  PET_SPACE_PER_CRATE: 30, // sq ft, including aisles
+  PETS_PER_CARE_WORKER: 20,
+  RESIDENTS_PER_NURSE: 200, // Disaster Health
+  MEDICAL_COTS_PER_NURSE: 10,
+  MINORS_PER_SUPERVISOR: 10
 } as const;
\ No newline at end of file
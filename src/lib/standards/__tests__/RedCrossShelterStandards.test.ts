@@ -0,0 +1,87 @@
+/**
+ * Red Cross Shelter Standards Tests
+ *
+ * Validates special population requirements and the facility accessibility
+ * and pet sheltering evaluations
+ */
+
+import {
+  calculateShelterStandards,
+  evaluateAccessibility,
+  evaluatePetSheltering,
+} from '../RedCrossShelterStandards';
+
+describe('calculateShelterStandards', () => {
+  it('keeps the general population requirements when no special populations are given', () => {
+    const result = calculateShelterStandards({ expectedPopulation: 100, shelterType: 'standard_short_term', facilitySize: 4000 });
+
+    expect(result.capacity).toEqual({ maxOccupancy: 100, spacePerPerson: 40, requiredSpace: 4000, isWithinStandards: true });
+    expect(result.services.accessibleToilets).toBe(1);
+    expect(result.services.medicalStaff).toBe(false);
+    expect(Object.values(result.specialPopulations).every(value => value === 0)).toBe(true);
+  });
+
+  it('adds ADA cots, pet crates, Disaster Health staff and supervision for special populations', () => {
+    const result = calculateShelterStandards({
+      expectedPopulation: 100,
+      shelterType: 'standard_short_term',
+      facilitySize: 4000,
+      accessFunctionalNeeds: 40,
+      medicalCots: 5,
+      householdPets: 12,
+      infants: 3,
+      unaccompaniedMinors: 4,
+    });
+
+    expect(result.specialPopulations).toEqual({
+      adaCots: 40,
+      medicalCots: 5,
+      cribs: 3,
+      infantKits: 3,
+      petCrates: 12,
+      petSpace: 360,
+      petCareWorkers: 1,
+      disasterHealthNurses: 1,
+      personalAssistanceWorkers: 4,
+      minorSupervisors: 2,
+    });
+    expect(result.capacity).toMatchObject({ requiredSpace: 4900, isWithinStandards: false });
+    expect(result.services).toMatchObject({ accessibleToilets: 2, medicalStaff: true });
+    expect(result.compliance.recommendations).toContain('Set up a supervised area for unaccompanied minors with 2 background-checked staff');
+  });
+
+  it('checks unaccompanied minors against the supervision recorded', () => {
+    const input = { expectedPopulation: 100, shelterType: 'standard_short_term' as const, facilitySize: 4000, unaccompaniedMinors: 4 };
+
+    expect(calculateShelterStandards({ ...input, minorSupervisorsAssigned: 1 }).compliance.violations).toEqual([
+      'Unaccompanied minors need a supervised area with 2 background-checked staff (1 assigned)',
+    ]);
+    expect(calculateShelterStandards({ ...input, minorSupervisorsAssigned: 2 }).compliance).toMatchObject({
+      isCompliant: true,
+      violations: [],
+    });
+  });
+});
+
+describe('facility evaluations', () => {
+  it('requires step-free access, accessible restrooms and enough accessible toilets', () => {
+    expect(evaluateAccessibility({ accessibilityFeatures: ['Braille Signage'] }).issues).toEqual([
+      'No step-free entrance recorded',
+      'No accessible restrooms recorded',
+    ]);
+    expect(evaluateAccessibility({ accessibilityFeatures: ['Ramp Access', 'Accessible Restrooms'] }).compliant).toBe(true);
+    expect(evaluateAccessibility(
+      { accessibilityFeatures: ['Elevator'], accessibleToilets: 1 },
+      { expectedPopulation: 100, accessFunctionalNeeds: 40 }
+    ).issues).toEqual(['1 of 2 accessible toilets for 100 residents']);
+  });
+
+  it('requires a pet shelter with enough crates and space for the pets expected', () => {
+    expect(evaluatePetSheltering({ amenities: ['WiFi'] }).compliant).toBe(false);
+    expect(evaluatePetSheltering({ amenities: ['Pet Friendly'] }).compliant).toBe(true);
+    expect(evaluatePetSheltering({ petCapacity: 10, petSpace: 300 }, { householdPets: 12 }).issues).toEqual([
+      '10 of 12 pet crates',
+      '300 of 360 sq ft of pet space',
+    ]);
+  });
+});
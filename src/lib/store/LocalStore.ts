@@ -5,7 +5,28 @@
  */
 
 import Dexie, { Table } from 'dexie';
-import { Event } from '../events/types';
+import { Event, ConflictResolution, getDeviceId } from '../events/types';
+import {
+  GENESIS_HASH,
+  sealEvent,
+  verifyDeviceChains,
+  ChainVerificationResult,
+  canonicalize,
+  sha256,
+} from '../events/hashChain';
+import {
+  CausalPosition,
+  causalOrder,
+  compareCausally,
+  compareClocks,
+  currentDeviceClock,
+  observeClock,
+} from '../events/vectorClock';
+import { BackoffPolicy, DEFAULT_BACKOFF_POLICY, computeBackoffDelay } from '../sync/backoff';
+import { EventBundle, BundleImportResult, createBundle, importBundleEvents } from '../sync/EventBundle';
+
+// Chain key for events that are not scoped to an operation
+export const GLOBAL_CHAIN_ID = '_global';
 
 // Define the database schema
 export class LocalDatabase extends Dexie {
@@ -30,6 +51,15 @@ export class LocalDatabase extends Dexie {
   
   // Cache for remote data
   cache!: Table<CacheItem>;
+  
+  // This device's chain head and local log length per operation
+  chainHeads!: Table<ChainHead>;
+  
+  // Conflicts waiting for a person to resolve
+  conflicts!: Table<ConflictRecord>;
+  
+  // Events the server kept rejecting
+  deadLetters!: Table<DeadLetter>;
 
   constructor(dbName: string) {
     super(dbName);
@@ -57,6 +87,64 @@ export class LocalDatabase extends Dexie {
       // Cache with TTL
       cache: 'key, expiresAt',
     });
+    
+    this.version(2).stores({
+      events: 'id, type, operationId, timestamp, [operationId+timestamp], syncStatus, correlationId, hash',
+      chainHeads: 'operationId',
+    });
+    
+    this.version(3).stores({
+      conflicts: 'id, operationId, status, detectedAt, [operationId+status]',
+    });
+    
+    this.version(4).stores({
+      events: 'id, type, operationId, timestamp, [operationId+timestamp], [operationId+sequence], syncStatus, correlationId, hash',
+      snapshots: 'id, operationId, timestamp, type, [operationId+projector]',
+    });
+    
+    this.version(5).stores({
+      deadLetters: 'eventId, operationId, status, deadAt',
+    }).upgrade(async tx => {
+      // Items that exhausted their retries used to stay in the outbox as 'failed'
+      const exhausted = await tx.table('outbox').where('status').equals('failed').toArray();
+      await tx.table('deadLetters').bulkPut(exhausted.map((item: OutboxItem) => toDeadLetter(item)));
+      await tx.table('outbox').where('status').equals('failed').delete();
+    });
+    
+    this.version(6).stores({
+      events: 'id, type, operationId, timestamp, [operationId+timestamp], [operationId+logPosition], syncStatus, correlationId, hash',
+    }).upgrade(async tx => {
+      // Events written before per-device chains either have no hash fields or
+      // were re-sealed into a single local chain. They keep what they have and
+      // get a local log position; each device's chain starts after them.
+      const events: Event[] = await tx.table('events').toArray();
+      const byChain = new Map<string, Event[]>();
+      events.forEach(event => {
+        const chainId = event.operationId || GLOBAL_CHAIN_ID;
+        byChain.set(chainId, [...(byChain.get(chainId) || []), event]);
+      });
+      
+      const heads: ChainHead[] = [];
+      byChain.forEach((chainEvents, chainId) => {
+        chainEvents
+          .sort((a, b) => (a.sequence || 0) - (b.sequence || 0) || a.timestamp - b.timestamp)
+          .forEach((event, i) => { event.logPosition = i + 1; });
+        heads.push({
+          ...emptyChainHead(chainId),
+          logLength: chainEvents.length,
+          legacyThrough: chainEvents.length,
+          updatedAt: Date.now(),
+        });
+      });
+      
+      await tx.table('events').bulkPut(events);
+      await tx.table('chainHeads').clear();
+      await tx.table('chainHeads').bulkPut(heads);
+    });
+    
+    this.version(7).stores({
+      conflicts: 'id, operationId, status, detectedAt, [operationId+status], remote.id',
+    });
   }
 }
 
@@ -74,6 +162,41 @@ export interface OutboxItem {
   sentAt?: number;
 }
 
+// Outbox event the server kept rejecting, parked so it can't stall the queue
+export interface DeadLetter {
+  eventId: string;
+  operationId?: string;
+  event: Event;
+  retryCount: number;
+  lastError?: string;
+  deadAt: number;
+  status: 'dead' | 'requeued' | 'replaced' | 'discarded';
+  editedPayload?: any; // Correction to send instead of the original payload
+  editedBy?: string;
+  editedAt?: number;
+  replacedBy?: string; // Id of the corrected event
+  closedAt?: number;
+}
+
+// How a failed send is retried
+export interface OutboxRetryOptions {
+  maxRetries?: number;
+  backoff?: BackoffPolicy;
+  permanent?: boolean; // Dead-letter now instead of retrying
+}
+
+function toDeadLetter(item: OutboxItem): DeadLetter {
+  return {
+    eventId: item.eventId,
+    operationId: item.event.operationId,
+    event: item.event,
+    retryCount: item.retryCount,
+    lastError: item.lastError,
+    deadAt: Date.now(),
+    status: 'dead',
+  };
+}
+
 // Inbox item for ordering remote events
 export interface InboxItem {
   sequence?: number;
@@ -90,13 +213,51 @@ export interface InboxItem {
 export interface Snapshot {
   id: string;
   operationId: string;
+  projector?: string;
+  projectorVersion?: number;
   timestamp: number;
-  eventSequence: number;
+  eventSequence: number; // Local log position the snapshot includes
+  headHash?: string; // Hash of the event at eventSequence
+  causalHead?: CausalPosition; // Latest included event in causal order
   type: 'full' | 'incremental';
   data: any;
   hash: string;
 }
 
+// Snapshots kept per projector; older ones are pruned
+const SNAPSHOTS_TO_KEEP = 3;
+
+// This device's chain head for an operation, and the operation's local log
+export interface ChainHead {
+  operationId: string;
+  eventId: string;
+  hash: string;
+  length: number; // Events this device sealed into its chain
+  logLength: number; // Events in the local log, from every device
+  legacyThrough?: number; // Log positions up to here predate the chains and are not verified
+  updatedAt: number;
+}
+
+function emptyChainHead(chainId: string): ChainHead {
+  return { operationId: chainId, eventId: '', hash: GENESIS_HASH, length: 0, logLength: 0, updatedAt: 0 };
+}
+
+// Conflict queued for manual resolution
+export interface ConflictRecord {
+  id: string;
+  operationId?: string;
+  eventType: string;
+  local: Event;
+  remote: Event;
+  policy: ConflictResolution;
+  status: 'open' | 'resolved';
+  detectedAt: number;
+  choice?: 'local' | 'remote' | 'merged';
+  resolvedEventId?: string;
+  resolvedBy?: string;
+  resolvedAt?: number;
+}
+
 // Cache item with TTL
 export interface CacheItem {
   key: string;
@@ -124,17 +285,33 @@ export class LocalStore {
   }
   
   /**
-   * Append event to local log
+   * Append an event created on this device, linking it into this device's
+   * hash chain for the operation and queueing it for sync. Returns the event
+   * as stored (with sequence, hash, previousHash and logPosition filled in).
    */
-  async appendEvent(event: Event): Promise<void> {
-    await this.db.transaction('rw', this.db.events, this.db.outbox, async () => {
-      // Add to event log
-      await this.db.events.add(event);
+  async appendEvent(event: Event): Promise<Event> {
+    return await this.db.transaction('rw', this.db.events, this.db.outbox, this.db.chainHeads, async () => {
+      const head = await this.getChainHead(event.operationId || GLOBAL_CHAIN_ID);
+      const sequence = head.length + 1;
+      const logPosition = head.logLength + 1;
+      const sealed = sealEvent({ ...event, sequence }, head.hash);
+      const stored: Event = { ...sealed, logPosition };
+      
+      // Add to event log and advance the chain head
+      await this.db.events.add(stored);
+      await this.db.chainHeads.put({
+        ...head,
+        eventId: sealed.id,
+        hash: sealed.hash!,
+        length: sequence,
+        logLength: logPosition,
+        updatedAt: Date.now(),
+      });
       
       // Add to outbox for sync
       const outboxItem: OutboxItem = {
-        eventId: event.id,
-        event,
+        eventId: sealed.id,
+        event: sealed,
         status: 'pending',
         retryCount: 0,
         maxRetries: 5,
@@ -142,17 +319,60 @@ export class LocalStore {
         createdAt: Date.now(),
       };
       await this.db.outbox.add(outboxItem);
+      
+      return stored;
+    });
+  }
+  
+  /**
+   * Append an event received from the server or another device. It keeps the
+   * sequence and hash fields its originator sealed, and is not queued for
+   * sync - the originating device uploads it.
+   */
+  async appendRemoteEvent(event: Event): Promise<Event> {
+    // Our next events causally follow everything in the log
+    observeClock(event.vectorClock);
+    return await this.db.transaction('rw', this.db.events, this.db.chainHeads, this.db.snapshots, async () => {
+      const head = await this.getChainHead(event.operationId || GLOBAL_CHAIN_ID);
+      const logPosition = head.logLength + 1;
+      const stored: Event = { ...event, logPosition, syncStatus: 'synced' };
+      
+      await this.db.events.add(stored);
+      await this.db.chainHeads.put({ ...head, logLength: logPosition, updatedAt: Date.now() });
+      if (event.operationId) {
+        await this.invalidateSnapshotsAfter(event.operationId, stored);
+      }
+      
+      return stored;
     });
   }
   
   /**
-   * Get events for an operation
+   * Drop snapshots whose state includes events that order causally after
+   * a late arrival: replaying the tail on top of them would apply it out
+   * of order
+   */
+  private async invalidateSnapshotsAfter(operationId: string, event: Event): Promise<void> {
+    await this.db.snapshots
+      .where('operationId')
+      .equals(operationId)
+      .filter(snapshot => !!snapshot.causalHead && compareCausally(event, snapshot.causalHead) < 0)
+      .delete();
+  }
+  
+  private async getChainHead(chainId: string): Promise<ChainHead> {
+    return (await this.db.chainHeads.get(chainId)) || emptyChainHead(chainId);
+  }
+  
+  /**
+   * Get events for an operation, optionally limited to a time window
+   * (`until` is inclusive)
    */
-  async getEvents(operationId: string, since?: number): Promise<Event[]> {
-    if (since) {
+  async getEvents(operationId: string, since?: number, until?: number): Promise<Event[]> {
+    if (since || until !== undefined) {
       return await this.db.events
         .where('[operationId+timestamp]')
-        .between([operationId, since], [operationId, Infinity])
+        .between([operationId, since || 0], [operationId, until ?? Infinity], true, true)
         .toArray();
     }
     return await this.db.events
@@ -161,6 +381,125 @@ export class LocalStore {
       .toArray();
   }
   
+  /**
+   * Get events appended after a local log position
+   */
+  async getEventsAfter(operationId: string, logPosition: number): Promise<Event[]> {
+    return await this.db.events
+      .where('[operationId+logPosition]')
+      .between([operationId, logPosition], [operationId, Infinity], false, true)
+      .toArray();
+  }
+  
+  /**
+   * Events in the local log that a remote event had not seen when it was
+   * made. Every event this device makes follows everything logged before
+   * it, so the walk back from the head stops at the newest event of ours
+   * the remote had seen.
+   */
+  async getConcurrentEvents(remote: Event): Promise<Event[]> {
+    if (!remote.operationId || !remote.vectorClock) return [];
+    
+    // Seen everything we have: nothing to walk
+    const order = compareClocks(currentDeviceClock(), remote.vectorClock);
+    if (order === 'before' || order === 'equal') return [];
+    
+    const deviceId = getDeviceId();
+    const concurrent: Event[] = [];
+    await this.db.events
+      .where('[operationId+logPosition]')
+      .between([remote.operationId, 0], [remote.operationId, Infinity], true, true)
+      .reverse()
+      .until(event => event.deviceId === deviceId && causalOrder(event, remote) !== 'concurrent')
+      .each(event => {
+        if (causalOrder(event, remote) === 'concurrent') concurrent.push(event);
+      });
+    return concurrent;
+  }
+  
+  /**
+   * Get the event at a local log position
+   */
+  async getEventAtPosition(operationId: string, logPosition: number): Promise<Event | undefined> {
+    return await this.db.events
+      .where('[operationId+logPosition]')
+      .equals([operationId, logPosition])
+      .first();
+  }
+  
+  /**
+   * Current length of an operation's local log
+   */
+  async getLogLength(operationId: string): Promise<number> {
+    return (await this.db.chainHeads.get(operationId))?.logLength || 0;
+  }
+  
+  /**
+   * Get a single event by id
+   */
+  async getEvent(eventId: string): Promise<Event | undefined> {
+    return await this.db.events.where('id').equals(eventId).first();
+  }
+  
+  /**
+   * Check whether an event is already in the local log
+   */
+  async hasEvent(eventId: string): Promise<boolean> {
+    return (await this.db.events.where('id').equals(eventId).count()) > 0;
+  }
+  
+  /**
+   * Check whether a remote event was already handled: logged, or kept as one
+   * side of a conflict (open, or settled against it)
+   */
+  async hasSeenEvent(eventId: string): Promise<boolean> {
+    return await this.hasEvent(eventId) || (await this.db.conflicts.where('remote.id').equals(eventId).count()) > 0;
+  }
+  
+  /**
+   * Verify one originating device's hash chain for an operation (this
+   * device's by default) and report the first broken link
+   */
+  async verifyChain(operationId: string, deviceId: string = getDeviceId()): Promise<ChainVerificationResult> {
+    const results = await this.verifyChains(operationId);
+    return results.find(result => result.deviceId === deviceId) || {
+      operationId,
+      deviceId,
+      valid: true,
+      eventsChecked: 0,
+      headHash: GENESIS_HASH,
+    };
+  }
+  
+  /**
+   * Verify the hash chain of every device that contributed to an operation.
+   * Received events that lost a conflict are not in the log but are still
+   * links in their device's chain, so they are taken from the conflicts.
+   */
+  async verifyChains(operationId: string): Promise<ChainVerificationResult[]> {
+    const events = operationId === GLOBAL_CHAIN_ID
+      ? await this.db.events.filter(event => !event.operationId).toArray()
+      : await this.getEvents(operationId);
+    const head = await this.getChainHead(operationId);
+    
+    const logged = new Set(events.map(event => event.id));
+    const conflicts = [
+      ...await this.getConflicts(operationId, 'open'),
+      ...await this.getConflicts(operationId, 'resolved'),
+    ];
+    conflicts.forEach(conflict => {
+      if (!logged.has(conflict.remote.id)) {
+        logged.add(conflict.remote.id);
+        events.push(conflict.remote);
+      }
+    });
+    
+    const chained = events.filter(event =>
+      event.logPosition === undefined || event.logPosition > (head.legacyThrough || 0)
+    );
+    return verifyDeviceChains(operationId, chained, head.length > 0 ? { [getDeviceId()]: head.hash } : {});
+  }
+  
   /**
    * Get pending outbox items
    */
@@ -175,12 +514,15 @@ export class LocalStore {
   }
   
   /**
-   * Update outbox item status
+   * Update outbox item status. A failed item is retried after a jittered
+   * exponential backoff and moves to the dead-letter table once it runs out
+   * of attempts.
    */
   async updateOutboxStatus(
     eventId: string, 
     status: OutboxItem['status'],
-    error?: string
+    error?: string,
+    options: OutboxRetryOptions = {}
   ): Promise<void> {
     const item = await this.db.outbox.where('eventId').equals(eventId).first();
     if (!item) return;
@@ -189,23 +531,104 @@ export class LocalStore {
     
     if (status === 'sent') {
       updates.sentAt = Date.now();
+      await this.db.events.update(eventId, { syncStatus: 'synced', syncError: undefined });
     } else if (status === 'failed') {
       updates.retryCount = item.retryCount + 1;
       updates.lastError = error;
-      // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-      updates.nextRetryAt = Date.now() + Math.pow(2, item.retryCount) * 1000;
       
-      // Mark as permanently failed after max retries
-      if (updates.retryCount >= item.maxRetries) {
-        updates.status = 'failed';
-      } else {
-        updates.status = 'pending';
+      const maxRetries = options.maxRetries ?? item.maxRetries;
+      if (options.permanent || updates.retryCount >= maxRetries) {
+        await this.moveToDeadLetters({ ...item, ...updates });
+        return;
       }
+      
+      updates.status = 'pending';
+      updates.nextRetryAt = Date.now() + computeBackoffDelay(item.retryCount, options.backoff || DEFAULT_BACKOFF_POLICY);
+      await this.db.events.update(eventId, {
+        syncStatus: 'pending',
+        syncAttempts: updates.retryCount,
+        syncError: error,
+      });
     }
     
     await this.db.outbox.where('eventId').equals(eventId).modify(updates);
   }
   
+  /**
+   * Take an item out of the outbox and park it as a dead letter
+   */
+  private async moveToDeadLetters(item: OutboxItem): Promise<void> {
+    await this.db.transaction('rw', this.db.outbox, this.db.deadLetters, this.db.events, async () => {
+      await this.db.outbox.where('eventId').equals(item.eventId).delete();
+      await this.db.deadLetters.put(toDeadLetter(item));
+      await this.db.events.update(item.eventId, {
+        syncStatus: 'failed',
+        syncAttempts: item.retryCount,
+        syncError: item.lastError,
+      });
+    });
+  }
+  
+  /**
+   * Get dead letters, newest first (unresolved ones by default)
+   */
+  async getDeadLetters(
+    operationId?: string,
+    status: DeadLetter['status'] = 'dead'
+  ): Promise<DeadLetter[]> {
+    const letters = await this.db.deadLetters
+      .where('status')
+      .equals(status)
+      .filter(letter => !operationId || letter.operationId === operationId)
+      .toArray();
+    return letters.sort((a, b) => b.deadAt - a.deadAt);
+  }
+  
+  /**
+   * Get a single dead letter
+   */
+  async getDeadLetter(eventId: string): Promise<DeadLetter | undefined> {
+    return await this.db.deadLetters.get(eventId);
+  }
+  
+  /**
+   * Count unresolved dead letters
+   */
+  async countDeadLetters(): Promise<number> {
+    return await this.db.deadLetters.where('status').equals('dead').count();
+  }
+  
+  /**
+   * Update a dead letter record
+   */
+  async updateDeadLetter(eventId: string, updates: Partial<DeadLetter>): Promise<void> {
+    await this.db.deadLetters.update(eventId, updates);
+  }
+  
+  /**
+   * Put a dead letter's original event back in the outbox with fresh retries
+   */
+  async requeueDeadLetter(eventId: string, maxRetries: number = 5): Promise<void> {
+    await this.db.transaction('rw', this.db.outbox, this.db.deadLetters, this.db.events, async () => {
+      const letter = await this.db.deadLetters.get(eventId);
+      if (!letter) {
+        throw new Error(`Dead letter ${eventId} not found`);
+      }
+      
+      await this.db.outbox.add({
+        eventId,
+        event: letter.event,
+        status: 'pending',
+        retryCount: 0,
+        maxRetries,
+        nextRetryAt: Date.now(),
+        createdAt: Date.now(),
+      });
+      await this.db.deadLetters.update(eventId, { status: 'requeued', closedAt: Date.now() });
+      await this.db.events.update(eventId, { syncStatus: 'pending', syncAttempts: 0, syncError: undefined });
+    });
+  }
+  
   /**
    * Add remote event to inbox
    */
@@ -229,10 +652,12 @@ export class LocalStore {
     let processed = 0;
     let failed = 0;
     
-    const items = await this.db.inbox
+    // Apply in causal order so an event never lands before one it depends on
+    const items = (await this.db.inbox
       .where('processed')
       .equals(0)  // Dexie stores booleans as 0/1
-      .sortBy('timestamp');
+      .toArray())
+      .sort((a, b) => compareCausally(a.event, b.event));
     
     for (const item of items) {
       try {
@@ -255,24 +680,149 @@ export class LocalStore {
   }
   
   /**
-   * Create a snapshot
+   * Export an operation's events after a local log position as a signed
+   * bundle for another device. The bundle's watermark is the `since` to use
+   * for the next export to the same device.
+   */
+  async exportBundle(operationId: string, key: string, since: number = 0): Promise<EventBundle> {
+    const watermark = await this.getLogLength(operationId);
+    const events = since > 0
+      ? await this.getEventsAfter(operationId, since)
+      : await this.getEvents(operationId);
+    
+    return await createBundle(
+      events.sort((a, b) => (a.logPosition || 0) - (b.logPosition || 0)),
+      { operationId, deviceId: getDeviceId(), since, watermark },
+      key
+    );
+  }
+  
+  /**
+   * Import a bundle from another device. Events already in the log or kept
+   * in a conflict are skipped, so importing the same bundle twice is
+   * harmless. `apply` decides how new events land; SyncEngine passes its
+   * conflict handling here.
+   */
+  async importBundle(
+    bundle: EventBundle,
+    key: string,
+    apply: (event: Event) => Promise<void> = async event => { await this.appendRemoteEvent(event); }
+  ): Promise<BundleImportResult> {
+    return await importBundleEvents(bundle, key, eventId => this.hasSeenEvent(eventId), apply);
+  }
+  
+  /**
+   * Queue a conflict for manual resolution
+   */
+  async addConflict(conflict: ConflictRecord): Promise<void> {
+    await this.db.conflicts.put(conflict);
+  }
+  
+  /**
+   * Conflicts recorded for a remote event, whatever their status
+   */
+  async getConflictsForEvent(remoteEventId: string): Promise<ConflictRecord[]> {
+    return await this.db.conflicts.where('remote.id').equals(remoteEventId).toArray();
+  }
+  
+  /**
+   * Get conflicts, newest first (open ones by default)
+   */
+  async getConflicts(
+    operationId?: string,
+    status: ConflictRecord['status'] = 'open'
+  ): Promise<ConflictRecord[]> {
+    const conflicts = operationId
+      ? await this.db.conflicts.where('[operationId+status]').equals([operationId, status]).toArray()
+      : await this.db.conflicts.where('status').equals(status).toArray();
+    return conflicts.sort((a, b) => b.detectedAt - a.detectedAt);
+  }
+  
+  /**
+   * Get a single conflict
+   */
+  async getConflict(id: string): Promise<ConflictRecord | undefined> {
+    return await this.db.conflicts.get(id);
+  }
+  
+  /**
+   * Update a conflict record
+   */
+  async updateConflict(id: string, updates: Partial<ConflictRecord>): Promise<void> {
+    await this.db.conflicts.update(id, updates);
+  }
+  
+  /**
+   * Create a snapshot. Projector snapshots record the log position they
+   * include so a rebuild only replays the events after it.
    */
   async createSnapshot(
     operationId: string,
     type: 'full' | 'incremental',
-    data: any
-  ): Promise<void> {
-    const events = await this.getEvents(operationId);
+    data: any,
+    options: {
+      projector?: string;
+      projectorVersion?: number;
+      eventSequence?: number;
+      causalHead?: CausalPosition;
+    } = {}
+  ): Promise<Snapshot> {
+    const eventSequence = options.eventSequence ?? await this.getLogLength(operationId);
+    const head = eventSequence > 0
+      ? await this.getEventAtPosition(operationId, eventSequence)
+      : undefined;
+    
     const snapshot: Snapshot = {
       id: crypto.randomUUID(),
       operationId,
+      projector: options.projector,
+      projectorVersion: options.projectorVersion,
       timestamp: Date.now(),
-      eventSequence: events.length,
+      eventSequence,
+      headHash: head?.hash,
+      causalHead: options.causalHead,
       type,
       data,
       hash: this.generateHash(data),
     };
     await this.db.snapshots.add(snapshot);
+    
+    if (options.projector) {
+      await this.pruneSnapshots(operationId, options.projector);
+    }
+    return snapshot;
+  }
+  
+  /**
+   * Get a projector's snapshots, newest log position first
+   */
+  async getSnapshots(operationId: string, projector: string): Promise<Snapshot[]> {
+    const snapshots = await this.db.snapshots
+      .where('[operationId+projector]')
+      .equals([operationId, projector])
+      .toArray();
+    return snapshots.sort((a, b) => b.eventSequence - a.eventSequence || b.timestamp - a.timestamp);
+  }
+  
+  /**
+   * Check a snapshot's data hash and that its head event is still in the log
+   */
+  async isSnapshotValid(snapshot: Snapshot): Promise<boolean> {
+    if (snapshot.hash !== this.generateHash(snapshot.data)) return false;
+    if (snapshot.eventSequence === 0) return true;
+    
+    const head = await this.getEventAtPosition(snapshot.operationId, snapshot.eventSequence);
+    return !!head && head.hash === snapshot.headHash;
+  }
+  
+  /**
+   * Keep only the newest snapshots for a projector
+   */
+  private async pruneSnapshots(operationId: string, projector: string): Promise<void> {
+    const stale = (await this.getSnapshots(operationId, projector)).slice(SNAPSHOTS_TO_KEEP);
+    if (stale.length > 0) {
+      await this.db.snapshots.bulkDelete(stale.map(snapshot => snapshot.id));
+    }
   }
   
   /**
@@ -389,7 +939,7 @@ export class LocalStore {
   }
   
   private generateHash(data: any): string {
-    return btoa(JSON.stringify(data)).substring(0, 32);
+    return sha256(canonicalize(data));
   }
 }
 
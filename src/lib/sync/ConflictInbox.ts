@@ -0,0 +1,211 @@
+/**
+ * Conflict Inbox
+ *
+ * Holds conflicts whose policy is MANUAL until a person settles them.
+ * Every resolution is itself an event: CONFLICT_RESOLVED is emitted with
+ * its causationId pointing at the event that won (or the hand-merged one).
+ */
+
+import { Event, EventType, ConflictResolution } from '../events/types';
+import { LocalStore, ConflictRecord, getLocalStore } from '../store/LocalStore';
+import { EventBus, eventBus } from './EventBus';
+import { changeDetector, DataChange } from './ChangeDetector';
+import { upcastEvent } from '../events/upcasters';
+
+export type ConflictChoice = 'local' | 'remote' | 'merged';
+
+export class ConflictInbox {
+  private localStore: LocalStore;
+  private eventBus: EventBus;
+
+  constructor(localStore: LocalStore = getLocalStore(), bus: EventBus = eventBus) {
+    this.localStore = localStore;
+    this.eventBus = bus;
+  }
+
+  /**
+   * Queue a conflict and announce it. A remote event delivered again finds
+   * its conflict already recorded and is not queued or announced twice.
+   */
+  async record(
+    local: Event,
+    remote: Event,
+    policy: ConflictResolution = ConflictResolution.MANUAL
+  ): Promise<ConflictRecord> {
+    const existing = await this.find(local, remote);
+    if (existing) return existing;
+
+    const conflict: ConflictRecord = {
+      id: crypto.randomUUID(),
+      operationId: remote.operationId || local.operationId,
+      eventType: local.type,
+      local,
+      remote,
+      policy,
+      status: 'open',
+      detectedAt: Date.now(),
+    };
+    await this.localStore.addConflict(conflict);
+
+    await this.eventBus.emit(EventType.CONFLICT_DETECTED, {
+      conflictId: conflict.id,
+      local,
+      remote,
+      type: local.type,
+    }, { operationId: conflict.operationId });
+
+    return conflict;
+  }
+
+  /**
+   * Keep a conflict a sync policy settled without a person, so the remote
+   * event that lost stays on record (it is not in the local log)
+   */
+  async recordSettled(
+    local: Event,
+    remote: Event,
+    policy: ConflictResolution,
+    choice: Exclude<ConflictChoice, 'remote'> = 'local',
+    resolvedEventId: string = local.id
+  ): Promise<ConflictRecord> {
+    const existing = await this.find(local, remote);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const conflict: ConflictRecord = {
+      id: crypto.randomUUID(),
+      operationId: remote.operationId || local.operationId,
+      eventType: local.type,
+      local,
+      remote,
+      policy,
+      status: 'resolved',
+      detectedAt: now,
+      choice,
+      resolvedEventId,
+      resolvedBy: 'sync',
+      resolvedAt: now,
+    };
+    await this.localStore.addConflict(conflict);
+    return conflict;
+  }
+
+  /**
+   * The conflict already recorded between these two events, if any
+   */
+  async find(local: Event, remote: Event): Promise<ConflictRecord | undefined> {
+    const recorded = await this.localStore.getConflictsForEvent(remote.id);
+    return recorded.find(conflict => conflict.local.id === local.id);
+  }
+
+  /**
+   * Open conflicts, newest first
+   */
+  async list(operationId?: string): Promise<ConflictRecord[]> {
+    return await this.localStore.getConflicts(operationId, 'open');
+  }
+
+  /**
+   * Field-level diff of the two payloads (oldValue = local, newValue = remote)
+   */
+  diff(conflict: ConflictRecord): DataChange[] {
+    // Compare current payload shapes; the recorded events keep their own
+    const local = upcastEvent(conflict.local).payload || {};
+    const remote = upcastEvent(conflict.remote).payload || {};
+    const changes = changeDetector.detectChanges(local, remote, conflict.remote.actorId);
+
+    // detectChanges only walks the remote fields; add the ones remote dropped
+    Object.keys(local)
+      .filter(field => !(field in remote))
+      .forEach(field => {
+        changes.push({
+          field,
+          oldValue: local[field],
+          newValue: undefined,
+          timestamp: new Date(conflict.remote.timestamp),
+          userId: conflict.remote.actorId,
+        });
+      });
+
+    return changes;
+  }
+
+  /**
+   * Settle a conflict by keeping the local event, the remote event, or a
+   * hand-merged payload (emitted as a new event of the same type)
+   */
+  async resolve(
+    conflictId: string,
+    choice: ConflictChoice,
+    options: { mergedPayload?: any; resolvedBy?: string } = {}
+  ): Promise<ConflictRecord> {
+    const conflict = await this.localStore.getConflict(conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict ${conflictId} not found`);
+    }
+    if (conflict.status === 'resolved') {
+      throw new Error(`Conflict ${conflictId} is already resolved`);
+    }
+
+    const { local, remote } = conflict;
+    let resolvedEventId: string;
+
+    switch (choice) {
+      case 'local':
+        // Already in the local log
+        resolvedEventId = local.id;
+        break;
+
+      case 'remote':
+        if (!(await this.localStore.hasEvent(remote.id))) {
+          await this.localStore.appendRemoteEvent(remote);
+        }
+        resolvedEventId = remote.id;
+        break;
+
+      case 'merged':
+        if (!options.mergedPayload) {
+          throw new Error('A merged payload is required to hand-merge a conflict');
+        }
+        resolvedEventId = await this.eventBus.emit(local.type as EventType, options.mergedPayload, {
+          operationId: conflict.operationId,
+          causationId: remote.id,
+          correlationId: local.correlationId,
+        });
+        break;
+    }
+
+    await this.eventBus.emit(EventType.CONFLICT_RESOLVED, {
+      conflictId,
+      choice,
+      local,
+      remote,
+      resolvedEventId,
+      resolution: ConflictResolution.MANUAL,
+    }, {
+      operationId: conflict.operationId,
+      causationId: resolvedEventId,
+    });
+
+    const updates: Partial<ConflictRecord> = {
+      status: 'resolved',
+      choice,
+      resolvedEventId,
+      resolvedBy: options.resolvedBy,
+      resolvedAt: Date.now(),
+    };
+    await this.localStore.updateConflict(conflictId, updates);
+
+    return { ...conflict, ...updates };
+  }
+}
+
+// Singleton instance
+let conflictInbox: ConflictInbox | null = null;
+
+export function getConflictInbox(): ConflictInbox {
+  if (!conflictInbox) {
+    conflictInbox = new ConflictInbox();
+  }
+  return conflictInbox;
+}
@@ -0,0 +1,117 @@
+/**
+ * Dead Letter Queue
+ *
+ * Outbox events the server kept rejecting are parked here so they stop
+ * holding up the rest of the queue. A person can inspect them, correct the
+ * payload and send them again, or discard them.
+ *
+ * Logged events are hash-chained and never change, so a correction is sent
+ * as a new event of the same type whose causationId points at the original.
+ */
+
+import { EventType, EventPayloadValidators } from '../events/types';
+import { LocalStore, DeadLetter, getLocalStore } from '../store/LocalStore';
+import { EventBus, eventBus } from './EventBus';
+
+export class DeadLetterQueue {
+  private localStore: LocalStore;
+  private eventBus: EventBus;
+
+  constructor(localStore: LocalStore = getLocalStore(), bus: EventBus = eventBus) {
+    this.localStore = localStore;
+    this.eventBus = bus;
+  }
+
+  /**
+   * Dead letters waiting for attention, newest first
+   */
+  async list(operationId?: string): Promise<DeadLetter[]> {
+    return await this.localStore.getDeadLetters(operationId, 'dead');
+  }
+
+  /**
+   * A single dead letter, with the event, attempts and last server error
+   */
+  async get(eventId: string): Promise<DeadLetter> {
+    const letter = await this.localStore.getDeadLetter(eventId);
+    if (!letter) {
+      throw new Error(`Dead letter ${eventId} not found`);
+    }
+    return letter;
+  }
+
+  /**
+   * Save a corrected payload to send on requeue
+   */
+  async edit(eventId: string, payload: any, editedBy?: string): Promise<DeadLetter> {
+    const letter = await this.getOpen(eventId);
+
+    const validator = EventPayloadValidators[letter.event.type];
+    if (validator) {
+      validator.parse(payload);
+    }
+
+    const updates: Partial<DeadLetter> = {
+      editedPayload: payload,
+      editedBy,
+      editedAt: Date.now(),
+    };
+    await this.localStore.updateDeadLetter(eventId, updates);
+
+    return { ...letter, ...updates };
+  }
+
+  /**
+   * Send a dead letter again: the original event with fresh retries, or a
+   * corrected event if the payload was edited
+   */
+  async requeue(eventId: string): Promise<DeadLetter> {
+    const letter = await this.getOpen(eventId);
+
+    if (letter.editedPayload === undefined) {
+      await this.localStore.requeueDeadLetter(eventId);
+      return { ...letter, status: 'requeued', closedAt: Date.now() };
+    }
+
+    const replacedBy = await this.eventBus.emit(letter.event.type as EventType, letter.editedPayload, {
+      operationId: letter.event.operationId,
+      causationId: letter.event.id,
+      correlationId: letter.event.correlationId,
+    });
+
+    const updates: Partial<DeadLetter> = { status: 'replaced', replacedBy, closedAt: Date.now() };
+    await this.localStore.updateDeadLetter(eventId, updates);
+
+    return { ...letter, ...updates };
+  }
+
+  /**
+   * Give up on a dead letter; the event stays in the local log unsynced
+   */
+  async discard(eventId: string): Promise<DeadLetter> {
+    const letter = await this.getOpen(eventId);
+
+    const updates: Partial<DeadLetter> = { status: 'discarded', closedAt: Date.now() };
+    await this.localStore.updateDeadLetter(eventId, updates);
+
+    return { ...letter, ...updates };
+  }
+
+  private async getOpen(eventId: string): Promise<DeadLetter> {
+    const letter = await this.get(eventId);
+    if (letter.status !== 'dead') {
+      throw new Error(`Dead letter ${eventId} is already ${letter.status}`);
+    }
+    return letter;
+  }
+}
+
+// Singleton instance
+let deadLetterQueue: DeadLetterQueue | null = null;
+
+export function getDeadLetterQueue(): DeadLetterQueue {
+  if (!deadLetterQueue) {
+    deadLetterQueue = new DeadLetterQueue();
+  }
+  return deadLetterQueue;
+}
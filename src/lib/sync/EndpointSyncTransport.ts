@@ -0,0 +1,59 @@
+/**
+ * Endpoint Sync Transport
+ *
+ * The original sync protocol against a single endpoint: POST {events} to
+ * send, GET ?since=<ms> to fetch. Servers deployed before the event_store
+ * RPCs still speak it, so it stays the default for `remoteEndpoint`; use
+ * HttpSyncTransport for the RPC protocol.
+ */
+
+import { Event } from '../events/types';
+import { SyncTransport, SyncRequestError, IngestResult } from './SyncTransport';
+
+export class EndpointSyncTransport implements SyncTransport {
+  readonly name = 'endpoint';
+  private endpoint: string;
+  private apiKey?: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(endpoint: string, apiKey?: string, fetchImpl?: typeof fetch) {
+    this.endpoint = endpoint;
+    this.apiKey = apiKey;
+    this.fetchImpl = fetchImpl || ((input, init) => fetch(input, init));
+  }
+
+  async ingest(events: Event[], idempotencyKey?: string): Promise<IngestResult[]> {
+    const response = await this.fetchImpl(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        'X-Idempotency-Key': idempotencyKey || events[0]?.id || '',
+      },
+      body: JSON.stringify({ events }),
+    });
+
+    if (!response.ok) {
+      throw new SyncRequestError(`Sync failed: ${response.statusText}`, response.status);
+    }
+
+    // The protocol does not report duplicates
+    return events.map(event => ({ id: event.id, inserted: true }));
+  }
+
+  // The protocol has no operation filter; the server decides what to send
+  async fetchSince(sinceMs: number): Promise<Event[]> {
+    const response = await this.fetchImpl(`${this.endpoint}?since=${sinceMs}`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new SyncRequestError(`Fetch failed: ${response.statusText}`, response.status);
+    }
+
+    const data = await response.json();
+    return data.events || [];
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Event Bundles
+ *
+ * File format for swapping events between field devices with no network
+ * (USB stick, shared drive). A bundle holds one operation's events after a
+ * watermark, gzip-compressed where the browser supports it and signed with
+ * HMAC-SHA256 under a key the team shares, so a tampered or foreign bundle
+ * is refused on import.
+ */
+
+import { Event } from '../events/types';
+import { canonicalize, hmacSha256 } from '../events/hashChain';
+import { compareCausally } from '../events/vectorClock';
+
+export const BUNDLE_FORMAT = 'disaster-ops-event-bundle';
+
+export interface EventBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  operationId: string;
+  deviceId: string;
+  createdAt: number;
+  since: number; // Watermark the export started after
+  watermark: number; // Local log position covered; pass as `since` next time
+  eventCount: number;
+  encoding: 'gzip' | 'none';
+  data: string; // Event JSON array (base64 of the gzip when compressed)
+  signature: string; // HMAC-SHA256 of every other field
+}
+
+export interface BundleImportResult {
+  operationId: string;
+  fromDevice: string;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  errors: { eventId: string; error: string }[];
+}
+
+type UnsignedBundle = Omit<EventBundle, 'signature'>;
+
+function sign(bundle: UnsignedBundle, key: string): string {
+  return hmacSha256(key, canonicalize(bundle));
+}
+
+/**
+ * Pack events into a signed bundle
+ */
+export async function createBundle(
+  events: Event[],
+  meta: { operationId: string; deviceId: string; since: number; watermark: number },
+  key: string
+): Promise<EventBundle> {
+  if (!key) {
+    throw new Error('A bundle key is required to sign the bundle');
+  }
+
+  const json = JSON.stringify(events);
+  const compressed = await gzip(json);
+
+  const unsigned: UnsignedBundle = {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    ...meta,
+    createdAt: Date.now(),
+    eventCount: events.length,
+    encoding: compressed === null ? 'none' : 'gzip',
+    data: compressed ?? json,
+  };
+
+  return { ...unsigned, signature: sign(unsigned, key) };
+}
+
+/**
+ * Check a bundle's signature and unpack its events
+ */
+export async function openBundle(bundle: EventBundle, key: string): Promise<Event[]> {
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    throw new Error('Not an event bundle');
+  }
+  if (bundle.version !== 1) {
+    throw new Error(`Unsupported bundle version ${bundle.version}`);
+  }
+
+  const { signature, ...unsigned } = bundle;
+  if (signature !== sign(unsigned, key)) {
+    throw new Error('Bundle signature does not match; it was altered or signed with a different key');
+  }
+
+  const json = bundle.encoding === 'gzip' ? await gunzip(bundle.data) : bundle.data;
+  const events: Event[] = JSON.parse(json);
+
+  if (!Array.isArray(events) || events.length !== bundle.eventCount) {
+    throw new Error('Bundle is incomplete');
+  }
+  if (events.some(event => event.operationId !== bundle.operationId)) {
+    throw new Error('Bundle contains events from another operation');
+  }
+  return events;
+}
+
+/**
+ * Apply a bundle's events in causal order. Events `seen` already knows - in
+ * the log, or kept as the losing side of a conflict - count as duplicates,
+ * so importing the same bundle twice is harmless.
+ */
+export async function importBundleEvents(
+  bundle: EventBundle,
+  key: string,
+  seen: (eventId: string) => Promise<boolean>,
+  apply: (event: Event) => Promise<void>
+): Promise<BundleImportResult> {
+  const events = (await openBundle(bundle, key)).sort(compareCausally);
+  const result: BundleImportResult = {
+    operationId: bundle.operationId,
+    fromDevice: bundle.deviceId,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  for (const event of events) {
+    if (await seen(event.id)) {
+      result.duplicates++;
+      continue;
+    }
+    try {
+      await apply(event);
+      result.imported++;
+    } catch (error) {
+      result.failed++;
+      result.errors.push({ eventId: event.id, error: String(error) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Bundle file contents
+ */
+export function serializeBundle(bundle: EventBundle): string {
+  return JSON.stringify(bundle);
+}
+
+export function parseBundle(text: string): EventBundle {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Bundle file is not valid JSON');
+  }
+}
+
+/**
+ * Suggested file name, e.g. ops-<operation>-<device>-<watermark>.evb
+ */
+export function bundleFileName(bundle: EventBundle): string {
+  return `ops-${bundle.operationId}-${bundle.deviceId.slice(0, 8)}-${bundle.watermark}.evb`;
+}
+
+// ============================================
+// COMPRESSION
+// ============================================
+
+async function gzip(text: string): Promise<string | null> {
+  if (typeof CompressionStream === 'undefined' || typeof Response === 'undefined') {
+    return null;
+  }
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return toBase64(bytes);
+}
+
+async function gunzip(base64: string): Promise<string> {
+  if (typeof DecompressionStream === 'undefined' || typeof Response === 'undefined') {
+    throw new Error('This browser cannot read compressed bundles');
+  }
+  const stream = new Blob([fromBase64(base64)]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
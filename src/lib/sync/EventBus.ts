@@ -6,6 +6,7 @@
 
 import { Event, EventType, createEvent } from '../events/types';
 import { getLocalStore } from '../store/LocalStore';
+import { upcastEvent } from '../events/upcasters';
 
 export type EventHandler = (event: Event) => void | Promise<void>;
 export type Unsubscribe = () => void;
@@ -46,13 +47,13 @@ export class EventBus {
       ...metadata,
     });
     
-    // Store in local event log
-    await this.localStore.appendEvent(event);
+    // Store in local event log (links it into the hash chain)
+    const stored = await this.localStore.appendEvent(event);
     
     // Notify handlers
-    await this.notify(event);
+    await this.notify(stored);
     
-    return event.id;
+    return stored.id;
   }
   
   /**
@@ -157,9 +158,9 @@ export class EventBus {
     since?: number,
     handler?: EventHandler
   ): Promise<void> {
-    const events = await this.localStore.getEvents(operationId, since);
+    const stored = await this.localStore.getEvents(operationId, since);
     
-    for (const event of events) {
+    for (const event of stored.map(upcastEvent)) {
       if (handler) {
         await handler(event);
       } else {
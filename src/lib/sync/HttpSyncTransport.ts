@@ -0,0 +1,58 @@
+/**
+ * HTTP Sync Transport
+ *
+ * Calls the event_store RPCs over plain HTTP, PostgREST style:
+ * POST {baseUrl}/rpc/ingest_events and POST {baseUrl}/rpc/fetch_events.
+ * Works against the local reference server (server/sync-server.js) for
+ * field deployments without internet, and against any PostgREST endpoint.
+ */
+
+import { Event } from '../events/types';
+import { SyncTransport, SyncRequestError, IngestResult, EventRow, rowToEvent } from './SyncTransport';
+
+export class HttpSyncTransport implements SyncTransport {
+  readonly name = 'http';
+  private baseUrl: string;
+  private apiKey?: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, apiKey?: string, fetchImpl?: typeof fetch) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.fetchImpl = fetchImpl || ((input, init) => fetch(input, init));
+  }
+
+  async ingest(events: Event[], idempotencyKey?: string): Promise<IngestResult[]> {
+    return await this.rpc<IngestResult[]>('ingest_events', { _events: events }, idempotencyKey);
+  }
+
+  async fetchSince(sinceMs: number, operationId?: string): Promise<Event[]> {
+    const rows = await this.rpc<EventRow[]>('fetch_events', {
+      _since_ms: sinceMs,
+      _operation_id: operationId ?? null,
+    });
+    return rows.map(rowToEvent);
+  }
+
+  private async rpc<T>(fn: string, body: any, idempotencyKey?: string): Promise<T> {
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+    if (idempotencyKey) headers['X-Idempotency-Key'] = idempotencyKey;
+
+    const response = await this.fetchImpl(`${this.baseUrl}/rpc/${fn}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new SyncRequestError(
+        `Sync ${fn} failed: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
+        response.status
+      );
+    }
+
+    return await response.json();
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Observed-Remove Set (OR-Set) CRDT
+ *
+ * Every add carries a unique tag; a remove tombstones only the tags it has
+ * observed. Replicas that apply the same adds and removes in any order end up
+ * with the same elements, and an add made concurrently with a remove survives
+ * (add-wins). Used for operation geography so two devices editing counties
+ * offline converge once they sync.
+ */
+
+import { Event, EventType } from '../events/types';
+import type { County } from '@/types';
+
+// Plain serializable form (stored in projections and snapshots)
+export interface ORSetState<T> {
+  entries: { [key: string]: { [tag: string]: T } };
+  tombstones: string[];
+}
+
+export class ORSet<T> {
+  private entries: Map<string, Map<string, T>> = new Map();
+  private tombstones: Set<string> = new Set();
+
+  /**
+   * Add an element under a unique tag. Adds whose tag was already removed
+   * are ignored, so replaying an add after its remove is harmless.
+   */
+  add(key: string, value: T, tag: string): void {
+    if (this.tombstones.has(tag)) return;
+
+    if (!this.entries.has(key)) {
+      this.entries.set(key, new Map());
+    }
+    this.entries.get(key)!.set(tag, value);
+  }
+
+  /**
+   * Remove an element. Only the given observed tags are tombstoned; when
+   * none are given, every tag currently observed for the key is removed.
+   * Returns the tags that were tombstoned.
+   */
+  remove(key: string, observedTags?: string[]): string[] {
+    const tags = observedTags ?? this.observedTags(key);
+    const live = this.entries.get(key);
+
+    tags.forEach(tag => {
+      this.tombstones.add(tag);
+      live?.delete(tag);
+    });
+
+    if (live && live.size === 0) {
+      this.entries.delete(key);
+    }
+    return tags;
+  }
+
+  /**
+   * Tags currently supporting an element (include these in a remove)
+   */
+  observedTags(key: string): string[] {
+    return Array.from(this.entries.get(key)?.keys() || []);
+  }
+
+  has(key: string): boolean {
+    return (this.entries.get(key)?.size || 0) > 0;
+  }
+
+  /**
+   * Current value for a key. When concurrent adds carry different values the
+   * one with the greatest tag wins, so every replica picks the same value.
+   */
+  get(key: string): T | undefined {
+    const live = this.entries.get(key);
+    if (!live || live.size === 0) return undefined;
+    const winningTag = Array.from(live.keys()).sort().pop()!;
+    return live.get(winningTag);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys()).filter(key => this.has(key)).sort();
+  }
+
+  values(): T[] {
+    return this.keys().map(key => this.get(key)!);
+  }
+
+  /**
+   * Merge another replica into this one (union of adds and tombstones)
+   */
+  merge(other: ORSet<T>): void {
+    other.tombstones.forEach(tag => this.tombstones.add(tag));
+
+    other.entries.forEach((tags, key) => {
+      tags.forEach((value, tag) => this.add(key, value, tag));
+    });
+
+    // Drop local adds the other replica had already removed
+    this.entries.forEach((tags, key) => {
+      tags.forEach((_, tag) => {
+        if (this.tombstones.has(tag)) tags.delete(tag);
+      });
+      if (tags.size === 0) this.entries.delete(key);
+    });
+  }
+
+  clone(): ORSet<T> {
+    return ORSet.fromJSON(this.toJSON());
+  }
+
+  toJSON(): ORSetState<T> {
+    const entries: ORSetState<T>['entries'] = {};
+    this.entries.forEach((tags, key) => {
+      entries[key] = Object.fromEntries(tags);
+    });
+    return { entries, tombstones: Array.from(this.tombstones).sort() };
+  }
+
+  static fromJSON<T>(state?: ORSetState<T> | null): ORSet<T> {
+    const set = new ORSet<T>();
+    if (!state) return set;
+
+    state.tombstones.forEach(tag => set.tombstones.add(tag));
+    Object.entries(state.entries).forEach(([key, tags]) => {
+      Object.entries(tags).forEach(([tag, value]) => set.add(key, value, tag));
+    });
+    return set;
+  }
+}
+
+// ============================================
+// COUNTY GEOGRAPHY
+// ============================================
+
+/**
+ * Add tag for a COUNTY_ADDED event (older events without a tag use their id)
+ */
+export function countyAddTag(event: Event): string {
+  return event.payload.tag || event.id;
+}
+
+/**
+ * Apply a COUNTY_ADDED / COUNTY_REMOVED event to a county OR-Set
+ */
+export function applyCountyEvent(set: ORSet<County>, event: Event): ORSet<County> {
+  if (event.type === EventType.COUNTY_ADDED) {
+    set.add(event.payload.countyId, {
+      id: event.payload.countyId,
+      name: event.payload.countyName,
+      state: event.payload.state,
+      fips: event.payload.fips,
+    }, countyAddTag(event));
+  } else if (event.type === EventType.COUNTY_REMOVED) {
+    // Removes recorded before tags existed remove whatever is observed now
+    set.remove(event.payload.countyId, event.payload.observedTags);
+  }
+  return set;
+}
+
+/**
+ * Build the county set for an operation from its event log
+ */
+export function buildCountySet(events: Event[]): ORSet<County> {
+  return events.reduce(
+    (set, event) => applyCountyEvent(set, event),
+    new ORSet<County>()
+  );
+}
+
+/**
+ * Payload for removing a county as seen by this replica
+ */
+export function countyRemovedPayload(set: ORSet<County>, countyId: string) {
+  return {
+    countyId,
+    observedTags: set.observedTags(countyId),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Supabase Sync Transport
+ *
+ * Calls event_store.ingest_events and event_store.fetch_events through the
+ * Supabase client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Event } from '../events/types';
+import { supabase } from '../supabase';
+import { SyncTransport, SyncRequestError, IngestResult, EventRow, rowToEvent } from './SyncTransport';
+
+export class SupabaseTransport implements SyncTransport {
+  readonly name = 'supabase';
+  private client: SupabaseClient;
+
+  constructor(client: SupabaseClient = supabase) {
+    this.client = client;
+  }
+
+  async ingest(events: Event[]): Promise<IngestResult[]> {
+    const { data, error, status } = await this.client
+      .schema('event_store')
+      .rpc('ingest_events', { _events: events });
+
+    if (error) {
+      throw new SyncRequestError(`Sync ingest_events failed: ${error.message}`, status);
+    }
+    return (data || []) as IngestResult[];
+  }
+
+  async fetchSince(sinceMs: number, operationId?: string): Promise<Event[]> {
+    const { data, error, status } = await this.client
+      .schema('event_store')
+      .rpc('fetch_events', { _since_ms: sinceMs, _operation_id: operationId ?? null });
+
+    if (error) {
+      throw new SyncRequestError(`Sync fetch_events failed: ${error.message}`, status);
+    }
+    return ((data || []) as EventRow[]).map(rowToEvent);
+  }
+}
@@ -8,12 +8,44 @@
 import { Event, EventType, ConflictResolution, ConflictPolicy, DefaultConflictPolicies } from '../events/types';
 import { LocalStore, OutboxItem } from '../store/LocalStore';
 import { EventBus } from './EventBus';
+import { upcastEvent } from '../events/upcasters';
+import { ConflictInbox } from './ConflictInbox';
+import { causalOrder, compareCausally, observeClock } from '../events/vectorClock';
+import { BackoffPolicy, DEFAULT_BACKOFF_POLICY } from './backoff';
+import { SyncTransport, isRetryable } from './SyncTransport';
+import { EndpointSyncTransport } from './EndpointSyncTransport';
+import { EventBundle, BundleImportResult } from './EventBundle';
+
+// Payload fields naming the entity an event changes, by event family. The
+// first field is required; events without it (creations, totals) never
+// conflict and are all kept.
+const ENTITY_FIELDS: [prefix: string, fields: string[]][] = [
+  ['roster.', ['personId']],
+  ['geography.', ['countyId']],
+  ['iap.', ['iapId', 'section']],
+  ['facility.', ['facilityId', 'personId']],
+  ['work_assignment.', ['assignmentId']],
+  ['discipline_assignment.', ['assignmentId']],
+  ['census.', ['facilityId']],
+  ['compliance.', ['facilityId', 'rule']],
+];
+
+function entityKey(event: Event): string | null {
+  const family = ENTITY_FIELDS.find(([prefix]) => event.type.startsWith(prefix));
+  if (!family) return null;
+  
+  const [prefix, fields] = family;
+  if (event.payload[fields[0]] === undefined) return null;
+  return [prefix, ...fields.map(field => event.payload[field] ?? '')].join('|');
+}
 
 export interface SyncConfig {
   syncIntervalMs: number;
   batchSize: number;
   maxRetries: number;
+  backoff: BackoffPolicy;
   conflictPolicies: ConflictPolicy[];
+  transport?: SyncTransport; // Defaults to the original endpoint protocol against remoteEndpoint
   remoteEndpoint?: string;
   apiKey?: string;
 }
@@ -25,6 +57,7 @@ export interface SyncStatus {
   pendingOutbox: number;
   pendingInbox: number;
   failedEvents: number;
+  deadLetters: number;
   lastError: string | null;
 }
 
@@ -46,6 +79,8 @@ export class SyncEngine {
   private syncInterval: NodeJS.Timeout | null = null;
   private isProcessing = false;
   private conflictPolicies: Map<EventType, ConflictPolicy>;
+  private conflictInbox: ConflictInbox;
+  private transport: SyncTransport | null;
   
   constructor(
     localStore: LocalStore,
@@ -54,11 +89,13 @@ export class SyncEngine {
   ) {
     this.localStore = localStore;
     this.eventBus = eventBus;
+    this.conflictInbox = new ConflictInbox(localStore, eventBus);
     
     this.config = {
       syncIntervalMs: 30000, // 30 seconds
       batchSize: 100,
       maxRetries: 5,
+      backoff: DEFAULT_BACKOFF_POLICY,
       conflictPolicies: DefaultConflictPolicies,
       ...config,
     };
@@ -70,9 +107,15 @@ export class SyncEngine {
       pendingOutbox: 0,
       pendingInbox: 0,
       failedEvents: 0,
+      deadLetters: 0,
       lastError: null,
     };
     
+    // Servers speaking the event_store RPCs are opted into with an
+    // explicit HttpSyncTransport
+    this.transport = this.config.transport
+      || (this.config.remoteEndpoint ? new EndpointSyncTransport(this.config.remoteEndpoint, this.config.apiKey) : null);
+    
     // Build conflict policy map
     this.conflictPolicies = new Map();
     this.config.conflictPolicies.forEach(policy => {
@@ -156,40 +199,65 @@ export class SyncEngine {
   }
   
   /**
-   * Process outbox - send local events to remote
+   * Process outbox - send local events to remote. Items still backing off
+   * are skipped; items that run out of retries become dead letters.
    */
   private async processOutbox(): Promise<void> {
     const items = await this.localStore.getPendingOutbox(this.config.batchSize);
     this.status.pendingOutbox = items.length;
     
-    if (items.length === 0) return;
-    
-    // Group by idempotency key for batch sending
-    const batches = this.groupByIdempotency(items);
+    if (items.length > 0) {
+      // Group by idempotency key for batch sending
+      const batches = this.groupByIdempotency(items);
+      
+      for (const batch of batches) {
+        await this.deliver(batch);
+      }
+    }
     
-    for (const batch of batches) {
-      try {
-        await this.sendBatch(batch);
-        
-        // Mark as sent
-        for (const item of batch) {
-          await this.localStore.updateOutboxStatus(item.eventId, 'sent');
-        }
-        
-      } catch (error) {
-        // Mark as failed with retry
-        for (const item of batch) {
-          await this.localStore.updateOutboxStatus(
-            item.eventId, 
-            'failed',
-            String(error)
-          );
-        }
-        this.status.failedEvents += batch.length;
+    this.status.deadLetters = await this.localStore.countDeadLetters();
+  }
+  
+  /**
+   * Send a batch; if it is rejected, send its items one at a time so a
+   * single bad event only holds up itself
+   */
+  private async deliver(batch: OutboxItem[]): Promise<void> {
+    try {
+      await this.sendBatch(batch);
+      
+      // Mark as sent
+      for (const item of batch) {
+        await this.localStore.updateOutboxStatus(item.eventId, 'sent');
       }
+      return;
+    } catch (error) {
+      if (batch.length === 1) {
+        // Schedule a retry with backoff, or dead-letter it - straight away
+        // if the server will reject it the same way every time
+        await this.localStore.updateOutboxStatus(batch[0].eventId, 'failed', String(error), {
+          maxRetries: this.config.maxRetries,
+          backoff: this.config.backoff,
+          permanent: !isRetryable(error),
+        });
+        this.status.failedEvents++;
+        return;
+      }
+    }
+    
+    for (const item of batch) {
+      await this.deliver([item]);
     }
   }
   
+  /**
+   * Import a bundle from another field device, resolving conflicts exactly
+   * as for events from the server
+   */
+  async importBundle(bundle: EventBundle, key: string): Promise<BundleImportResult> {
+    return await this.localStore.importBundle(bundle, key, event => this.applyRemoteEvent(event));
+  }
+  
   /**
    * Process inbox - apply remote events locally
    */
@@ -213,17 +281,27 @@ export class SyncEngine {
   }
   
   /**
-   * Apply remote event with conflict detection
+   * Apply remote event with conflict detection. The event is stored exactly
+   * as its originator sent it; payloads are only upcast to compare them.
    */
   private async applyRemoteEvent(remoteEvent: Event): Promise<void> {
-    // Check for conflicts
-    const localEvents = await this.localStore.getEvents(
-      remoteEvent.operationId!,
-      remoteEvent.timestamp - 1000 // Check events within 1 second
-    );
+    // Redelivered: already logged, or kept as one side of a conflict
+    if (await this.localStore.hasSeenEvent(remoteEvent.id)) return;
+    
+    // Only events the remote had not seen can conflict with it; the vector
+    // clocks bound that to the tail of the log. Legacy events without clocks
+    // fall back to a 1 second window.
+    const localEvents = remoteEvent.vectorClock
+      ? await this.localStore.getConcurrentEvents(remoteEvent)
+      : await this.localStore.getEvents(remoteEvent.operationId!, remoteEvent.timestamp - 1000);
     
+    // Our next events causally follow everything we have applied
+    observeClock(remoteEvent.vectorClock);
+    
+    // Devices on an older build may still send older payload versions
+    const remote = upcastEvent(remoteEvent);
     const conflicts = localEvents.filter(local => 
-      this.isConflict(local, remoteEvent)
+      this.isConflict(upcastEvent(local), remote)
     );
     
     if (conflicts.length > 0) {
@@ -237,32 +315,25 @@ export class SyncEngine {
   }
   
   /**
-   * Check if two events conflict
+   * Check if two events conflict: concurrent edits of the same entity
    */
   private isConflict(local: Event, remote: Event): boolean {
-    // Same entity, different actors, overlapping time
-    if (local.actorId === remote.actorId) return false;
-    
-    // Check by event type and entity
-    if (local.type === remote.type) {
-      // Check if they affect the same entity
-      if (local.type.startsWith('roster.') && 
-          local.payload.personId === remote.payload.personId) {
-        return true;
-      }
-      
-      if (local.type.startsWith('geography.') && 
-          local.payload.countyId === remote.payload.countyId) {
-        return true;
-      }
-      
-      if (local.type.startsWith('iap.') && 
-          local.payload.section === remote.payload.section) {
-        return true;
-      }
-    }
+    if (local.id === remote.id) return false;
     
-    return false;
+    // Only concurrent edits can conflict; causally ordered events just apply
+    const order = causalOrder(local, remote);
+    if (order && order !== 'concurrent') return false;
+    
+    // Without clocks: same entity, different actors, overlapping time
+    if (!order && local.actorId === remote.actorId) return false;
+    
+    // A county added on one device and removed on another is a conflict too
+    const sameChange = local.type === remote.type
+      || (this.isCountyEvent(local) && this.isCountyEvent(remote));
+    if (!sameChange) return false;
+    
+    const key = entityKey(local);
+    return key !== null && key === entityKey(remote);
   }
   
   /**
@@ -274,11 +345,13 @@ export class SyncEngine {
   ): Promise<void> {
     const policy = this.conflictPolicies.get(local.type as EventType);
     
+    // Concurrent events have no true order; compareCausally breaks the tie
+    // the same way on every device so they all pick the same winner
+    const remoteIsLater = compareCausally(remote, local) > 0;
+    
     if (!policy) {
       // Default to last-write-wins
-      if (remote.timestamp > local.timestamp) {
-        await this.applyEvent(remote);
-      }
+      await this.applyResolution(local, remote, remoteIsLater ? remote : local, ConflictResolution.LAST_WRITE_WINS);
       return;
     }
     
@@ -286,36 +359,35 @@ export class SyncEngine {
     
     switch (policy.resolution) {
       case ConflictResolution.LAST_WRITE_WINS:
-        resolved = remote.timestamp > local.timestamp ? remote : local;
+        resolved = remoteIsLater ? remote : local;
         break;
         
       case ConflictResolution.FIRST_WRITE_WINS:
-        resolved = local.timestamp < remote.timestamp ? local : remote;
+        resolved = remoteIsLater ? local : remote;
         break;
         
       case ConflictResolution.CRDT_MERGE:
-        resolved = await this.mergeCRDT(local, remote);
+        // CRDT events commute, so the merge is keeping both - the local one
+        // is already in the log. Projections fold them: meal increments sum
+        // (G-Counter), county adds and removes go through the OR-Set.
+        resolved = remote;
         break;
         
       case ConflictResolution.DOMAIN_SPECIFIC:
         if (policy.mergeFunction) {
-          resolved = policy.mergeFunction(local, remote);
+          resolved = policy.mergeFunction(upcastEvent(local), upcastEvent(remote));
         }
         break;
         
       case ConflictResolution.MANUAL:
-        // Emit for user resolution
-        this.eventBus.emit(EventType.CONFLICT_DETECTED, {
-          local,
-          remote,
-          type: local.type,
-        });
+        // Queue for a person to settle in the conflict inbox
+        await this.conflictInbox.record(local, remote, policy.resolution);
         return;
     }
     
+    await this.applyResolution(local, remote, resolved, policy.resolution);
+    
     if (resolved) {
-      await this.applyEvent(resolved);
-      
       this.eventBus.emit(EventType.CONFLICT_RESOLVED, {
         local,
         remote,
@@ -326,37 +398,51 @@ export class SyncEngine {
   }
   
   /**
-   * Merge events using CRDT logic
+   * Apply the outcome of a conflict. The remote event is logged as its
+   * originator sent it when it wins; otherwise it is kept as a settled
+   * conflict, and a merged event is logged as a new event of this device.
    */
-  private async mergeCRDT(local: Event, remote: Event): Promise<Event> {
-    // Handle different CRDT types
-    if (local.type === EventType.MEALS_SERVED_INCREMENT) {
-      // G-Counter: sum the increments
-      return {
-        ...remote,
-        payload: {
-          ...remote.payload,
-          count: local.payload.count + remote.payload.count,
-        },
-      };
+  private async applyResolution(
+    local: Event,
+    remote: Event,
+    resolved: Event | null,
+    resolution: ConflictResolution
+  ): Promise<void> {
+    if (resolved === remote) {
+      await this.applyEvent(remote);
+      return;
     }
     
-    if (local.type === EventType.COUNTY_ADDED || 
-        local.type === EventType.COUNTY_REMOVED) {
-      // OR-Set: union of additions
-      return remote; // Simplified - in practice, track add/remove pairs
+    // Settled on an earlier delivery; a second merged event would double it
+    if (await this.conflictInbox.find(local, remote)) return;
+    
+    if (resolved && resolved.id !== local.id) {
+      const mergedId = await this.eventBus.emit(resolved.type as EventType, resolved.payload, {
+        operationId: remote.operationId,
+        causationId: remote.id,
+        correlationId: local.correlationId,
+      });
+      await this.conflictInbox.recordSettled(local, remote, resolution, 'merged', mergedId);
+      return;
     }
     
-    // Default to remote
-    return remote;
+    await this.conflictInbox.recordSettled(local, remote, resolution);
+  }
+  
+  private isCountyEvent(event: Event): boolean {
+    return event.type === EventType.COUNTY_ADDED || event.type === EventType.COUNTY_REMOVED;
   }
   
   /**
    * Apply event to local projections
    */
   private async applyEvent(event: Event): Promise<void> {
-    // This will be handled by the projection system
-    await this.localStore.appendEvent(event);
+    // A remote event can be resolved against several local conflicts
+    // (e.g. a county added, removed and re-added); append it only once
+    if (await this.localStore.hasEvent(event.id)) return;
+    
+    // Keeps the originator's hash fields and is not queued for upload
+    await this.localStore.appendRemoteEvent(event);
   }
   
   /**
@@ -378,56 +464,36 @@ export class SyncEngine {
   }
   
   /**
-   * Send batch to remote (placeholder - implement with Supabase)
+   * Send batch to remote
    */
   private async sendBatch(batch: OutboxItem[]): Promise<void> {
-    if (!this.config.remoteEndpoint) {
+    if (!this.transport) {
       console.log('Would send batch:', batch.length, 'events');
       return;
     }
     
-    // TODO: Implement with Supabase Edge Function
-    const response = await fetch(this.config.remoteEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'X-Idempotency-Key': batch[0].event.correlationId || batch[0].event.id,
-      },
-      body: JSON.stringify({
-        events: batch.map(item => item.event),
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Sync failed: ${response.statusText}`);
-    }
+    await this.transport.ingest(
+      batch.map(item => item.event),
+      batch[0].event.correlationId || batch[0].event.id
+    );
   }
   
   /**
-   * Fetch remote events (placeholder - implement with Supabase)
+   * Fetch remote events
    */
   private async fetchRemoteEvents(): Promise<Event[]> {
-    if (!this.config.remoteEndpoint) {
+    if (!this.transport) {
       return [];
     }
     
-    // TODO: Implement with Supabase Realtime or polling
-    const response = await fetch(
-      `${this.config.remoteEndpoint}?since=${this.status.lastSyncAt?.getTime() || 0}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-        },
-      }
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Fetch failed: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.events || [];
+    return await this.transport.fetchSince(this.status.lastSyncAt?.getTime() || 0);
+  }
+  
+  /**
+   * Switch to another transport (e.g. a local server when the internet is down)
+   */
+  setTransport(transport: SyncTransport | null): void {
+    this.transport = transport;
   }
   
   /**
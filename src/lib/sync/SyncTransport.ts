@@ -0,0 +1,95 @@
+/**
+ * Sync Transport
+ *
+ * How the SyncEngine reaches a remote event store. Every transport offers the
+ * semantics of the event_store RPCs in supabase/functions:
+ *
+ * - ingest: insert a batch of events, idempotent by event id. A batch with an
+ *   invalid event is rejected as a whole.
+ * - fetch: events with a timestamp strictly after `sinceMs`, optionally for
+ *   one operation, oldest first.
+ */
+
+import { Event } from '../events/types';
+
+export interface IngestResult {
+  id: string;
+  inserted: boolean; // false when the server already had the event
+}
+
+export interface SyncTransport {
+  readonly name: string;
+  ingest(events: Event[], idempotencyKey?: string): Promise<IngestResult[]>;
+  fetchSince(sinceMs: number, operationId?: string): Promise<Event[]>;
+}
+
+/**
+ * A request the remote store answered with an error status
+ */
+export class SyncRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SyncRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether sending the same events again could succeed. The server rejects
+ * an invalid event the same way every time (400, 409, 422...); timeouts,
+ * throttling, server errors, expired credentials and network failures pass.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (!(error instanceof SyncRequestError)) return true;
+  const { status } = error;
+  return status < 400 || status >= 500 || [401, 403, 408, 429].includes(status);
+}
+
+// Row shape of event_store.events
+export interface EventRow {
+  id: string;
+  type: string;
+  schema_version: number;
+  actor_id: string;
+  device_id: string | null;
+  session_id: string | null;
+  operation_id: string | null;
+  ts_ms: number | string; // bigint may arrive as a string
+  occurred_at: string;
+  sequence: number | null;
+  vector_clock: { [deviceId: string]: number } | null;
+  payload: any;
+  causation_id: string | null;
+  correlation_id: string | null;
+  hash: string | null;
+  previous_hash: string | null;
+  received_at?: string;
+  source?: string;
+}
+
+/**
+ * Convert a stored row back into an event
+ */
+export function rowToEvent(row: EventRow): Event {
+  return {
+    id: row.id,
+    type: row.type,
+    schemaVersion: row.schema_version ?? 1,
+    actorId: row.actor_id,
+    deviceId: row.device_id ?? '',
+    sessionId: row.session_id ?? '',
+    operationId: row.operation_id ?? undefined,
+    timestamp: Number(row.ts_ms),
+    sequence: row.sequence ?? undefined,
+    vectorClock: row.vector_clock ?? undefined,
+    payload: row.payload,
+    causationId: row.causation_id ?? undefined,
+    correlationId: row.correlation_id ?? undefined,
+    hash: row.hash ?? undefined,
+    previousHash: row.previous_hash ?? undefined,
+    syncStatus: 'synced',
+    syncAttempts: 0,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Conflict Inbox Tests
+ *
+ * Validates queueing, diffing and settling conflicts by hand
+ */
+
+import { ConflictInbox } from '../ConflictInbox';
+import { ConflictResolution, Event, EventType } from '../../events/types';
+import type { ConflictRecord, LocalStore } from '../../store/LocalStore';
+import type { EventBus } from '../EventBus';
+
+jest.mock('../../store/LocalStore', () => ({
+  getLocalStore: () => ({}),
+}));
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: EventType.FACILITY_UPDATED,
+    schemaVersion: 1,
+    actorId: 'shelter-lead',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: 1000,
+    payload: { facilityId: 'shelter-1', status: 'open', capacity: 120 },
+    syncStatus: 'synced',
+    syncAttempts: 0,
+    ...overrides,
+  };
+}
+
+// In-memory stand-in for the parts of LocalStore the inbox uses
+function createStore(events: Event[] = []) {
+  const store = {
+    events: [...events],
+    conflicts: [] as ConflictRecord[],
+    async addConflict(conflict: ConflictRecord) {
+      store.conflicts.push(conflict);
+    },
+    async getConflict(conflictId: string) {
+      return store.conflicts.find(conflict => conflict.id === conflictId);
+    },
+    async getConflictsForEvent(remoteEventId: string) {
+      return store.conflicts.filter(conflict => conflict.remote.id === remoteEventId);
+    },
+    async getConflicts(operationId?: string, status?: ConflictRecord['status']) {
+      return store.conflicts.filter(conflict =>
+        (!operationId || conflict.operationId === operationId) && (!status || conflict.status === status)
+      );
+    },
+    async updateConflict(conflictId: string, updates: Partial<ConflictRecord>) {
+      store.conflicts = store.conflicts.map(conflict =>
+        conflict.id === conflictId ? { ...conflict, ...updates } : conflict
+      );
+    },
+    async hasEvent(eventId: string) {
+      return store.events.some(event => event.id === eventId);
+    },
+    async appendRemoteEvent(event: Event) {
+      store.events.push(event);
+      return event;
+    },
+  };
+  return store;
+}
+
+function createInbox(store: ReturnType<typeof createStore>) {
+  const bus = { emit: jest.fn(async () => crypto.randomUUID()) };
+  const inbox = new ConflictInbox(store as unknown as LocalStore, bus as unknown as EventBus);
+  return { inbox, bus };
+}
+
+describe('ConflictInbox', () => {
+  const local = makeEvent();
+  const remote = makeEvent({
+    deviceId: 'laptop-b',
+    actorId: 'shelter-deputy',
+    timestamp: 1200,
+    payload: { facilityId: 'shelter-1', status: 'closed' },
+  });
+
+  it('queues a conflict and announces it', async () => {
+    const store = createStore([local]);
+    const { inbox, bus } = createInbox(store);
+
+    const conflict = await inbox.record(local, remote);
+
+    expect(await inbox.list('op-1')).toEqual([conflict]);
+    expect(conflict).toMatchObject({ status: 'open', policy: ConflictResolution.MANUAL, eventType: local.type });
+    expect(bus.emit).toHaveBeenCalledWith(
+      EventType.CONFLICT_DETECTED,
+      expect.objectContaining({ conflictId: conflict.id }),
+      { operationId: 'op-1' }
+    );
+  });
+
+  it('records a redelivered remote event once', async () => {
+    const store = createStore([local]);
+    const { inbox, bus } = createInbox(store);
+
+    const first = await inbox.record(local, remote);
+    const again = await inbox.record(local, { ...remote });
+    const settled = await inbox.recordSettled(local, remote, ConflictResolution.LAST_WRITE_WINS);
+
+    expect(again).toEqual(first);
+    expect(settled).toEqual(first);
+    expect(store.conflicts).toHaveLength(1);
+    expect(bus.emit).toHaveBeenCalledTimes(1);
+
+    // The same remote event against another local event is its own conflict
+    await inbox.record(makeEvent(), remote);
+    expect(store.conflicts).toHaveLength(2);
+  });
+
+  it('keeps settled conflicts out of the open list', async () => {
+    const store = createStore([local]);
+    const { inbox } = createInbox(store);
+
+    const settled = await inbox.recordSettled(local, remote, ConflictResolution.LAST_WRITE_WINS);
+
+    expect(settled).toMatchObject({ status: 'resolved', choice: 'local', resolvedEventId: local.id, resolvedBy: 'sync' });
+    expect(await inbox.list('op-1')).toEqual([]);
+  });
+
+  it('diffs changed and dropped fields', async () => {
+    const { inbox } = createInbox(createStore([local]));
+    const conflict = await inbox.record(local, remote);
+
+    const changes = inbox.diff(conflict);
+
+    expect(changes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'status', oldValue: 'open', newValue: 'closed' }),
+      expect.objectContaining({ field: 'capacity', oldValue: 120, newValue: undefined }),
+    ]));
+    expect(changes.find(change => change.field === 'facilityId')).toBeUndefined();
+  });
+
+  it('keeping the local event logs nothing new', async () => {
+    const store = createStore([local]);
+    const { inbox, bus } = createInbox(store);
+    const conflict = await inbox.record(local, remote);
+
+    const resolved = await inbox.resolve(conflict.id, 'local', { resolvedBy: 'planning-chief' });
+
+    expect(resolved).toMatchObject({ status: 'resolved', choice: 'local', resolvedEventId: local.id });
+    expect(store.events).toEqual([local]);
+    expect(bus.emit).toHaveBeenLastCalledWith(
+      EventType.CONFLICT_RESOLVED,
+      expect.objectContaining({ conflictId: conflict.id, choice: 'local' }),
+      { operationId: 'op-1', causationId: local.id }
+    );
+  });
+
+  it('keeping the remote event logs it as its originator sent it', async () => {
+    const store = createStore([local]);
+    const { inbox } = createInbox(store);
+    const conflict = await inbox.record(local, remote);
+
+    await inbox.resolve(conflict.id, 'remote');
+
+    expect(store.events).toEqual([local, remote]);
+    expect(store.conflicts[0]).toMatchObject({ status: 'resolved', resolvedEventId: remote.id });
+  });
+
+  it('emits a hand-merged payload as a new event caused by the remote one', async () => {
+    const store = createStore([local]);
+    const { inbox, bus } = createInbox(store);
+    const conflict = await inbox.record(local, remote);
+    const mergedPayload = { facilityId: 'shelter-1', status: 'closed', capacity: 120 };
+
+    const resolved = await inbox.resolve(conflict.id, 'merged', { mergedPayload });
+
+    expect(bus.emit).toHaveBeenCalledWith(local.type, mergedPayload, {
+      operationId: 'op-1',
+      causationId: remote.id,
+      correlationId: local.correlationId,
+    });
+    expect(resolved.choice).toBe('merged');
+  });
+
+  it('rejects a merge without a payload and a second resolution', async () => {
+    const { inbox } = createInbox(createStore([local]));
+    const conflict = await inbox.record(local, remote);
+
+    await expect(inbox.resolve(conflict.id, 'merged')).rejects.toThrow('merged payload is required');
+    await inbox.resolve(conflict.id, 'local');
+    await expect(inbox.resolve(conflict.id, 'remote')).rejects.toThrow('already resolved');
+    await expect(inbox.resolve('missing', 'local')).rejects.toThrow('not found');
+  });
+});
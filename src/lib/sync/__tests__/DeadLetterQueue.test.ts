@@ -0,0 +1,178 @@
+/**
+ * Dead Letter Queue Tests
+ *
+ * Validates when failed sends become dead letters and how they are
+ * corrected, requeued or discarded
+ */
+
+import { DeadLetterQueue } from '../DeadLetterQueue';
+import { LocalStore, DeadLetter, OutboxItem } from '../../store/LocalStore';
+import { Event, EventType } from '../../events/types';
+import type { EventBus } from '../EventBus';
+
+// No IndexedDB under jsdom; the tables are swapped for in-memory ones below
+jest.mock('dexie', () => {
+  class Dexie {
+    version() {
+      return { stores: () => ({ upgrade: () => undefined }) };
+    }
+  }
+  return { __esModule: true, default: Dexie, Dexie };
+});
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: EventType.MEALS_SERVED_INCREMENT,
+    schemaVersion: 1,
+    actorId: 'feeding-lead',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: 1000,
+    payload: { location: 'Site A', count: -5, date: '2026-10-19', mealType: 'lunch' },
+    correlationId: 'correlation-1',
+    syncStatus: 'pending',
+    syncAttempts: 0,
+    ...overrides,
+  };
+}
+
+// In-memory stand-in for a Dexie table keyed by `key`
+function createTable<T extends object>(key: keyof T) {
+  const rows = new Map<unknown, T>();
+  const matching = (field: keyof T, value: unknown) => [...rows.values()].filter(row => row[field] === value);
+  return {
+    rows,
+    where: (field: keyof T) => ({
+      equals: (value: unknown) => ({
+        first: async () => matching(field, value)[0],
+        filter: (keep: (row: T) => boolean) => ({
+          toArray: async () => matching(field, value).filter(keep),
+        }),
+        modify: async (updates: Partial<T>) => {
+          matching(field, value).forEach(row => rows.set(row[key], { ...row, ...updates }));
+        },
+        delete: async () => {
+          matching(field, value).forEach(row => rows.delete(row[key]));
+        },
+      }),
+    }),
+    get: async (id: unknown) => rows.get(id),
+    add: async (row: T) => { rows.set(row[key], row); },
+    put: async (row: T) => { rows.set(row[key], row); },
+    update: async (id: unknown, updates: Partial<T>) => {
+      const row = rows.get(id);
+      if (row) rows.set(id, { ...row, ...updates });
+    },
+  };
+}
+
+// LocalStore over in-memory outbox, dead letter and event tables
+function createStore(event: Event, maxRetries: number = 3) {
+  const db = {
+    outbox: createTable<OutboxItem>('eventId'),
+    deadLetters: createTable<DeadLetter>('eventId'),
+    events: createTable<Event>('id'),
+    transaction: async (...args: unknown[]) => (args[args.length - 1] as () => Promise<void>)(),
+  };
+  db.events.rows.set(event.id, event);
+  db.outbox.rows.set(event.id, {
+    eventId: event.id,
+    event,
+    status: 'pending',
+    retryCount: 0,
+    maxRetries,
+    nextRetryAt: 0,
+    createdAt: 0,
+  });
+
+  const store = new LocalStore('dead-letter-test');
+  (store as unknown as { db: typeof db }).db = db;
+  return { store, db };
+}
+
+describe('Outbox retries', () => {
+  it('backs off until the item runs out of retries, then dead-letters it', async () => {
+    const event = makeEvent();
+    const { store, db } = createStore(event, 3);
+
+    await store.updateOutboxStatus(event.id, 'failed', 'Network down');
+    await store.updateOutboxStatus(event.id, 'failed', 'Network down');
+
+    expect(db.outbox.rows.get(event.id)).toMatchObject({ status: 'pending', retryCount: 2 });
+    expect(db.outbox.rows.get(event.id)?.nextRetryAt).toBeGreaterThan(Date.now());
+    expect(db.deadLetters.rows.size).toBe(0);
+
+    await store.updateOutboxStatus(event.id, 'failed', 'Network down');
+
+    expect(db.outbox.rows.size).toBe(0);
+    expect(db.deadLetters.rows.get(event.id)).toMatchObject({ status: 'dead', retryCount: 3, lastError: 'Network down' });
+    expect(db.events.rows.get(event.id)).toMatchObject({ syncStatus: 'failed', syncAttempts: 3 });
+  });
+
+  it('dead-letters a permanent rejection on the first failure', async () => {
+    const event = makeEvent();
+    const { store, db } = createStore(event, 5);
+
+    await store.updateOutboxStatus(event.id, 'failed', 'Sync ingest_events failed: 422', { permanent: true });
+
+    expect(db.outbox.rows.size).toBe(0);
+    expect(await store.getDeadLetter(event.id)).toMatchObject({ status: 'dead', retryCount: 1 });
+  });
+});
+
+describe('DeadLetterQueue', () => {
+  async function deadLetter() {
+    const event = makeEvent();
+    const { store, db } = createStore(event, 1);
+    await store.updateOutboxStatus(event.id, 'failed', 'count must be positive');
+
+    const bus = { emit: jest.fn(async () => 'corrected-event') };
+    const queue = new DeadLetterQueue(store, bus as unknown as EventBus);
+    return { event, db, bus, queue };
+  }
+
+  it('rejects an edit that does not match the event schema', async () => {
+    const { event, queue } = await deadLetter();
+
+    await expect(queue.edit(event.id, { location: 'Site A', count: 'lots' })).rejects.toThrow();
+    expect((await queue.get(event.id)).editedPayload).toBeUndefined();
+  });
+
+  it('requeues the original event with fresh retries', async () => {
+    const { event, db, queue } = await deadLetter();
+
+    const letter = await queue.requeue(event.id);
+
+    expect(letter.status).toBe('requeued');
+    expect(db.outbox.rows.get(event.id)).toMatchObject({ status: 'pending', retryCount: 0 });
+    expect(db.events.rows.get(event.id)).toMatchObject({ syncStatus: 'pending', syncAttempts: 0 });
+    expect(await queue.list('op-1')).toEqual([]);
+  });
+
+  it('sends a corrected payload as a new event caused by the original', async () => {
+    const { event, db, bus, queue } = await deadLetter();
+    const corrected = { ...event.payload, count: 5 };
+
+    await queue.edit(event.id, corrected, 'feeding-lead');
+    const letter = await queue.requeue(event.id);
+
+    expect(bus.emit).toHaveBeenCalledWith(EventType.MEALS_SERVED_INCREMENT, corrected, {
+      operationId: 'op-1',
+      causationId: event.id,
+      correlationId: 'correlation-1',
+    });
+    expect(letter).toMatchObject({ status: 'replaced', replacedBy: 'corrected-event', editedBy: 'feeding-lead' });
+    // The original stays out of the outbox; the new event carries the fix
+    expect(db.outbox.rows.size).toBe(0);
+  });
+
+  it('discards a dead letter and refuses to act on it again', async () => {
+    const { event, queue } = await deadLetter();
+
+    expect((await queue.discard(event.id)).status).toBe('discarded');
+    await expect(queue.requeue(event.id)).rejects.toThrow('already discarded');
+    await expect(queue.get('missing')).rejects.toThrow('not found');
+  });
+});
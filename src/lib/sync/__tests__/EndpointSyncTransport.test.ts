@@ -0,0 +1,88 @@
+/**
+ * Endpoint Sync Transport Tests
+ *
+ * Validates the original POST / GET ?since protocol stays the default for
+ * a configured remote endpoint
+ */
+
+import { EndpointSyncTransport } from '../EndpointSyncTransport';
+import { SyncEngine } from '../SyncEngine';
+import { SyncRequestError } from '../SyncTransport';
+import { Event } from '../../events/types';
+import type { LocalStore } from '../../store/LocalStore';
+import type { EventBus } from '../EventBus';
+
+jest.mock('../../store/LocalStore', () => ({
+  getLocalStore: () => ({}),
+}));
+
+function makeEvent(): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: 'facility.updated',
+    schemaVersion: 1,
+    actorId: 'shelter-lead',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: 1000,
+    payload: { facilityId: 'shelter-1', status: 'open' },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+function createFetch(response: { ok: boolean; status?: number; statusText?: string; body?: unknown }) {
+  return jest.fn(async (_url: string, _init?: RequestInit) => ({
+    ok: response.ok,
+    status: response.status ?? 200,
+    statusText: response.statusText ?? 'OK',
+    json: async () => response.body,
+  }));
+}
+
+describe('EndpointSyncTransport', () => {
+  it('posts events to the endpoint', async () => {
+    const fetchImpl = createFetch({ ok: true, body: {} });
+    const transport = new EndpointSyncTransport('https://sync.example.org/events', 'field-token', fetchImpl as unknown as typeof fetch);
+    const event = makeEvent();
+
+    const results = await transport.ingest([event], 'batch-1');
+
+    expect(results).toEqual([{ id: event.id, inserted: true }]);
+    expect(fetchImpl).toHaveBeenCalledWith('https://sync.example.org/events', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': 'Bearer field-token',
+        'X-Idempotency-Key': 'batch-1',
+      },
+      body: JSON.stringify({ events: [event] }),
+    });
+  });
+
+  it('fetches events since a time', async () => {
+    const event = makeEvent();
+    const fetchImpl = createFetch({ ok: true, body: { events: [event] } });
+    const transport = new EndpointSyncTransport('https://sync.example.org/events', 'field-token', fetchImpl as unknown as typeof fetch);
+
+    expect(await transport.fetchSince(1500)).toEqual([event]);
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://sync.example.org/events?since=1500');
+  });
+
+  it('reports the status of a rejected request', async () => {
+    const fetchImpl = createFetch({ ok: false, status: 400, statusText: 'Bad Request' });
+    const transport = new EndpointSyncTransport('https://sync.example.org/events', 'field-token', fetchImpl as unknown as typeof fetch);
+
+    const error = await transport.ingest([makeEvent()]).catch(rejection => rejection);
+
+    expect(error).toBeInstanceOf(SyncRequestError);
+    expect(error).toMatchObject({ status: 400, message: 'Sync failed: Bad Request' });
+  });
+
+  it('is what a configured endpoint syncs with', () => {
+    const engine = new SyncEngine({} as LocalStore, {} as EventBus, { remoteEndpoint: 'https://sync.example.org/events' });
+
+    expect((engine as unknown as { transport: { name: string } }).transport.name).toBe('endpoint');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Event Bundle Tests
+ *
+ * Validates signing and unpacking of device-to-device bundles
+ */
+
+import { createBundle, openBundle, parseBundle, serializeBundle } from '../EventBundle';
+import { Event } from '../../events/types';
+
+const KEY = 'shelter-team-passphrase';
+
+function makeEvent(timestamp: number): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: 'facility.updated',
+    schemaVersion: 1,
+    actorId: 'shelter-lead',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp,
+    sequence: timestamp,
+    payload: { facilityId: 'shelter-1', status: 'open' },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+const meta = { operationId: 'op-1', deviceId: 'laptop-a', since: 0, watermark: 2 };
+
+describe('Event bundles', () => {
+  it('round-trips events through the file format', async () => {
+    const events = [makeEvent(1), makeEvent(2)];
+    const bundle = parseBundle(serializeBundle(await createBundle(events, meta, KEY)));
+
+    expect(bundle.eventCount).toBe(2);
+    expect(await openBundle(bundle, KEY)).toEqual(events);
+  });
+
+  it('refuses a bundle signed with another key', async () => {
+    const bundle = await createBundle([makeEvent(1)], meta, KEY);
+
+    await expect(openBundle(bundle, 'wrong-key')).rejects.toThrow('signature');
+  });
+
+  it('refuses a bundle whose contents were altered', async () => {
+    const bundle = await createBundle([makeEvent(1)], meta, KEY);
+    const tampered = { ...bundle, data: bundle.data.replace('open', 'closed') };
+
+    await expect(openBundle(tampered, KEY)).rejects.toThrow('signature');
+  });
+});
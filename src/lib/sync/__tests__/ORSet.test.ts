@@ -0,0 +1,106 @@
+/**
+ * OR-Set CRDT Tests
+ *
+ * Validates that offline county edits on two devices converge
+ */
+
+import { ORSet, applyCountyEvent, buildCountySet, countyRemovedPayload } from '../ORSet';
+import { Event, EventType } from '../../events/types';
+import type { County } from '@/types';
+
+let clock = 0;
+
+function countyAdded(countyId: string, countyName: string, deviceId: string): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: EventType.COUNTY_ADDED,
+    schemaVersion: 1,
+    actorId: `${deviceId}-user`,
+    deviceId,
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: ++clock,
+    payload: { countyId, countyName, state: 'FL', fips: '12000', region: 'Central Florida' },
+    syncStatus: 'local',
+    syncAttempts: 0,
+  };
+}
+
+function countyRemoved(set: ORSet<County>, countyId: string, deviceId: string): Event {
+  return {
+    ...countyAdded(countyId, '', deviceId),
+    id: crypto.randomUUID(),
+    type: EventType.COUNTY_REMOVED,
+    payload: countyRemovedPayload(set, countyId),
+  };
+}
+
+function countyIds(set: ORSet<County>): string[] {
+  return set.values().map(county => county.id);
+}
+
+describe('ORSet', () => {
+  it('keeps an add that was concurrent with a remove (add-wins)', () => {
+    const pinellas = countyAdded('pinellas', 'Pinellas', 'laptop-a');
+
+    // Both devices start having seen the same add
+    const deviceA = buildCountySet([pinellas]);
+    const deviceB = buildCountySet([pinellas]);
+
+    // Offline: A removes Pinellas, B re-adds it with a new tag
+    const removeOnA = countyRemoved(deviceA, 'pinellas', 'laptop-a');
+    const readdOnB = countyAdded('pinellas', 'Pinellas', 'laptop-b');
+    applyCountyEvent(deviceA, removeOnA);
+    applyCountyEvent(deviceB, readdOnB);
+
+    // Sync in opposite orders
+    applyCountyEvent(deviceA, readdOnB);
+    applyCountyEvent(deviceB, removeOnA);
+
+    expect(countyIds(deviceA)).toEqual(['pinellas']);
+    expect(countyIds(deviceB)).toEqual(['pinellas']);
+  });
+
+  it('converges regardless of event order', () => {
+    const hillsborough = countyAdded('hillsborough', 'Hillsborough', 'laptop-a');
+    const polk = countyAdded('polk', 'Polk', 'laptop-b');
+    const seen = buildCountySet([hillsborough, polk]);
+    const removePolk = countyRemoved(seen, 'polk', 'laptop-a');
+    const events = [hillsborough, polk, removePolk];
+
+    const forward = buildCountySet(events);
+    const reversed = buildCountySet([...events].reverse());
+
+    expect(countyIds(forward)).toEqual(['hillsborough']);
+    expect(countyIds(reversed)).toEqual(['hillsborough']);
+    expect(forward.toJSON()).toEqual(reversed.toJSON());
+  });
+
+  it('merges replicas and drops tombstoned tags', () => {
+    const a = new ORSet<string>();
+    const b = new ORSet<string>();
+    a.add('x', 'X', 'tag-1');
+    b.merge(a);
+    b.remove('x');
+    a.add('y', 'Y', 'tag-2');
+
+    a.merge(b);
+    b.merge(a);
+
+    expect(a.keys()).toEqual(['y']);
+    expect(b.toJSON()).toEqual(a.toJSON());
+  });
+
+  it('round-trips through its serialized form', () => {
+    const set = new ORSet<string>();
+    set.add('x', 'X', 'tag-1');
+    set.add('y', 'Y', 'tag-2');
+    set.remove('y');
+
+    const restored = ORSet.fromJSON(JSON.parse(JSON.stringify(set.toJSON())));
+
+    expect(restored.keys()).toEqual(['x']);
+    restored.add('y', 'Y', 'tag-2');
+    expect(restored.has('y')).toBe(false);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Sync Engine Tests
+ *
+ * Validates how remote events are stored and checked for conflicts
+ */
+
+import { SyncEngine } from '../SyncEngine';
+import { sealEvent } from '../../events/hashChain';
+import { upcasterRegistry } from '../../events/upcasters';
+import { causalOrder } from '../../events/vectorClock';
+import { ConflictResolution, Event, EventSchemaVersions, EventType } from '../../events/types';
+import type { ConflictRecord, LocalStore, OutboxItem } from '../../store/LocalStore';
+import type { EventBus } from '../EventBus';
+import { SyncRequestError, SyncTransport } from '../SyncTransport';
+import { EventBundle, createBundle, importBundleEvents } from '../EventBundle';
+
+jest.mock('../../store/LocalStore', () => ({
+  getLocalStore: () => ({}),
+}));
+
+function makeEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: crypto.randomUUID(),
+    type: EventType.FACILITY_UPDATED,
+    schemaVersion: 1,
+    actorId: 'shelter-lead',
+    deviceId: 'laptop-a',
+    sessionId: 'session-1',
+    operationId: 'op-1',
+    timestamp: 1000,
+    payload: { facilityId: 'shelter-1', status: 'open' },
+    syncStatus: 'local',
+    syncAttempts: 0,
+    ...overrides,
+  };
+}
+
+// In-memory stand-in for the parts of LocalStore the engine uses
+function createStore(events: Event[] = []) {
+  const store = {
+    events: [...events],
+    conflicts: [] as ConflictRecord[],
+    async getEvents(operationId: string, since?: number) {
+      return store.events.filter(event => event.operationId === operationId && (!since || event.timestamp >= since));
+    },
+    // Walks back from the head like LocalStore, stopping at laptop-a's (this
+    // device's) newest event the remote had seen
+    async getConcurrentEvents(remote: Event) {
+      const concurrent: Event[] = [];
+      for (const event of [...store.events].reverse()) {
+        if (event.deviceId === 'laptop-a' && causalOrder(event, remote) !== 'concurrent') break;
+        if (event.operationId === remote.operationId && causalOrder(event, remote) === 'concurrent') concurrent.push(event);
+      }
+      return concurrent;
+    },
+    async hasEvent(eventId: string) {
+      return store.events.some(event => event.id === eventId);
+    },
+    async hasSeenEvent(eventId: string) {
+      return await store.hasEvent(eventId) || store.conflicts.some(conflict => conflict.remote.id === eventId);
+    },
+    async appendRemoteEvent(event: Event) {
+      const stored = { ...event, logPosition: store.events.length + 1 };
+      store.events.push(stored);
+      return stored;
+    },
+    async addConflict(conflict: ConflictRecord) {
+      store.conflicts.push(conflict);
+    },
+    async getConflictsForEvent(remoteEventId: string) {
+      return store.conflicts.filter(conflict => conflict.remote.id === remoteEventId);
+    },
+    async importBundle(bundle: EventBundle, key: string, apply: (event: Event) => Promise<void>) {
+      return await importBundleEvents(bundle, key, store.hasSeenEvent, apply);
+    },
+  };
+  return store;
+}
+
+function createEngine(store: ReturnType<typeof createStore>, config: ConstructorParameters<typeof SyncEngine>[2] = {}) {
+  const bus = { emit: jest.fn(async () => crypto.randomUUID()) };
+  const engine = new SyncEngine(store as unknown as LocalStore, bus as unknown as EventBus, config);
+  const internals = engine as unknown as { applyRemoteEvent(event: Event): Promise<void> };
+  return { engine, bus, apply: (event: Event) => internals.applyRemoteEvent(event) };
+}
+
+describe('SyncEngine remote events', () => {
+  afterEach(() => {
+    delete EventSchemaVersions[EventType.FACILITY_UPDATED];
+    upcasterRegistry.unregister(EventType.FACILITY_UPDATED, 1);
+  });
+
+  it('stores an older-version event exactly as its originator sealed it', async () => {
+    EventSchemaVersions[EventType.FACILITY_UPDATED] = 2;
+    upcasterRegistry.register(EventType.FACILITY_UPDATED, 1, payload => ({ ...payload, status: `${payload.status}-v2` }));
+    const store = createStore();
+    const remote = sealEvent(makeEvent());
+
+    await createEngine(store).apply(remote);
+
+    expect(store.events).toHaveLength(1);
+    expect(store.events[0]).toMatchObject({
+      schemaVersion: 1,
+      payload: { facilityId: 'shelter-1', status: 'open' },
+      hash: remote.hash,
+      previousHash: remote.previousHash,
+    });
+  });
+});
+
+describe('SyncEngine conflict detection', () => {
+  const approval = (deviceId: string, iapId: string, clock: { [device: string]: number }) => makeEvent({
+    type: EventType.IAP_APPROVED,
+    deviceId,
+    actorId: `${deviceId}-lead`,
+    vectorClock: clock,
+    payload: { iapId, approvedBy: `${deviceId}-lead` },
+  });
+  
+  it('keeps concurrent edits of different IAPs', async () => {
+    const local = approval('laptop-a', 'iap-1', { 'laptop-a': 1 });
+    const store = createStore([local]);
+    
+    await createEngine(store).apply(approval('laptop-b', 'iap-2', { 'laptop-b': 1 }));
+    
+    expect(store.events).toHaveLength(2);
+    expect(store.conflicts).toHaveLength(0);
+  });
+  
+  it('resolves concurrent edits of the same IAP by policy', async () => {
+    const local = approval('laptop-a', 'iap-1', { 'laptop-a': 1 });
+    const store = createStore([local]);
+    
+    const remote = approval('laptop-b', 'iap-1', { 'laptop-b': 1 });
+    
+    await createEngine(store).apply(remote);
+    
+    // First write wins; the tie breaks on device id, so laptop-a was first
+    expect(store.events).toEqual([local]);
+    expect(store.conflicts).toHaveLength(1);
+    expect(store.conflicts[0]).toMatchObject({ remote: { id: remote.id }, status: 'resolved', choice: 'local' });
+  });
+  
+  it('applies an edit that followed the local one', async () => {
+    const local = approval('laptop-a', 'iap-1', { 'laptop-a': 1 });
+    const store = createStore([local]);
+    
+    await createEngine(store).apply(approval('laptop-b', 'iap-1', { 'laptop-a': 1, 'laptop-b': 1 }));
+    
+    expect(store.events).toHaveLength(2);
+    expect(store.conflicts).toHaveLength(0);
+  });
+  
+  it('only checks events the remote had not seen', async () => {
+    const store = createStore([approval('laptop-a', 'iap-1', { 'laptop-a': 1 })]);
+    const getEvents = jest.spyOn(store, 'getEvents');
+    
+    await createEngine(store).apply(approval('laptop-b', 'iap-1', { 'laptop-a': 1, 'laptop-b': 1 }));
+    
+    expect(getEvents).not.toHaveBeenCalled();
+  });
+  
+  it('never conflicts events that name no entity', async () => {
+    const created = (deviceId: string) => makeEvent({
+      type: EventType.WORK_ASSIGNMENT_CREATED,
+      deviceId,
+      actorId: `${deviceId}-lead`,
+      vectorClock: { [deviceId]: 1 },
+      payload: { facilityId: 'shelter-1', title: 'Set up cots', description: '', priority: 'high', assignedTo: [] },
+    });
+    const store = createStore([created('laptop-a')]);
+    
+    await createEngine(store).apply(created('laptop-b'));
+    
+    expect(store.events).toHaveLength(2);
+    expect(store.conflicts).toHaveLength(0);
+  });
+
+  it('applies the census and compliance policies', async () => {
+    const census = (type: EventType, deviceId: string, payload: Record<string, unknown>) => makeEvent({
+      type,
+      deviceId,
+      actorId: `${deviceId}-lead`,
+      vectorClock: { [deviceId]: 1 },
+      payload,
+    });
+    const checkIn = { facilityId: 'shelter-1', facilityName: 'Central High', count: 4 };
+    const headcount = { facilityId: 'shelter-1', facilityName: 'Central High', count: 80 };
+    const alert = { alertId: 'shelter-1:cots', facilityId: 'shelter-1', rule: 'cots' };
+    const store = createStore([
+      census(EventType.SHELTER_CHECKED_IN, 'laptop-a', checkIn),
+      census(EventType.SHELTER_HEADCOUNT_TAKEN, 'laptop-a', headcount),
+      census(EventType.COMPLIANCE_ALERT_RAISED, 'laptop-a', alert),
+    ]);
+    const { apply } = createEngine(store);
+    
+    await apply(census(EventType.SHELTER_CHECKED_IN, 'laptop-b', checkIn));
+    // Sorts before laptop-a, so this concurrent headcount counts as the earlier one
+    await apply(census(EventType.SHELTER_HEADCOUNT_TAKEN, 'hq-tablet', { ...headcount, count: 82 }));
+    await apply(census(EventType.COMPLIANCE_ALERT_RAISED, 'laptop-b', alert));
+    
+    // Check-ins and alerts merge (both kept); the later headcount wins
+    const kept = (type: EventType) => store.events.filter(event => event.type === type).length;
+    expect(kept(EventType.SHELTER_CHECKED_IN)).toBe(2);
+    expect(kept(EventType.COMPLIANCE_ALERT_RAISED)).toBe(2);
+    expect(kept(EventType.SHELTER_HEADCOUNT_TAKEN)).toBe(1);
+    expect(store.conflicts).toHaveLength(1);
+    expect(store.conflicts[0]).toMatchObject({ policy: ConflictResolution.LAST_WRITE_WINS, choice: 'local' });
+  });
+});
+
+describe('SyncEngine redelivery', () => {
+  const approval = (deviceId: string, clock: { [device: string]: number }) => makeEvent({
+    type: EventType.IAP_APPROVED,
+    deviceId,
+    actorId: `${deviceId}-lead`,
+    vectorClock: clock,
+    payload: { iapId: 'iap-1', approvedBy: `${deviceId}-lead` },
+  });
+  const KEY = 'shelter-team-passphrase';
+  const bundleOf = (events: Event[]) =>
+    createBundle(events, { operationId: 'op-1', deviceId: 'laptop-b', since: 0, watermark: events.length }, KEY);
+
+  it('queues and announces a manual conflict once however often the event arrives', async () => {
+    const store = createStore([approval('laptop-a', { 'laptop-a': 1 })]);
+    const { apply, bus } = createEngine(store, {
+      conflictPolicies: [{ eventType: EventType.IAP_APPROVED, resolution: ConflictResolution.MANUAL }],
+    });
+    const remote = approval('laptop-b', { 'laptop-b': 1 });
+
+    await apply(remote);
+    await apply({ ...remote });
+
+    expect(store.conflicts).toHaveLength(1);
+    expect(bus.emit).toHaveBeenCalledTimes(1);
+    expect(bus.emit).toHaveBeenCalledWith(EventType.CONFLICT_DETECTED, expect.anything(), { operationId: 'op-1' });
+  });
+
+  it('does not log an event that lost a conflict when it arrives again', async () => {
+    const local = approval('laptop-a', { 'laptop-a': 1 });
+    const store = createStore([local]);
+    const { apply } = createEngine(store);
+    const remote = approval('laptop-b', { 'laptop-b': 1 });
+
+    await apply(remote);
+    // This device has moved on, so the old local event is no longer concurrent with anything new
+    store.events.push(makeEvent({ vectorClock: { 'laptop-a': 2, 'laptop-b': 1 } }));
+    await apply(remote);
+
+    expect(store.events.map(event => event.id)).not.toContain(remote.id);
+    expect(store.conflicts).toHaveLength(1);
+  });
+
+  it('imports a bundle round trip once', async () => {
+    const store = createStore();
+    const { engine } = createEngine(store);
+    const events = [
+      makeEvent({ deviceId: 'laptop-b', vectorClock: { 'laptop-b': 1 } }),
+      makeEvent({ deviceId: 'laptop-b', vectorClock: { 'laptop-b': 2 }, payload: { facilityId: 'shelter-2', status: 'open' } }),
+    ];
+    const bundle = await bundleOf(events);
+
+    expect(await engine.importBundle(bundle, KEY)).toMatchObject({ imported: 2, duplicates: 0, failed: 0 });
+    expect(store.events.map(event => event.id)).toEqual(events.map(event => event.id));
+    expect(await engine.importBundle(bundle, KEY)).toMatchObject({ imported: 0, duplicates: 2 });
+    expect(store.events).toHaveLength(2);
+  });
+
+  it('counts events that lost a conflict as duplicates when the bundle is imported again', async () => {
+    const local = approval('laptop-a', { 'laptop-a': 1 });
+    const store = createStore([local]);
+    const { engine } = createEngine(store);
+    const bundle = await bundleOf([approval('laptop-b', { 'laptop-b': 1 })]);
+
+    expect(await engine.importBundle(bundle, KEY)).toMatchObject({ imported: 1, duplicates: 0 });
+    expect(await engine.importBundle(bundle, KEY)).toMatchObject({ imported: 0, duplicates: 1 });
+    expect(store.events).toEqual([local]);
+    expect(store.conflicts).toHaveLength(1);
+  });
+});
+
+describe('SyncEngine delivery', () => {
+  function outboxItem(event: Event): OutboxItem {
+    return { eventId: event.id, event, status: 'pending', retryCount: 0, maxRetries: 5, nextRetryAt: 0, createdAt: 0 };
+  }
+  
+  async function deliver(failure: unknown) {
+    const items = [outboxItem(makeEvent({ correlationId: 'import-1' })), outboxItem(makeEvent({ correlationId: 'import-1' }))];
+    const store = {
+      getPendingOutbox: async () => items,
+      updateOutboxStatus: jest.fn(async () => undefined),
+      countDeadLetters: async () => 0,
+    };
+    const transport: SyncTransport = {
+      name: 'test',
+      ingest: jest.fn(async () => { throw failure; }),
+      fetchSince: async () => [],
+    };
+    const engine = new SyncEngine(store as unknown as LocalStore, {} as EventBus, { transport });
+    await (engine as unknown as { processOutbox(): Promise<void> }).processOutbox();
+    return { store, transport };
+  }
+  
+  it('dead-letters events the server rejects as invalid', async () => {
+    const { store, transport } = await deliver(new SyncRequestError('Sync ingest_events failed: 422', 422));
+    
+    // The batch, then each event on its own
+    expect(transport.ingest).toHaveBeenCalledTimes(3);
+    expect(store.updateOutboxStatus).toHaveBeenCalledTimes(2);
+    expect(store.updateOutboxStatus).toHaveBeenCalledWith(
+      expect.any(String), 'failed', expect.stringContaining('422'), expect.objectContaining({ permanent: true })
+    );
+  });
+  
+  it.each([
+    ['a server error', new SyncRequestError('Sync ingest_events failed: 503', 503)],
+    ['throttling', new SyncRequestError('Sync ingest_events failed: 429', 429)],
+    ['an expired token', new SyncRequestError('Sync ingest_events failed: 401', 401)],
+    ['a network failure', new TypeError('Failed to fetch')],
+  ])('retries with backoff after %s', async (_reason, failure) => {
+    const { store } = await deliver(failure);
+    
+    expect(store.updateOutboxStatus).toHaveBeenCalledTimes(2);
+    expect(store.updateOutboxStatus).toHaveBeenCalledWith(
+      expect.any(String), 'failed', expect.any(String), expect.objectContaining({ permanent: false, maxRetries: 5 })
+    );
+  });
+});
+
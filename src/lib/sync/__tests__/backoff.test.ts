@@ -0,0 +1,27 @@
+/**
+ * Retry Backoff Tests
+ *
+ * Validates the outbox retry schedule
+ */
+
+import { computeBackoffDelay, DEFAULT_BACKOFF_POLICY } from '../backoff';
+
+describe('computeBackoffDelay', () => {
+  const exact = { ...DEFAULT_BACKOFF_POLICY, jitter: 0 };
+
+  it('doubles the delay on each attempt', () => {
+    expect([0, 1, 2, 3].map(attempt => computeBackoffDelay(attempt, exact))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('caps the delay', () => {
+    expect(computeBackoffDelay(30, exact)).toBe(DEFAULT_BACKOFF_POLICY.maxDelayMs);
+  });
+
+  it('spreads retries within the jitter range', () => {
+    const policy = { ...DEFAULT_BACKOFF_POLICY, jitter: 0.5 };
+
+    expect(computeBackoffDelay(2, policy, () => 0)).toBe(4000);
+    expect(computeBackoffDelay(2, policy, () => 1)).toBe(2000);
+    expect(computeBackoffDelay(2, policy, () => 0.5)).toBe(3000);
+  });
+});
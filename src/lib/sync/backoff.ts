@@ -0,0 +1,36 @@
+/**
+ * Retry Backoff
+ *
+ * Jittered exponential backoff for outbox retries. Each failed item waits
+ * longer than the last, and the random spread keeps devices that lost
+ * signal together from all retrying at the same instant.
+ */
+
+export interface BackoffPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number; // 0 = exact delays, 1 = anywhere from 0 to the full delay
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+
+/**
+ * Delay before retry number `attempt` (0 = first retry)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: BackoffPolicy = DEFAULT_BACKOFF_POLICY,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const spread = capped * Math.min(1, Math.max(0, policy.jitter));
+
+  return Math.round(capped - spread * random());
+}
@@ -0,0 +1,41 @@
+/**
+ * Manual Weather Provider
+ *
+ * Conditions, forecast and alerts typed in by the planning section, for
+ * when there is no connectivity or the forecast comes from an EOC briefing.
+ */
+
+import { WeatherAlert, WeatherCondition, WeatherInfo } from '../../types';
+import { WeatherArea, WeatherProvider, filterAlertsToArea } from './WeatherProvider';
+
+export interface ManualWeatherEntry {
+  current?: WeatherCondition;
+  forecast?: WeatherCondition[];
+  alerts?: WeatherAlert[];
+  source?: string; // Who the forecast came from, e.g. "NWS Tampa Bay briefing"
+}
+
+export class ManualWeatherProvider implements WeatherProvider {
+  readonly name = 'manual';
+  private entry: ManualWeatherEntry;
+  private enteredAt: Date;
+
+  constructor(entry: ManualWeatherEntry, enteredAt: Date = new Date()) {
+    this.entry = entry;
+    this.enteredAt = enteredAt;
+  }
+
+  async getWeather(area: WeatherArea): Promise<WeatherInfo> {
+    return {
+      current: this.entry.current,
+      forecast: this.entry.forecast || [],
+      // Alerts typed without a county or area apply to the whole operation
+      alerts: [
+        ...filterAlertsToArea((this.entry.alerts || []).filter(alert => alert.areas?.length || alert.countyFips?.length), area),
+        ...(this.entry.alerts || []).filter(alert => !alert.areas?.length && !alert.countyFips?.length),
+      ],
+      source: this.entry.source?.trim() || 'Manual entry',
+      updatedAt: this.enteredAt,
+    };
+  }
+}
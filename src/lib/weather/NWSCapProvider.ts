@@ -0,0 +1,173 @@
+/**
+ * NWS CAP/ATOM Weather Provider
+ *
+ * Reads National Weather Service alerts from saved CAP 1.2 messages or ATOM
+ * alert feeds (api.weather.gov/alerts/active.atom, or the per-state feeds).
+ * Files are loaded by hand so this works offline in the field; nothing is
+ * fetched. Tests, exercises, cancellations and expired alerts are dropped.
+ */
+
+import { WeatherAlert, WeatherInfo } from '../../types';
+import { WeatherArea, WeatherProvider, filterAlertsToArea, severityOfEvent } from './WeatherProvider';
+
+export class NWSCapProvider implements WeatherProvider {
+  readonly name = 'nws-cap';
+  private documents: string[];
+  private now: () => Date;
+
+  constructor(documents: string[], now: () => Date = () => new Date()) {
+    this.documents = documents;
+    this.now = now;
+  }
+
+  async getWeather(area: WeatherArea): Promise<WeatherInfo> {
+    const now = this.now();
+    const alerts = this.documents
+      .flatMap(xml => parseNWSAlerts(xml))
+      .filter(alert => new Date(alert.endTime).getTime() > now.getTime());
+
+    return {
+      forecast: [],
+      alerts: filterAlertsToArea(dedupe(alerts), area),
+      source: 'National Weather Service alerts',
+      updatedAt: now,
+    };
+  }
+}
+
+/**
+ * Parse a CAP 1.2 alert or an ATOM feed of alerts. Throws if the text is not
+ * XML or is neither format.
+ */
+export function parseNWSAlerts(xml: string): WeatherAlert[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName === 'parsererror' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Weather alert file is not valid XML');
+  }
+
+  switch (root.localName) {
+    case 'feed':
+      return children(root, 'entry').flatMap(entry => parseAtomEntry(entry));
+    case 'alert':
+      return parseCapAlert(root);
+    default:
+      throw new Error(`Weather alert file is not a CAP alert or ATOM feed (found <${root.localName}>)`);
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parseAtomEntry(entry: Element): WeatherAlert[] {
+  // Some feeds embed the full CAP message in the entry content
+  const embedded = descendant(entry, 'alert');
+  if (embedded) return parseCapAlert(embedded);
+
+  if (!isActual(text(entry, 'status'), text(entry, 'msgType'))) return [];
+  const event = text(entry, 'event') || text(entry, 'title');
+  if (!event) return [];
+
+  return [{
+    type: event,
+    severity: severityOfEvent(event),
+    headline: text(entry, 'title') || event,
+    description: text(entry, 'summary'),
+    areas: splitAreas(text(entry, 'areaDesc')),
+    countyFips: countyFipsFrom(descendants(entry, 'geocode')),
+    startTime: date(text(entry, 'onset') || text(entry, 'effective') || text(entry, 'updated')),
+    endTime: date(text(entry, 'ends') || text(entry, 'expires')),
+  }];
+}
+
+function parseCapAlert(alert: Element): WeatherAlert[] {
+  if (!isActual(text(alert, 'status', false), text(alert, 'msgType', false))) return [];
+
+  const infos = children(alert, 'info');
+  const info = infos.find(candidate => /^en/i.test(text(candidate, 'language') || 'en-US')) || infos[0];
+  if (!info) return [];
+
+  const event = text(info, 'event');
+  if (!event) return [];
+  const areas = children(info, 'area');
+
+  return [{
+    type: event,
+    severity: severityOfEvent(event),
+    headline: text(info, 'headline') || event,
+    description: text(info, 'description'),
+    instruction: text(info, 'instruction') || undefined,
+    areas: areas.flatMap(area => splitAreas(text(area, 'areaDesc'))),
+    countyFips: countyFipsFrom(areas.flatMap(area => children(area, 'geocode'))),
+    startTime: date(text(info, 'onset') || text(info, 'effective') || text(alert, 'sent', false)),
+    endTime: date(text(info, 'ends') || text(info, 'expires')),
+  }];
+}
+
+function isActual(status: string, msgType: string): boolean {
+  return (!status || status === 'Actual') && msgType !== 'Cancel';
+}
+
+/**
+ * County FIPS codes from SAME or FIPS6 geocodes ("012101" -> "12101")
+ */
+function countyFipsFrom(geocodes: Element[]): string[] {
+  const codes: string[] = [];
+  geocodes.forEach(geocode => {
+    let valueName = '';
+    Array.from(geocode.children).forEach(node => {
+      if (node.localName === 'valueName') {
+        valueName = (node.textContent || '').trim().toUpperCase();
+      } else if (node.localName === 'value' && (valueName === 'SAME' || valueName === 'FIPS6')) {
+        (node.textContent || '').trim().split(/\s+/).forEach(code => {
+          if (/^\d{6}$/.test(code)) codes.push(code.slice(1));
+        });
+      }
+    });
+  });
+  return [...new Set(codes)];
+}
+
+function splitAreas(areaDesc: string): string[] {
+  return areaDesc.split(';').map(area => area.trim()).filter(Boolean);
+}
+
+// The same alert often arrives in more than one file; keep the latest issue
+function dedupe(alerts: WeatherAlert[]): WeatherAlert[] {
+  const byKey = new Map<string, WeatherAlert>();
+  alerts.forEach(alert => {
+    const key = `${alert.type}|${(alert.countyFips || alert.areas || []).join(',')}`;
+    const existing = byKey.get(key);
+    if (!existing || new Date(alert.startTime) >= new Date(existing.startTime)) {
+      byKey.set(key, alert);
+    }
+  });
+  return Array.from(byKey.values());
+}
+
+function date(value: string): Date {
+  const parsed = value ? new Date(value) : new Date(NaN);
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`Weather alert has an unreadable date: "${value}"`);
+  }
+  return parsed;
+}
+
+function children(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(node => node.localName === localName);
+}
+
+function descendants(parent: Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter(node => node.localName === localName);
+}
+
+function descendant(parent: Element, localName: string): Element | undefined {
+  return descendants(parent, localName)[0];
+}
+
+// Text of the first matching element; direct children only when `deep` is false
+function text(parent: Element, localName: string, deep = true): string {
+  const node = deep ? descendant(parent, localName) : children(parent, localName)[0];
+  return (node?.textContent || '').trim();
+}
@@ -0,0 +1,167 @@
+/**
+ * Weather Provider
+ *
+ * Where the IAP weather section gets its forecast and alerts. Every provider
+ * answers for an area (the operation's counties) and returns only alerts
+ * that touch it. The 202 weather summary and safety message are written from
+ * whatever the provider returns.
+ */
+
+import { County, WeatherAlert, WeatherCondition, WeatherInfo } from '../../types';
+
+export interface WeatherArea {
+  counties: County[];
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getWeather(area: WeatherArea): Promise<WeatherInfo>;
+}
+
+const SEVERITY_ORDER: WeatherAlert['severity'][] = ['warning', 'watch', 'advisory'];
+
+/**
+ * Alerts that cover at least one of the area's counties. Alerts carrying
+ * FIPS codes are matched on those; otherwise on county names in the area
+ * description, in the county's state. An area without a state ("Coastal
+ * Pasco") takes the alert's only state, if it names one. Throws when the
+ * area has no counties, since every alert would silently drop.
+ */
+export function filterAlertsToArea(alerts: WeatherAlert[], area: WeatherArea): WeatherAlert[] {
+  if (alerts.length > 0 && area.counties.length === 0) {
+    throw new Error('The operation has no counties set, so alerts cannot be matched to it. Add its counties first.');
+  }
+  const fips = new Set(area.counties.map(county => county.fips.padStart(5, '0')));
+
+  return alerts
+    .filter(alert => {
+      if (alert.countyFips?.length) {
+        return alert.countyFips.some(code => fips.has(code));
+      }
+      const areas = alert.areas || [];
+      const states = new Set(areas.map(stateOfArea).filter(Boolean));
+      const alertState = states.size === 1 ? [...states][0] : undefined;
+      return areas.some(description => {
+        const state = stateOfArea(description) || alertState;
+        return area.counties.some(county =>
+          (!state || state === county.state.toUpperCase()) &&
+          new RegExp(`\\b${escapeRegExp(county.name)}\\b`, 'i').test(description)
+        );
+      });
+    })
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+/**
+ * Combine reports from several providers: the first report with current
+ * conditions and a forecast wins for those, alerts are pooled.
+ */
+export function mergeWeather(reports: WeatherInfo[]): WeatherInfo {
+  if (reports.length === 0) {
+    throw new Error('No weather reports to combine');
+  }
+  return {
+    current: reports.find(report => report.current)?.current,
+    forecast: reports.find(report => report.forecast.length > 0)?.forecast || [],
+    alerts: reports.flatMap(report => report.alerts || [])
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)),
+    source: [...new Set(reports.map(report => report.source))].join(' + '),
+    updatedAt: new Date(Math.max(...reports.map(report => new Date(report.updatedAt).getTime()))),
+  };
+}
+
+/**
+ * Alert severity from the NWS event name ("Hurricane Warning", "Flood Watch")
+ */
+export function severityOfEvent(event: string): WeatherAlert['severity'] {
+  if (/warning|emergency/i.test(event)) return 'warning';
+  if (/watch/i.test(event)) return 'watch';
+  return 'advisory';
+}
+
+/**
+ * The ICS 202 weather summary: conditions now, the outlook, and active alerts
+ */
+export function summarizeWeather(weather: WeatherInfo): string {
+  const lines: string[] = [];
+  if (weather.current) {
+    lines.push(`Current: ${describeCondition(weather.current)}.`);
+  }
+  if (weather.forecast.length > 0) {
+    lines.push(`Forecast: ${weather.forecast.map(condition => `${formatWhen(condition.dateTime)} ${describeCondition(condition)}`).join('; ')}.`);
+  }
+  const alerts = weather.alerts || [];
+  if (alerts.length > 0) {
+    lines.push(`Active alerts: ${[...new Set(alerts.map(alert => alert.type))].join(', ')}.`);
+  } else {
+    lines.push('No watches, warnings or advisories for the operation area.');
+  }
+  lines.push(`Source: ${weather.source}, updated ${formatWhen(weather.updatedAt)}.`);
+  return lines.join('\n');
+}
+
+/**
+ * The ICS 202 safety message: protective actions for each active alert,
+ * most severe first, plus heat and wind cautions from the forecast.
+ */
+export function weatherSafetyMessage(weather: WeatherInfo): string {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  for (const alert of weather.alerts || []) {
+    if (seen.has(alert.type)) continue;
+    seen.add(alert.type);
+    const action = alert.instruction?.trim() || defaultInstruction(alert);
+    lines.push(`${alert.type} until ${formatWhen(alert.endTime)}: ${action}`);
+  }
+
+  const conditions = [weather.current, ...weather.forecast].filter(Boolean) as WeatherCondition[];
+  if (conditions.some(condition => condition.temperature >= 90)) {
+    lines.push('Heat: hydrate, take breaks in shade and watch for heat illness in staff and clients.');
+  }
+  if (conditions.some(condition => condition.windSpeed >= 40)) {
+    lines.push('High winds: no ERV or box truck travel on bridges or causeways; secure loose equipment.');
+  }
+
+  return lines.join('\n');
+}
+
+function defaultInstruction(alert: WeatherAlert): string {
+  switch (alert.severity) {
+    case 'warning':
+      return 'Follow local officials, keep staff off the roads in the affected area and confirm every team is accounted for.';
+    case 'watch':
+      return 'Be ready to move staff and clients; check evacuation routes and fuel vehicles.';
+    default:
+      return 'Use caution when traveling in the affected area.';
+  }
+}
+
+function describeCondition(condition: WeatherCondition): string {
+  const parts = [
+    condition.conditions,
+    `${Math.round(condition.temperature)}°F`,
+    `wind ${condition.windDirection} ${Math.round(condition.windSpeed)} mph`.replace('  ', ' '),
+  ];
+  if (condition.precipitation > 0) parts.push(`${condition.precipitation}% chance of rain`);
+  return parts.filter(Boolean).join(', ');
+}
+
+function formatWhen(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// NWS area descriptions end in the state code: "Pinellas, FL"
+function stateOfArea(description: string): string | undefined {
+  return /,\s*([A-Za-z]{2})\s*$/.exec(description)?.[1].toUpperCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
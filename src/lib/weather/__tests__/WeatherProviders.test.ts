@@ -0,0 +1,190 @@
+/**
+ * Weather Provider Tests
+ *
+ * Validates NWS CAP and ATOM parsing, filtering alerts to the operation's
+ * counties, and the ICS 202 weather summary and safety message
+ */
+
+import { ManualWeatherProvider } from '../ManualWeatherProvider';
+import { NWSCapProvider, parseNWSAlerts } from '../NWSCapProvider';
+import { filterAlertsToArea, mergeWeather, summarizeWeather, weatherSafetyMessage } from '../WeatherProvider';
+import type { County, WeatherAlert } from '../../../types';
+
+const COUNTIES: County[] = [
+  { id: 'hillsborough', name: 'Hillsborough', state: 'FL', fips: '12057' },
+  { id: 'pinellas', name: 'Pinellas', state: 'FL', fips: '12103' },
+];
+
+const NOW = new Date('2025-10-09T12:00:00Z');
+
+const capAlert = (event: string, same: string, overrides: { status?: string; msgType?: string; expires?: string } = {}) => `<?xml version="1.0" encoding="UTF-8"?>
+<alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+  <identifier>NWS-${event}</identifier>
+  <sent>2025-10-09T06:00:00-04:00</sent>
+  <status>${overrides.status || 'Actual'}</status>
+  <msgType>${overrides.msgType || 'Alert'}</msgType>
+  <info>
+    <language>en-US</language>
+    <event>${event}</event>
+    <effective>2025-10-09T06:00:00-04:00</effective>
+    <expires>${overrides.expires || '2025-10-10T06:00:00-04:00'}</expires>
+    <headline>${event} issued by NWS Tampa Bay</headline>
+    <description>Hazardous conditions expected.</description>
+    <instruction>Move to higher ground now.</instruction>
+    <area>
+      <areaDesc>Coastal Hillsborough; Coastal Manatee</areaDesc>
+      <geocode><valueName>SAME</valueName><value>${same}</value></geocode>
+    </area>
+  </info>
+</alert>`;
+
+const ATOM_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:cap="urn:oasis:names:tc:emergency:cap:1.2">
+  <entry>
+    <title>Flood Watch issued October 9 by NWS Tampa Bay</title>
+    <summary>Heavy rain may cause flooding.</summary>
+    <cap:event>Flood Watch</cap:event>
+    <cap:effective>2025-10-09T08:00:00-04:00</cap:effective>
+    <cap:expires>2025-10-11T08:00:00-04:00</cap:expires>
+    <cap:status>Actual</cap:status>
+    <cap:msgType>Alert</cap:msgType>
+    <cap:areaDesc>Pinellas; Pasco</cap:areaDesc>
+  </entry>
+  <entry>
+    <title>Heat Advisory issued October 9 by NWS Miami</title>
+    <cap:event>Heat Advisory</cap:event>
+    <cap:effective>2025-10-09T08:00:00-04:00</cap:effective>
+    <cap:expires>2025-10-09T20:00:00-04:00</cap:expires>
+    <cap:status>Actual</cap:status>
+    <cap:msgType>Alert</cap:msgType>
+    <cap:areaDesc>Miami-Dade</cap:areaDesc>
+  </entry>
+</feed>`;
+
+describe('parseNWSAlerts', () => {
+  it('reads a CAP alert with SAME codes as county FIPS', () => {
+    const [alert] = parseNWSAlerts(capAlert('Storm Surge Warning', '012057'));
+
+    expect(alert.type).toBe('Storm Surge Warning');
+    expect(alert.severity).toBe('warning');
+    expect(alert.instruction).toBe('Move to higher ground now.');
+    expect(alert.areas).toEqual(['Coastal Hillsborough', 'Coastal Manatee']);
+    expect(alert.countyFips).toEqual(['12057']);
+    expect(alert.endTime).toEqual(new Date('2025-10-10T10:00:00Z'));
+  });
+
+  it('reads every entry of an ATOM feed', () => {
+    const alerts = parseNWSAlerts(ATOM_FEED);
+
+    expect(alerts.map(alert => alert.type)).toEqual(['Flood Watch', 'Heat Advisory']);
+    expect(alerts[0].severity).toBe('watch');
+    expect(alerts[0].areas).toEqual(['Pinellas', 'Pasco']);
+  });
+
+  it('skips tests and cancellations, and rejects files that are not alerts', () => {
+    expect(parseNWSAlerts(capAlert('Tornado Warning', '012057', { status: 'Test' }))).toEqual([]);
+    expect(parseNWSAlerts(capAlert('Tornado Warning', '012057', { msgType: 'Cancel' }))).toEqual([]);
+    expect(() => parseNWSAlerts('<html><body>not an alert</body></html>')).toThrow(/not a CAP alert or ATOM feed/);
+    expect(() => parseNWSAlerts('not xml at all')).toThrow(/not valid XML/);
+  });
+});
+
+describe('NWSCapProvider', () => {
+  it('keeps unexpired alerts for the operation counties, most severe first', async () => {
+    const provider = new NWSCapProvider([
+      ATOM_FEED,
+      capAlert('Storm Surge Warning', '012057'),
+      capAlert('Hurricane Warning', '012086'),
+      capAlert('Wind Advisory', '012103', { expires: '2025-10-09T07:00:00-04:00' }),
+    ], () => NOW);
+
+    const weather = await provider.getWeather({ counties: COUNTIES });
+
+    expect(weather.alerts!.map(alert => alert.type)).toEqual(['Storm Surge Warning', 'Flood Watch']);
+  });
+});
+
+describe('filterAlertsToArea', () => {
+  it('matches county names as whole words when an alert has no FIPS codes', () => {
+    const alert = (areas: string[]): WeatherAlert => ({
+      type: 'Flood Advisory',
+      severity: 'advisory',
+      headline: '',
+      description: '',
+      areas,
+      startTime: NOW,
+      endTime: NOW,
+    });
+
+    const kept = filterAlertsToArea([alert(['Inland Pinellas']), alert(['Pinellasville Marine'])], { counties: COUNTIES });
+
+    expect(kept).toHaveLength(1);
+    expect(kept[0].areas).toEqual(['Inland Pinellas']);
+  });
+
+  it('matches county names in their own state', () => {
+    const alert = (areas: string[]): WeatherAlert => ({
+      type: 'Flood Warning',
+      severity: 'warning',
+      headline: areas.join('; '),
+      description: '',
+      areas,
+      startTime: NOW,
+      endTime: NOW,
+    });
+    const washington: County[] = [{ id: 'washington', name: 'Washington', state: 'FL', fips: '12133' }];
+
+    const kept = filterAlertsToArea([
+      alert(['Washington, GA', 'Wilkes, GA']),
+      alert(['Washington, FL', 'Holmes, FL']),
+      alert(['Inland Washington', 'Bay, FL']),
+      alert(['Inland Washington', 'Clark, WA']),
+    ], { counties: washington });
+
+    // An area without a state takes the alert's state
+    expect(kept.map(entry => entry.headline)).toEqual(['Washington, FL; Holmes, FL', 'Inland Washington; Bay, FL']);
+  });
+
+  it('refuses to filter when the operation has no counties', () => {
+    const alerts = parseNWSAlerts(capAlert('Storm Surge Warning', '012057'));
+
+    expect(() => filterAlertsToArea(alerts, { counties: [] })).toThrow('no counties');
+    expect(filterAlertsToArea([], { counties: [] })).toEqual([]);
+  });
+});
+
+describe('ICS 202 weather text', () => {
+  it('summarizes conditions and alerts and writes protective actions', async () => {
+    const manual = await new ManualWeatherProvider({
+      current: {
+        dateTime: NOW,
+        conditions: 'Sunny',
+        temperature: 94,
+        humidity: 70,
+        windSpeed: 10,
+        windDirection: 'SW',
+        precipitation: 0,
+      },
+      source: 'EOC briefing',
+    }, NOW).getWeather({ counties: COUNTIES });
+    const nws = await new NWSCapProvider([capAlert('Storm Surge Warning', '012057')], () => NOW)
+      .getWeather({ counties: COUNTIES });
+
+    const weather = mergeWeather([manual, nws]);
+    const summary = summarizeWeather(weather);
+    const safety = weatherSafetyMessage(weather);
+
+    expect(weather.source).toBe('EOC briefing + National Weather Service alerts');
+    expect(summary).toContain('Current: Sunny, 94°F, wind SW 10 mph.');
+    expect(summary).toContain('Active alerts: Storm Surge Warning.');
+    expect(safety).toContain('Storm Surge Warning until');
+    expect(safety).toContain('Move to higher ground now.');
+    expect(safety).toContain('Heat:');
+  });
+
+  it('says when no alerts are in effect', () => {
+    const summary = summarizeWeather({ forecast: [], alerts: [], source: 'Manual entry', updatedAt: NOW });
+
+    expect(summary).toContain('No watches, warnings or advisories for the operation area.');
+  });
+});
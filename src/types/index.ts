@@ -49,6 +49,12 @@ export interface OperationGeography {
   counties: County[];
   chapters: Chapter[];
   headquarters?: Location;
+  countySet?: CountySetState; // OR-Set backing `counties` (see lib/sync/ORSet)
+}
+
+export interface CountySetState {
+  entries: { [countyId: string]: { [tag: string]: County } };
+  tombstones: string[];
 }
 
 export interface OperationMetadata {
@@ -57,6 +63,7 @@ export interface OperationMetadata {
   serviceLinesActivated: ServiceLine[];
   externalPartners?: string[];
   notes?: string;
+  iapTemplate?: IAPTemplate;
 }
 
 // Geographic Types
@@ -177,6 +184,8 @@ export interface ICSPosition {
 }
 
 // IAP Types
+export type IAPStatus = 'draft' | 'in_review' | 'approved' | 'published' | 'archived';
+
 export interface IAPDocument {
   id: string;
   operationId: string;
@@ -185,9 +194,11 @@ export interface IAPDocument {
     start: Date;
     end: Date;
   };
-  status: 'draft' | 'published' | 'archived';
+  status: IAPStatus;
   createdAt: Date;
   createdBy: string;
+  previousIapId?: string; // Set when rolled over from the prior period
+  review?: IAPReview;
   publishedAt?: Date;
   publishedBy?: string;
   sections: IAPSections;
@@ -195,6 +206,58 @@ export interface IAPDocument {
   version: number;
 }
 
+// Sign-off trail; names match the cover page's preparedBy / approvedBy
+export interface IAPReview {
+  preparedBy: string;
+  approvedBy: string;
+  submittedAt: Date;
+  approvedAt?: Date;
+  returnedAt?: Date;
+  returnedBy?: string;
+  returnReason?: string;
+}
+
+// IAP layout chosen per operation: which sections print, in what order
+export type IAPTemplateSectionId =
+  | 'cover'
+  | 'directors_message'
+  | 'contact_roster'
+  | 'org_chart'
+  | 'priorities'
+  | 'weather'
+  | 'sheltering'
+  | 'feeding'
+  | 'government_ops'
+  | 'damage_assessment'
+  | 'distribution'
+  | 'individual_care'
+  | 'assignment_list'
+  | 'planning_worksheet'
+  | 'comms_plan'
+  | 'medical_plan'
+  | 'work_sites'
+  | 'daily_schedule'
+  | 'maps'
+  | 'appendices'
+  | 'annex';
+
+export type IAPPageBreak = 'before' | 'none'; // Start on a new page, or continue the previous one
+
+export interface IAPTemplateSection {
+  id: IAPTemplateSectionId;
+  enabled: boolean;
+  header?: string; // Replaces the default section title
+  pageBreak?: IAPPageBreak; // Defaults to 'before'
+  annexCategory?: AncillaryCategory; // Annexes print the IAP's ancillary content of this category
+}
+
+export interface IAPTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: IAPTemplateSection[];
+}
+
 export interface IAPSections {
   coverPage: IAPCoverPage;
   incidentObjectives: ICSForm202;
@@ -284,6 +347,10 @@ export interface ICSForm205 {
     end: Date;
   };
   basicRadioChannel: RadioChannel[];
+  talkgroups?: Talkgroup[];
+  phoneBridges?: PhoneBridge[];
+  satellitePhones?: SatellitePhone[];
+  callSigns?: RadioCallSign[]; // Filled from personnel radio call signs
   telephoneNumbers: EmergencyContact[];
   preparedBy: string;
   dateTime: Date;
@@ -297,6 +364,33 @@ export interface RadioChannel {
   remarks?: string;
 }
 
+export interface Talkgroup {
+  name: string;
+  system: string; // e.g. statewide 800 MHz trunked system
+  assignment: string;
+  remarks?: string;
+}
+
+export interface PhoneBridge {
+  name: string;
+  dialIn: string;
+  accessCode?: string;
+  schedule?: string;
+}
+
+export interface SatellitePhone {
+  position: string;
+  name: string;
+  number: string;
+}
+
+export interface RadioCallSign {
+  callSign: string;
+  name: string;
+  position?: string;
+  section?: string;
+}
+
 export interface EmergencyContact {
   position: string;
   name: string;
@@ -307,11 +401,19 @@ export interface ICSForm206 {
   medicalAidStations: MedicalFacility[];
   ambulanceServices: AmbulanceService[];
   hospitals: Hospital[];
+  facilityHospitals?: FacilityHospitals[]; // Nearest hospitals to each open facility
   emergencyProcedures: string;
   preparedBy: string;
   dateTime: Date;
 }
 
+export interface FacilityHospitals {
+  facilityId: string;
+  facilityName: string;
+  address?: string;
+  hospitals: Hospital[]; // Nearest first; empty when the facility has no coordinates
+}
+
 export interface MedicalFacility {
   name: string;
   location: string;
@@ -331,6 +433,7 @@ export interface Hospital {
   address: string;
   contact: string;
   travelTime: string; // air/ground
+  distanceMiles?: number; // Straight-line distance from the facility
   traumaCenter: boolean;
   burnCenter: boolean;
   helipad: boolean;
@@ -342,10 +445,23 @@ export interface ICSForm215 {
   generalSituationalAwareness: string;
   meetings: ScheduledMeeting[];
   attachments: string[];
+  resourceWorksheet?: ResourceWorksheetRow[]; // Required / have / need per work location
   preparedBy: string;
   dateTime: Date;
 }
 
+export interface ResourceWorksheetRow {
+  facilityId: string;
+  facilityName: string;
+  resourceKind: string; // e.g. "Cots", "Shelter Supervisors"
+  category: 'personnel' | 'supplies' | 'equipment';
+  unit: string;
+  required: number;
+  have: number;
+  need: number;
+  basis: string; // What required was calculated from, e.g. "Shelter standards, 250 clients"
+}
+
 export interface ScheduledMeeting {
   dateTime: Date;
   purpose: string;
@@ -362,7 +478,7 @@ export interface RichTextContent {
 }
 
 export interface WeatherInfo {
-  current: WeatherCondition;
+  current?: WeatherCondition; // Alert-only sources have no observations
   forecast: WeatherCondition[];
   alerts?: WeatherAlert[];
   source: string;
@@ -375,7 +491,7 @@ export interface WeatherCondition {
   humidity: number;
   windSpeed: number;
   windDirection: string;
-  precipitation: number;
+  precipitation: number; // Chance of precipitation, %
   conditions: string;
 }
 
@@ -384,6 +500,9 @@ export interface WeatherAlert {
   severity: 'watch' | 'warning' | 'advisory';
   headline: string;
   description: string;
+  instruction?: string; // Protective actions from the issuing office
+  areas?: string[]; // Area descriptions, e.g. "Coastal Pasco"
+  countyFips?: string[]; // 5-digit county FIPS codes the alert covers
   startTime: Date;
   endTime: Date;
 }
@@ -418,6 +537,7 @@ export interface SetupWizardState {
     geography?: OperationGeography;
     staffing?: InitialStaffing;
     resources?: ResourceRequirements;
+    iapTemplate?: IAPTemplate; // Unset when IAP generation is turned off
   };
   validation: {
     [step: number]: ValidationResult;
@@ -659,6 +779,138 @@ export interface WorkAssignment {
   notes?: string;
 }
 
+// Discipline Console Work Assignments
+export type DisciplineId =
+  | 'sheltering'
+  | 'feeding'
+  | 'bulk_distribution'
+  | 'disaster_health'
+  | 'mental_health'
+  | 'individual_care';
+
+export interface DisciplineAssignment {
+  id: string;
+  discipline: DisciplineId;
+  operationalPeriod: string;
+  site: {
+    name: string;
+    type: string;
+    address: string;
+    county: string;
+    capacity: number; // Clients, meals per day or households, depending on the discipline
+  };
+  personnel: {
+    positions: DisciplinePositionRow[];
+  };
+  assets: {
+    items: DisciplineAssetRow[];
+  };
+  status: 'draft' | 'submitted' | 'approved';
+  createdBy: string;
+  updatedAt: string;
+  submittedBy?: string;
+  approvedBy?: string;
+}
+
+export interface DisciplinePositionRow {
+  code: string; // GAP code
+  title: string;
+  required: number;
+  have: number;
+  gap: number;
+  dayLead?: string;
+  nightLead?: string;
+}
+
+export interface DisciplineAssetRow {
+  code: string;
+  name: string;
+  unit: string;
+  required: number;
+  have: number;
+  gap: number;
+}
+
+// Shelter Census (counts only - no resident details are recorded)
+export type ShelterCensusEntryKind = 'check_in' | 'check_out' | 'headcount';
+
+export interface ShelterCensusEntry {
+  id: string; // Event id
+  kind: ShelterCensusEntryKind;
+  count: number;
+  recordedAt: string;
+  recordedBy: string;
+}
+
+export interface ShelterCensus {
+  facilityId: string;
+  facilityName: string;
+  population: number;
+  entries: ShelterCensusEntry[]; // Oldest first
+  lastHeadcount?: ShelterCensusEntry;
+  updatedAt: string;
+}
+
+export interface CensusTrendPoint {
+  at: string;
+  population: number;
+}
+
+export interface DailyPopulationRow {
+  facilityId: string;
+  facilityName: string;
+  county: string;
+  capacity: number;
+  startPopulation: number;
+  checkIns: number;
+  checkOuts: number;
+  overnightHeadcount?: number;
+  endPopulation: number;
+  peakPopulation: number;
+  occupancyPercent: number;
+}
+
+export interface DailyPopulationReport {
+  date: string; // YYYY-MM-DD, local day
+  generatedAt: string;
+  shelters: DailyPopulationRow[];
+  totals: {
+    capacity: number;
+    checkIns: number;
+    checkOuts: number;
+    endPopulation: number;
+    occupancyPercent: number;
+  };
+}
+
+// Shelter Standards Compliance Monitoring
+export type ComplianceRule =
+  | 'space'
+  | 'toilets'
+  | 'handwash_stations'
+  | 'cots'
+  | 'supervisors'
+  | 'shelter_workers'
+  | 'overnight_supervisor';
+
+export interface ComplianceFinding {
+  facilityId: string;
+  facilityName: string;
+  rule: ComplianceRule;
+  severity: 'warning' | 'critical';
+  message: string;
+  required: number;
+  have: number;
+  gapType: 'personnel' | 'equipment' | 'supplies' | 'space';
+  gapCategory: string;
+}
+
+export interface ComplianceAlert extends ComplianceFinding {
+  id: string;
+  raisedAt: string;
+  updatedAt: string;
+}
+
 // Enhanced IAP Document Structure (53-Page System)
 export interface EnhancedIAPDocument extends IAPDocument {
   facilityData: IAPFacilityData;
@@ -829,6 +1081,24 @@ export interface PreviousPeriodStatus {
   lessonsLearned: string[];
 }
 
+// Content a new operational period inherits from the previous IAP
+export interface IAPCarryForward {
+  previousIapId: string;
+  previousIapNumber: number;
+  coverPage: Pick<IAPCoverPage, 'operationName' | 'operationNumber' | 'distributionList'>;
+  objectives: string[];
+  priorities: string[];
+  incidentPriorities: IncidentPriorities;
+  organizationChart: EnhancedOrgChart;
+  workAssignments: string[];
+  resources: ResourceAssignment[];
+  carryForwardItems: CarryForwardItem[];
+  completedObjectives: CompletedObjective[];
+  dailySchedule: DailySchedule;
+  communicationsPlan?: ICSForm205;
+  medicalPlan?: ICSForm206;
+}
+
 export interface CompletedObjective {
   id: string;
   description: string;
@@ -964,6 +1234,7 @@ export interface IAPSnapshot {
   generatedBy: string;
   isLocked: boolean;
   distributionList: string[];
+  contentHash?: string; // SHA-256 of the frozen content, see hashIAPContent
 }
 
 export interface ServiceLineSummary {
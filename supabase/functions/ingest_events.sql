@@ -10,7 +10,7 @@ begin
     insert into event_store.events (
       id, type, schema_version,
       actor_id, device_id, session_id, operation_id,
-      ts_ms, occurred_at, sequence,
+      ts_ms, occurred_at, sequence, vector_clock,
       payload,
       causation_id, correlation_id,
       hash, previous_hash
@@ -25,6 +25,7 @@ begin
       (_e->>'timestamp')::bigint,
       event_store.ms_to_timestamptz((_e->>'timestamp')::bigint),
       nullif(_e->>'sequence','')::int,
+      _e->'vectorClock',
       _e->'payload',
       nullif(_e->>'causationId','')::uuid,
       nullif(_e->>'correlationId','')::uuid,
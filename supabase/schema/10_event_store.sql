@@ -16,6 +16,7 @@ create table if not exists event_store.events (
   ts_ms bigint not null,             -- client timestamp (ms since epoch)
   occurred_at timestamptz not null,  -- derived from ts_ms
   sequence int,
+  vector_clock jsonb,                -- per-device logical clock for causal ordering
 
   -- Payload
   payload jsonb not null,
@@ -33,6 +34,9 @@ create table if not exists event_store.events (
   source text default 'client'
 );
 
+-- Columns added after the initial schema
+alter table event_store.events add column if not exists vector_clock jsonb;
+
 create index if not exists events_operation_time on event_store.events (operation_id, occurred_at);
 create index if not exists events_type on event_store.events (type);
 create index if not exists events_correlation on event_store.events (correlation_id);